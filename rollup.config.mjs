@@ -70,8 +70,11 @@ function bundle(input, output, isMain, external = []) {
 const mainBundles = [
   bundle("main/main.ts", "main.js", true, [
     "electron",
+    "crypto",
+    "dgram",
     "electron-fetch",
     "fs",
+    "http",
     "jsonfile",
     "net",
     "os",
@@ -83,16 +86,30 @@ const mainBundles = [
   ]),
   bundle("preload.ts", "preload.js", true, ["electron"])
 ];
-const largeRendererBundles = [bundle("hub/hub.ts", "hub.js", false), bundle("satellite.ts", "satellite.js", false)];
+const largeRendererBundles = [
+  bundle("hub/hub.ts", "hub.js", false),
+  bundle("satellite.ts", "satellite.js", false),
+  bundle("headlessExport.ts", "headlessExport.js", false)
+];
 const smallRendererBundles = [
   bundle("editRange.ts", "editRange.js", false),
   bundle("unitConversion.ts", "unitConversion.js", false),
   bundle("renameTab.ts", "renameTab.js", false),
+  bundle("editTableSearch.ts", "editTableSearch.js", false),
+  bundle("editComputedField.ts", "editComputedField.js", false),
+  bundle("editAnnotation.ts", "editAnnotation.js", false),
+  bundle("editEventRule.ts", "editEventRule.js", false),
+  bundle("editAlertRule.ts", "editAlertRule.js", false),
+  bundle("editTuningValue.ts", "editTuningValue.js", false),
+  bundle("saveTuningPreset.ts", "saveTuningPreset.js", false),
+  bundle("editTimeOffset.ts", "editTimeOffset.js", false),
+  bundle("editLiveRobots.ts", "editLiveRobots.js", false),
   bundle("editFov.ts", "editFov.js", false),
   bundle("sourceListHelp.ts", "sourceListHelp.js", false),
   bundle("betaWelcome.ts", "betaWelcome.js", false),
   bundle("export.ts", "export.js", false),
   bundle("download.ts", "download.js", false),
+  bundle("batchReport.ts", "batchReport.js", false),
   bundle("preferences.ts", "preferences.js", false),
   bundle("licenses.ts", "licenses.js", false)
 ];
@@ -100,7 +117,10 @@ const workerBundles = [
   bundle("hub/dataSources/rlog/rlogWorker.ts", "hub$rlogWorker.js", false),
   bundle("hub/dataSources/wpilog/wpilogWorker.ts", "hub$wpilogWorker.js", false),
   bundle("hub/dataSources/dslog/dsLogWorker.ts", "hub$dsLogWorker.js", false),
+  bundle("hub/dataSources/mcap/mcapWorker.ts", "hub$mcapWorker.js", false),
+  bundle("hub/dataSources/csv/csvWorker.ts", "hub$csvWorker.js", false),
   bundle("hub/exportWorker.ts", "hub$exportWorker.js", false),
+  bundle("hub/alignWorker.ts", "hub$alignWorker.js", false),
   bundle("shared/renderers/threeDimension/workers/loadField.ts", "shared$loadField.js", false),
   bundle("shared/renderers/threeDimension/workers/loadRobot.ts", "shared$loadRobot.js", false)
 ];
@@ -0,0 +1,163 @@
+import {
+  BatchReportRow,
+  compareBatchReportValues,
+  formatBatchReportValue,
+  getBatchReportColumns,
+  getBatchReportCSV,
+  getBatchReportHTML
+} from "./shared/BatchReport";
+import NamedMessage from "./shared/NamedMessage";
+
+const FOLDER_BUTTON = document.getElementById("folder") as HTMLButtonElement;
+const FOLDER_TEXT = document.getElementsByClassName("folder-text")[0] as HTMLElement;
+const FIELDS_INPUT = document.getElementById("fields") as HTMLInputElement;
+const START_BUTTON = document.getElementById("start") as HTMLButtonElement;
+const EXPORT_BUTTON = document.getElementById("export") as HTMLButtonElement;
+const PROGRESS_BAR = document.getElementsByTagName("progress")[0] as HTMLProgressElement;
+const PROGRESS_DETAILS = document.getElementsByClassName("progress-details")[0] as HTMLElement;
+const TABLE_HEADER = document.getElementsByTagName("thead")[0].firstElementChild as HTMLElement;
+const TABLE_BODY = document.getElementsByTagName("tbody")[0] as HTMLElement;
+
+let messagePort: MessagePort | null = null;
+let folder = "";
+let paths: string[] = [];
+let fields: string[] = [];
+let rows: BatchReportRow[] = [];
+let sortColumn: number | null = null;
+let sortDescending = false;
+
+function sendMainMessage(name: string, data?: any) {
+  if (messagePort !== null) {
+    let message: NamedMessage = { name: name, data: data };
+    messagePort.postMessage(message);
+  }
+}
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      let message: NamedMessage = event.data;
+      handleMainMessage(message);
+    };
+  }
+});
+
+function handleMainMessage(message: NamedMessage) {
+  switch (message.name) {
+    case "set-focused":
+      Array.from(document.getElementsByTagName("button")).forEach((button) => {
+        if (message.data) {
+          button.classList.remove("blurred");
+        } else {
+          button.classList.add("blurred");
+        }
+      });
+      break;
+
+    case "set-folder":
+      folder = message.data.path;
+      paths = message.data.files;
+      FOLDER_TEXT.innerText = folder + " (" + paths.length.toString() + " log" + (paths.length === 1 ? "" : "s") + ")";
+      START_BUTTON.disabled = paths.length === 0;
+      break;
+
+    case "batch-report-progress":
+      let current: number = message.data.current;
+      let total: number = message.data.total;
+      let running = current < total;
+      document.body.classList.toggle("running", running);
+      PROGRESS_BAR.hidden = !running;
+      PROGRESS_DETAILS.hidden = !running;
+      PROGRESS_BAR.value = total === 0 ? 1 : current / total;
+      if (running) {
+        PROGRESS_DETAILS.innerText =
+          (current + 1).toString() + " of " + total.toString() + ": " + paths[current].split(/[\\/]/).pop();
+      }
+      break;
+
+    case "batch-report-row":
+      rows.push(message.data);
+      EXPORT_BUTTON.disabled = false;
+      updateTable();
+      break;
+  }
+}
+
+/** Updates the header and rows of the report table. */
+function updateTable() {
+  let columns = getBatchReportColumns(fields);
+
+  // Update header
+  while (TABLE_HEADER.firstChild) {
+    TABLE_HEADER.removeChild(TABLE_HEADER.firstChild);
+  }
+  columns.forEach((column, index) => {
+    let cell = document.createElement("th");
+    TABLE_HEADER.appendChild(cell);
+    cell.innerText = column.title + (index === sortColumn ? (sortDescending ? " ▼" : " ▲") : "");
+    cell.addEventListener("click", () => {
+      if (sortColumn === index) {
+        sortDescending = !sortDescending;
+      } else {
+        sortColumn = index;
+        sortDescending = false;
+      }
+      updateTable();
+    });
+  });
+
+  // Sort rows
+  let sortedRows = [...rows];
+  if (sortColumn !== null) {
+    let column = columns[sortColumn];
+    sortedRows.sort((a, b) => {
+      let aValue = column.getValue(a);
+      let bValue = column.getValue(b);
+      if (aValue === null || bValue === null) return compareBatchReportValues(aValue, bValue);
+      return compareBatchReportValues(aValue, bValue) * (sortDescending ? -1 : 1);
+    });
+  }
+
+  // Update rows
+  while (TABLE_BODY.firstChild) {
+    TABLE_BODY.removeChild(TABLE_BODY.firstChild);
+  }
+  sortedRows.forEach((row) => {
+    let rowElement = document.createElement("tr");
+    TABLE_BODY.appendChild(rowElement);
+    if (row.failed) rowElement.classList.add("failed");
+    columns.forEach((column) => {
+      let cell = document.createElement("td");
+      rowElement.appendChild(cell);
+      cell.innerText = formatBatchReportValue(column.getValue(row), column.digits);
+      cell.title = cell.innerText;
+    });
+  });
+}
+
+FOLDER_BUTTON.addEventListener("click", () => {
+  sendMainMessage("select-folder");
+});
+
+START_BUTTON.addEventListener("click", () => {
+  fields = FIELDS_INPUT.value
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+  rows = [];
+  sortColumn = null;
+  EXPORT_BUTTON.disabled = true;
+  updateTable();
+  sendMainMessage("start", { paths: paths, fields: fields });
+});
+
+EXPORT_BUTTON.addEventListener("click", () => {
+  let title = "Batch Report: " + folder.split(/[\\/]/).pop();
+  sendMainMessage("export", {
+    csv: getBatchReportCSV(rows, fields),
+    html: getBatchReportHTML(rows, fields, title)
+  });
+});
+
+updateTable();
@@ -0,0 +1,78 @@
+import { AlertCondition, AlertRuleState } from "./shared/HubState";
+
+const NAME_INPUT = document.getElementById("name") as HTMLInputElement;
+const KEY_INPUT = document.getElementById("key") as HTMLInputElement;
+const CONDITION_SELECT = document.getElementById("condition") as HTMLSelectElement;
+const VALUE_ROW = document.getElementById("value-row") as HTMLElement;
+const VALUE_LABEL = document.getElementById("value-label") as HTMLElement;
+const VALUE_INPUT = document.getElementById("value") as HTMLInputElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let rule: AlertRuleState = event.data;
+
+      // Update values
+      NAME_INPUT.value = rule.name;
+      KEY_INPUT.value = rule.key;
+      CONDITION_SELECT.value = rule.condition;
+      VALUE_INPUT.value = rule.value.toString();
+      let updateCondition = () => {
+        let condition = CONDITION_SELECT.value;
+        VALUE_ROW.hidden = condition === "rising" || condition === "falling";
+        VALUE_LABEL.innerText = condition === "stale" ? "Timeout (s)" : "Threshold";
+      };
+      CONDITION_SELECT.addEventListener("change", updateCondition);
+      updateCondition();
+      if (rule.name.length === 0) {
+        NAME_INPUT.select();
+      } else {
+        KEY_INPUT.select();
+      }
+
+      // Close function
+      function confirm() {
+        let name = NAME_INPUT.value.trim();
+        let key = KEY_INPUT.value.trim();
+        let condition = CONDITION_SELECT.value as AlertCondition;
+        let value = VALUE_ROW.hidden ? 0 : Number(VALUE_INPUT.value);
+        if (name.length === 0) {
+          alert("Please enter a name for the rule.");
+        } else if (key.length === 0) {
+          alert("Please enter a field to watch.");
+        } else if (!isFinite(value)) {
+          alert("Please enter a valid number.");
+        } else if (condition === "stale" && value <= 0) {
+          alert("Timeout must be greater than zero.");
+        } else {
+          messagePort.postMessage({ name: name, key: key, condition: condition, value: value });
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
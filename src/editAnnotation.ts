@@ -0,0 +1,58 @@
+import Annotation from "./shared/Annotation";
+import { cleanFloat } from "./shared/util";
+
+const LABEL_INPUT = document.getElementById("label") as HTMLInputElement;
+const START_INPUT = document.getElementById("start") as HTMLInputElement;
+const END_INPUT = document.getElementById("end") as HTMLInputElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let annotation: Annotation = event.data;
+
+      // Update values
+      LABEL_INPUT.value = annotation.label;
+      START_INPUT.value = cleanFloat(annotation.start).toString();
+      END_INPUT.value = annotation.end === null ? "" : cleanFloat(annotation.end).toString();
+      LABEL_INPUT.select();
+
+      // Close function
+      function confirm() {
+        let start = Number(START_INPUT.value);
+        let end = END_INPUT.value.trim().length === 0 ? null : Number(END_INPUT.value);
+        if (START_INPUT.value.trim().length === 0 || !isFinite(start)) {
+          alert("Please enter a valid start time.");
+        } else if (end !== null && !(end > start)) {
+          alert("End time must be greater than start time.");
+        } else {
+          messagePort.postMessage({ label: LABEL_INPUT.value.trim(), start: start, end: end });
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
@@ -0,0 +1,59 @@
+import { ComputedFieldState } from "./shared/HubState";
+
+const NAME_INPUT = document.getElementById("name") as HTMLInputElement;
+const EXPRESSION_INPUT = document.getElementById("expression") as HTMLInputElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let field: ComputedFieldState = event.data;
+
+      // Update values
+      NAME_INPUT.value = field.name;
+      EXPRESSION_INPUT.value = field.expression;
+      if (field.name.length === 0) {
+        NAME_INPUT.select();
+      } else {
+        EXPRESSION_INPUT.select();
+      }
+
+      // Close function
+      function confirm() {
+        let name = NAME_INPUT.value.trim();
+        let expression = EXPRESSION_INPUT.value.trim();
+        if (name.length === 0) {
+          alert("Please enter a name for the field.");
+        } else if (expression.length === 0) {
+          alert("Please enter an expression.");
+        } else {
+          messagePort.postMessage({ name: name, expression: expression });
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
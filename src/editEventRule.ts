@@ -0,0 +1,64 @@
+import { EventRuleState } from "./shared/HubState";
+
+const NAME_INPUT = document.getElementById("name") as HTMLInputElement;
+const CONDITION_INPUT = document.getElementById("condition") as HTMLInputElement;
+const DURATION_INPUT = document.getElementById("duration") as HTMLInputElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let rule: EventRuleState = event.data;
+
+      // Update values
+      NAME_INPUT.value = rule.name;
+      CONDITION_INPUT.value = rule.condition;
+      DURATION_INPUT.value = rule.minDuration.toString();
+      if (rule.name.length === 0) {
+        NAME_INPUT.select();
+      } else {
+        CONDITION_INPUT.select();
+      }
+
+      // Close function
+      function confirm() {
+        let name = NAME_INPUT.value.trim();
+        let condition = CONDITION_INPUT.value.trim();
+        let minDuration = Number(DURATION_INPUT.value);
+        if (name.length === 0) {
+          alert("Please enter a name for the rule.");
+        } else if (condition.length === 0) {
+          alert("Please enter a condition.");
+        } else if (!isFinite(minDuration) || minDuration < 0) {
+          alert("Minimum duration must be zero or greater.");
+        } else {
+          messagePort.postMessage({ name: name, condition: condition, minDuration: minDuration });
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
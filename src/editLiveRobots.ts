@@ -0,0 +1,113 @@
+import { LiveRobotConfig } from "./shared/Preferences";
+
+const ROBOT_COUNT = 4;
+const ROBOTS_BODY = document.getElementById("robots") as HTMLElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let robots: LiveRobotConfig[] = event.data;
+
+      // Add a row for each robot
+      let rows: { prefix: HTMLInputElement; address: HTMLInputElement; mode: HTMLSelectElement }[] = [];
+      for (let i = 0; i < ROBOT_COUNT; i++) {
+        let row = document.createElement("tr");
+        ROBOTS_BODY.appendChild(row);
+        let label = document.createElement("td");
+        row.appendChild(label);
+        label.classList.add("label");
+        label.innerText = "Robot " + (i + 1).toString();
+
+        let addCell = <T extends HTMLElement>(element: T): T => {
+          let cell = document.createElement("td");
+          row.appendChild(cell);
+          cell.classList.add("input");
+          cell.tabIndex = -1;
+          cell.appendChild(element);
+          return element;
+        };
+        let prefix = addCell(document.createElement("input"));
+        prefix.type = "text";
+        prefix.placeholder = "/Robot" + (i + 1).toString();
+        let address = addCell(document.createElement("input"));
+        address.type = "text";
+        address.placeholder = i === 0 ? "e.g. 10.TE.AM.2" : "Unused";
+        let mode = addCell(document.createElement("select"));
+        [
+          ["nt4", "NetworkTables 4"],
+          ["nt4-akit", "NetworkTables 4 (AdvantageKit)"],
+          ["phoenix", "Phoenix Diagnostics"]
+        ].forEach(([value, text]) => {
+          let option = document.createElement("option");
+          option.value = value;
+          option.innerText = text;
+          mode.appendChild(option);
+        });
+
+        if (i < robots.length) {
+          prefix.value = robots[i].prefix;
+          address.value = robots[i].address;
+          mode.value = robots[i].mode;
+        }
+        rows.push({ prefix: prefix, address: address, mode: mode });
+      }
+      rows[0].address.select();
+
+      // Close function
+      function confirm() {
+        let output: LiveRobotConfig[] = [];
+        for (let i = 0; i < rows.length; i++) {
+          let address = rows[i].address.value.trim();
+          if (address.length === 0) continue;
+          let prefix = rows[i].prefix.value.trim();
+          if (prefix.length === 0) prefix = rows[i].prefix.placeholder;
+          if (!prefix.startsWith("/")) prefix = "/" + prefix;
+          if (!/^\/[^/]+$/.test(prefix)) {
+            alert('The prefix "' + prefix + '" is invalid. Please enter a single key segment, e.g. "/Robot1".');
+            return;
+          }
+          if (output.some((robot) => robot.prefix === prefix)) {
+            alert('The prefix "' + prefix + '" is used by multiple robots. Please choose a unique prefix for each.');
+            return;
+          }
+          let mode = rows[i].mode.value;
+          output.push({
+            prefix: prefix,
+            address: address,
+            mode: mode === "nt4-akit" ? "nt4-akit" : mode === "phoenix" ? "phoenix" : "nt4"
+          });
+        }
+        if (output.length === 0) {
+          alert("Please enter the address of at least one robot.");
+          return;
+        }
+        messagePort.postMessage(output);
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
@@ -0,0 +1,109 @@
+import { TimeOffsetEditState } from "./shared/HubState";
+
+const LOG_SELECT = document.getElementById("log") as HTMLSelectElement;
+const MODE_SELECT = document.getElementById("mode") as HTMLSelectElement;
+const OFFSET_ROW = document.getElementById("offset-row") as HTMLElement;
+const OFFSET_INPUT = document.getElementById("offset") as HTMLInputElement;
+const REFERENCE_ROW = document.getElementById("reference-row") as HTMLElement;
+const REFERENCE_INPUT = document.getElementById("reference") as HTMLInputElement;
+const REFERENCE_LIST = document.getElementById("reference-fields") as HTMLDataListElement;
+const TARGET_ROW = document.getElementById("target-row") as HTMLElement;
+const TARGET_INPUT = document.getElementById("target") as HTMLInputElement;
+const TARGET_LIST = document.getElementById("target-fields") as HTMLDataListElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let state: TimeOffsetEditState = event.data;
+
+      // Add logs
+      state.logs.forEach((log) => {
+        let option = document.createElement("option");
+        option.value = log.prefix;
+        option.innerText = log.name;
+        LOG_SELECT.appendChild(option);
+      });
+
+      // Update inputs for the selected log
+      let updateLog = () => {
+        let prefix = LOG_SELECT.value;
+        let log = state.logs.find((log) => log.prefix === prefix);
+        OFFSET_INPUT.value = log === undefined ? "0" : log.offset.toString();
+        [REFERENCE_LIST, TARGET_LIST].forEach((list) => {
+          while (list.firstChild) list.removeChild(list.firstChild);
+        });
+        Object.entries(state.fields).forEach(([fieldPrefix, fields]) => {
+          fields.forEach((field) => {
+            let option = document.createElement("option");
+            option.value = field;
+            (fieldPrefix === prefix ? TARGET_LIST : REFERENCE_LIST).appendChild(option);
+          });
+        });
+      };
+      let updateMode = () => {
+        let isManual = MODE_SELECT.value === "manual";
+        OFFSET_ROW.hidden = !isManual;
+        REFERENCE_ROW.hidden = isManual;
+        TARGET_ROW.hidden = isManual;
+      };
+      LOG_SELECT.addEventListener("change", updateLog);
+      MODE_SELECT.addEventListener("change", updateMode);
+      updateLog();
+      updateMode();
+      OFFSET_INPUT.select();
+
+      // Close function
+      function confirm() {
+        let prefix = LOG_SELECT.value;
+        if (MODE_SELECT.value === "manual") {
+          let offset = Number(OFFSET_INPUT.value);
+          if (!isFinite(offset)) {
+            alert("Please enter a valid offset.");
+          } else {
+            messagePort.postMessage({ prefix: prefix, offset: offset });
+          }
+        } else {
+          let referenceKey = REFERENCE_INPUT.value.trim();
+          let targetKey = TARGET_INPUT.value.trim();
+          let targetFields = prefix in state.fields ? state.fields[prefix] : [];
+          let referenceFields = Object.entries(state.fields)
+            .filter(([fieldPrefix]) => fieldPrefix !== prefix)
+            .map(([, fields]) => fields)
+            .flat();
+          if (!targetFields.includes(targetKey)) {
+            alert("Please choose a numeric or boolean target field from the selected log.");
+          } else if (!referenceFields.includes(referenceKey)) {
+            alert("Please choose a numeric or boolean reference field from a different log.");
+          } else {
+            messagePort.postMessage({ prefix: prefix, referenceKey: referenceKey, targetKey: targetKey });
+          }
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter") confirm();
+      });
+    };
+  }
+});
@@ -0,0 +1,176 @@
+import { TuningStructMember, TuningValueEditState } from "./shared/HubState";
+
+const ROWS = document.getElementById("rows") as HTMLElement;
+const KEY_INPUT = document.getElementById("key") as HTMLInputElement;
+const TYPE_INPUT = document.getElementById("type") as HTMLInputElement;
+const EXIT_BUTTON = document.getElementById("exit") as HTMLInputElement;
+const CONFIRM_BUTTON = document.getElementById("confirm") as HTMLInputElement;
+
+const ARRAY_ROWS = 4;
+const ROW_HEIGHT_PX = 27;
+
+/** Adds a labeled row to the table, returning the input cell. */
+function addRow(label: string): HTMLElement {
+  let row = document.createElement("tr");
+  ROWS.appendChild(row);
+  let labelCell = document.createElement("td");
+  row.appendChild(labelCell);
+  labelCell.classList.add("label");
+  labelCell.innerText = label;
+  let inputCell = document.createElement("td");
+  row.appendChild(inputCell);
+  inputCell.classList.add("input");
+  inputCell.tabIndex = -1;
+  return inputCell;
+}
+
+/** Parses the lines of an array editor, returning an error message if invalid. */
+function parseArray(text: string, type: string): number[] | boolean[] | string[] | string {
+  let lines = text.split("\n");
+  if (lines.length > 0 && lines[lines.length - 1].length === 0) lines.pop();
+  switch (type) {
+    case "boolean[]":
+      if (!lines.every((line) => line.trim() === "true" || line.trim() === "false")) {
+        return 'Each line must be "true" or "false".';
+      }
+      return lines.map((line) => line.trim() === "true");
+    case "int[]":
+    case "float[]":
+    case "double[]":
+      if (!lines.every((line) => line.trim().length > 0 && isFinite(Number(line)))) {
+        return "Each line must be a number.";
+      }
+      let numbers = lines.map(Number);
+      if (type === "int[]" && !numbers.every((value) => Number.isInteger(value))) {
+        return "Each line must be an integer.";
+      }
+      return numbers;
+    default:
+      return lines;
+  }
+}
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    let messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      // Update button focus
+      if (typeof event.data === "object" && "isFocused" in event.data) {
+        Array.from(document.getElementsByTagName("button")).forEach((button) => {
+          if (event.data.isFocused) {
+            button.classList.remove("blurred");
+          } else {
+            button.classList.add("blurred");
+          }
+        });
+        return;
+      }
+
+      // Normal message
+      let state: TuningValueEditState = event.data;
+      KEY_INPUT.value = state.key;
+      TYPE_INPUT.value = state.type;
+
+      // Create editors
+      let getValue: () => { value: TuningValueEditState["value"] } | { error: string };
+      if (state.type.startsWith("struct:")) {
+        let members = state.value as TuningStructMember[];
+        let memberGetters = members.map((member) => {
+          let cell = addRow(member.name);
+          if (typeof member.value === "boolean") {
+            let select = document.createElement("select");
+            cell.appendChild(select);
+            ["true", "false"].forEach((option) => {
+              let optionElement = document.createElement("option");
+              select.appendChild(optionElement);
+              optionElement.value = option;
+              optionElement.innerText = option;
+            });
+            select.value = member.value.toString();
+            return () => select.value === "true";
+          } else {
+            let input = document.createElement("input");
+            cell.appendChild(input);
+            if (typeof member.value === "number") {
+              input.type = "number";
+              input.step = "any";
+              input.value = member.value.toString();
+              return () => (input.value.length > 0 && isFinite(Number(input.value)) ? Number(input.value) : null);
+            } else {
+              input.type = "text";
+              input.value = member.value;
+              return () => input.value;
+            }
+          }
+        });
+        getValue = () => {
+          let values = memberGetters.map((getter) => getter());
+          let invalidIndex = values.indexOf(null);
+          if (invalidIndex !== -1)
+            return { error: 'Please enter a valid number for "' + members[invalidIndex].name + '".' };
+          return { value: members.map((member, index) => ({ name: member.name, value: values[index]! })) };
+        };
+      } else if (state.type.endsWith("[]")) {
+        let cell = addRow("Values");
+        let textarea = document.createElement("textarea");
+        cell.appendChild(textarea);
+        textarea.style.height = (ARRAY_ROWS * ROW_HEIGHT_PX - 4).toString() + "px";
+        textarea.placeholder = "One item per line";
+        textarea.value = (state.value as (number | boolean | string)[]).map((item) => item.toString()).join("\n");
+        textarea.select();
+        getValue = () => {
+          let value = parseArray(textarea.value, state.type);
+          return typeof value === "string" ? { error: value } : { value: value };
+        };
+      } else if (state.options !== null) {
+        let select = document.createElement("select");
+        addRow("Value").appendChild(select);
+        let options = [...state.options];
+        if (!options.includes(state.value as string)) options.unshift(state.value as string);
+        options.forEach((option) => {
+          let optionElement = document.createElement("option");
+          select.appendChild(optionElement);
+          optionElement.value = option;
+          optionElement.innerText = option;
+        });
+        select.value = state.value as string;
+        getValue = () => ({ value: select.value });
+      } else {
+        let input = document.createElement("input");
+        addRow("Value").appendChild(input);
+        input.type = "text";
+        input.value = state.value as string;
+        input.select();
+        getValue = () => {
+          if (state.type === "json") {
+            try {
+              JSON.parse(input.value);
+            } catch {
+              return { error: "Please enter valid JSON." };
+            }
+          }
+          return { value: input.value };
+        };
+      }
+
+      // Close function
+      function confirm() {
+        let result = getValue();
+        if ("error" in result) {
+          alert(result.error);
+        } else {
+          messagePort.postMessage({ ...state, value: result.value });
+        }
+      }
+
+      // Set up exit triggers
+      EXIT_BUTTON.addEventListener("click", () => {
+        messagePort.postMessage(null);
+      });
+      CONFIRM_BUTTON.addEventListener("click", confirm);
+      window.addEventListener("keydown", (event) => {
+        if (event.code === "Enter" && !(document.activeElement instanceof HTMLTextAreaElement)) confirm();
+      });
+    };
+  }
+});
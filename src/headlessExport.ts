@@ -0,0 +1,91 @@
+import WorkerManager from "./hub/WorkerManager";
+import { HistoricalDataSource, HistoricalDataSourceStatus } from "./hub/dataSources/HistoricalDataSource";
+import ExportOptions from "./shared/ExportOptions";
+import NamedMessage from "./shared/NamedMessage";
+import Log from "./shared/log/Log";
+
+// Converts a log file without displaying it, used by the command line interface
+
+let messagePort: MessagePort | null = null;
+let source: HistoricalDataSource | null = null;
+
+window.sendMainMessage = (name: string, data?: any) => {
+  if (messagePort !== null) {
+    let message: NamedMessage = { name: name, data: data };
+    messagePort.postMessage(message);
+  }
+};
+
+window.addEventListener("message", (event) => {
+  if (event.source === window && event.data === "port") {
+    messagePort = event.ports[0];
+    messagePort.onmessage = (event) => {
+      let message: NamedMessage = event.data;
+      handleMainMessage(message);
+    };
+  }
+});
+
+function handleMainMessage(message: NamedMessage) {
+  switch (message.name) {
+    case "start":
+      window.platform = message.data.platform;
+      runExport(message.data.path, message.data.options);
+      break;
+
+    case "historical-data":
+      source?.handleMainMessage(message.data);
+      break;
+  }
+}
+
+/** Decodes all fields in the log file, then converts to the export format. */
+async function runExport(path: string, options: ExportOptions) {
+  // Decode log
+  let log = new Log();
+  source = new HistoricalDataSource(true);
+  let resolveIdle: () => void = () => {};
+  let resolveFailed: () => void = () => {};
+  let idlePromise = new Promise<boolean>((resolve) => (resolveIdle = () => resolve(true)));
+  let failedPromise = new Promise<boolean>((resolve) => (resolveFailed = () => resolve(false)));
+  source.openFile(
+    log,
+    path,
+    "",
+    (status) => {
+      switch (status) {
+        case HistoricalDataSourceStatus.Idle:
+          resolveIdle();
+          break;
+        case HistoricalDataSourceStatus.Error:
+          resolveFailed();
+          break;
+      }
+    },
+    () => {},
+    () => {}
+  );
+  let success = await Promise.race([idlePromise, failedPromise]);
+  if (success) {
+    // Request every field explicitly, since there are no active fields from tabs
+    success = await Promise.race([source.loadFields(log.getFieldKeys()).then(() => true), failedPromise]);
+  }
+  if (!success) {
+    window.sendMainMessage("failed", source.getCustomError() ?? "There was a problem while reading the log file.");
+    return;
+  }
+  source.stop();
+
+  // Convert to export format
+  WorkerManager.request("../bundles/hub$exportWorker.js", {
+    options: options,
+    log: log.toSerialized(),
+    annotations: []
+  })
+    .then((content) => {
+      window.sendMainMessage("finished", content);
+    })
+    .catch(() => {
+      window.sendMainMessage("failed", "There was a problem while converting to the export format.");
+    });
+}
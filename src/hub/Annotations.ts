@@ -0,0 +1,131 @@
+import Annotation from "../shared/Annotation";
+
+/**
+ * Manages the annotations for the current log, which are saved for each log file. Annotations
+ * are stored relative to their own file, so they follow any time offset applied when merging.
+ */
+export default class Annotations {
+  private files: { path: string; keyPrefix: string }[] = [];
+  private annotations: { path: string | null; annotation: Annotation }[] = [];
+
+  /**
+   * Switches to the annotations for a new set of log files. Annotations for files that are still
+   * open are kept, and the saved annotations for any new files are loaded.
+   * @param files The open log files and their merge prefixes, or null if the annotations should not be saved (e.g. for live sources)
+   */
+  setLogFiles(files: { path: string; keyPrefix: string }[] | null) {
+    let previousPaths = this.files.map((file) => file.path);
+    this.files = files === null ? [] : files.map((file) => ({ ...file }));
+    let paths = this.files.map((file) => file.path);
+    this.annotations = this.annotations.filter((entry) => entry.path !== null && paths.includes(entry.path));
+    paths.forEach((path) => {
+      if (!previousPaths.includes(path)) {
+        window.sendMainMessage("load-annotations", path);
+      }
+    });
+  }
+
+  /** Restores the saved annotations for a log file, using times relative to that file. */
+  restoreAnnotations(path: string, annotations: Annotation[]) {
+    if (!this.files.some((file) => file.path === path)) return;
+    this.annotations = this.annotations.filter((entry) => entry.path !== path);
+    annotations.forEach((annotation) => {
+      this.annotations.push({ path: path, annotation: { ...annotation } });
+    });
+  }
+
+  /** Returns all annotations, sorted by start time. */
+  getAll(): Annotation[] {
+    return this.getSorted().map((entry) => this.toTimeline(entry.path, entry.annotation));
+  }
+
+  /** Returns the index of an annotation within a distance from the provided time, or inside the range if applicable. */
+  getIndexAtTime(time: number, tolerance: number): number | null {
+    let annotations = this.getAll();
+    let index = annotations.findIndex(
+      (annotation) =>
+        Math.abs(annotation.start - time) <= tolerance ||
+        (annotation.end !== null && Math.abs(annotation.end - time) <= tolerance)
+    );
+    if (index === -1) {
+      index = annotations.findIndex(
+        (annotation) => annotation.end !== null && annotation.start <= time && annotation.end >= time
+      );
+    }
+    return index === -1 ? null : index;
+  }
+
+  /**
+   * Adds or replaces an annotation. New annotations are saved with the first open log file.
+   * @param index The index of the annotation to replace, or null to add a new annotation
+   * @param annotation The new annotation, using timeline times
+   */
+  set(index: number | null, annotation: Annotation) {
+    let sorted = this.getSorted();
+    if (index === null || index < 0 || index >= sorted.length) {
+      let path = this.files.length > 0 ? this.files[0].path : null;
+      this.annotations.push({ path: path, annotation: this.fromTimeline(path, annotation) });
+      this.save(path);
+    } else {
+      let entry = sorted[index];
+      entry.annotation = this.fromTimeline(entry.path, annotation);
+      this.save(entry.path);
+    }
+  }
+
+  /** Removes the annotation at the provided index. */
+  remove(index: number) {
+    let sorted = this.getSorted();
+    if (index < 0 || index >= sorted.length) return;
+    let entry = sorted[index];
+    this.annotations.splice(this.annotations.indexOf(entry), 1);
+    this.save(entry.path);
+  }
+
+  /** Returns the annotation entries, sorted by start time on the timeline. */
+  private getSorted() {
+    let offsets = new Map(this.annotations.map((entry) => [entry, this.getTimeOffset(entry.path)]));
+    return [...this.annotations].sort(
+      (a, b) => a.annotation.start + offsets.get(a)! - (b.annotation.start + offsets.get(b)!)
+    );
+  }
+
+  /** Returns the time offset currently applied to a log file. */
+  private getTimeOffset(path: string | null): number {
+    let file = this.files.find((file) => file.path === path);
+    if (file === undefined || file.keyPrefix.length === 0) return 0;
+    return window.log.getTimeOffset(file.keyPrefix);
+  }
+
+  /** Converts an annotation from file-relative times to timeline times. */
+  private toTimeline(path: string | null, annotation: Annotation): Annotation {
+    let offset = this.getTimeOffset(path);
+    return {
+      label: annotation.label,
+      start: annotation.start + offset,
+      end: annotation.end === null ? null : annotation.end + offset
+    };
+  }
+
+  /** Converts an annotation from timeline times to file-relative times. */
+  private fromTimeline(path: string | null, annotation: Annotation): Annotation {
+    let offset = this.getTimeOffset(path);
+    return {
+      label: annotation.label,
+      start: annotation.start - offset,
+      end: annotation.end === null ? null : annotation.end - offset
+    };
+  }
+
+  /** Saves the annotations for a log file. */
+  private save(path: string | null) {
+    if (path === null) return;
+    window.sendMainMessage("save-annotations", {
+      key: path,
+      annotations: this.annotations
+        .filter((entry) => entry.path === path)
+        .map((entry) => ({ ...entry.annotation }))
+        .sort((a, b) => a.start - b.start)
+    });
+  }
+}
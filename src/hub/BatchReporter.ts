@@ -0,0 +1,182 @@
+import { BatchReportFieldStats, BatchReportRow } from "../shared/BatchReport";
+import Log from "../shared/log/Log";
+import {
+  AUTONOMOUS_KEYS,
+  BATTERY_VOLTAGE_KEYS,
+  BROWNOUT_KEYS,
+  ENABLED_KEYS,
+  TYPE_KEY,
+  findKey,
+  getMatchInfo,
+  getRobotStateRanges
+} from "../shared/log/LogUtil";
+import { HistoricalDataSource, HistoricalDataSourceStatus } from "./dataSources/HistoricalDataSource";
+
+/**
+ * Decodes a set of log files without displaying them and summarizes each one
+ * (e.g. every match from an event). Files are processed one at a time, and the
+ * results are sent to the main process as each file is finished.
+ */
+export default class BatchReporter {
+  private source: HistoricalDataSource | null = null;
+  private runId = 0;
+
+  /** Process new data from the main process, forward to the active source. */
+  handleMainMessage(data: any) {
+    this.source?.handleMainMessage(data);
+  }
+
+  /** Starts a new report for the provided files, cancelling any report in progress. */
+  async start(paths: string[], fields: string[]) {
+    this.stop();
+    let runId = this.runId;
+    for (let i = 0; i < paths.length; i++) {
+      window.sendMainMessage("batch-report-progress", { current: i, total: paths.length });
+      let row: BatchReportRow;
+      try {
+        row = await this.processFile(paths[i], fields);
+      } catch (error) {
+        console.error("Failed to summarize " + paths[i], error);
+        row = getFailedRow(paths[i], fields);
+      }
+      if (runId !== this.runId) return; // Report was cancelled
+      window.sendMainMessage("batch-report-row", row);
+    }
+    window.sendMainMessage("batch-report-progress", { current: paths.length, total: paths.length });
+  }
+
+  /** Cancels the report in progress. */
+  stop() {
+    this.runId++;
+    this.source?.stop();
+    this.source = null;
+  }
+
+  /** Decodes a single log file and returns its summary. */
+  private async processFile(path: string, fields: string[]): Promise<BatchReportRow> {
+    let row = getFailedRow(path, fields);
+
+    // Decode log
+    let log = new Log();
+    let source = new HistoricalDataSource(true);
+    let resolveIdle: () => void = () => {};
+    let resolveFailed: () => void = () => {};
+    let idlePromise = new Promise<boolean>((resolve) => (resolveIdle = () => resolve(true)));
+    let failedPromise = new Promise<boolean>((resolve) => (resolveFailed = () => resolve(false)));
+    this.source = source;
+    source.openFile(
+      log,
+      path,
+      "",
+      (status) => {
+        switch (status) {
+          case HistoricalDataSourceStatus.Idle:
+            resolveIdle();
+            break;
+          case HistoricalDataSourceStatus.Error:
+          case HistoricalDataSourceStatus.Stopped:
+            resolveFailed();
+            break;
+        }
+      },
+      () => {},
+      () => {}
+    );
+    let success = await Promise.race([idlePromise, failedPromise]);
+    if (success) {
+      success = await Promise.race([source.loadFields(getRequestFields(log, fields)).then(() => true), failedPromise]);
+    }
+    source.stop();
+    if (this.source === source) this.source = null;
+    if (!success) return row;
+    row.failed = false;
+
+    // Match info and enabled time
+    row.match = getMatchInfo(log);
+    let stateRanges = getRobotStateRanges(log);
+    if (stateRanges.length > 0) {
+      let logEnd = log.getTimestampRange()[1];
+      row.enabledTime = stateRanges
+        .filter((range) => range.mode !== "disabled")
+        .reduce((total, range) => total + (range.end ?? logEnd) - range.start, 0);
+    }
+
+    // Brownouts
+    let brownoutKey = findKey(log, BROWNOUT_KEYS);
+    let brownoutData = brownoutKey === undefined ? undefined : log.getBoolean(brownoutKey, -Infinity, Infinity);
+    if (brownoutData !== undefined) {
+      row.brownouts = brownoutData.values.filter((value, index) => value && !brownoutData!.values[index - 1]).length;
+    }
+
+    // Battery voltage (ignore zero values, such as before the robot connects)
+    let voltageKey = findKey(log, BATTERY_VOLTAGE_KEYS);
+    let voltageData = voltageKey === undefined ? undefined : log.getNumber(voltageKey, -Infinity, Infinity);
+    let voltages = voltageData?.values.filter((value) => value > 0) ?? [];
+    if (voltages.length > 0) {
+      row.minBatteryVoltage = voltages.reduce((min, value) => Math.min(min, value), Infinity);
+    }
+
+    // Alerts
+    let errors: Set<string> = new Set();
+    let warnings: Set<string> = new Set();
+    getAlertKeys(log).forEach((key) => {
+      if (log.getStructuredType(key) !== "Alerts") return;
+      log.getStringArray(key + "/errors", -Infinity, Infinity)?.values.forEach((texts) => {
+        texts.forEach((text) => errors.add(text));
+      });
+      log.getStringArray(key + "/warnings", -Infinity, Infinity)?.values.forEach((texts) => {
+        texts.forEach((text) => warnings.add(text));
+      });
+    });
+    row.errors = [...errors];
+    row.warnings = [...warnings];
+
+    // Field statistics
+    row.fields = fields.map((field): BatchReportFieldStats | null => {
+      let data = log.getNumber(field, -Infinity, Infinity);
+      if (data === undefined || data.values.length === 0) return null;
+      return {
+        min: data.values.reduce((min, value) => Math.min(min, value), Infinity),
+        mean: data.values.reduce((total, value) => total + value, 0) / data.values.length,
+        max: data.values.reduce((max, value) => Math.max(max, value), -Infinity)
+      };
+    });
+    return row;
+  }
+}
+
+/** Returns an empty summary for a log file, marked as failed. */
+function getFailedRow(path: string, fields: string[]): BatchReportRow {
+  return {
+    name: path.split(/[\\/]/).pop()!,
+    failed: true,
+    match: null,
+    enabledTime: null,
+    brownouts: null,
+    minBatteryVoltage: null,
+    errors: [],
+    warnings: [],
+    fields: fields.map(() => null)
+  };
+}
+
+/** Returns the fields required to summarize the log. */
+function getRequestFields(log: Log, fields: string[]): string[] {
+  return [
+    ...ENABLED_KEYS,
+    ...AUTONOMOUS_KEYS,
+    ...BATTERY_VOLTAGE_KEYS,
+    ...BROWNOUT_KEYS,
+    ...getAlertKeys(log),
+    ...fields
+  ];
+}
+
+/** Returns the keys of all groups of WPILib alerts, based on the available fields. */
+function getAlertKeys(log: Log): string[] {
+  let fieldKeys = new Set(log.getFieldKeys());
+  return [...fieldKeys]
+    .filter((key) => key.endsWith("/" + TYPE_KEY))
+    .map((key) => key.slice(0, -("/" + TYPE_KEY).length))
+    .filter((key) => fieldKeys.has(key + "/errors") && fieldKeys.has(key + "/warnings"));
+}
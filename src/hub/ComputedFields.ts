@@ -0,0 +1,149 @@
+import { ComputedFieldState } from "../shared/HubState";
+import Log from "../shared/log/Log";
+import { COMPUTED_PREFIX } from "../shared/log/LogUtil";
+import LoggableType from "../shared/log/LoggableType";
+import Expression from "./Expression";
+
+/** Manages fields generated from user expressions over existing fields. */
+export default class ComputedFields {
+  private definitions: ComputedFieldDefinition[] = [];
+  private lastLog: Log | null = null;
+  private lastTimestamps: { [key: string]: number } = {};
+
+  /** Returns the current state. */
+  saveState(): ComputedFieldState[] {
+    return this.definitions.map((definition) => {
+      return { name: definition.name, expression: definition.expression.text };
+    });
+  }
+
+  /** Restores to the provided state. */
+  restoreState(state: ComputedFieldState[] | undefined) {
+    if (state === undefined) return;
+    if (JSON.stringify(state) === JSON.stringify(this.saveState())) return;
+    this.definitions.forEach((definition) => window.log.deleteField(this.getKey(definition.name)));
+    this.definitions = [];
+    state.forEach((field) => {
+      try {
+        this.definitions.push(this.parse(field.name, field.expression));
+      } catch {
+        console.warn('Failed to restore computed field "' + field.name + '"');
+      }
+    });
+    this.update(true);
+  }
+
+  /** Returns the log key for a computed field. */
+  getKey(name: string): string {
+    return "/" + COMPUTED_PREFIX + "/" + name;
+  }
+
+  /** Returns the state of the computed field at a log key, or null if the key is not computed. */
+  getDefinition(key: string): ComputedFieldState | null {
+    let definition = this.definitions.find((definition) => this.getKey(definition.name) === key);
+    if (definition === undefined) return null;
+    return { name: definition.name, expression: definition.expression.text };
+  }
+
+  /** Returns the set of keys used as inputs to any computed field. */
+  getInputKeys(): string[] {
+    return [...new Set(this.definitions.map((definition) => definition.expression.inputs).flat())];
+  }
+
+  /**
+   * Adds or replaces a computed field.
+   * @param name The name of the field, used as the key under the computed table
+   * @param expression The expression to evaluate
+   * @param oldName The name of the field to replace, if editing an existing field
+   * @returns An error message if the expression is invalid, otherwise null
+   */
+  set(name: string, expression: string, oldName?: string): string | null {
+    name = name.trim().replace(/^\/+|\/+$/g, "");
+    if (name.length === 0) {
+      return "The field name cannot be empty.";
+    }
+    let definition: ComputedFieldDefinition;
+    try {
+      definition = this.parse(name, expression);
+    } catch (error) {
+      return String(error);
+    }
+    this.remove(name);
+    if (oldName !== undefined) this.remove(oldName);
+    this.definitions.push(definition);
+    this.update(true);
+    return null;
+  }
+
+  /** Removes a computed field. */
+  remove(name: string) {
+    let index = this.definitions.findIndex((definition) => definition.name === name);
+    if (index === -1) return;
+    this.definitions.splice(index, 1);
+    window.log.deleteField(this.getKey(name));
+    delete this.lastTimestamps[name];
+  }
+
+  /**
+   * Writes the values of every computed field to the current log.
+   * @param full Whether to recalculate all values, otherwise only values after the last update are calculated
+   * @param changedKeys Keys whose data was replaced (e.g. newly decoded fields), fields using them are recalculated
+   * @returns The keys of the computed fields that were recalculated
+   */
+  update(full = false, changedKeys?: Set<string>): Set<string> {
+    let log = window.log;
+    if (log !== this.lastLog) {
+      this.lastLog = log;
+      full = true;
+    }
+    if (full) {
+      this.lastTimestamps = {};
+    }
+    let recalculated: Set<string> = new Set();
+    if (this.definitions.length === 0) return recalculated;
+
+    let parentKey = "/" + COMPUTED_PREFIX;
+    log.createBlankField(parentKey, LoggableType.Empty);
+    log.setGeneratedParent(parentKey);
+    this.definitions.forEach((definition) => {
+      let key = this.getKey(definition.name);
+      let usesChanged =
+        changedKeys !== undefined &&
+        (definition.expression.usesAny(changedKeys) || definition.expression.usesAny(recalculated));
+      if (full || usesChanged) {
+        log.deleteField(key);
+        delete this.lastTimestamps[definition.name];
+        recalculated.add(key);
+      }
+
+      // Evaluate new values
+      let lastTimestamp = definition.name in this.lastTimestamps ? this.lastTimestamps[definition.name] : -Infinity;
+      let results = definition.expression.evaluate(log, lastTimestamp);
+      if (results === null || results.timestamps.length === 0) return;
+      results.values.forEach((result, index) => {
+        let timestamp = results!.timestamps[index];
+        if (typeof result === "number" && isFinite(result)) {
+          log.putNumber(key, timestamp, result);
+        } else if (typeof result === "boolean") {
+          log.putBoolean(key, timestamp, result);
+        }
+      });
+      this.lastTimestamps[definition.name] = results.timestamps[results.timestamps.length - 1];
+    });
+    return recalculated;
+  }
+
+  /** Creates a definition from the expression text. Throws if invalid. */
+  private parse(name: string, expression: string): ComputedFieldDefinition {
+    let parsed = new Expression(expression);
+    if (parsed.inputs.includes(this.getKey(name))) {
+      throw "The expression cannot reference its own output.";
+    }
+    return { name: name, expression: parsed };
+  }
+}
+
+type ComputedFieldDefinition = {
+  name: string;
+  expression: Expression;
+};
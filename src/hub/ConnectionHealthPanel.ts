@@ -0,0 +1,89 @@
+import { htmlEncode } from "../shared/util";
+import { LiveConnectionHealth } from "./dataSources/LiveDataSource";
+
+/** Shows a summary of the live connection health in the sidebar. */
+export default class ConnectionHealthPanel {
+  private UPDATE_PERIOD_MS = 1000;
+  private MAX_TOPICS = 5;
+  private MAX_HISTORY = 5;
+
+  private CONTAINER = document.getElementsByClassName("side-bar-health")[0] as HTMLElement;
+  private TITLE = document.getElementsByClassName("side-bar-health-title")[0] as HTMLElement;
+  private LIST = document.getElementsByClassName("side-bar-health-list")[0] as HTMLElement;
+
+  private getHealth: () => LiveConnectionHealth | null;
+  private expanded = false;
+  private lastListState = "";
+
+  constructor(getHealth: () => LiveConnectionHealth | null) {
+    this.getHealth = getHealth;
+    this.TITLE.addEventListener("click", () => {
+      this.expanded = !this.expanded;
+      this.update();
+    });
+    window.setInterval(() => this.update(), this.UPDATE_PERIOD_MS);
+  }
+
+  /** Updates the summary based on the latest connection health. */
+  private update() {
+    let health = this.getHealth();
+    let listState = JSON.stringify([this.expanded, health]);
+    if (listState === this.lastListState) return;
+    this.lastListState = listState;
+
+    this.CONTAINER.hidden = health === null || health.history.length === 0;
+    if (health === null) return;
+    this.TITLE.innerText =
+      (this.expanded ? "▾" : "▸") +
+      " Connection (" +
+      (health.roundTripTimeMs === null ? "--" : health.roundTripTimeMs.toFixed(1)) +
+      " ms, " +
+      formatBytes(health.bytesPerSecond) +
+      ")";
+    this.LIST.hidden = !this.expanded;
+    while (this.LIST.firstChild) {
+      this.LIST.removeChild(this.LIST.firstChild);
+    }
+    if (!this.expanded) return;
+
+    // Summary
+    let addItem = (text: string, detail: string) => {
+      let item = document.createElement("div");
+      this.LIST.appendChild(item);
+      item.classList.add("side-bar-event");
+      item.title = text + " " + detail;
+      item.innerHTML = htmlEncode(text) + '<span class="side-bar-event-time">' + htmlEncode(detail) + "</span>";
+    };
+    addItem("Round trip", health.roundTripTimeMs === null ? "Unknown" : health.roundTripTimeMs.toFixed(1) + " ms");
+    addItem("Clock offset", health.clockOffsetMs === null ? "Unknown" : health.clockOffsetMs.toFixed(1) + " ms");
+    addItem("Messages", health.messageRate.toFixed(0) + "/s");
+    addItem("Bandwidth", formatBytes(health.bytesPerSecond));
+    addItem("Dropped (est.)", health.droppedUpdates.toString());
+    addItem("Mode", health.subscribeMode);
+    addItem("Reconnects", health.reconnectCount.toString());
+
+    // Top topics
+    health.topics.slice(0, this.MAX_TOPICS).forEach((topic) => {
+      addItem(topic.topic, formatBytes(topic.bytesPerSecond));
+    });
+
+    // Connection history
+    [...health.history]
+      .reverse()
+      .slice(0, this.MAX_HISTORY)
+      .forEach((entry) => {
+        addItem(entry.connected ? "Connected" : "Disconnected", new Date(entry.date).toLocaleTimeString());
+      });
+  }
+}
+
+/** Formats a data rate for display. */
+function formatBytes(bytesPerSecond: number): string {
+  if (bytesPerSecond >= 1e6) {
+    return (bytesPerSecond / 1e6).toFixed(2) + " MB/s";
+  } else if (bytesPerSecond >= 1e3) {
+    return (bytesPerSecond / 1e3).toFixed(1) + " kB/s";
+  } else {
+    return bytesPerSecond.toFixed(0) + " B/s";
+  }
+}
@@ -0,0 +1,186 @@
+import { EventRuleState } from "../shared/HubState";
+import Log from "../shared/log/Log";
+import { htmlEncode } from "../shared/util";
+import Expression from "./Expression";
+
+/** Evaluates user-defined rules across the log to find ranges where a condition is true. */
+export default class EventDetector {
+  private UPDATE_PERIOD_MS = 1000; // Limits full reevaluation when receiving live data
+
+  private CONTAINER = document.getElementsByClassName("side-bar-events")[0] as HTMLElement;
+  private TITLE = document.getElementsByClassName("side-bar-events-title")[0] as HTMLElement;
+  private LIST = document.getElementsByClassName("side-bar-events-list")[0] as HTMLElement;
+
+  private rules: { state: EventRuleState; condition: Expression; events: DetectedEvent[] }[] = [];
+  private events: DetectedEvent[] = [];
+  private expanded = true;
+  private lastLog: Log | null = null;
+  private lastUpdateTime = 0;
+  private lastListState = "";
+
+  constructor() {
+    this.TITLE.addEventListener("click", () => {
+      this.expanded = !this.expanded;
+      this.updateList();
+    });
+    this.TITLE.addEventListener("contextmenu", () => {
+      window.sendMainMessage("ask-event-rules-menu", this.saveState());
+    });
+  }
+
+  /** Returns the current state. */
+  saveState(): EventRuleState[] {
+    return this.rules.map((rule) => ({ ...rule.state }));
+  }
+
+  /** Restores to the provided state. */
+  restoreState(state: EventRuleState[] | undefined) {
+    if (state === undefined) return;
+    if (JSON.stringify(state) === JSON.stringify(this.saveState())) return;
+    this.rules = [];
+    state.forEach((rule) => {
+      try {
+        this.rules.push({ state: rule, condition: new Expression(rule.condition), events: [] });
+      } catch {
+        console.warn('Failed to restore event rule "' + rule.name + '"');
+      }
+    });
+    this.update(true);
+  }
+
+  /** Returns the rule with the provided name, or null if not found. */
+  getRule(name: string): EventRuleState | null {
+    let rule = this.rules.find((rule) => rule.state.name === name);
+    return rule === undefined ? null : { ...rule.state };
+  }
+
+  /** Returns the set of keys used as inputs to any rule. */
+  getInputKeys(): string[] {
+    return [...new Set(this.rules.map((rule) => rule.condition.inputs).flat())];
+  }
+
+  /** Returns all detected events, sorted by start time. */
+  getEvents(): DetectedEvent[] {
+    return this.events.map((event) => ({ ...event }));
+  }
+
+  /**
+   * Adds or replaces a rule.
+   * @param rule The new rule
+   * @param oldName The name of the rule to replace, if editing an existing rule
+   * @returns An error message if the rule is invalid, otherwise null
+   */
+  set(rule: EventRuleState, oldName?: string): string | null {
+    rule = { ...rule, name: rule.name.trim() };
+    if (rule.name.length === 0) {
+      return "The rule name cannot be empty.";
+    }
+    if (!isFinite(rule.minDuration) || rule.minDuration < 0) {
+      return "The minimum duration must be zero or greater.";
+    }
+    let condition: Expression;
+    try {
+      condition = new Expression(rule.condition);
+    } catch (error) {
+      return String(error);
+    }
+    this.rules = this.rules.filter((other) => other.state.name !== rule.name && other.state.name !== oldName);
+    this.rules.push({ state: rule, condition: condition, events: [] });
+    this.update(true);
+    return null;
+  }
+
+  /** Removes a rule. */
+  remove(name: string) {
+    this.rules = this.rules.filter((rule) => rule.state.name !== name);
+    this.update(true);
+  }
+
+  /**
+   * Evaluates the rules across the current log.
+   * @param force Whether to update immediately, otherwise updates are rate limited
+   * @param changedKeys If provided, only the rules using these keys are evaluated (e.g. after new fields are decoded)
+   */
+  update(force = false, changedKeys?: Set<string>) {
+    let now = new Date().getTime();
+    if (window.log !== this.lastLog) {
+      this.lastLog = window.log;
+      force = true;
+      changedKeys = undefined;
+    }
+    if (!force && now - this.lastUpdateTime < this.UPDATE_PERIOD_MS) return;
+    let rules =
+      changedKeys === undefined ? this.rules : this.rules.filter((rule) => rule.condition.usesAny(changedKeys!));
+    if (changedKeys !== undefined && rules.length === 0) return;
+    this.lastUpdateTime = now;
+
+    let log = window.log;
+    let logEnd = log.getTimestampRange()[1];
+    let liveTime = window.selection.getCurrentLiveTime();
+    if (liveTime !== null) logEnd = Math.max(logEnd, liveTime);
+    rules.forEach((rule) => {
+      rule.events = [];
+      let results = rule.condition.evaluate(log);
+      if (results === null) return;
+
+      let activeStart: number | null = null;
+      let addEvent = (end: number) => {
+        if (activeStart !== null && end - activeStart >= rule.state.minDuration) {
+          rule.events.push({ rule: rule.state.name, start: activeStart, end: end });
+        }
+        activeStart = null;
+      };
+      results.values.forEach((value, index) => {
+        let active = value === true || (typeof value === "number" && value !== 0 && !isNaN(value));
+        if (active && activeStart === null) {
+          activeStart = results!.timestamps[index];
+        } else if (!active && activeStart !== null) {
+          addEvent(results!.timestamps[index]);
+        }
+      });
+      addEvent(logEnd);
+    });
+    this.events = this.rules.map((rule) => rule.events).flat();
+    this.events.sort((a, b) => a.start - b.start);
+    this.updateList();
+  }
+
+  /** Updates the list of events in the sidebar. */
+  private updateList() {
+    let listState = JSON.stringify([this.expanded, this.rules.length, this.events]);
+    if (listState === this.lastListState) return;
+    this.lastListState = listState;
+
+    this.CONTAINER.hidden = this.rules.length === 0;
+    this.TITLE.innerText = (this.expanded ? "▾" : "▸") + " Events (" + this.events.length.toString() + ")";
+    this.LIST.hidden = !this.expanded;
+    while (this.LIST.firstChild) {
+      this.LIST.removeChild(this.LIST.firstChild);
+    }
+    if (!this.expanded) return;
+    this.events.forEach((event) => {
+      let item = document.createElement("div");
+      this.LIST.appendChild(item);
+      item.classList.add("side-bar-event");
+      item.innerHTML =
+        htmlEncode(event.rule) +
+        '<span class="side-bar-event-time">' +
+        event.start.toFixed(2) +
+        "s &ndash; " +
+        event.end.toFixed(2) +
+        "s</span>";
+      item.addEventListener("click", () => {
+        window.selection.setSelectedTime(event.start);
+      });
+      item.addEventListener("contextmenu", () => {
+        window.sendMainMessage("ask-edit-event-rule", this.getRule(event.rule));
+      });
+    });
+  }
+}
+
+export type DetectedEvent = {
+  rule: string;
+  start: number;
+  end: number;
+};
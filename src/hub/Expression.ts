@@ -0,0 +1,99 @@
+import { compile, EvalFunction } from "mathjs";
+import Log from "../shared/log/Log";
+import LoggableType from "../shared/log/LoggableType";
+import { convert } from "../shared/units";
+
+/**
+ * A math expression that references log fields by key. Keys can be written directly
+ * (e.g. "/Drive/LeftVelocity") or wrapped in braces (e.g. "{/Drive/Left Velocity}").
+ */
+export default class Expression {
+  private static BRACED_KEY_REGEX = new RegExp(/\{([^{}]+)\}/g);
+  private static BARE_KEY_REGEX = new RegExp(/(?<![\w)\]]\s*)((?:NT:)?\/[A-Za-z_][\w\/]*)/g);
+  private static VARIABLE_PREFIX = "_key";
+  private static INPUT_TYPES = [
+    LoggableType.Boolean,
+    LoggableType.Number,
+    LoggableType.String,
+    LoggableType.BooleanArray,
+    LoggableType.NumberArray,
+    LoggableType.StringArray
+  ];
+
+  readonly text: string;
+  readonly inputs: string[] = [];
+  private compiled: EvalFunction;
+
+  /** Parses and compiles an expression. Throws if the expression is invalid. */
+  constructor(text: string) {
+    this.text = text;
+    let getVariable = (key: string) => {
+      let index = this.inputs.indexOf(key);
+      if (index === -1) {
+        this.inputs.push(key);
+        index = this.inputs.length - 1;
+      }
+      return Expression.VARIABLE_PREFIX + index.toString();
+    };
+    let processedText = text
+      .replace(Expression.BRACED_KEY_REGEX, (_, key: string) => getVariable(key.trim()))
+      .replace(Expression.BARE_KEY_REGEX, (_, key: string) => getVariable(key));
+    if (this.inputs.length === 0) {
+      throw "The expression must reference at least one field.";
+    }
+    this.compiled = compile(processedText);
+  }
+
+  /** Returns whether any of the inputs are in the provided set of keys. */
+  usesAny(keys: Set<string>): boolean {
+    return this.inputs.some((input) => keys.has(input));
+  }
+
+  /**
+   * Evaluates the expression at every timestamp where an input changes, holding the
+   * last value of each input. Timestamps before every input has a value are skipped.
+   * @param log The log to read inputs from
+   * @param afterTime Only evaluate at timestamps after this time
+   * @returns The results, or null if any input is unavailable or has an unsupported type
+   */
+  evaluate(log: Log, afterTime = -Infinity): { timestamps: number[]; values: unknown[] } | null {
+    let inputsAvailable = this.inputs.every((input) => {
+      let type = log.getType(input);
+      return type !== null && Expression.INPUT_TYPES.includes(type);
+    });
+    if (!inputsAvailable) return null;
+
+    let timestamps = log.getTimestamps(this.inputs).filter((timestamp) => timestamp > afterTime);
+    let results: { timestamps: number[]; values: unknown[] } = { timestamps: [], values: [] };
+    if (timestamps.length === 0) return results;
+    let inputData = this.inputs.map((input) => log.getRange(input, timestamps[0], Infinity)!);
+    let inputIndexes = this.inputs.map(() => -1);
+
+    let scope: { [key: string]: any } = { convert: convert };
+    timestamps.forEach((timestamp) => {
+      let hasAllInputs = true;
+      inputData.forEach((data, inputIndex) => {
+        while (
+          inputIndexes[inputIndex] < data.timestamps.length - 1 &&
+          data.timestamps[inputIndexes[inputIndex] + 1] <= timestamp
+        ) {
+          inputIndexes[inputIndex]++;
+        }
+        if (inputIndexes[inputIndex] === -1) {
+          hasAllInputs = false;
+        } else {
+          scope[Expression.VARIABLE_PREFIX + inputIndex.toString()] = data.values[inputIndexes[inputIndex]];
+        }
+      });
+      if (!hasAllInputs) return;
+
+      let result: unknown = null;
+      try {
+        result = this.compiled.evaluate(scope);
+      } catch {}
+      results.timestamps.push(timestamp);
+      results.values.push(result);
+    });
+    return results;
+  }
+}
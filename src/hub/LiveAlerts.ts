@@ -0,0 +1,303 @@
+import { AlertRuleState, TriggeredAlertState } from "../shared/HubState";
+import Log from "../shared/log/Log";
+import LoggableType from "../shared/log/LoggableType";
+import { htmlEncode } from "../shared/util";
+
+/** Watches live fields for user-defined conditions and notifies the user when they are triggered. */
+export default class LiveAlerts {
+  private STALE_CHECK_PERIOD_MS = 250;
+  private BANNER_DURATION_MS = 10000;
+  private MAX_HISTORY = 500;
+
+  private CONTAINER = document.getElementsByClassName("side-bar-alerts")[0] as HTMLElement;
+  private TITLE = document.getElementsByClassName("side-bar-alerts-title")[0] as HTMLElement;
+  private LIST = document.getElementsByClassName("side-bar-alerts-list")[0] as HTMLElement;
+  private BANNER = document.getElementsByClassName("alert-banner")[0] as HTMLElement;
+
+  private rules: { state: AlertRuleState; lastTimestamp: number; lastValue: any; active: boolean }[] = [];
+  private history: TriggeredAlertState[] = [];
+  private expanded = true;
+  private lastLog: Log | null = null;
+  private lastListState = "";
+  private bannerTimeout: number | null = null;
+  private audioContext: AudioContext | null = null;
+
+  constructor() {
+    this.TITLE.addEventListener("click", () => {
+      this.expanded = !this.expanded;
+      this.updateList();
+    });
+    this.TITLE.addEventListener("contextmenu", () => {
+      window.sendMainMessage("ask-alert-rules-menu", { rules: this.saveState(), hasHistory: this.history.length > 0 });
+    });
+    this.BANNER.addEventListener("click", () => {
+      this.BANNER.hidden = true;
+    });
+
+    // Check for stale data even if no new data is received
+    window.setInterval(() => {
+      if (this.lastLog !== null && this.lastLog === window.log) this.checkStale();
+    }, this.STALE_CHECK_PERIOD_MS);
+  }
+
+  /** Returns the current state. */
+  saveState(): AlertRuleState[] {
+    return this.rules.map((rule) => ({ ...rule.state }));
+  }
+
+  /** Restores to the provided state. */
+  restoreState(state: AlertRuleState[] | undefined) {
+    if (state === undefined) return;
+    if (JSON.stringify(state) === JSON.stringify(this.saveState())) return;
+    this.rules = [];
+    state.forEach((rule) => {
+      if (this.validate(rule) === null) this.rules.push(this.createRule(rule));
+    });
+    this.updateList();
+  }
+
+  /** Returns the rule with the provided name, or null if not found. */
+  getRule(name: string): AlertRuleState | null {
+    let rule = this.rules.find((rule) => rule.state.name === name);
+    return rule === undefined ? null : { ...rule.state };
+  }
+
+  /** Returns the set of keys watched by any rule. */
+  getInputKeys(): string[] {
+    return [...new Set(this.rules.map((rule) => rule.state.key))];
+  }
+
+  /** Returns all triggered alerts, sorted by the time they were triggered. */
+  getHistory(): TriggeredAlertState[] {
+    return this.history.map((alert) => ({ ...alert }));
+  }
+
+  /** Restores the triggered alerts from a previous session. */
+  restoreHistory(history: TriggeredAlertState[] | undefined) {
+    if (history === undefined) return;
+    this.history = history.slice(-this.MAX_HISTORY).map((alert) => ({ ...alert }));
+    this.updateList();
+  }
+
+  /** Removes all triggered alerts from the history. */
+  clearHistory() {
+    this.history = [];
+    this.updateList();
+  }
+
+  /**
+   * Adds or replaces a rule.
+   * @param rule The new rule
+   * @param oldName The name of the rule to replace, if editing an existing rule
+   * @returns An error message if the rule is invalid, otherwise null
+   */
+  set(rule: AlertRuleState, oldName?: string): string | null {
+    rule = { ...rule, name: rule.name.trim(), key: rule.key.trim() };
+    let error = this.validate(rule);
+    if (error !== null) return error;
+    let type = window.log.getType(rule.key);
+    if ((rule.condition === "above" || rule.condition === "below") && type !== null && type !== LoggableType.Number) {
+      return 'The field "' + rule.key + '" is not numeric.';
+    }
+    if (
+      (rule.condition === "rising" || rule.condition === "falling") &&
+      type !== null &&
+      type !== LoggableType.Boolean
+    ) {
+      return 'The field "' + rule.key + '" is not a boolean.';
+    }
+    this.rules = this.rules.filter((other) => other.state.name !== rule.name && other.state.name !== oldName);
+    this.rules.push(this.createRule(rule));
+    this.updateList();
+    return null;
+  }
+
+  /** Removes a rule. */
+  remove(name: string) {
+    this.rules = this.rules.filter((rule) => rule.state.name !== name);
+    this.updateList();
+  }
+
+  /** Evaluates every rule using the data received since the last update. Called whenever new live data is available. */
+  update(log: Log) {
+    let liveTime = window.selection.getCurrentLiveTime();
+    if (log !== this.lastLog) {
+      // New connection, watch from the start of the new log
+      this.lastLog = log;
+      this.rules = this.rules.map((rule) => this.createRule(rule.state));
+    }
+    let changedFields = log.getChangedFields();
+
+    this.rules.forEach((rule) => {
+      let state = rule.state;
+      switch (state.condition) {
+        case "above":
+        case "below":
+        case "rising":
+        case "falling":
+          let data = log.getRange(state.key, rule.lastTimestamp, Infinity);
+          let expectedType = state.condition === "above" || state.condition === "below" ? "number" : "boolean";
+          if (data === undefined) return;
+          data.timestamps.forEach((timestamp, index) => {
+            if (timestamp <= rule.lastTimestamp) return;
+            let value = data!.values[index];
+            if (typeof value !== expectedType) return;
+            let active = false;
+            switch (state.condition) {
+              case "above":
+                active = value > state.value;
+                break;
+              case "below":
+                active = value < state.value;
+                break;
+              case "rising":
+                active = value === true && rule.lastValue === false;
+                break;
+              case "falling":
+                active = value === false && rule.lastValue === true;
+                break;
+            }
+            if (active && !rule.active) {
+              this.trigger(state, timestamp, this.getMessage(state, value));
+            }
+            rule.active = active;
+            rule.lastTimestamp = timestamp;
+            rule.lastValue = value;
+          });
+          break;
+
+        case "stale":
+          // Values that repeat are not stored in the log, so use the set of changed fields instead
+          if (changedFields.has(state.key) && liveTime !== null) {
+            rule.lastTimestamp = liveTime;
+            rule.active = false;
+          }
+          break;
+      }
+    });
+    this.checkStale();
+  }
+
+  /** Checks whether any watched fields have stopped updating. */
+  private checkStale() {
+    let liveTime = window.selection.getCurrentLiveTime();
+    if (liveTime === null) return;
+    this.rules.forEach((rule) => {
+      if (rule.state.condition !== "stale") return;
+      if (rule.lastTimestamp === -Infinity) {
+        // Start timing once connected
+        rule.lastTimestamp = liveTime!;
+      } else if (!rule.active && liveTime! - rule.lastTimestamp > rule.state.value) {
+        rule.active = true;
+        this.trigger(rule.state, liveTime!, this.getMessage(rule.state, null));
+      }
+    });
+  }
+
+  /** Returns an error message if the rule is invalid, otherwise null. */
+  private validate(rule: AlertRuleState): string | null {
+    if (rule.name.length === 0) {
+      return "The rule name cannot be empty.";
+    }
+    if (rule.key.length === 0) {
+      return "The field cannot be empty.";
+    }
+    if (!["above", "below", "stale", "rising", "falling"].includes(rule.condition)) {
+      return "The condition is not supported.";
+    }
+    if (!isFinite(rule.value)) {
+      return "The value must be a number.";
+    }
+    if (rule.condition === "stale" && rule.value <= 0) {
+      return "The timeout must be greater than zero.";
+    }
+    return null;
+  }
+
+  /** Creates a rule with no data received. */
+  private createRule(state: AlertRuleState) {
+    return { state: state, lastTimestamp: -Infinity, lastValue: null, active: false };
+  }
+
+  /** Returns the description of a triggered alert. */
+  private getMessage(rule: AlertRuleState, value: any): string {
+    switch (rule.condition) {
+      case "above":
+        return rule.key + " is " + value.toString() + " (above " + rule.value.toString() + ")";
+      case "below":
+        return rule.key + " is " + value.toString() + " (below " + rule.value.toString() + ")";
+      case "stale":
+        return "No data received from " + rule.key + " for " + rule.value.toString() + "s";
+      case "rising":
+        return rule.key + " became true";
+      case "falling":
+        return rule.key + " became false";
+    }
+  }
+
+  /** Records a triggered alert and notifies the user. */
+  private trigger(rule: AlertRuleState, timestamp: number, message: string) {
+    this.history.push({ rule: rule.name, message: message, timestamp: timestamp, date: new Date().getTime() });
+    while (this.history.length > this.MAX_HISTORY) {
+      this.history.shift();
+    }
+    this.updateList();
+
+    // Show banner
+    this.BANNER.innerText = rule.name + ": " + message;
+    this.BANNER.hidden = false;
+    if (this.bannerTimeout !== null) window.clearTimeout(this.bannerTimeout);
+    this.bannerTimeout = window.setTimeout(() => {
+      this.BANNER.hidden = true;
+    }, this.BANNER_DURATION_MS);
+
+    // Play sound
+    if (this.audioContext === null) this.audioContext = new AudioContext();
+    let startTime = this.audioContext.currentTime;
+    [880, 660].forEach((frequency, index) => {
+      let oscillator = this.audioContext!.createOscillator();
+      let gain = this.audioContext!.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, startTime + index * 0.15);
+      gain.gain.exponentialRampToValueAtTime(0.001, startTime + index * 0.15 + 0.14);
+      oscillator.connect(gain).connect(this.audioContext!.destination);
+      oscillator.start(startTime + index * 0.15);
+      oscillator.stop(startTime + index * 0.15 + 0.15);
+    });
+
+    // Show OS notification
+    window.sendMainMessage("show-alert-notification", { title: rule.name, content: message });
+  }
+
+  /** Updates the list of triggered alerts in the sidebar. */
+  private updateList() {
+    let listState = JSON.stringify([this.expanded, this.rules.length, this.history]);
+    if (listState === this.lastListState) return;
+    this.lastListState = listState;
+
+    this.CONTAINER.hidden = this.rules.length === 0 && this.history.length === 0;
+    this.TITLE.innerText = (this.expanded ? "▾" : "▸") + " Alerts (" + this.history.length.toString() + ")";
+    this.LIST.hidden = !this.expanded;
+    while (this.LIST.firstChild) {
+      this.LIST.removeChild(this.LIST.firstChild);
+    }
+    if (!this.expanded) return;
+    [...this.history].reverse().forEach((alert) => {
+      let item = document.createElement("div");
+      this.LIST.appendChild(item);
+      item.classList.add("side-bar-event");
+      item.title = alert.message;
+      item.innerHTML =
+        htmlEncode(alert.rule) +
+        '<span class="side-bar-event-time">' +
+        new Date(alert.date).toLocaleTimeString() +
+        "</span>";
+      item.addEventListener("click", () => {
+        window.selection.setSelectedTime(alert.timestamp);
+      });
+      item.addEventListener("contextmenu", () => {
+        window.sendMainMessage("ask-edit-alert-rule", this.getRule(alert.rule));
+      });
+    });
+  }
+}
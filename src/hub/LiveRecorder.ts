@@ -0,0 +1,173 @@
+import Log from "../shared/log/Log";
+import LoggableType from "../shared/log/LoggableType";
+import { WPILOGEncoder, WPILOGEncoderRecord, getWPILOGType } from "./dataSources/wpilog/WPILOGEncoder";
+
+/**
+ * Records data from a live source to WPILOG files on disk. New files are
+ * started when the size or duration limit is reached, and whenever the live
+ * source reconnects.
+ */
+export default class LiveRecorder {
+  private PERIOD_MS = 1000;
+  private MAX_FILE_BYTES = 100 * 1024 * 1024;
+  private MAX_FILE_MS = 15 * 60 * 1000;
+  private EXTRA_HEADER = "AdvantageScope";
+
+  private folder: string | null = null;
+  private recordingId = 0;
+  private interval: number | null = null;
+  private log: Log | null = null;
+  private entries: {
+    [key: string]: { id: number; type: string; metadata: string; lastTimestamp: number; lastValue: any };
+  } = {};
+  private nextEntryId = 1;
+  private encoder = new WPILOGEncoder(this.EXTRA_HEADER);
+  private filePath: string | null = null;
+  private fileBytes = 0;
+  private fileStartTime = 0;
+  private lastFilename = "";
+  private filenameCount = 0;
+
+  /** Returns whether a recording is in progress. */
+  isActive(): boolean {
+    return this.folder !== null;
+  }
+
+  /** Starts recording to a new file in the provided folder. */
+  start(folder: string) {
+    this.stop();
+    this.folder = folder;
+    this.recordingId++;
+    this.log = window.log;
+    this.entries = {};
+    this.nextEntryId = 1;
+    this.startFile();
+    this.interval = window.setInterval(() => this.periodic(), this.PERIOD_MS);
+  }
+
+  /** Writes any remaining data and stops recording. */
+  stop() {
+    if (this.folder === null) return;
+    this.periodic();
+    if (this.interval !== null) window.clearInterval(this.interval);
+    this.interval = null;
+    this.folder = null;
+    this.log = null;
+    this.filePath = null;
+  }
+
+  /** Records new data from the live log. */
+  private periodic() {
+    // Start a new file if the live source reconnected
+    if (window.log !== this.log) {
+      this.log = window.log;
+      this.entries = {};
+      this.nextEntryId = 1;
+      this.startFile();
+    }
+
+    // Add new values
+    let log = this.log;
+    log.getFieldKeys().forEach((key) => {
+      let type = log.getType(key);
+      if (log.isGenerated(key) || type === null || type === LoggableType.Empty) return;
+      let entry = this.entries[key];
+      let data = log.getRange(key, entry === undefined ? -Infinity : entry.lastTimestamp, Infinity);
+      if (data === undefined) return;
+
+      data.timestamps.forEach((timestamp, index) => {
+        let value = data!.values[index];
+        if (entry === undefined) {
+          let typeStr = getWPILOGType(type!, log.getWpilibType(key));
+          if (typeStr === "") return;
+          entry = {
+            id: this.nextEntryId++,
+            type: typeStr,
+            metadata: log.getMetadataString(key),
+            lastTimestamp: timestamp,
+            lastValue: value
+          };
+          this.entries[key] = entry;
+          this.addStart(key, entry.lastTimestamp);
+        } else if (timestamp <= entry.lastTimestamp) {
+          return;
+        }
+        entry.lastTimestamp = timestamp;
+        entry.lastValue = value;
+        this.encoder.add(WPILOGEncoderRecord.makeTyped(entry.type, entry.id, timestamp * 1e6, value));
+      });
+    });
+
+    // Write to file
+    this.writeFile();
+    if (this.fileBytes >= this.MAX_FILE_BYTES || new Date().getTime() - this.fileStartTime >= this.MAX_FILE_MS) {
+      this.startFile();
+    }
+  }
+
+  /** Starts a new file, including the most recent value of every entry. */
+  private startFile() {
+    if (this.folder === null) return;
+    this.encoder = new WPILOGEncoder(this.EXTRA_HEADER);
+    this.fileBytes = 0;
+    this.fileStartTime = new Date().getTime();
+
+    let date = new Date();
+    let pad = (value: number) => value.toString().padStart(2, "0");
+    let filename =
+      "Live_" +
+      date.getFullYear().toString() +
+      pad(date.getMonth() + 1) +
+      pad(date.getDate()) +
+      "_" +
+      pad(date.getHours()) +
+      pad(date.getMinutes()) +
+      pad(date.getSeconds());
+
+    // Add a suffix if multiple files are started in the same second
+    if (filename === this.lastFilename) {
+      this.filenameCount++;
+    } else {
+      this.lastFilename = filename;
+      this.filenameCount = 1;
+    }
+    if (this.filenameCount > 1) filename += "_" + this.filenameCount.toString();
+    filename += ".wpilog";
+    let separator = window.platform === "win32" ? "\\" : "/";
+    this.filePath = this.folder + (this.folder.endsWith(separator) ? "" : separator) + filename;
+
+    Object.entries(this.entries).forEach(([key, entry]) => {
+      this.addStart(key, entry.lastTimestamp);
+      this.encoder.add(WPILOGEncoderRecord.makeTyped(entry.type, entry.id, entry.lastTimestamp * 1e6, entry.lastValue));
+    });
+    this.writeFile();
+  }
+
+  /** Adds a start record for an entry. */
+  private addStart(key: string, timestamp: number) {
+    let entry = this.entries[key];
+    this.encoder.add(
+      WPILOGEncoderRecord.makeControlStart(timestamp * 1e6, {
+        entry: entry.id,
+        name: key,
+        type: entry.type,
+        metadata: entry.metadata
+      })
+    );
+  }
+
+  /** Sends the pending data to be written to the current file. */
+  private writeFile() {
+    if (this.filePath === null) return;
+    let isNewFile = this.fileBytes === 0;
+    let content = this.encoder.flush();
+    if (content.length === 0) return;
+    this.fileBytes += content.length;
+    window.sendMainMessage("write-live-recording", {
+      recordingId: this.recordingId,
+      path: this.filePath,
+      content: content,
+      append: !isNewFile
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import { ComparisonAlignment } from "../shared/HubState";
+import Log from "../shared/log/Log";
+import {
+  applyKeyPrefix,
+  getAutonomousKey,
+  getEnabledKey,
+  getMergePrefix,
+  getRobotStateRanges
+} from "../shared/log/LogUtil";
+import { SourceListConfig, SourceListItemState } from "../shared/SourceListConfig";
+
+/** Aligns merged logs to a shared event and overlays the equivalent fields from every log. */
+export default class LogComparison {
+  private UPDATE_PERIOD_MS = 1000;
+
+  private alignment: ComparisonAlignment | null = null;
+  private lastLog: Log | null = null;
+  private lastUpdateTime = 0;
+  private prefixes: string[] = [];
+  private alignmentTimes: { [prefix: string]: number } = {};
+
+  /** Returns the current state. */
+  saveState(): ComparisonAlignment | null {
+    return this.alignment;
+  }
+
+  /** Restores to the provided state. */
+  restoreState(state: ComparisonAlignment | null | undefined) {
+    if (state === undefined) return;
+    this.setAlignment(state);
+  }
+
+  /** Returns the event used to align logs, or null if comparison is disabled. */
+  getAlignment(): ComparisonAlignment | null {
+    return this.alignment;
+  }
+
+  /** Sets the event used to align logs, or null to disable comparison. */
+  setAlignment(alignment: ComparisonAlignment | null) {
+    this.alignment = alignment;
+    this.lastUpdateTime = 0;
+  }
+
+  /** Returns whether multiple logs are currently being compared. */
+  isActive(): boolean {
+    this.update();
+    return this.alignment !== null && Object.keys(this.alignmentTimes).length > 1;
+  }
+
+  /** Returns the set of additional fields required to compare the provided fields. */
+  getActiveFields(fields: string[]): string[] {
+    if (this.alignment === null) return [];
+    this.update();
+    let log = window.log;
+    let activeFields: string[] = [];
+    this.prefixes.forEach((prefix) => {
+      let enabledKey = getEnabledKey(log, prefix);
+      let autonomousKey = getAutonomousKey(log, prefix);
+      if (enabledKey !== undefined) activeFields.push(enabledKey);
+      if (autonomousKey !== undefined) activeFields.push(autonomousKey);
+    });
+    fields.forEach((field) => {
+      this.getEquivalents(field).forEach((equivalent) => activeFields.push(equivalent.key));
+    });
+    return activeFields;
+  }
+
+  /**
+   * Expands a list of sources to include the equivalent sources from every merged log.
+   * Children are copied along with their parents, and colors are assigned based on the log.
+   * @param items The original sources
+   * @param config The source list config for the tab
+   * @param typeMap Replacement types for copies from other logs (e.g. robot to ghost)
+   * @returns The expanded sources, with the offset to add to the render time for each source
+   */
+  expandSources(
+    items: SourceListItemState[],
+    config: SourceListConfig,
+    typeMap: { [key: string]: string } = {}
+  ): (SourceListItemState & { timeOffset: number })[] {
+    if (!this.isActive()) {
+      return items.map((item) => ({ ...item, timeOffset: 0 }));
+    }
+
+    // Group children with their parents
+    let groups: SourceListItemState[][] = [];
+    items.forEach((item) => {
+      let typeConfig = config.types.find((typeConfig) => typeConfig.key === item.type);
+      if (typeConfig?.childOf !== undefined && groups.length > 0) {
+        groups[groups.length - 1].push(item);
+      } else {
+        groups.push([item]);
+      }
+    });
+
+    // Create copies for each log
+    let originalKeys = new Set(items.map((item) => item.logKey));
+    let expanded: (SourceListItemState & { timeOffset: number })[] = [];
+    groups.forEach((group) => {
+      let prefix = getMergePrefix(group[0].logKey);
+      let logIndex = this.prefixes.indexOf(prefix);
+      group.forEach((item) => {
+        expanded.push({ ...this.copySource(item, item.type, logIndex, config), timeOffset: 0 });
+      });
+      this.getEquivalents(group[0].logKey).forEach((equivalent) => {
+        if (originalKeys.has(equivalent.key)) return;
+        let otherIndex = this.prefixes.indexOf(equivalent.prefix);
+        group.forEach((item, index) => {
+          let key = index === 0 ? equivalent.key : this.getEquivalentKey(item.logKey, equivalent.prefix);
+          if (key === null) return;
+          let type = item.type in typeMap ? typeMap[item.type] : item.type;
+          expanded.push({
+            ...this.copySource({ ...item, logKey: key }, type, otherIndex, config),
+            timeOffset: equivalent.timeOffset
+          });
+        });
+      });
+    });
+    return expanded;
+  }
+
+  /**
+   * Returns the same field from every other aligned log.
+   * @param key The original key
+   * @returns The equivalent keys, with the offset to add to a timestamp from the original log
+   */
+  getEquivalents(key: string): { key: string; prefix: string; timeOffset: number }[] {
+    if (!this.isActive()) return [];
+    let prefix = getMergePrefix(key);
+    if (!(prefix in this.alignmentTimes)) return [];
+    let equivalents: { key: string; prefix: string; timeOffset: number }[] = [];
+    this.prefixes.forEach((otherPrefix) => {
+      if (otherPrefix === prefix || !(otherPrefix in this.alignmentTimes)) return;
+      let otherKey = this.getEquivalentKey(key, otherPrefix);
+      if (otherKey === null) return;
+      equivalents.push({
+        key: otherKey,
+        prefix: otherPrefix,
+        timeOffset: this.alignmentTimes[otherPrefix] - this.alignmentTimes[prefix]
+      });
+    });
+    return equivalents;
+  }
+
+  /** Returns the key with a different merge prefix, or null if it does not exist in that log. */
+  private getEquivalentKey(key: string, prefix: string): string | null {
+    let unmerged = key.slice(getMergePrefix(key).length);
+    let candidates = prefix.length === 0 ? [unmerged, unmerged.replace(/^\//, "")] : [applyKeyPrefix(prefix, unmerged)];
+    let result = candidates.find((candidate) => window.log.getType(candidate) !== null);
+    return result === undefined ? null : result;
+  }
+
+  /** Copies a source with a new type, adjusting the options and color as needed. */
+  private copySource(
+    item: SourceListItemState,
+    type: string,
+    logIndex: number,
+    config: SourceListConfig
+  ): SourceListItemState {
+    let typeConfig = config.types.find((typeConfig) => typeConfig.key === type);
+    if (typeConfig === undefined) return item;
+    let options: { [key: string]: string } = {};
+    typeConfig.options.forEach((optionConfig) => {
+      let value = item.options[optionConfig.key];
+      if (optionConfig.key === "color" && logIndex !== -1) {
+        options.color = optionConfig.values[logIndex % optionConfig.values.length].key;
+      } else if (
+        value !== undefined &&
+        (optionConfig.values.length === 0 || optionConfig.values.some((valueConfig) => valueConfig.key === value))
+      ) {
+        options[optionConfig.key] = value;
+      } else if (optionConfig.values.length > 0) {
+        options[optionConfig.key] = optionConfig.values[0].key;
+      }
+    });
+    return { ...item, type: type, options: options };
+  }
+
+  /** Updates the set of logs and their alignment times. */
+  private update() {
+    let log = window.log;
+    let currentTime = new Date().getTime();
+    if (log === this.lastLog && currentTime - this.lastUpdateTime < this.UPDATE_PERIOD_MS) return;
+    this.lastLog = log;
+    this.lastUpdateTime = currentTime;
+    this.prefixes = [];
+    this.alignmentTimes = {};
+    if (this.alignment === null) return;
+
+    // Find merged logs with robot state data
+    let prefixSet = new Set(log.getFieldKeys().map(getMergePrefix));
+    this.prefixes = [...prefixSet]
+      .filter((prefix) => getEnabledKey(log, prefix) !== undefined)
+      .sort((a, b) => {
+        let aIndex = a.length === 0 ? -1 : Number(a.replace(/\D/g, ""));
+        let bIndex = b.length === 0 ? -1 : Number(b.replace(/\D/g, ""));
+        return aIndex - bIndex;
+      });
+
+    // Find alignment times
+    this.prefixes.forEach((prefix) => {
+      let range = getRobotStateRanges(log, prefix).find((range) =>
+        this.alignment === "enabled" ? range.mode !== "disabled" : range.mode === this.alignment
+      );
+      if (range !== undefined) {
+        this.alignmentTimes[prefix] = range.start;
+      }
+    });
+  }
+}
@@ -31,7 +31,7 @@ export default class ScrollSensor {
     // Mouse controls
     if (enableMouseControls) {
       container.addEventListener("mousedown", (event) => {
-        if (event.shiftKey) return;
+        if (event.shiftKey || event.altKey) return;
         this.panActive = true;
         let x = event.clientX - container.getBoundingClientRect().x;
         this.panLastCursorX = x;
@@ -3,6 +3,7 @@ import { AKIT_TIMESTAMP_KEYS } from "../shared/log/LogUtil";
 
 export default class SelectionImpl implements Selection {
   private STEP_SIZE = 0.02; // When using left-right arrows keys on non-AdvantageKit logs
+  private ANNOTATION_JUMP_TOLERANCE = 1e-6;
   private TIMELINE_MIN_ZOOM_TIME = 0.05;
   private TIMELINE_ZOOM_BASE = 1.001;
 
@@ -68,6 +69,13 @@ export default class SelectionImpl implements Selection {
           event.preventDefault();
           this.stepCycle(event.code === "ArrowRight");
           break;
+
+        case "BracketLeft":
+        case "BracketRight":
+          if (event.metaKey || event.ctrlKey) return;
+          event.preventDefault();
+          this.jumpToAnnotation(event.code === "BracketRight");
+          break;
       }
     });
   }
@@ -255,6 +263,32 @@ export default class SelectionImpl implements Selection {
     }
   }
 
+  /** Moves the selected time to the next or previous annotation. */
+  jumpToAnnotation(isForward: boolean) {
+    let selectedTime = this.getSelectedTime();
+    let starts = window.annotations.getAll().map((annotation) => annotation.start);
+    let target: number | undefined;
+    if (selectedTime === null) {
+      target = isForward ? starts[0] : starts[starts.length - 1];
+    } else if (isForward) {
+      target = starts.find((start) => start > selectedTime! + this.ANNOTATION_JUMP_TOLERANCE);
+    } else {
+      target = starts.findLast((start) => start < selectedTime! - this.ANNOTATION_JUMP_TOLERANCE);
+    }
+    if (target === undefined) return;
+
+    // Update selected time
+    this.unlock();
+    this.setSelectedTime(target);
+
+    // Scroll timeline if annotation is not visible
+    if (target < this.timelineRange[0] || target > this.timelineRange[1]) {
+      let zoom = this.timelineRange[1] - this.timelineRange[0];
+      this.timelineRange = [target - zoom / 2, target + zoom / 2];
+      this.applyTimelineScroll(0, 0, 0);
+    }
+  }
+
   /** Records that the live connection has started. */
   setLiveConnected(timeSupplier: () => number) {
     let newConnection = !this.liveConnected;
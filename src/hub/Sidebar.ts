@@ -1,9 +1,17 @@
-import { SidebarState } from "../shared/HubState";
+import { SidebarState, TuningStructMember, TuningValueEditState } from "../shared/HubState";
 import LogFieldTree from "../shared/log/LogFieldTree";
 import LoggableType from "../shared/log/LoggableType";
-import { getOrDefault, searchFields, TYPE_KEY } from "../shared/log/LogUtil";
+import {
+  COMPUTED_PREFIX,
+  CONNECTION_HEALTH_PREFIX,
+  getOrDefault,
+  searchFields,
+  STRUCT_PREFIX,
+  TYPE_KEY
+} from "../shared/log/LogUtil";
 import { SelectionMode } from "../shared/Selection";
 import { arraysEqual, htmlEncode, setsEqual } from "../shared/util";
+import { LiveDataTunerValue } from "./dataSources/LiveDataTuner";
 import { ZEBRA_LOG_KEY } from "./dataSources/LoadZebra";
 import CustomSchemas from "./dataSources/schema/CustomSchemas";
 
@@ -43,6 +51,8 @@ export default class Sidebar {
     "systemTime",
     "DSLog",
     "DSEvents",
+    COMPUTED_PREFIX,
+    CONNECTION_HEALTH_PREFIX,
     ZEBRA_LOG_KEY
   ];
   private HIDDEN_KEYS = [".schema", "Metadata", "RealMetadata", "ReplayMetadata"];
@@ -70,6 +80,7 @@ export default class Sidebar {
   private setTuningModeActiveCallbacks: ((active: boolean) => void)[] = [];
   private tuningModePublishCallbacks: (() => void)[] = [];
   private tuningValueCache: { [key: string]: string } = {};
+  private tuningNumberInputs: { [key: string]: HTMLInputElement } = {};
   private updateMetadataCallbacks: (() => void)[] = [];
   private updateLoadingCallbacks: (() => void)[] = [];
 
@@ -209,6 +220,12 @@ export default class Sidebar {
     this.TUNING_BUTTON.addEventListener("click", () => {
       this.setTuningModeActive(!this.isTuningMode);
     });
+    this.TUNING_BUTTON.addEventListener("contextmenu", () => {
+      window.sendMainMessage("ask-tuning-presets-menu", {
+        names: window.tuningPresets.getNames(),
+        canSave: Object.keys(this.getTuningValues()).length > 0
+      });
+    });
 
     // Periodic functions
     let periodic = () => {
@@ -417,6 +434,7 @@ export default class Sidebar {
       this.selectGroupClearCallbacks = [];
       this.setTuningModeActiveCallbacks = [];
       this.tuningModePublishCallbacks = [];
+      this.tuningNumberInputs = {};
       this.updateMetadataCallbacks = [];
 
       // Add new list
@@ -599,8 +617,29 @@ export default class Sidebar {
       }
     }
 
+    // Device menu
+    label.addEventListener("contextmenu", () => {
+      if (window.deviceControl !== null && window.deviceControl.isDevice(fullTitle)) {
+        window.sendMainMessage("ask-device-menu", fullTitle);
+      }
+    });
+
     // Full key fields
     if (field.fullKey !== null) {
+      // Computed field menu
+      label.addEventListener("contextmenu", () => {
+        let definition = window.computedFields.getDefinition(field.fullKey!);
+        if (definition !== null) {
+          window.sendMainMessage("ask-edit-computed-field", definition);
+        } else if (this.isTuningMode && window.tuner !== null && window.tuner.isTunable(field.fullKey!)) {
+          window.sendMainMessage("ask-tuning-menu", {
+            key: field.fullKey,
+            state: this.getTuningEditState(field.fullKey!),
+            canUndo: window.tuner.canUndo(field.fullKey!)
+          });
+        }
+      });
+
       // Dragging support
       {
         let dragEvent = (x: number, y: number, offsetX: number, offsetY: number) => {
@@ -802,6 +841,8 @@ export default class Sidebar {
           }
         });
       } else if (type === LoggableType.String) {
+        let strValueSpan = document.createElement("span");
+        valueElement.appendChild(strValueSpan);
         let firstUpdate = true;
         let lastValue: string | null = null;
         let lastCharCount: number | null = null;
@@ -830,7 +871,7 @@ export default class Sidebar {
           } else {
             valueStr = "";
           }
-          valueElement.innerText = valueStr;
+          strValueSpan.innerText = valueStr;
           let charCount = valueStr.length;
           if (charCount !== lastCharCount) {
             lastCharCount = charCount;
@@ -888,6 +929,32 @@ export default class Sidebar {
         if (field.fullKey in this.tuningValueCache) {
           numValueInput!.value = this.tuningValueCache[field.fullKey];
         }
+        this.tuningNumberInputs[field.fullKey] = numValueInput!;
+      } else if (type !== LoggableType.Boolean) {
+        // Other types are edited in a separate window
+        let editElement = document.createElement("span");
+        valueElement.appendChild(editElement);
+        editElement.classList.add("tuning-edit");
+        editElement.innerText = "Edit";
+        editElement.addEventListener("click", () => {
+          let state = this.getTuningEditState(field.fullKey!);
+          if (state === null) {
+            window.sendMainMessage("error", {
+              title: "Cannot edit value",
+              content: "Please wait for a value to be received from the robot, then try again."
+            });
+          } else {
+            window.sendMainMessage("ask-edit-tuning-value", state);
+          }
+        });
+        let setTuningModeActive = (active: boolean) => {
+          active = active && window.tuner !== null && window.tuner.isTunable(field.fullKey!);
+          editElement.hidden = !active;
+          let valueWidth = valueElement.clientWidth === 0 ? 0 : valueElement.clientWidth + this.VALUE_WIDTH_MARGIN_PX;
+          fieldElementContainer.style.setProperty("--value-width", valueWidth.toString() + "px");
+        };
+        this.setTuningModeActiveCallbacks.push(setTuningModeActive);
+        setTuningModeActive(this.isTuningMode);
       }
 
       // Metadata callback
@@ -1010,6 +1077,105 @@ export default class Sidebar {
     return a.localeCompare(b, undefined, { numeric: true });
   }
 
+  /** Returns the state used to edit a tunable field, or null if no value is available to edit. */
+  private getTuningEditState(key: string): TuningValueEditState | null {
+    let type = window.log.getWpilibType(key);
+    if (type === null) return null;
+    let data = window.log.getRange(key, Infinity, Infinity);
+    let value = data !== undefined && data.values.length > 0 ? data.values[data.values.length - 1] : null;
+
+    // Get value to edit
+    let editValue: TuningValueEditState["value"];
+    if (type.startsWith(STRUCT_PREFIX)) {
+      // The layout of the struct is based on the current value
+      if (value === null) return null;
+      let schemaType = type.slice(STRUCT_PREFIX.length);
+      let isArray = schemaType.endsWith("[]");
+      try {
+        editValue = flattenStruct(
+          window.log.decodeStruct(isArray ? schemaType.slice(0, -2) : schemaType, value, isArray)
+        );
+      } catch {
+        return null;
+      }
+    } else if (type.endsWith("[]")) {
+      editValue = value === null ? [] : value;
+    } else {
+      editValue = value === null ? "" : value;
+    }
+
+    // Get options for string choosers
+    let options: string[] | null = null;
+    let optionsKey = key.slice(0, key.lastIndexOf("/")) + "/options";
+    if (type === "string" && window.log.getType(optionsKey) === LoggableType.StringArray) {
+      let optionsData = window.log.getStringArray(optionsKey, Infinity, Infinity);
+      if (optionsData !== undefined && optionsData.values.length > 0) {
+        options = optionsData.values[optionsData.values.length - 1];
+      }
+    }
+
+    return { key: key, type: type, value: editValue, options: options };
+  }
+
+  /**
+   * Publishes a value edited by the user.
+   * @returns An error message if the value is invalid, otherwise null
+   */
+  publishTuningValue(state: TuningValueEditState): string | null {
+    if (window.tuner === null || !window.tuner.isTunable(state.key)) {
+      return "Tuning is not available for this field.";
+    }
+    let value = state.type.startsWith(STRUCT_PREFIX)
+      ? unflattenStruct(state.value as TuningStructMember[], state.type.endsWith("[]"))
+      : state.value;
+    return window.tuner.publish(state.key, value);
+  }
+
+  /** Returns the values published in tuning mode, by field key. */
+  getTuningValues(): { [key: string]: LiveDataTunerValue } {
+    let values: { [key: string]: LiveDataTunerValue } = window.tuner === null ? {} : window.tuner.getPublishedValues();
+    Object.entries(this.tuningValueCache).forEach(([key, valueStr]) => {
+      let value = Number(valueStr);
+      if (valueStr.length > 0 && isFinite(value)) values[key] = value;
+    });
+    return values;
+  }
+
+  /**
+   * Enables tuning mode and publishes a set of values.
+   * @returns The keys of any values that could not be published
+   */
+  setTuningValues(values: { [key: string]: LiveDataTunerValue }): string[] {
+    if (window.tuner === null || !window.tuner.hasTunableFields()) return Object.keys(values);
+    if (!this.isTuningMode) this.setTuningModeActive(true);
+    let failedKeys: string[] = [];
+    Object.entries(values).forEach(([key, value]) => {
+      if (window.tuner!.publish(key, value) !== null) {
+        failedKeys.push(key);
+        return;
+      }
+      if (typeof value !== "number") return;
+      this.tuningValueCache[key] = value.toString();
+      if (key in this.tuningNumberInputs) {
+        this.tuningNumberInputs[key].value = value.toString();
+      }
+    });
+    return failedKeys;
+  }
+
+  /** Restores the value of a tunable field from before the last change. */
+  undoTuningValue(key: string) {
+    let value = window.tuner?.undo(key);
+    if (typeof value === "number" && key in this.tuningNumberInputs) {
+      // Keep publishing the restored value
+      let input = this.tuningNumberInputs[key];
+      if (input.value.length > 0) {
+        input.value = value.toString();
+        this.tuningValueCache[key] = input.value;
+      }
+    }
+  }
+
   /** Returns the set of field keys that are currently visible. */
   getActiveFields(): Set<string> {
     if (this.sidebarWidth > 0) {
@@ -1020,3 +1186,32 @@ export default class Sidebar {
     }
   }
 }
+
+/** Converts a decoded struct to a list of members. */
+function flattenStruct(value: unknown, prefix = ""): TuningStructMember[] {
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value)
+      .map(([name, child]) => flattenStruct(child, prefix.length > 0 ? prefix + "/" + name : name))
+      .flat();
+  } else {
+    return [{ name: prefix, value: value as number | boolean | string }];
+  }
+}
+
+/** Converts a list of members to a decoded struct, the inverse of `flattenStruct()`. */
+function unflattenStruct(members: TuningStructMember[], isArray: boolean): object {
+  let output: any = isArray ? [] : {};
+  members.forEach((member) => {
+    let path = member.name.split("/");
+    let parent = output;
+    path.forEach((name, index) => {
+      if (index === path.length - 1) {
+        parent[name] = member.value;
+      } else {
+        if (!(name in parent)) parent[name] = /^\d+$/.test(path[index + 1]) ? [] : {};
+        parent = parent[name];
+      }
+    });
+  });
+  return output;
+}
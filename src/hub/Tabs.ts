@@ -10,10 +10,12 @@ import MechanismRenderer from "../shared/renderers/MechanismRenderer";
 import MetadataRenderer from "../shared/renderers/MetadataRenderer";
 import OdometryRenderer from "../shared/renderers/OdometryRenderer";
 import PointsRenderer from "../shared/renderers/PointsRenderer";
+import SignalGeneratorRenderer from "../shared/renderers/SignalGeneratorRenderer";
 import StatisticsRenderer from "../shared/renderers/StatisticsRenderer";
 import SwerveRenderer from "../shared/renderers/SwerveRenderer";
+import SysIdRenderer from "../shared/renderers/SysIdRenderer";
 import TabRenderer, { NoopRenderer } from "../shared/renderers/TabRenderer";
-import TableRenderer from "../shared/renderers/TableRenderer";
+import TableRenderer, { TableColumnFormat } from "../shared/renderers/TableRenderer";
 import ThreeDimensionRenderer from "../shared/renderers/ThreeDimensionRenderer";
 import VideoRenderer from "../shared/renderers/VideoRenderer";
 import { UnitConversionPreset } from "../shared/units";
@@ -26,8 +28,10 @@ import MechanismController from "./controllers/MechanismController";
 import MetadataController from "./controllers/MetadataController";
 import OdometryController from "./controllers/OdometryController";
 import PointsController from "./controllers/PointsController";
+import SignalGeneratorController from "./controllers/SignalGeneratorController";
 import StatisticsController from "./controllers/StatisticsController";
 import SwerveController from "./controllers/SwerveController";
+import SysIdController from "./controllers/SysIdController";
 import TabController, { NoopController } from "./controllers/TabController";
 import TableController from "./controllers/TableController";
 import ThreeDimensionController from "./controllers/ThreeDimensionController";
@@ -87,6 +91,8 @@ export default class Tabs {
     this.FIXED_CONTROL_HEIGHTS.set(TabType.Mechanism, undefined);
     this.FIXED_CONTROL_HEIGHTS.set(TabType.Points, undefined);
     this.FIXED_CONTROL_HEIGHTS.set(TabType.Metadata, 0);
+    this.FIXED_CONTROL_HEIGHTS.set(TabType.SysId, undefined);
+    this.FIXED_CONTROL_HEIGHTS.set(TabType.SignalGenerator, undefined);
 
     // Hover and click handling
     let mouseDownInfo: [number, number] | null = null;
@@ -379,6 +385,7 @@ export default class Tabs {
   /** Restores to the provided state. */
   restoreState(state: TabsState) {
     this.tabList.forEach((tab) => {
+      if (tab.type === TabType.SignalGenerator) (tab.controller as SignalGeneratorController).stop();
       this.RENDERER_CONTENT.removeChild(tab.rendererElement);
       this.CONTROLS_CONTENT.removeChild(tab.controlsElement);
     });
@@ -423,6 +430,9 @@ export default class Tabs {
         activeFields.add(field);
       });
     });
+    window.comparison.getActiveFields([...activeFields]).forEach((field) => {
+      activeFields.add(field);
+    });
     let enabledKey = getEnabledKey(window.log);
     if (enabledKey !== undefined) {
       activeFields.add(enabledKey);
@@ -470,8 +480,9 @@ export default class Tabs {
         renderer = new DocumentationRenderer(rendererElement);
         break;
       case TabType.LineGraph:
-        controller = new LineGraphController(controlsElement);
-        renderer = new LineGraphRenderer(rendererElement, true);
+        let lineGraphController = new LineGraphController(controlsElement);
+        controller = lineGraphController;
+        renderer = new LineGraphRenderer(rendererElement, true, (delta) => lineGraphController.nudgeTimeOffset(delta));
         break;
       case TabType.Odometry:
         controller = new OdometryController(controlsElement);
@@ -517,6 +528,14 @@ export default class Tabs {
         controller = new MetadataController();
         renderer = new MetadataRenderer(rendererElement);
         break;
+      case TabType.SysId:
+        controller = new SysIdController(controlsElement);
+        renderer = new SysIdRenderer(rendererElement);
+        break;
+      case TabType.SignalGenerator:
+        controller = new SignalGeneratorController(controlsElement);
+        renderer = new SignalGeneratorRenderer(rendererElement);
+        break;
       default:
         controller = new NoopController();
         renderer = new NoopRenderer();
@@ -562,6 +581,9 @@ export default class Tabs {
   /** Closes the specified tab. */
   close(index: number) {
     if (index < 1 || index > this.tabList.length - 1) return;
+    if (this.tabList[index].type === TabType.SignalGenerator) {
+      (this.tabList[index].controller as SignalGeneratorController).stop();
+    }
     this.RENDERER_CONTENT.removeChild(this.tabList[index].rendererElement);
     this.CONTROLS_CONTENT.removeChild(this.tabList[index].controlsElement);
     this.tabList.splice(index, 1);
@@ -639,6 +661,18 @@ export default class Tabs {
     }
   }
 
+  /** Adjusts the column format and options on the selected table. */
+  editTable(index: number | null, format: TableColumnFormat | null, changesOnly: boolean, highlightChanges: boolean) {
+    if (this.tabList[this.selectedTab].type === TabType.Table) {
+      (this.tabList[this.selectedTab].controller as TableController).editTable(
+        index,
+        format,
+        changesOnly,
+        highlightChanges
+      );
+    }
+  }
+
   /** Clear the fields for an axis on the selected line graph. */
   clearAxis(legend: string) {
     if (this.tabList[this.selectedTab].type === TabType.LineGraph) {
@@ -4,6 +4,8 @@ import ScrollSensor from "./ScrollSensor";
 
 export default class Timeline {
   private STEP_TARGET_PX = 125;
+  private ANNOTATION_HOVER_PX = 5;
+  private EVENT_HEIGHT_PX = 4;
 
   private CONTAINER: HTMLElement;
   private CANVAS: HTMLCanvasElement;
@@ -15,6 +17,7 @@ export default class Timeline {
   private grabZoomStartTime = 0;
   private lastCursorX: number | null = null;
   private lastCursorInRect = false;
+  private hoveredAnnotationIndex: number | null = null;
 
   constructor(container: HTMLElement) {
     this.CONTAINER = container;
@@ -72,7 +75,14 @@ export default class Timeline {
       }
     });
     this.SCROLL_OVERLAY.addEventListener("contextmenu", () => {
-      window.selection.goIdle();
+      if (this.hoveredAnnotationIndex !== null) {
+        window.sendMainMessage("ask-annotation-menu", {
+          index: this.hoveredAnnotationIndex,
+          annotation: window.annotations.getAll()[this.hoveredAnnotationIndex]
+        });
+      } else {
+        window.selection.goIdle();
+      }
     });
 
     // Scroll handling
@@ -132,6 +142,38 @@ export default class Timeline {
       }
     });
 
+    // Draw annotations
+    let annotations = window.annotations.getAll();
+    context.fillStyle = light ? "#ff8800" : "#ffaa00";
+    context.strokeStyle = light ? "#ff8800" : "#ffaa00";
+    context.lineWidth = 2;
+    annotations.forEach((annotation) => {
+      let startX = scaleValue(annotation.start, timeRange, [0, width]);
+      if (annotation.end !== null) {
+        let endX = clampValue(scaleValue(annotation.end, timeRange, [0, width]), 0, width);
+        context.globalAlpha = 0.3;
+        context.fillRect(clampValue(startX, 0, width), 0, endX - clampValue(startX, 0, width), height);
+        context.globalAlpha = 1;
+        rangeBorders.push(annotation.end);
+      }
+      if (startX >= 0 && startX <= width) {
+        context.beginPath();
+        context.moveTo(startX, 0);
+        context.lineTo(startX, height);
+        context.stroke();
+      }
+      rangeBorders.push(annotation.start);
+    });
+
+    // Draw detected events
+    context.fillStyle = light ? "#aa00ff" : "#cc55ff";
+    window.eventDetector.getEvents().forEach((event) => {
+      let startX = clampValue(scaleValue(event.start, timeRange, [0, width]), 0, width);
+      let endX = clampValue(scaleValue(event.end, timeRange, [0, width]), 0, width);
+      context.fillRect(startX, height - this.EVENT_HEIGHT_PX, Math.max(endX - startX, 1), this.EVENT_HEIGHT_PX);
+      rangeBorders.push(event.start, event.end);
+    });
+
     // Draw grab zoom range
     let grabZoomRange = window.selection.getGrabZoomRange();
     if (grabZoomRange !== null) {
@@ -158,6 +200,17 @@ export default class Timeline {
       window.selection.setHoveredTime(
         Math.abs(this.lastCursorX - nearestRangeBorderX) < 5 ? nearestRangeBorder : cursorTime
       );
+      this.hoveredAnnotationIndex = window.annotations.getIndexAtTime(
+        cursorTime,
+        ((timeRange[1] - timeRange[0]) / width) * this.ANNOTATION_HOVER_PX
+      );
+    } else {
+      this.hoveredAnnotationIndex = null;
+    }
+    let hoveredAnnotationLabel =
+      this.hoveredAnnotationIndex === null ? "" : annotations[this.hoveredAnnotationIndex].label;
+    if (this.SCROLL_OVERLAY.title !== hoveredAnnotationLabel) {
+      this.SCROLL_OVERLAY.title = hoveredAnnotationLabel;
     }
 
     // Draw a vertical marker line at the time
@@ -0,0 +1,87 @@
+import { TuningPresetState } from "../shared/HubState";
+import { LiveDataTunerValue, getCurrentTunerValue, tunerValuesEqual } from "./dataSources/LiveDataTuner";
+
+/** Stores named sets of tuned values, which can be compared to the current values and republished. */
+export default class TuningPresets {
+  private presets: TuningPresetState[] = [];
+
+  /** Returns the current state. */
+  saveState(): TuningPresetState[] {
+    return this.presets.map((preset) => ({ name: preset.name, values: { ...preset.values } }));
+  }
+
+  /** Restores to the provided state. */
+  restoreState(state: TuningPresetState[] | undefined) {
+    if (state === undefined) return;
+    this.presets = state.map((preset) => ({ name: preset.name, values: { ...preset.values } }));
+  }
+
+  /** Returns the names of all presets. */
+  getNames(): string[] {
+    return this.presets.map((preset) => preset.name);
+  }
+
+  /**
+   * Adds or replaces a preset.
+   * @param name The name of the preset
+   * @param values The tuned values to save, by field key
+   * @returns An error message if the preset is invalid, otherwise null
+   */
+  save(name: string, values: { [key: string]: LiveDataTunerValue }): string | null {
+    name = name.trim();
+    if (name.length === 0) {
+      return "The preset name cannot be empty.";
+    }
+    if (Object.keys(values).length === 0) {
+      return "No tuned values are available. Publish values in tuning mode, then try again.";
+    }
+    this.presets = this.presets.filter((preset) => preset.name !== name);
+    this.presets.push({ name: name, values: { ...values } });
+    return null;
+  }
+
+  /** Removes a preset. */
+  remove(name: string) {
+    this.presets = this.presets.filter((preset) => preset.name !== name);
+  }
+
+  /** Returns the fields where the preset differs from the most recent values received from the robot. */
+  getDiff(name: string): TuningPresetDiff[] {
+    let preset = this.presets.find((preset) => preset.name === name);
+    if (preset === undefined) return [];
+    let diff: TuningPresetDiff[] = [];
+    Object.entries(preset.values).forEach(([key, presetValue]) => {
+      let current = getCurrentTunerValue(key);
+      if (current === null || !tunerValuesEqual(key, current, presetValue)) {
+        diff.push({ key: key, current: current, preset: presetValue });
+      }
+    });
+    return diff;
+  }
+
+  /**
+   * Publishes every value in a preset.
+   * @returns An error message if any values could not be published, otherwise null
+   */
+  apply(name: string): string | null {
+    let preset = this.presets.find((preset) => preset.name === name);
+    if (preset === undefined) return 'The preset "' + name + '" does not exist.';
+    let failedKeys = window.sidebar.setTuningValues(preset.values);
+    if (failedKeys.length > 0) {
+      return "The following fields could not be published:\n\n" + failedKeys.join("\n");
+    }
+    return null;
+  }
+}
+
+export type TuningPresetDiff = {
+  key: string;
+  /** Most recent value from the robot, or null if not available */
+  current: LiveDataTunerValue | null;
+  preset: LiveDataTunerValue;
+};
+
+/** Formats a tuned value for display. */
+export function formatTuningValue(value: LiveDataTunerValue): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
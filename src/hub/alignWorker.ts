@@ -0,0 +1,22 @@
+import { getCrossCorrelationShift } from "../shared/log/LogUtil";
+
+self.onmessage = (event) => {
+  // WORKER SETUP
+  self.onmessage = null;
+  let { id, payload } = event.data;
+  function resolve(result: any) {
+    self.postMessage({ id: id, payload: result });
+  }
+  function reject() {
+    self.postMessage({ id: id });
+  }
+
+  // MAIN LOGIC
+
+  try {
+    resolve(getCrossCorrelationShift(payload.reference, payload.target));
+  } catch {
+    // Something went wrong
+    reject();
+  }
+};
@@ -10,7 +10,7 @@ export default class ConsoleController implements TabController {
   private TABLE_CONTAINER: HTMLElement;
   private DRAG_HIGHLIGHT: HTMLElement;
 
-  private field: string | null = null;
+  private fields: string[] = [];
 
   constructor(root: HTMLElement) {
     this.ROOT = root;
@@ -25,30 +25,41 @@ export default class ConsoleController implements TabController {
       let rect = this.TABLE_CONTAINER.getBoundingClientRect();
       let active =
         dragData.x > rect.left && dragData.x < rect.right && dragData.y > rect.top && dragData.y < rect.bottom;
-      let validType = window.log.getType(dragData.data.fields[0]) === LoggableType.String;
+      let newFields = (dragData.data.fields as string[]).filter(
+        (field) => window.log.getType(field) === LoggableType.String && !this.fields.includes(field)
+      );
       this.DRAG_HIGHLIGHT.hidden = true;
-      if (active && validType) {
+      if (active && newFields.length > 0) {
         if (dragData.end) {
-          this.field = dragData.data.fields[0];
+          this.fields.push(...newFields);
         } else {
           this.DRAG_HIGHLIGHT.hidden = false;
         }
       }
     });
 
-    // Handle close field event
-    this.ROOT.addEventListener("close-field", () => {
-      this.field = null;
+    // Handle close field event (removes a single field if an index is provided)
+    this.ROOT.addEventListener("close-field", (event) => {
+      let index = (event as CustomEvent).detail;
+      if (typeof index === "number") {
+        this.fields.splice(index, 1);
+      } else {
+        this.fields = [];
+      }
     });
   }
 
   saveState(): unknown {
-    return this.field;
+    return this.fields;
   }
 
   restoreState(state: unknown): void {
-    if (typeof state === "string" || state === null) {
-      this.field = state;
+    if (Array.isArray(state)) {
+      this.fields = state.filter((field) => typeof field === "string");
+    } else if (typeof state === "string") {
+      this.fields = [state]; // Older layouts only supported a single field
+    } else if (state === null) {
+      this.fields = [];
     }
   }
 
@@ -57,11 +68,7 @@ export default class ConsoleController implements TabController {
   newAssets(): void {}
 
   getActiveFields(): string[] {
-    if (this.field !== null) {
-      return [this.field];
-    } else {
-      return [];
-    }
+    return [...this.fields];
   }
 
   showTimeline(): boolean {
@@ -69,11 +76,18 @@ export default class ConsoleController implements TabController {
   }
 
   getCommand(): ConsoleRendererCommand {
-    const isAvailable = this.field !== null && window.log.getFieldKeys().includes(this.field);
+    let availableKeys = window.log.getFieldKeys();
     return {
-      key: this.field,
-      keyAvailable: isAvailable,
-      serialized: isAvailable ? window.log.getField(this.field!)?.toSerialized() : null,
+      sources: this.fields.map((field) => {
+        let isAvailable = availableKeys.includes(field);
+        let data = isAvailable ? window.log.getString(field, -Infinity, Infinity) : undefined;
+        return {
+          key: field,
+          available: isAvailable,
+          timestamps: data === undefined ? [] : data.timestamps,
+          values: data === undefined ? [] : data.values
+        };
+      }),
 
       selectionMode: window.selection.getMode(),
       selectedTime: window.selection.getSelectedTime(),
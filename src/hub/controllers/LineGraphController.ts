@@ -1,7 +1,7 @@
 import { ensureThemeContrast } from "../../shared/Colors";
 import LineGraphFilter from "../../shared/LineGraphFilter";
-import { SourceListState } from "../../shared/SourceListConfig";
-import { AKIT_TIMESTAMP_KEYS, getEnabledKey, getLogValueText } from "../../shared/log/LogUtil";
+import { SourceListItemState, SourceListState } from "../../shared/SourceListConfig";
+import { AKIT_TIMESTAMP_KEYS, getEnabledKey, getLogValueText, getMergePrefix } from "../../shared/log/LogUtil";
 import { LogValueSetNumber } from "../../shared/log/LogValueSets";
 import {
   LineGraphRendererCommand,
@@ -266,6 +266,22 @@ export default class LineGraphController implements TabController {
     return false;
   }
 
+  /** Shifts the merged log of the first visible field from a merged log. */
+  nudgeTimeOffset(delta: number) {
+    let prefix = [
+      ...this.leftSourceList.getState(),
+      ...this.rightSourceList.getState(),
+      ...this.discreteSourceList.getState()
+    ]
+      .filter((item) => item.visible)
+      .map((item) => getMergePrefix(item.logKey))
+      .find((prefix) => prefix.length > 0);
+    if (prefix === undefined) return;
+    window.log.setTimeOffset(prefix, window.log.getTimeOffset(prefix) + delta);
+    window.computedFields.update(true);
+    window.eventDetector.update(true);
+  }
+
   private getPreview(key: string, time: number): number | null {
     if (!(key in this.numericCommandCache)) return null;
     let command = this.numericCommandCache[key];
@@ -290,7 +306,7 @@ export default class LineGraphController implements TabController {
         ? undefined
         : window.log.getNumber(akitTimestampField, -Infinity, Infinity)?.timestamps;
     let addNumeric = (
-      source: SourceListState,
+      source: (SourceListItemState & { timeOffset: number })[],
       dataRange: [number, number],
       command: LineGraphRendererCommand_NumericField[],
       unitConversion: UnitConversionPreset,
@@ -299,8 +315,8 @@ export default class LineGraphController implements TabController {
       source.forEach((fieldItem) => {
         let data = window.log.getNumber(
           fieldItem.logKey,
-          filter === LineGraphFilter.Integrate ? -Infinity : timeRange[0],
-          timeRange[1]
+          filter === LineGraphFilter.Integrate ? -Infinity : timeRange[0] + fieldItem.timeOffset,
+          timeRange[1] + fieldItem.timeOffset
         );
         if (data === undefined) return;
 
@@ -335,6 +351,11 @@ export default class LineGraphController implements TabController {
           }
         }
 
+        // Align to comparison log
+        if (fieldItem.timeOffset !== 0) {
+          data.timestamps = data.timestamps.map((timestamp) => timestamp - fieldItem.timeOffset);
+        }
+
         // Apply filter
         switch (filter) {
           case LineGraphFilter.Differentiate:
@@ -454,14 +475,14 @@ export default class LineGraphController implements TabController {
       });
     };
     addNumeric(
-      this.leftSourceList.getState(),
+      window.comparison.expandSources(this.leftSourceList.getState(), LineGraphController_NumericConfig),
       leftDataRange,
       leftFieldsCommand,
       this.leftUnitConversion,
       this.leftFilter
     );
     addNumeric(
-      this.rightSourceList.getState(),
+      window.comparison.expandSources(this.rightSourceList.getState(), LineGraphController_NumericConfig),
       rightDataRange,
       rightFieldsCommand,
       this.rightUnitConversion,
@@ -469,10 +490,18 @@ export default class LineGraphController implements TabController {
     );
 
     // Add discrete fields
-    this.discreteSourceList.getState().forEach((fieldItem) => {
+    let discreteSources = window.comparison.expandSources(
+      this.discreteSourceList.getState(),
+      LineGraphController_DiscreteConfig
+    );
+    discreteSources.forEach((fieldItem) => {
       if (!fieldItem.visible || fieldItem.type === "alerts") return;
 
-      let data = window.log.getRange(fieldItem.logKey, timeRange[0], timeRange[1]);
+      let data = window.log.getRange(
+        fieldItem.logKey,
+        timeRange[0] + fieldItem.timeOffset,
+        timeRange[1] + fieldItem.timeOffset
+      );
       if (data === undefined) return;
 
       // Get toggle reference
@@ -480,6 +509,11 @@ export default class LineGraphController implements TabController {
       toggleReference = toggleReference !== window.log.getStripingReference(fieldItem.logKey);
       if (typeof data.values[0] === "boolean") toggleReference = !data.values[0];
 
+      // Align to comparison log
+      if (fieldItem.timeOffset !== 0) {
+        data.timestamps = data.timestamps.map((timestamp) => timestamp - fieldItem.timeOffset);
+      }
+
       // Adjust early point
       if (data.timestamps.length > 0 && data.timestamps[0] < timeRange[0]) {
         data.timestamps[0] = timeRange[0];
@@ -619,7 +653,14 @@ export default class LineGraphController implements TabController {
       leftFields: leftFieldsCommand,
       rightFields: rightFieldsCommand,
       discreteFields: discreteFieldsCommand,
-      alerts: alerts
+      alerts: alerts,
+      annotations: window.annotations
+        .getAll()
+        .filter(
+          (annotation) =>
+            annotation.start <= timeRange[1] &&
+            (annotation.end === null ? annotation.start : annotation.end) >= timeRange[0]
+        )
     };
   }
 
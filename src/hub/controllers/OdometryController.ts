@@ -257,9 +257,13 @@ export default class OdometryController implements TabController {
 
     // Get objects
     let objects: OdometryRendererCommand_AnyObj[] = [];
-    let sources = this.sourceList.getState(true);
+    let sources = window.comparison.expandSources(this.sourceList.getState(true), OdometryController_Config, {
+      robot: "ghost",
+      robotLegacy: "ghostLegacy"
+    });
     for (let i = 0; i < sources.length; i++) {
       let source = sources[i];
+      let sourceTime = time === null ? null : time + source.timeOffset;
       let typeConfig = OdometryController_Config.types.find((typeConfig) => typeConfig.key === source.type);
       if (typeConfig?.childOf !== undefined) continue; // This is a child, don't render
 
@@ -293,12 +297,12 @@ export default class OdometryController implements TabController {
       let isHeatmap = source.type === "heatmap" || source.type === "heatmapLegacy";
       let pose3ds: AnnotatedPose3d[] = [];
       if (!isHeatmap) {
-        if (time !== null) {
+        if (sourceTime !== null) {
           pose3ds = grabPosesAuto(
             window.log,
             source.logKey,
             source.logType,
-            time,
+            sourceTime,
             this.UUID,
             numberArrayFormat,
             numberArrayUnits,
@@ -337,10 +341,13 @@ export default class OdometryController implements TabController {
 
       // Get trail data for robot
       let trails: Translation2d[][] = Array(poses.length).fill([]);
-      if (time !== null) {
+      if (sourceTime !== null) {
         if (source.type === "robot" || source.type === "robotLegacy") {
-          let startTime = Math.max(window.log.getTimestampRange()[0], time - OdometryController.TRAIL_LENGTH_SECS);
-          let endTime = Math.min(window.log.getTimestampRange()[1], time + OdometryController.TRAIL_LENGTH_SECS);
+          let startTime = Math.max(
+            window.log.getTimestampRange()[0],
+            sourceTime - OdometryController.TRAIL_LENGTH_SECS
+          );
+          let endTime = Math.min(window.log.getTimestampRange()[1], sourceTime + OdometryController.TRAIL_LENGTH_SECS);
 
           let timestamps = [startTime];
           for (
@@ -390,7 +397,7 @@ export default class OdometryController implements TabController {
               window.log,
               child.logKey,
               child.logType,
-              time!,
+              sourceTime!,
               this.UUID,
               undefined,
               numberArrayUnits
@@ -420,7 +427,7 @@ export default class OdometryController implements TabController {
               window.log,
               child.logKey,
               child.logType,
-              time!,
+              sourceTime!,
               this.UUID,
               numberArrayFormat,
               "radians"
@@ -443,7 +450,7 @@ export default class OdometryController implements TabController {
               window.log,
               child.logKey,
               child.logType,
-              time!,
+              sourceTime!,
               child.options.arrangement,
               numberArrayUnits,
               this.UUID
@@ -0,0 +1,311 @@
+import { SignalGeneratorRendererCommand } from "../../shared/renderers/SignalGeneratorRenderer";
+import { createUUID } from "../../shared/util";
+import {
+  NT4SignalGenerator,
+  NT4SignalGeneratorStatus,
+  SignalWaveform,
+  evaluateWaveform,
+  getWaveformDuration,
+  parseWaveformCSV,
+  validateWaveform
+} from "../dataSources/nt4/NT4SignalGenerator";
+import TabController from "./TabController";
+
+type WaveformType = SignalWaveform["type"];
+
+export default class SignalGeneratorController implements TabController {
+  UUID = createUUID();
+
+  private SINE_PREVIEW_POINTS = 200;
+  private PARAM_TITLES: { [type: string]: [string, string, string] } = {
+    step: ["Initial", "Final", "Delay (s)"],
+    ramp: ["Initial", "Rate (/s)", "Duration (s)"],
+    sine: ["Offset", "Amplitude", "Period (s)"]
+  };
+
+  private TOPIC: HTMLInputElement;
+  private TARGET: HTMLSelectElement;
+  private STATUS: HTMLElement;
+  private START_BUTTON: HTMLButtonElement;
+  private STOP_BUTTON: HTMLButtonElement;
+  private WAVEFORM: HTMLSelectElement;
+  private PARAM_TITLES_ELEMENTS: HTMLElement[];
+  private PARAM_INPUTS: HTMLInputElement[];
+  private CSV: HTMLTextAreaElement;
+
+  private params: { [type: string]: [number, number, number] } = {
+    step: [0, 1, 1],
+    ramp: [0, 1, 5],
+    sine: [0, 1, 2]
+  };
+  private lastWaveformType: WaveformType = "step";
+  private generator: NT4SignalGenerator | null = null;
+  private generatorWaveform: SignalWaveform | null = null;
+  private status = NT4SignalGeneratorStatus.Stopped;
+  private command: SignalGeneratorRendererCommand = {
+    changeCounter: 0,
+    message: null,
+    title: "",
+    points: [],
+    current: null
+  };
+  private shouldUpdate = true;
+
+  constructor(root: HTMLElement) {
+    let output = root.getElementsByClassName("signal-generator-output")[0] as HTMLElement;
+    let waveform = root.getElementsByClassName("signal-generator-waveform")[0] as HTMLElement;
+    this.TOPIC = output.getElementsByClassName("topic")[0] as HTMLInputElement;
+    this.TARGET = output.getElementsByClassName("target")[0] as HTMLSelectElement;
+    this.STATUS = output.getElementsByClassName("status")[0] as HTMLElement;
+    let buttons = output.getElementsByClassName("signal-generator-buttons")[0] as HTMLElement;
+    this.START_BUTTON = buttons.children[0] as HTMLButtonElement;
+    this.STOP_BUTTON = buttons.children[1] as HTMLButtonElement;
+    this.WAVEFORM = waveform.getElementsByClassName("waveform")[0] as HTMLSelectElement;
+    this.PARAM_TITLES_ELEMENTS = ["param-a-title", "param-b-title", "param-c-title"].map(
+      (className) => waveform.getElementsByClassName(className)[0] as HTMLElement
+    );
+    this.PARAM_INPUTS = ["param-a", "param-b", "param-c"].map(
+      (className) => waveform.getElementsByClassName(className)[0] as HTMLInputElement
+    );
+    this.CSV = root.getElementsByClassName("csv")[0] as HTMLTextAreaElement;
+
+    // Update preview when inputs change
+    this.WAVEFORM.addEventListener("change", () => {
+      this.saveParams();
+      this.lastWaveformType = this.WAVEFORM.value as WaveformType;
+      this.updateInputs();
+    });
+    [...this.PARAM_INPUTS, this.CSV].forEach((input) =>
+      input.addEventListener("input", () => {
+        this.saveParams();
+        this.shouldUpdate = true;
+      })
+    );
+
+    // Start and stop
+    this.START_BUTTON.addEventListener("click", () => this.start());
+    this.STOP_BUTTON.addEventListener("click", () => this.stop());
+    this.updateInputs();
+  }
+
+  saveState(): unknown {
+    this.saveParams();
+    return {
+      topic: this.TOPIC.value,
+      target: this.TARGET.value,
+      waveform: this.WAVEFORM.value,
+      params: this.params,
+      csv: this.CSV.value
+    };
+  }
+
+  restoreState(state: unknown): void {
+    if (typeof state !== "object" || state === null) return;
+
+    if ("topic" in state && typeof state.topic === "string") {
+      this.TOPIC.value = state.topic;
+    }
+    if ("target" in state && typeof state.target === "string") {
+      this.TARGET.value = state.target;
+    }
+    if ("params" in state && typeof state.params === "object" && state.params !== null) {
+      Object.entries(state.params).forEach(([type, values]) => {
+        if (type in this.params && Array.isArray(values) && values.length === 3 && values.every(isFinite)) {
+          this.params[type] = values as [number, number, number];
+        }
+      });
+    }
+    if ("csv" in state && typeof state.csv === "string") {
+      this.CSV.value = state.csv;
+    }
+    if ("waveform" in state && typeof state.waveform === "string") {
+      this.WAVEFORM.value = state.waveform;
+      this.lastWaveformType = this.WAVEFORM.value as WaveformType;
+    }
+    this.updateInputs();
+  }
+
+  refresh(): void {}
+
+  newAssets(): void {}
+
+  getActiveFields(): string[] {
+    return [];
+  }
+
+  showTimeline(): boolean {
+    return false;
+  }
+
+  /** Stops publishing, called when the tab is closed. */
+  stop() {
+    let generator = this.generator;
+    this.generator = null;
+    this.generatorWaveform = null;
+    generator?.stop();
+  }
+
+  getCommand(): SignalGeneratorRendererCommand {
+    // Update preview
+    if (this.shouldUpdate) {
+      this.shouldUpdate = false;
+      let waveform = this.getWaveform();
+      this.command = {
+        ...this.command,
+        changeCounter: this.command.changeCounter + 1,
+        message: typeof waveform === "string" ? waveform : null,
+        points: typeof waveform === "string" ? [] : this.getPreviewPoints(waveform)
+      };
+    }
+
+    // Update current value
+    let elapsedTime = this.generator === null ? null : this.generator.getElapsedTime();
+    let current: { x: number; y: number } | null = null;
+    if (this.generatorWaveform !== null && elapsedTime !== null) {
+      let duration = getWaveformDuration(this.generatorWaveform);
+      let previewTime =
+        this.generatorWaveform.type === "sine" ? elapsedTime % duration : Math.min(elapsedTime, duration);
+      current = { x: previewTime, y: evaluateWaveform(this.generatorWaveform, elapsedTime) };
+    }
+    let title = "Preview";
+    switch (this.status) {
+      case NT4SignalGeneratorStatus.Connecting:
+        title = "Connecting...";
+        break;
+      case NT4SignalGeneratorStatus.Active:
+        title =
+          "Publishing to " +
+          this.TOPIC.value.trim() +
+          (elapsedTime === null ? "" : " (" + elapsedTime.toFixed(1) + "s)");
+        break;
+    }
+    this.command = { ...this.command, title: title, current: current };
+    return this.command;
+  }
+
+  /** Starts publishing the current waveform. */
+  private start() {
+    let topic = this.TOPIC.value.trim();
+    let waveform = this.getWaveform();
+    let error: string | null = null;
+    if (topic.length === 0) {
+      error = "Please enter a topic to publish.";
+    } else if (typeof waveform === "string") {
+      error = waveform;
+    }
+    if (error !== null) {
+      window.sendMainMessage("error", { title: "Cannot start signal generator", content: error });
+      return;
+    }
+
+    this.stop();
+    this.generatorWaveform = waveform as SignalWaveform;
+    this.generator = new NT4SignalGenerator(this.TARGET.value === "sim", topic, this.generatorWaveform, (status) => {
+      this.status = status;
+      this.updateInputs();
+    });
+    this.updateInputs();
+  }
+
+  /** Saves the current parameter inputs for the selected waveform. */
+  private saveParams() {
+    if (this.lastWaveformType in this.params) {
+      this.params[this.lastWaveformType] = this.PARAM_INPUTS.map((input) => Number(input.value)) as [
+        number,
+        number,
+        number
+      ];
+    }
+  }
+
+  /** Updates the inputs based on the selected waveform and status. */
+  private updateInputs() {
+    let type = this.WAVEFORM.value as WaveformType;
+    let isActive = this.generator !== null;
+    let isCSV = type === "csv";
+    this.PARAM_TITLES_ELEMENTS.forEach((element, index) => {
+      element.innerText = isCSV ? "" : this.PARAM_TITLES[type][index];
+    });
+    this.PARAM_INPUTS.forEach((input, index) => {
+      input.hidden = isCSV;
+      input.disabled = isActive;
+      if (!isCSV) input.value = this.params[type][index].toString();
+    });
+    this.CSV.disabled = isActive || !isCSV;
+    this.TOPIC.disabled = isActive;
+    this.TARGET.disabled = isActive;
+    this.WAVEFORM.disabled = isActive;
+    this.START_BUTTON.hidden = isActive;
+    this.STOP_BUTTON.hidden = !isActive;
+    switch (this.status) {
+      case NT4SignalGeneratorStatus.Connecting:
+        this.STATUS.innerText = "Connecting";
+        break;
+      case NT4SignalGeneratorStatus.Active:
+        this.STATUS.innerText = "Publishing";
+        break;
+      case NT4SignalGeneratorStatus.Stopped:
+        this.STATUS.innerText = "Stopped";
+        break;
+    }
+    this.shouldUpdate = true;
+  }
+
+  /** Returns the waveform based on the current inputs, or an error message if invalid. */
+  private getWaveform(): SignalWaveform | string {
+    let type = this.WAVEFORM.value as WaveformType;
+    let waveform: SignalWaveform;
+    if (type === "csv") {
+      let points = parseWaveformCSV(this.CSV.value);
+      if (typeof points === "string") return points;
+      waveform = { type: "csv", points: points };
+    } else {
+      let [a, b, c] = this.params[type];
+      switch (type) {
+        case "step":
+          waveform = { type: "step", initial: a, final: b, delay: c };
+          break;
+        case "ramp":
+          waveform = { type: "ramp", initial: a, rate: b, duration: c };
+          break;
+        case "sine":
+          waveform = { type: "sine", offset: a, amplitude: b, period: c };
+          break;
+      }
+    }
+    let error = validateWaveform(waveform);
+    return error === null ? waveform : error;
+  }
+
+  /** Returns the points to display for a waveform, where each value is held until the next point. */
+  private getPreviewPoints(waveform: SignalWaveform): { x: number; y: number }[] {
+    let duration = getWaveformDuration(waveform);
+    let points: { x: number; y: number }[] = [];
+    switch (waveform.type) {
+      case "step":
+        points.push({ x: 0, y: waveform.initial });
+        points.push({ x: waveform.delay, y: waveform.initial });
+        points.push({ x: waveform.delay, y: waveform.final });
+        break;
+      case "ramp":
+        points.push({ x: 0, y: waveform.initial });
+        points.push({ x: waveform.duration, y: evaluateWaveform(waveform, waveform.duration) });
+        break;
+      case "sine":
+        for (let i = 0; i <= this.SINE_PREVIEW_POINTS; i++) {
+          let time = (duration * i) / this.SINE_PREVIEW_POINTS;
+          points.push({ x: time, y: evaluateWaveform(waveform, time) });
+        }
+        break;
+      case "csv":
+        points.push({ x: 0, y: waveform.points[0][1] });
+        waveform.points.forEach(([time, value]) => {
+          points.push({ x: time, y: points[points.length - 1].y });
+          points.push({ x: time, y: value });
+        });
+        break;
+    }
+    points.push({ x: duration, y: evaluateWaveform(waveform, duration) });
+    return points;
+  }
+}
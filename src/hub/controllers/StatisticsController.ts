@@ -1,7 +1,22 @@
 import * as stats from "simple-statistics";
 import { SourceListItemState, SourceListState } from "../../shared/SourceListConfig";
-import { AKIT_TIMESTAMP_KEYS, getRobotStateRanges } from "../../shared/log/LogUtil";
-import { StatisticsRendererCommand, StatisticsRendererCommand_Stats } from "../../shared/renderers/StatisticsRenderer";
+import {
+  AKIT_TIMESTAMP_KEYS,
+  applyKeyPrefix,
+  getAutonomousKey,
+  getEnabledKey,
+  getMergePrefix,
+  getRobotStateRanges,
+  MERGE_PREFIX,
+  removeMergePrefix
+} from "../../shared/log/LogUtil";
+import { LogValueSetNumber } from "../../shared/log/LogValueSets";
+import {
+  StatisticsRendererCommand,
+  StatisticsRendererCommand_ReportRow,
+  StatisticsRendererCommand_Stats,
+  StatisticsRendererCommand_Step
+} from "../../shared/renderers/StatisticsRenderer";
 import { arraysEqual, cleanFloat, createUUID } from "../../shared/util";
 import SourceList from "../SourceList";
 import StatisticsController_Config from "./StatisticsController_Config";
@@ -13,18 +28,27 @@ export default class StatisticsController implements TabController {
   private UPDATE_PERIOD_MS = 100;
   private DEFAULT_DT = 0.02;
   private MAX_BINS = 1000;
+  private MAX_SPECTRUM_SAMPLES = 65536;
+  private MAX_STEPS = 500;
 
+  private ROOT: HTMLElement;
+  private MODE: HTMLSelectElement;
   private TIME_RANGE: HTMLSelectElement;
   private RANGE_MIN: HTMLInputElement;
   private RANGE_MAX: HTMLInputElement;
   private STEP_SIZE: HTMLInputElement;
+  private WINDOW: HTMLSelectElement;
+  private STEP_THRESHOLD: HTMLInputElement;
 
   private sourceList: SourceList;
   private command: StatisticsRendererCommand = {
     changeCounter: 0,
+    mode: "histogram",
     bins: [],
     stepSize: 1,
-    fields: []
+    frequencies: [],
+    fields: [],
+    report: []
   };
   private shouldUpdate = true;
   private lastSourceStr = "";
@@ -32,25 +56,65 @@ export default class StatisticsController implements TabController {
   private lastUpdateTime = 0;
 
   constructor(root: HTMLElement) {
+    this.ROOT = root;
     this.sourceList = new SourceList(root.firstElementChild as HTMLElement, StatisticsController_Config, []);
+    this.MODE = root.getElementsByClassName("mode")[0] as HTMLSelectElement;
     this.TIME_RANGE = root.getElementsByClassName("time-range")[0] as HTMLSelectElement;
     this.RANGE_MIN = root.getElementsByClassName("range-min")[0] as HTMLInputElement;
     this.RANGE_MAX = root.getElementsByClassName("range-max")[0] as HTMLInputElement;
     this.STEP_SIZE = root.getElementsByClassName("step-size")[0] as HTMLInputElement;
+    this.WINDOW = root.getElementsByClassName("window")[0] as HTMLSelectElement;
+    this.STEP_THRESHOLD = root.getElementsByClassName("step-threshold")[0] as HTMLInputElement;
 
     // Schedule updates when inputs change
-    [this.TIME_RANGE, this.RANGE_MIN, this.RANGE_MAX, this.STEP_SIZE].forEach((input) =>
-      input.addEventListener("change", () => (this.shouldUpdate = true))
-    );
+    [
+      this.MODE,
+      this.TIME_RANGE,
+      this.RANGE_MIN,
+      this.RANGE_MAX,
+      this.STEP_SIZE,
+      this.WINDOW,
+      this.STEP_THRESHOLD
+    ].forEach((input) => input.addEventListener("change", () => (this.shouldUpdate = true)));
     this.STEP_SIZE.addEventListener("change", () => {
       this.updateHistogramInputs();
     });
+    this.MODE.addEventListener("change", () => {
+      this.updateModeInputs();
+    });
 
     // Set initial values for histogram inputs
     this.RANGE_MIN.value = "0";
     this.RANGE_MAX.value = "10";
     this.STEP_SIZE.value = "1";
+    this.STEP_THRESHOLD.value = "5";
     this.updateHistogramInputs();
+    this.updateModeInputs();
+  }
+
+  /** Shows the inputs relevant to the current mode. */
+  private updateModeInputs() {
+    let visibleClass: string | null = null; // Report mode has no mode-specific inputs
+    switch (this.MODE.value) {
+      case "histogram":
+        visibleClass = "histogram-only";
+        break;
+      case "step":
+        visibleClass = "step-only";
+        break;
+      case "fft":
+      case "psd":
+        visibleClass = "spectrum-only";
+        break;
+    }
+    ["histogram-only", "spectrum-only", "step-only"].forEach((className) => {
+      Array.from(this.ROOT.getElementsByClassName(className)).forEach((element) => {
+        (element as HTMLElement).style.display = className === visibleClass ? "" : "none";
+      });
+    });
+    Array.from(this.ROOT.getElementsByClassName("not-report")).forEach((element) => {
+      (element as HTMLElement).style.display = this.MODE.value === "report" ? "none" : "";
+    });
   }
 
   /** Updates the step size for each histogram input. */
@@ -73,10 +137,13 @@ export default class StatisticsController implements TabController {
   saveState(): unknown {
     return {
       sources: this.sourceList.getState(),
+      mode: this.MODE.value,
       timeRange: this.TIME_RANGE.value,
       rangeMin: Number(this.RANGE_MIN.value),
       rangeMax: Number(this.RANGE_MAX.value),
-      stepSize: Number(this.STEP_SIZE.value)
+      stepSize: Number(this.STEP_SIZE.value),
+      window: this.WINDOW.value,
+      stepThresholdPercent: Number(this.STEP_THRESHOLD.value)
     };
   }
 
@@ -86,6 +153,9 @@ export default class StatisticsController implements TabController {
     if ("sources" in state) {
       this.sourceList.setState(state.sources as SourceListState);
     }
+    if ("mode" in state && typeof state.mode === "string") {
+      this.MODE.value = state.mode;
+    }
     if ("timeRange" in state && typeof state.timeRange === "string") {
       this.TIME_RANGE.value = state.timeRange;
     }
@@ -98,7 +168,14 @@ export default class StatisticsController implements TabController {
     if ("stepSize" in state && typeof state.stepSize === "number") {
       this.STEP_SIZE.value = state.stepSize.toString();
     }
+    if ("window" in state && typeof state.window === "string") {
+      this.WINDOW.value = state.window;
+    }
+    if ("stepThresholdPercent" in state && typeof state.stepThresholdPercent === "number") {
+      this.STEP_THRESHOLD.value = state.stepThresholdPercent.toString();
+    }
     this.updateHistogramInputs();
+    this.updateModeInputs();
   }
 
   refresh(): void {
@@ -109,7 +186,22 @@ export default class StatisticsController implements TabController {
   newAssets(): void {}
 
   getActiveFields(): string[] {
-    return this.sourceList.getActiveFields();
+    let activeFields = this.sourceList.getActiveFields();
+    if (this.MODE.value === "report") {
+      // Include equivalent fields and robot state from every log
+      let prefixes = this.getLogPrefixes();
+      let reportFields: string[] = [];
+      prefixes.forEach((prefix) => {
+        activeFields.forEach((field) => reportFields.push(applyKeyPrefix(prefix, removeMergePrefix(field))));
+        let enabledKey = getEnabledKey(window.log, prefix);
+        let autonomousKey = getAutonomousKey(window.log, prefix);
+        if (enabledKey !== undefined) reportFields.push(enabledKey);
+        if (autonomousKey !== undefined) reportFields.push(autonomousKey);
+        AKIT_TIMESTAMP_KEYS.forEach((key) => reportFields.push(applyKeyPrefix(prefix, key)));
+      });
+      activeFields = [...new Set([...activeFields, ...reportFields])];
+    }
+    return activeFields;
   }
 
   showTimeline(): boolean {
@@ -139,6 +231,22 @@ export default class StatisticsController implements TabController {
       this.lastSourceStr = sourcesStr;
       this.lastTimelineRange = [...window.selection.getTimelineRange()];
       this.lastUpdateTime = currentTime;
+      let mode = this.MODE.value as StatisticsRendererCommand["mode"];
+      let isSpectrum = mode === "fft" || mode === "psd";
+
+      // Generate report (always uses the full range of each log)
+      if (mode === "report") {
+        this.command = {
+          changeCounter: this.command.changeCounter + 1,
+          mode: mode,
+          bins: [],
+          stepSize: 1,
+          frequencies: [],
+          fields: [],
+          report: this.getReport()
+        };
+        return this.command;
+      }
 
       // Get bins
       this.updateHistogramInputs;
@@ -183,12 +291,12 @@ export default class StatisticsController implements TabController {
 
       const akitTimestampKey = window.log.getFieldKeys().find((key) => AKIT_TIMESTAMP_KEYS.includes(key));
       let sampleTimes: number[] = [];
-      if (akitTimestampKey !== undefined) {
+      if (akitTimestampKey !== undefined && !isSpectrum) {
         // Use synced AdvantageKit timestamps :)
         const akitTimestamps = window.log.getNumber(akitTimestampKey, -Infinity, Infinity);
         if (akitTimestamps !== undefined) sampleTimes = akitTimestamps.timestamps.filter(isValid);
       } else {
-        // No synced timestamps, use fixed period :(
+        // No synced timestamps (or spectral analysis, which requires a uniform rate), use fixed period
         for (
           let sampleTime = window.log.getTimestampRange()[0];
           sampleTime < window.log.getTimestampRange()[1];
@@ -199,62 +307,81 @@ export default class StatisticsController implements TabController {
           }
         }
       }
+      if (isSpectrum && sampleTimes.length > this.MAX_SPECTRUM_SAMPLES) {
+        sampleTimes = sampleTimes.slice(-this.MAX_SPECTRUM_SAMPLES);
+      }
+      let frequencies: number[] = [];
 
       // Get fields
       let fields: StatisticsRendererCommand["fields"] = [];
-      let sources = this.sourceList.getState(true);
-      for (let i = 0; i < sources.length; i++) {
-        let source = sources[i];
-        let typeConfig = StatisticsController_Config.types.find((typeConfig) => typeConfig.key === source.type);
-        if (typeConfig?.childOf !== undefined) continue; // This is a child, don't render
-
-        // Find children
-        let children: SourceListItemState[] = [];
-        while (
-          sources.length > i + 1 &&
-          StatisticsController_Config.types.find((typeConfig) => typeConfig.key === sources[i + 1].type)?.childOf !==
-            undefined
-        ) {
-          i++;
-          children.push(sources[i]);
-        }
-
+      for (let { source, children } of this.getSourceGroups()) {
         // Add field from source
         let addField = (source: SourceListItemState, refSource?: SourceListItemState) => {
           let data = window.log.getNumber(source.logKey, -Infinity, Infinity);
           let refData =
             refSource === undefined ? undefined : window.log.getNumber(refSource.logKey, -Infinity, Infinity);
-          if (data === null) return;
+          if (data === undefined) return;
 
           // Get samples
-          let index = 0;
-          let samples: number[] = sampleTimes.map((sampleTime) => {
-            while (index < data!.timestamps.length && data!.timestamps[index + 1] < sampleTime) {
-              index++;
+          let samples = getSamples(data, sampleTimes);
+          let refSamples = refData === undefined ? undefined : getSamples(refData, sampleTimes);
+
+          // Analyze steps (before applying reference)
+          let steps: StatisticsRendererCommand_Step[] = [];
+          if (mode === "step" && refData !== undefined) {
+            // Threshold is relative to the range of the reference
+            let refMin = refData.values.reduce((min, value) => Math.min(min, value), Infinity);
+            let refMax = refData.values.reduce((max, value) => Math.max(max, value), -Infinity);
+            let threshold = (Math.max(Number(this.STEP_THRESHOLD.value), 0) / 100) * (refMax - refMin);
+            let stepIndices: number[] = [];
+            for (let i = 1; i < refData.values.length; i++) {
+              if (Math.abs(refData.values[i] - refData.values[i - 1]) > threshold) {
+                stepIndices.push(i);
+              }
             }
-            return data!.values[index];
-          });
-          index = 0;
-          let refSamples: number[] | undefined =
-            refData === undefined
-              ? undefined
-              : sampleTimes.map((sampleTime) => {
-                  while (index < refData!.timestamps.length && refData!.timestamps[index + 1] < sampleTime) {
-                    index++;
-                  }
-                  return refData!.values[index];
-                });
+            let sampleIndex = 0;
+            stepIndices.forEach((refIndex, stepIndex) => {
+              if (steps.length >= this.MAX_STEPS) return;
+              let start = refData!.timestamps[refIndex];
+              let end = stepIndex < stepIndices.length - 1 ? refData!.timestamps[stepIndices[stepIndex + 1]] : Infinity;
+              let stepTimes: number[] = [];
+              let stepSamples: number[] = [];
+              while (sampleIndex < sampleTimes.length && sampleTimes[sampleIndex] < end) {
+                if (sampleTimes[sampleIndex] >= start) {
+                  stepTimes.push(sampleTimes[sampleIndex]);
+                  stepSamples.push(samples[sampleIndex]);
+                }
+                sampleIndex++;
+              }
+              let step = analyzeStep(
+                start,
+                refData!.values[refIndex - 1],
+                refData!.values[refIndex],
+                stepTimes,
+                stepSamples,
+                source.type === "absoluteError"
+              );
+              if (step !== null) steps.push(step);
+            });
+          }
 
           // Apply reference
           if (refSamples !== undefined) {
-            switch (source.type) {
-              case "relativeError":
-                samples = samples.map((x, index) => x - refSamples![index]);
-                break;
-              case "absoluteError":
-                samples = samples.map((x, index) => Math.abs(x - refSamples![index]));
-                break;
-            }
+            samples = applyReference(samples, refSamples, source.type);
+          }
+
+          // Get spectrum (before sorting samples)
+          let spectrum: number[] = [];
+          if (isSpectrum && samples.length >= 2) {
+            let result = getRangeAveragedSpectrum(
+              samples,
+              sampleTimes,
+              this.DEFAULT_DT,
+              this.WINDOW.value,
+              mode === "psd"
+            );
+            frequencies = result.frequencies;
+            spectrum = result.values;
           }
 
           // Sort samples (required for some statistic calculations)
@@ -272,38 +399,15 @@ export default class StatisticsController implements TabController {
           });
 
           // Get statistics
-          let samplesNonNegative = samples.filter((x) => x >= 0);
-          let samplesPositive = samples.filter((x) => x > 0);
-          let statistics: StatisticsRendererCommand_Stats = {
-            count: samples.length,
-            min: samples.length === 0 ? NaN : stats.minSorted(samples),
-            max: samples.length === 0 ? NaN : stats.maxSorted(samples),
-            mean: samples.length === 0 ? NaN : stats.mean(samples),
-            median: samples.length === 0 ? NaN : stats.medianSorted(samples),
-            mode: samples.length === 0 ? NaN : stats.modeSorted(samples),
-            geometricMean: samplesNonNegative.length === 0 ? NaN : logAverage(samplesNonNegative),
-            harmonicMean: samplesPositive.length === 0 ? NaN : stats.harmonicMean(samplesPositive),
-            quadraticMean: samples.length === 0 ? NaN : stats.rootMeanSquare(samples),
-            standardDeviation: samples.length < 2 ? NaN : stats.sampleStandardDeviation(samples),
-            medianAbsoluteDeviation: samples.length === 0 ? NaN : stats.medianAbsoluteDeviation(samples),
-            interquartileRange: samples.length === 0 ? NaN : stats.interquartileRange(samples),
-            skewness: samples.length < 3 ? NaN : stats.sampleSkewness(samples),
-            percentile01: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.01),
-            percentile05: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.05),
-            percentile10: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.1),
-            percentile25: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.25),
-            percentile50: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.5),
-            percentile75: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.75),
-            percentile90: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.9),
-            percentile95: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.95),
-            percentile99: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.99)
-          };
+          let statistics = getStatistics(samples, frequencies, spectrum, steps);
 
           // Add field
           fields.push({
             title: source.logKey,
             color: source.options.color,
             histogramCounts: histogramCounts,
+            spectrum: spectrum,
+            steps: steps,
             stats: statistics
           });
         };
@@ -311,7 +415,7 @@ export default class StatisticsController implements TabController {
         // Add fields based on type
         if (source.type === "independent") {
           addField(source);
-        } else {
+        } else if (!isSpectrum) {
           children.forEach((child) => {
             addField(child, source);
           });
@@ -321,14 +425,206 @@ export default class StatisticsController implements TabController {
       // Update command
       this.command = {
         changeCounter: this.command.changeCounter + 1,
+        mode: mode,
         bins: bins,
         stepSize: step,
-        fields: fields
+        frequencies: frequencies,
+        fields: fields,
+        report: []
       };
     }
 
     return this.command;
   }
+
+  /** Returns the visible sources, grouped with their children. */
+  private getSourceGroups(): { source: SourceListItemState; children: SourceListItemState[] }[] {
+    let groups: { source: SourceListItemState; children: SourceListItemState[] }[] = [];
+    let sources = this.sourceList.getState(true);
+    for (let i = 0; i < sources.length; i++) {
+      let source = sources[i];
+      let typeConfig = StatisticsController_Config.types.find((typeConfig) => typeConfig.key === source.type);
+      if (typeConfig?.childOf !== undefined) continue; // This is a child, don't render
+
+      // Find children
+      let children: SourceListItemState[] = [];
+      while (
+        sources.length > i + 1 &&
+        StatisticsController_Config.types.find((typeConfig) => typeConfig.key === sources[i + 1].type)?.childOf !==
+          undefined
+      ) {
+        i++;
+        children.push(sources[i]);
+      }
+      groups.push({ source: source, children: children });
+    }
+    return groups;
+  }
+
+  /** Returns the merge prefixes of all logs, starting with the original log (no prefix). */
+  private getLogPrefixes(): string[] {
+    return [...new Set(window.log.getFieldKeys().map(getMergePrefix))].sort(
+      (a, b) => Number(a.slice(MERGE_PREFIX.length + 1)) - Number(b.slice(MERGE_PREFIX.length + 1))
+    );
+  }
+
+  /**
+   * Calculates the statistics for every source separately for each log and robot mode. The
+   * equivalent field from each merged log is used, so the same sources can be compared across
+   * all logs (e.g. to compare the drive current from every match at an event).
+   */
+  private getReport(): StatisticsRendererCommand_ReportRow[] {
+    let rows: StatisticsRendererCommand_ReportRow[] = [];
+    let prefixes = this.getLogPrefixes();
+    let fieldKeys = window.log.getFieldKeys();
+    prefixes.forEach((prefix) => {
+      let logName = prefix.length === 0 ? MERGE_PREFIX + "0" : prefix.slice(1);
+      let stateRanges = getRobotStateRanges(window.log, prefix);
+      let akitTimestampKey = AKIT_TIMESTAMP_KEYS.map((key) => applyKeyPrefix(prefix, key)).find((key) =>
+        fieldKeys.includes(key)
+      );
+      let akitTimestamps =
+        akitTimestampKey === undefined ? undefined : window.log.getNumber(akitTimestampKey, -Infinity, Infinity);
+
+      // Add rows for a single source
+      let addRows = (source: SourceListItemState, refSource?: SourceListItemState) => {
+        let key = applyKeyPrefix(prefix, removeMergePrefix(source.logKey));
+        let refKey = refSource === undefined ? undefined : applyKeyPrefix(prefix, removeMergePrefix(refSource.logKey));
+        let data = window.log.getNumber(key, -Infinity, Infinity);
+        let refData = refKey === undefined ? undefined : window.log.getNumber(refKey, -Infinity, Infinity);
+        if (data === undefined || data.timestamps.length === 0) return;
+        if (refKey !== undefined && refData === undefined) return;
+
+        // Get sample times within the range of the field
+        let sampleTimes: number[] = [];
+        let start = data.timestamps[0];
+        let end = data.timestamps[data.timestamps.length - 1];
+        if (akitTimestamps !== undefined) {
+          sampleTimes = akitTimestamps.timestamps.filter((timestamp) => timestamp >= start && timestamp <= end);
+        } else {
+          for (let sampleTime = start; sampleTime < end; sampleTime += this.DEFAULT_DT) {
+            sampleTimes.push(sampleTime);
+          }
+        }
+
+        // Get samples
+        let samples = getSamples(data, sampleTimes);
+        if (refData !== undefined) {
+          samples = applyReference(samples, getSamples(refData, sampleTimes), source.type);
+        }
+
+        // Split samples by robot mode
+        let modeSamples: { [mode: string]: number[] } = { disabled: [], auto: [], teleop: [] };
+        let rangeIndex = -1;
+        sampleTimes.forEach((sampleTime, index) => {
+          while (rangeIndex < stateRanges.length - 1 && stateRanges[rangeIndex + 1].start <= sampleTime) {
+            rangeIndex++;
+          }
+          if (rangeIndex !== -1) modeSamples[stateRanges[rangeIndex].mode].push(samples[index]);
+        });
+
+        // Add rows
+        let addRow = (robotMode: string, modeSamples: number[]) => {
+          modeSamples.sort((a, b) => a - b);
+          rows.push({
+            log: logName,
+            robotMode: robotMode,
+            title: removeMergePrefix(source.logKey),
+            color: source.options.color,
+            stats: getStatistics(modeSamples, [], [], [])
+          });
+        };
+        addRow("All", [...samples]);
+        if (stateRanges.length > 0) {
+          addRow("Disabled", modeSamples.disabled);
+          addRow("Auto", modeSamples.auto);
+          addRow("Teleop", modeSamples.teleop);
+        }
+      };
+
+      // Add rows for all sources
+      this.getSourceGroups().forEach(({ source, children }) => {
+        if (source.type === "independent") {
+          addRows(source);
+        } else {
+          children.forEach((child) => addRows(child, source));
+        }
+      });
+    });
+    return rows;
+  }
+}
+
+/** Returns the value of the data at each sample time. */
+function getSamples(data: LogValueSetNumber, sampleTimes: number[]): number[] {
+  let index = 0;
+  return sampleTimes.map((sampleTime) => {
+    while (index < data.timestamps.length && data.timestamps[index + 1] < sampleTime) {
+      index++;
+    }
+    return data.values[index];
+  });
+}
+
+/** Applies a reference to the samples based on the source type ("relativeError" or "absoluteError"). */
+function applyReference(samples: number[], refSamples: number[], type: string): number[] {
+  switch (type) {
+    case "relativeError":
+      return samples.map((x, index) => x - refSamples[index]);
+    case "absoluteError":
+      return samples.map((x, index) => Math.abs(x - refSamples[index]));
+    default:
+      return samples;
+  }
+}
+
+/**
+ * Calculates the statistics for a set of samples.
+ * @param samples The samples to analyze, sorted in ascending order
+ * @param frequencies The frequencies of the spectrum
+ * @param spectrum The spectrum values for each frequency (may be empty)
+ * @param steps The step responses (may be empty)
+ */
+function getStatistics(
+  samples: number[],
+  frequencies: number[],
+  spectrum: number[],
+  steps: StatisticsRendererCommand_Step[]
+): StatisticsRendererCommand_Stats {
+  let peakIndex = spectrum.reduce((maxIndex, value, index) => (value > spectrum[maxIndex] ? index : maxIndex), 0);
+  let samplesNonNegative = samples.filter((x) => x >= 0);
+  let samplesPositive = samples.filter((x) => x > 0);
+  return {
+    count: samples.length,
+    min: samples.length === 0 ? NaN : stats.minSorted(samples),
+    max: samples.length === 0 ? NaN : stats.maxSorted(samples),
+    mean: samples.length === 0 ? NaN : stats.mean(samples),
+    median: samples.length === 0 ? NaN : stats.medianSorted(samples),
+    mode: samples.length === 0 ? NaN : stats.modeSorted(samples),
+    geometricMean: samplesNonNegative.length === 0 ? NaN : logAverage(samplesNonNegative),
+    harmonicMean: samplesPositive.length === 0 ? NaN : stats.harmonicMean(samplesPositive),
+    quadraticMean: samples.length === 0 ? NaN : stats.rootMeanSquare(samples),
+    standardDeviation: samples.length < 2 ? NaN : stats.sampleStandardDeviation(samples),
+    medianAbsoluteDeviation: samples.length === 0 ? NaN : stats.medianAbsoluteDeviation(samples),
+    interquartileRange: samples.length === 0 ? NaN : stats.interquartileRange(samples),
+    skewness: samples.length < 3 ? NaN : stats.sampleSkewness(samples),
+    percentile01: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.01),
+    percentile05: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.05),
+    percentile10: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.1),
+    percentile25: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.25),
+    percentile50: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.5),
+    percentile75: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.75),
+    percentile90: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.9),
+    percentile95: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.95),
+    percentile99: samples.length === 0 ? NaN : stats.quantileSorted(samples, 0.99),
+    peakFrequency: spectrum.length === 0 ? NaN : frequencies[peakIndex],
+    stepCount: steps.length,
+    riseTime: meanOrNaN(steps.map((step) => step.riseTime)),
+    settlingTime: meanOrNaN(steps.map((step) => step.settlingTime)),
+    overshoot: meanOrNaN(steps.map((step) => step.overshoot)),
+    steadyStateError: meanOrNaN(steps.map((step) => step.steadyStateError)),
+    itae: meanOrNaN(steps.map((step) => step.itae))
+  };
 }
 
 /**
@@ -359,3 +655,208 @@ function logAverage(x: number[]): number {
 
   return Math.exp(value / x.length);
 }
+
+/** Returns the mean of the finite values, or NaN if there are none. */
+function meanOrNaN(values: number[]): number {
+  let finiteValues = values.filter((value) => isFinite(value));
+  return finiteValues.length === 0 ? NaN : stats.mean(finiteValues);
+}
+
+/**
+ * Calculates the performance of a measurement in response to a single setpoint step.
+ * @param start The timestamp of the step
+ * @param from The setpoint before the step
+ * @param to The setpoint after the step
+ * @param timestamps The sample timestamps until the next step
+ * @param samples The measured values at each timestamp
+ * @param absoluteError Whether to report the absolute steady-state error rather than the signed error
+ * @returns The step results, or null if there is not enough data
+ */
+function analyzeStep(
+  start: number,
+  from: number,
+  to: number,
+  timestamps: number[],
+  samples: number[],
+  absoluteError: boolean
+): StatisticsRendererCommand_Step | null {
+  if (samples.length < 2) return null;
+  let initial = samples[0];
+  let span = to - initial;
+  let progress = samples.map((sample) => (span === 0 ? 1 : (sample - initial) / span));
+
+  // Rise time (10% to 90%)
+  let riseStartIndex = progress.findIndex((x) => x >= 0.1);
+  let riseEndIndex = progress.findIndex((x) => x >= 0.9);
+  let riseTime =
+    riseStartIndex === -1 || riseEndIndex === -1 ? NaN : timestamps[riseEndIndex] - timestamps[riseStartIndex];
+
+  // Settling time (within 2%)
+  let band = Math.abs(span) * 0.02;
+  let lastOutsideIndex = samples.findLastIndex((sample) => Math.abs(sample - to) > band);
+  let settlingTime =
+    lastOutsideIndex === samples.length - 1
+      ? NaN
+      : timestamps[lastOutsideIndex === -1 ? 0 : lastOutsideIndex + 1] - start;
+
+  // Steady-state error (average over the final 10%)
+  let finalErrors = samples.slice(Math.floor(samples.length * 0.9)).map((sample) => sample - to);
+  let steadyStateError = stats.mean(absoluteError ? finalErrors.map(Math.abs) : finalErrors);
+
+  // Integral of time-weighted absolute error
+  let itae = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    itae += (timestamps[i] - start) * Math.abs(samples[i] - to) * (timestamps[i + 1] - timestamps[i]);
+  }
+
+  return {
+    start: start,
+    from: from,
+    to: to,
+    riseTime: riseTime,
+    settlingTime: settlingTime,
+    overshoot: Math.max(progress.reduce((max, x) => Math.max(max, x), -Infinity) - 1, 0) * 100,
+    steadyStateError: steadyStateError,
+    itae: itae
+  };
+}
+
+/**
+ * Calculates the spectrum of samples that may include gaps (e.g. when only enabled periods are
+ * selected). Each contiguous range is analyzed separately and the results are averaged, weighted
+ * by length, so the discontinuities between ranges do not appear in the spectrum.
+ * @param samples The samples to analyze
+ * @param sampleTimes The timestamp of each sample
+ * @param dt The period between samples in seconds
+ * @param window The name of the window function
+ * @param psd Whether to return the power spectral density rather than the amplitude
+ * @returns The frequencies (excluding DC) and the corresponding values
+ */
+function getRangeAveragedSpectrum(
+  samples: number[],
+  sampleTimes: number[],
+  dt: number,
+  window: string,
+  psd: boolean
+): { frequencies: number[]; values: number[] } {
+  // Split into contiguous ranges
+  let ranges: number[][] = [];
+  samples.forEach((sample, index) => {
+    if (index === 0 || sampleTimes[index] - sampleTimes[index - 1] > dt * 1.5) ranges.push([]);
+    ranges[ranges.length - 1].push(sample);
+  });
+  ranges = ranges.filter((range) => range.length >= 2);
+  if (ranges.length === 0) return { frequencies: [], values: [] };
+
+  // Average spectra, using the same size so the frequencies match
+  let maxLength = ranges.reduce((max, range) => Math.max(max, range.length), 0);
+  let totalLength = ranges.reduce((total, range) => total + range.length, 0);
+  let size = Math.pow(2, Math.ceil(Math.log2(maxLength)));
+  let frequencies: number[] = [];
+  let values: number[] = [];
+  ranges.forEach((range) => {
+    let result = getSpectrum(range, dt, window, psd, size);
+    frequencies = result.frequencies;
+    result.values.forEach((value, index) => {
+      values[index] = (index < values.length ? values[index] : 0) + (value * range.length) / totalLength;
+    });
+  });
+  return { frequencies: frequencies, values: values };
+}
+
+/**
+ * Calculates the single-sided spectrum of uniformly sampled data. The mean is removed and
+ * the samples are zero-padded to a power of two before applying the FFT.
+ * @param samples The samples to analyze
+ * @param dt The period between samples in seconds
+ * @param window The name of the window function ("rectangular", "hann", "hamming", or "blackman")
+ * @param psd Whether to return the power spectral density (units²/Hz) rather than the amplitude
+ * @param size The number of points in the FFT, must be a power of two at least as long as the samples
+ * @returns The frequencies (excluding DC) and the corresponding values
+ */
+function getSpectrum(
+  samples: number[],
+  dt: number,
+  window: string,
+  psd: boolean,
+  size: number
+): { frequencies: number[]; values: number[] } {
+  let n = samples.length;
+  let real = new Float64Array(size);
+  let imag = new Float64Array(size);
+
+  // Apply window
+  let mean = stats.mean(samples);
+  let windowSum = 0;
+  let windowSquareSum = 0;
+  for (let i = 0; i < n; i++) {
+    let w = 1;
+    switch (window) {
+      case "hann":
+        w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+        break;
+      case "hamming":
+        w = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (n - 1));
+        break;
+      case "blackman":
+        w = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (n - 1));
+        break;
+    }
+    real[i] = (samples[i] - mean) * w;
+    windowSum += w;
+    windowSquareSum += w * w;
+  }
+
+  // Calculate spectrum
+  fft(real, imag);
+  let frequencies: number[] = [];
+  let values: number[] = [];
+  for (let k = 1; k <= size / 2; k++) {
+    let magnitudeSquared = real[k] * real[k] + imag[k] * imag[k];
+    let scalar = k === size / 2 ? 1 : 2; // Nyquist bin is not mirrored
+    frequencies.push(k / (size * dt));
+    if (psd) {
+      values.push((magnitudeSquared * dt * scalar) / windowSquareSum);
+    } else {
+      values.push((Math.sqrt(magnitudeSquared) * scalar) / windowSum);
+    }
+  }
+  return { frequencies: frequencies, values: values };
+}
+
+/** Calculates the FFT in place using the iterative radix-2 algorithm. The length must be a power of two. */
+function fft(real: Float64Array, imag: Float64Array) {
+  let n = real.length;
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  // Butterflies
+  for (let length = 2; length <= n; length <<= 1) {
+    let angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < n; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        let wReal = Math.cos(angle * k);
+        let wImag = Math.sin(angle * k);
+        let a = start + k;
+        let b = a + length / 2;
+        let tReal = real[b] * wReal - imag[b] * wImag;
+        let tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+      }
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import LoggableType from "../../shared/log/LoggableType";
+import { SysIdRendererCommand } from "../../shared/renderers/SysIdRenderer";
+import { SourceListState } from "../../shared/SourceListConfig";
+import {
+  SysIdMechanism,
+  SysIdSample,
+  SysIdSegment,
+  calcSysIdFeedback,
+  fitSysIdFeedforward,
+  getSysIdSamples,
+  parseTestState
+} from "../../shared/SysIdAnalysis";
+import { createUUID } from "../../shared/util";
+import SourceList from "../SourceList";
+import SysIdController_Config from "./SysIdController_Config";
+import TabController from "./TabController";
+
+export default class SysIdController implements TabController {
+  UUID = createUUID();
+
+  private UPDATE_PERIOD_MS = 1000;
+  private LOOP_PERIOD_SECS = 0.02;
+  private MAX_PLOT_POINTS = 2000;
+  private TEST_STATE_REGEX = /sysid-?test-?state$/i;
+
+  private MECHANISM: HTMLSelectElement;
+  private LOOP_TYPE: HTMLSelectElement;
+  private MAX_POSITION_ERROR: HTMLInputElement;
+  private MAX_VELOCITY_ERROR: HTMLInputElement;
+  private MAX_EFFORT: HTMLInputElement;
+
+  private sourceList: SourceList;
+  private command: SysIdRendererCommand = {
+    changeCounter: 0,
+    error: null,
+    mechanism: "simple",
+    loopType: "velocity",
+    feedforward: null,
+    feedback: null,
+    sampleCount: 0,
+    rejectedCount: 0,
+    quasistaticPoints: [],
+    dynamicPoints: []
+  };
+  private shouldUpdate = true;
+  private lastSourceStr = "";
+  private lastUpdateTime = 0;
+
+  constructor(root: HTMLElement) {
+    this.sourceList = new SourceList(root.firstElementChild as HTMLElement, SysIdController_Config, []);
+    let settings = root.getElementsByClassName("sysid-settings")[0] as HTMLElement;
+    this.MECHANISM = settings.getElementsByClassName("mechanism")[0] as HTMLSelectElement;
+    this.LOOP_TYPE = settings.getElementsByClassName("loop-type")[0] as HTMLSelectElement;
+    this.MAX_POSITION_ERROR = settings.getElementsByClassName("max-position-error")[0] as HTMLInputElement;
+    this.MAX_VELOCITY_ERROR = settings.getElementsByClassName("max-velocity-error")[0] as HTMLInputElement;
+    this.MAX_EFFORT = settings.getElementsByClassName("max-effort")[0] as HTMLInputElement;
+
+    // Schedule updates when inputs change
+    [this.MECHANISM, this.LOOP_TYPE, this.MAX_POSITION_ERROR, this.MAX_VELOCITY_ERROR, this.MAX_EFFORT].forEach(
+      (input) => input.addEventListener("change", () => (this.shouldUpdate = true))
+    );
+
+    // Enforce number ranges
+    [this.MAX_POSITION_ERROR, this.MAX_VELOCITY_ERROR, this.MAX_EFFORT].forEach((input) => {
+      input.addEventListener("change", () => {
+        if (Number(input.value) <= 0) input.value = "1";
+      });
+    });
+  }
+
+  saveState(): unknown {
+    return {
+      sources: this.sourceList.getState(),
+      mechanism: this.MECHANISM.value,
+      loopType: this.LOOP_TYPE.value,
+      maxPositionError: Number(this.MAX_POSITION_ERROR.value),
+      maxVelocityError: Number(this.MAX_VELOCITY_ERROR.value),
+      maxEffort: Number(this.MAX_EFFORT.value)
+    };
+  }
+
+  restoreState(state: unknown): void {
+    if (typeof state !== "object" || state === null) return;
+
+    if ("sources" in state) {
+      this.sourceList.setState(state.sources as SourceListState);
+    }
+    if ("mechanism" in state && typeof state.mechanism === "string") {
+      this.MECHANISM.value = state.mechanism;
+    }
+    if ("loopType" in state && typeof state.loopType === "string") {
+      this.LOOP_TYPE.value = state.loopType;
+    }
+    if ("maxPositionError" in state && typeof state.maxPositionError === "number") {
+      this.MAX_POSITION_ERROR.value = state.maxPositionError.toString();
+    }
+    if ("maxVelocityError" in state && typeof state.maxVelocityError === "number") {
+      this.MAX_VELOCITY_ERROR.value = state.maxVelocityError.toString();
+    }
+    if ("maxEffort" in state && typeof state.maxEffort === "number") {
+      this.MAX_EFFORT.value = state.maxEffort.toString();
+    }
+    this.shouldUpdate = true;
+  }
+
+  refresh(): void {
+    this.sourceList.refresh();
+    this.shouldUpdate = true;
+  }
+
+  newAssets(): void {}
+
+  getActiveFields(): string[] {
+    let testStateKey = this.getTestStateKey();
+    return [...this.sourceList.getActiveFields(), ...(testStateKey === null ? [] : [testStateKey])];
+  }
+
+  showTimeline(): boolean {
+    return false;
+  }
+
+  /** Returns the key of the test state field, which is detected automatically if not provided. */
+  private getTestStateKey(): string | null {
+    let source = this.sourceList.getState(true).find((source) => source.type === "testState");
+    if (source !== undefined) return source.logKey;
+    let key = window.log
+      .getFieldKeys()
+      .find((key) => this.TEST_STATE_REGEX.test(key) && window.log.getType(key) === LoggableType.String);
+    return key === undefined ? null : key;
+  }
+
+  getCommand(): SysIdRendererCommand {
+    // Check if command should be updated
+    let sourcesStr = JSON.stringify(this.sourceList.getState());
+    let currentTime = new Date().getTime();
+    if (
+      (this.shouldUpdate || sourcesStr !== this.lastSourceStr) &&
+      currentTime - this.lastUpdateTime > this.UPDATE_PERIOD_MS
+    ) {
+      this.shouldUpdate = false;
+      this.lastSourceStr = sourcesStr;
+      this.lastUpdateTime = currentTime;
+      this.command = {
+        ...this.analyze(),
+        changeCounter: this.command.changeCounter + 1
+      };
+    }
+    return this.command;
+  }
+
+  /** Runs the full analysis using the current sources and settings. */
+  private analyze(): Omit<SysIdRendererCommand, "changeCounter"> {
+    let mechanism = this.MECHANISM.value as SysIdMechanism;
+    let loopType = this.LOOP_TYPE.value as "position" | "velocity";
+    let result: Omit<SysIdRendererCommand, "changeCounter"> = {
+      error: null,
+      mechanism: mechanism,
+      loopType: loopType,
+      feedforward: null,
+      feedback: null,
+      sampleCount: 0,
+      rejectedCount: 0,
+      quasistaticPoints: [],
+      dynamicPoints: []
+    };
+
+    // Get sources
+    let sources = this.sourceList.getState(true);
+    let voltageSource = sources.find((source) => source.type === "voltage");
+    let positionSource = sources.find((source) => source.type === "position");
+    let velocitySource = sources.find((source) => source.type === "velocity");
+    let testStateKey = this.getTestStateKey();
+    if (voltageSource === undefined || velocitySource === undefined) {
+      result.error = "Add voltage and velocity fields to begin analysis.";
+      return result;
+    }
+    if (positionSource === undefined && mechanism === "arm") {
+      result.error = "Add a position field to analyze an arm.";
+      return result;
+    }
+    if (testStateKey === null) {
+      result.error = 'No test state field found. Add the "SysIdTestState" field to begin analysis.';
+      return result;
+    }
+
+    // Read data
+    let voltageData = window.log.getNumber(voltageSource.logKey, -Infinity, Infinity);
+    let velocityData = window.log.getNumber(velocitySource.logKey, -Infinity, Infinity);
+    let positionData =
+      positionSource === undefined ? undefined : window.log.getNumber(positionSource.logKey, -Infinity, Infinity);
+    let testStateData = window.log.getString(testStateKey, -Infinity, Infinity);
+    if (voltageData === undefined || velocityData === undefined || testStateData === undefined) {
+      result.error = "No data available for the selected fields.";
+      return result;
+    }
+    let positionScalar = 1;
+    switch (positionSource?.options.units) {
+      case "rotations":
+        positionScalar = Math.PI * 2;
+        break;
+      case "degrees":
+        positionScalar = Math.PI / 180;
+        break;
+    }
+
+    // Split into test segments
+    let sampleKeys = [voltageSource.logKey, velocitySource.logKey];
+    if (positionSource !== undefined) sampleKeys.push(positionSource.logKey);
+    let allTimestamps = window.log.getTimestamps(sampleKeys);
+    let segments: SysIdSegment[] = [];
+    testStateData.values.forEach((state, index) => {
+      let testType = parseTestState(state);
+      if (testType === null) return;
+      let start = testStateData!.timestamps[index];
+      let end = index < testStateData!.timestamps.length - 1 ? testStateData!.timestamps[index + 1] : Infinity;
+      let timestamps = allTimestamps.filter((timestamp) => timestamp >= start && timestamp < end);
+      let positions = positionData === undefined ? timestamps.map(() => 0) : sampleHold(positionData, timestamps);
+      segments.push({
+        isDynamic: testType === "dynamic",
+        timestamps: timestamps,
+        voltages: sampleHold(voltageData!, timestamps),
+        positions: positions.map((position) => position * positionScalar),
+        velocities: sampleHold(velocityData!, timestamps)
+      });
+    });
+    if (!segments.some((segment) => segment.isDynamic) || segments.every((segment) => segment.isDynamic)) {
+      result.error = "Both quasistatic and dynamic tests are required for analysis.";
+      return result;
+    }
+
+    // Fit feedforward
+    let samples = getSysIdSamples(segments);
+    let fit = fitSysIdFeedforward(samples, mechanism);
+    if (fit === null) {
+      result.error = "Not enough data for analysis. Check that the mechanism moved during each test.";
+      return result;
+    }
+    let feedforward = fit.feedforward;
+    result.feedforward = feedforward;
+    result.sampleCount = fit.samples.length;
+    result.rejectedCount = samples.length - fit.samples.length;
+
+    // Calculate feedback
+    result.feedback = calcSysIdFeedback(
+      feedforward,
+      loopType,
+      Number(this.MAX_POSITION_ERROR.value),
+      Number(this.MAX_VELOCITY_ERROR.value),
+      Number(this.MAX_EFFORT.value),
+      this.LOOP_PERIOD_SECS
+    );
+
+    // Get plot points, with the effects of the other gains removed
+    let getGravityVoltage = (sample: SysIdSample) => {
+      switch (mechanism) {
+        case "elevator":
+          return feedforward.kG;
+        case "arm":
+          return feedforward.kG * Math.cos(sample.position);
+        default:
+          return 0;
+      }
+    };
+    let decimate = <T>(values: T[]) => {
+      let stride = Math.ceil(values.length / this.MAX_PLOT_POINTS);
+      return values.filter((_, index) => index % stride === 0);
+    };
+    result.quasistaticPoints = decimate(fit.samples.filter((sample) => !sample.isDynamic)).map((sample) => ({
+      x: sample.velocity,
+      y:
+        sample.voltage -
+        feedforward.kS * Math.sign(sample.velocity) -
+        feedforward.kA * sample.acceleration -
+        getGravityVoltage(sample)
+    }));
+    result.dynamicPoints = decimate(fit.samples.filter((sample) => sample.isDynamic)).map((sample) => ({
+      x: sample.acceleration,
+      y:
+        sample.voltage -
+        feedforward.kS * Math.sign(sample.velocity) -
+        feedforward.kV * sample.velocity -
+        getGravityVoltage(sample)
+    }));
+    return result;
+  }
+}
+
+/** Returns the most recent value of the data at each timestamp. */
+function sampleHold(data: { timestamps: number[]; values: number[] }, timestamps: number[]): number[] {
+  let index = 0;
+  return timestamps.map((timestamp) => {
+    while (index < data.timestamps.length - 1 && data.timestamps[index + 1] <= timestamp) {
+      index++;
+    }
+    return data.values[index];
+  });
+}
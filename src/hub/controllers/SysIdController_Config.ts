@@ -0,0 +1,68 @@
+import { SourceListConfig } from "../../shared/SourceListConfig";
+
+const SysIdController_Config: SourceListConfig = {
+  title: "Measurements",
+  autoAdvance: true,
+  allowChildrenFromDrag: false,
+  typeMemoryId: "sysid",
+  types: [
+    {
+      key: "voltage",
+      display: "Voltage",
+      symbol: "scribble.variable",
+      showInTypeName: true,
+      color: "#e5b31b",
+      sourceTypes: ["Number"],
+      showDocs: true,
+      options: [],
+      previewType: null
+    },
+    {
+      key: "position",
+      display: "Position",
+      symbol: "arrow.up.and.down.square.fill",
+      showInTypeName: true,
+      color: "#2b66a2",
+      sourceTypes: ["Number"],
+      showDocs: true,
+      options: [
+        {
+          key: "units",
+          display: "Units",
+          showInTypeName: false,
+          values: [
+            { key: "radians", display: "Radians" },
+            { key: "rotations", display: "Rotations" },
+            { key: "degrees", display: "Degrees" }
+          ]
+        }
+      ],
+      previewType: null
+    },
+    {
+      key: "velocity",
+      display: "Velocity",
+      symbol: "chart.xyaxis.line",
+      showInTypeName: true,
+      color: "#af2437",
+      sourceTypes: ["Number"],
+      showDocs: true,
+      options: [],
+      previewType: null
+    },
+    {
+      key: "testState",
+      display: "Test State",
+      symbol: "list.bullet",
+      showInTypeName: true,
+      color: "#000000",
+      darkColor: "#ffffff",
+      sourceTypes: ["String"],
+      showDocs: true,
+      options: [],
+      previewType: null
+    }
+  ]
+};
+
+export default SysIdController_Config;
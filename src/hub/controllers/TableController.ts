@@ -1,6 +1,11 @@
 import { LogValueSetAny } from "../../shared/log/LogValueSets";
 import LoggableType from "../../shared/log/LoggableType";
-import { TableRendererCommand } from "../../shared/renderers/TableRenderer";
+import {
+  DefaultTableColumnFormat,
+  formatTableValue,
+  TableColumnFormat,
+  TableRendererCommand
+} from "../../shared/renderers/TableRenderer";
 import { checkArrayType, createUUID } from "../../shared/util";
 import TabController from "./TabController";
 
@@ -17,7 +22,11 @@ export default class TableController implements TabController {
   private DRAG_ITEM = document.getElementById("dragItem") as HTMLElement;
 
   private fields: string[] = [];
+  private formats: TableColumnFormat[] = [];
+  private changesOnly = false;
+  private highlightChanges = false;
   private ranges: { [key: string]: [number, number] } = {};
+  private filterCache: { key: string; timestamps: number[] } | null = null;
 
   constructor(root: HTMLElement) {
     this.ROOT = root;
@@ -36,9 +45,27 @@ export default class TableController implements TabController {
       let index = (event as CustomEvent).detail;
       if (index < this.fields.length) {
         this.fields.splice(index, 1);
+        this.formats.splice(index, 1);
       }
     });
 
+    // Column options
+    this.HEADER.addEventListener("contextmenu", (event) => {
+      let index = this.getHeaderIndex(event.clientX, event.clientY);
+      if (index === -1) return;
+      let format = index === 0 ? null : this.formats[index - 1];
+      let type = index === 0 ? null : window.log.getType(this.fields[index - 1]);
+      window.sendMainMessage("ask-edit-table", {
+        x: event.clientX,
+        y: event.clientY,
+        index: index === 0 ? null : index - 1,
+        format: format,
+        isNumeric: type === LoggableType.Number || type === LoggableType.NumberArray,
+        changesOnly: this.changesOnly,
+        highlightChanges: this.highlightChanges
+      });
+    });
+
     // Column dragging
     let mouseDownInfo: [number, number] | null = null;
     root.addEventListener("mousedown", (event) => {
@@ -57,21 +84,9 @@ export default class TableController implements TabController {
           Math.abs(event.clientY - mouseDownInfo[1]) >= this.DRAG_THRESHOLD_PX)
       ) {
         // Find item
-        let index = -1;
-        Array.from(this.HEADER.children).forEach((element, i) => {
-          if (i === 0) return;
-          let rect = element.getBoundingClientRect();
-          if (
-            mouseDownInfo![0] >= rect.left &&
-            mouseDownInfo![0] <= rect.right &&
-            mouseDownInfo![1] >= rect.top &&
-            mouseDownInfo![1] <= rect.bottom
-          ) {
-            index = i;
-          }
-        });
+        let index = this.getHeaderIndex(mouseDownInfo[0], mouseDownInfo[1]);
         mouseDownInfo = null;
-        if (index === -1) return;
+        if (index < 1) return;
 
         // Update drag item
         while (this.DRAG_ITEM.firstChild) {
@@ -106,15 +121,70 @@ export default class TableController implements TabController {
   }
 
   saveState(): unknown {
-    return this.fields;
+    return {
+      fields: this.fields,
+      formats: this.formats,
+      changesOnly: this.changesOnly,
+      highlightChanges: this.highlightChanges
+    };
   }
 
   restoreState(state: unknown): void {
     if (checkArrayType(state, "string")) {
+      // Older layouts only include the list of fields
       this.fields = state as string[];
+      this.formats = this.fields.map(() => DefaultTableColumnFormat);
+      this.changesOnly = false;
+      this.highlightChanges = false;
+      return;
+    }
+    if (typeof state !== "object" || state === null) return;
+    if ("fields" in state && checkArrayType(state.fields, "string")) {
+      this.fields = state.fields as string[];
+      this.formats =
+        "formats" in state && Array.isArray(state.formats) && state.formats.length === this.fields.length
+          ? (state.formats as TableColumnFormat[])
+          : this.fields.map(() => DefaultTableColumnFormat);
+    }
+    if ("changesOnly" in state && typeof state.changesOnly === "boolean") {
+      this.changesOnly = state.changesOnly;
+    }
+    if ("highlightChanges" in state && typeof state.highlightChanges === "boolean") {
+      this.highlightChanges = state.highlightChanges;
     }
   }
 
+  /** Returns the index of the header cell at the given position, or -1 if none. */
+  private getHeaderIndex(x: number, y: number): number {
+    let index = -1;
+    Array.from(this.HEADER.children).forEach((element, i) => {
+      let rect = element.getBoundingClientRect();
+      if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) {
+        index = i;
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Updates the table options.
+   * @param index The index of the column to update, or null to only update the table-wide options
+   * @param format The new format for the column
+   * @param changesOnly Whether to only show rows where a value changed
+   * @param highlightChanges Whether to highlight cells where the value changed
+   */
+  editTable(index: number | null, format: TableColumnFormat | null, changesOnly: boolean, highlightChanges: boolean) {
+    if (index !== null && format !== null && index < this.formats.length) {
+      if (format.sort !== null) {
+        // Only sort by one column at a time
+        this.formats = this.formats.map((otherFormat) => ({ ...otherFormat, sort: null }));
+      }
+      this.formats[index] = format;
+    }
+    this.changesOnly = changesOnly;
+    this.highlightChanges = highlightChanges;
+  }
+
   /** Processes a drag event, including adding a field if necessary. */
   private handleDrag(dragData: any) {
     if (this.ROOT.hidden) return;
@@ -161,13 +231,17 @@ export default class TableController implements TabController {
       if (selected !== null) {
         if (isField) {
           this.fields.splice(selected, 0, ...dragFields);
+          this.formats.splice(selected, 0, ...dragFields.map(() => DefaultTableColumnFormat));
         } else if (isColumn) {
           let sourceIndex = dragData.data.tableIndex;
           let fields = this.fields.splice(sourceIndex, 1)[0];
+          let format = this.formats.splice(sourceIndex, 1)[0];
           if (selected <= sourceIndex) {
             this.fields.splice(selected, 0, fields);
+            this.formats.splice(selected, 0, format);
           } else {
             this.fields.splice(selected - 1, 0, fields);
+            this.formats.splice(selected - 1, 0, format);
           }
         }
       }
@@ -213,14 +287,15 @@ export default class TableController implements TabController {
       }
     }
 
-    let fieldData: TableRendererCommand["fields"] = this.fields.map((key) => {
+    let fieldData: TableRendererCommand["fields"] = this.fields.map((key, index) => {
       const isAvailable = availableKeys.includes(key);
       if (!isAvailable) {
         return {
           key: key,
           isAvailable: false,
           data: null,
-          type: null
+          type: null,
+          format: this.formats[index]
         };
       } else {
         let data: LogValueSetAny = { timestamps: [], values: [] };
@@ -235,17 +310,99 @@ export default class TableController implements TabController {
           key: key,
           isAvailable: true,
           data: data,
-          type: window.log.getType(key)
+          type: window.log.getType(key),
+          format: this.formats[index]
         };
       }
     });
 
     return {
-      timestamps: window.log.getTimestamps(this.fields, this.UUID),
+      timestamps: this.filterTimestamps(window.log.getTimestamps(this.fields, this.UUID)),
       fields: fieldData,
+      highlightChanges: this.highlightChanges,
       selectionMode: window.selection.getMode(),
       selectedTime: window.selection.getSelectedTime(),
       hoveredTime: window.selection.getHoveredTime()
     };
   }
+
+  /** Applies the search, sort, and change filters to the row timestamps. */
+  private filterTimestamps(timestamps: number[]): number[] {
+    const availableKeys = window.log.getFieldKeys();
+    let isAvailable = (index: number) => availableKeys.includes(this.fields[index]);
+    let searchColumns = this.fields
+      .map((_, index) => index)
+      .filter((index) => this.formats[index].search.length > 0 && isAvailable(index));
+    let sortColumn = this.formats.findIndex((format, index) => format.sort !== null && isAvailable(index));
+    if (!this.changesOnly && searchColumns.length === 0 && sortColumn === -1) {
+      this.filterCache = null;
+      return timestamps;
+    }
+
+    // Read from cache if possible
+    let cacheKey = JSON.stringify([
+      this.fields,
+      this.formats,
+      this.changesOnly,
+      timestamps.length,
+      timestamps[0],
+      timestamps[timestamps.length - 1]
+    ]);
+    if (this.filterCache !== null && this.filterCache.key === cacheKey) {
+      return this.filterCache.timestamps;
+    }
+
+    // Get displayed text for each row
+    let columnText: (string[] | null)[] = this.fields.map((key, index) => {
+      if (!isAvailable(index) || !(this.changesOnly || searchColumns.includes(index) || sortColumn === index)) {
+        return null;
+      }
+      let type = window.log.getType(key);
+      let data = window.log.getRange(key, -Infinity, Infinity);
+      if (type === null || data === undefined) return null;
+      let dataText = data.values.map((value) => formatTableValue(value, type!, this.formats[index]));
+      let dataIndex = -1;
+      return timestamps.map((timestamp) => {
+        while (dataIndex < data!.timestamps.length - 1 && data!.timestamps[dataIndex + 1] <= timestamp) {
+          dataIndex++;
+        }
+        return dataIndex === -1 ? "null" : dataText[dataIndex];
+      });
+    });
+
+    // Filter rows
+    let rows = timestamps
+      .map((_, row) => row)
+      .filter((row) => {
+        for (let index of searchColumns) {
+          let text = columnText[index];
+          if (text !== null && !text[row].toLowerCase().includes(this.formats[index].search.toLowerCase())) {
+            return false;
+          }
+        }
+        if (this.changesOnly && row > 0) {
+          return columnText.some((text) => text !== null && text[row] !== text[row - 1]);
+        }
+        return true;
+      });
+
+    // Sort rows (stable, so equal values remain in chronological order)
+    if (sortColumn !== -1 && columnText[sortColumn] !== null) {
+      let text = columnText[sortColumn]!;
+      let direction = this.formats[sortColumn].sort === "descending" ? -1 : 1;
+      rows.sort((a, b) => {
+        let numberA = Number(text[a]);
+        let numberB = Number(text[b]);
+        if (!isNaN(numberA) && !isNaN(numberB)) {
+          return (numberA - numberB) * direction;
+        } else {
+          return text[a].localeCompare(text[b], undefined, { numeric: true }) * direction;
+        }
+      });
+    }
+
+    let filteredTimestamps = rows.map((row) => timestamps[row]);
+    this.filterCache = { key: cacheKey, timestamps: filteredTimestamps };
+    return filteredTimestamps;
+  }
 }
@@ -213,9 +213,13 @@ export default class ThreeDimensionController implements TabController {
 
     let objects: ThreeDimensionRendererCommand_AnyObj[] = [];
     let cameraOverride: AnnotatedPose3d | null = null;
-    let sources = this.sourceList.getState(true);
+    let sources = window.comparison.expandSources(this.sourceList.getState(true), ThreeDimensionController_Config, {
+      robot: "ghost",
+      robotLegacy: "ghostLegacy"
+    });
     for (let i = 0; i < sources.length; i++) {
       let source = sources[i];
+      let sourceTime = time === null ? null : time + source.timeOffset;
       let typeConfig = ThreeDimensionController_Config.types.find((typeConfig) => typeConfig.key === source.type);
       if (typeConfig?.childOf !== undefined) continue; // This is a child, don't render
 
@@ -250,12 +254,12 @@ export default class ThreeDimensionController implements TabController {
       let poses: AnnotatedPose3d[] = [];
 
       if (!isHeatmap) {
-        if (time !== null) {
+        if (sourceTime !== null) {
           poses = grabPosesAuto(
             window.log,
             source.logKey,
             source.logType,
-            time,
+            sourceTime,
             this.UUID,
             numberArrayFormat,
             numberArrayUnits,
@@ -299,20 +303,20 @@ export default class ThreeDimensionController implements TabController {
         values: SwerveState[];
         color: string;
       }[] = [];
-      if (time !== null) {
+      if (sourceTime !== null) {
         children.forEach((child) => {
           switch (child.type) {
             case "component":
             case "componentLegacy": {
               // Components are always 3D poses so assume number array format
               components = components.concat(
-                grabPosesAuto(window.log, child.logKey, child.logType, time!, this.UUID, "Pose3d")
+                grabPosesAuto(window.log, child.logKey, child.logType, sourceTime!, this.UUID, "Pose3d")
               );
               break;
             }
 
             case "mechanism": {
-              let state = getMechanismState(window.log, child.logKey, time!);
+              let state = getMechanismState(window.log, child.logKey, sourceTime!);
               if (state !== null) {
                 mechanisms.push(state);
               }
@@ -329,7 +333,7 @@ export default class ThreeDimensionController implements TabController {
                 window.log,
                 child.logKey,
                 child.logType,
-                time!,
+                sourceTime!,
                 this.UUID,
                 undefined,
                 numberArrayUnits
@@ -359,7 +363,7 @@ export default class ThreeDimensionController implements TabController {
                 window.log,
                 child.logKey,
                 child.logType,
-                time!,
+                sourceTime!,
                 this.UUID,
                 numberArrayFormat,
                 "radians"
@@ -382,7 +386,7 @@ export default class ThreeDimensionController implements TabController {
                 window.log,
                 child.logKey,
                 child.logType,
-                time!,
+                sourceTime!,
                 child.options.arrangement,
                 numberArrayUnits,
                 this.UUID
@@ -399,7 +403,7 @@ export default class ThreeDimensionController implements TabController {
                 window.log,
                 child.logKey,
                 LoggableType.NumberArray,
-                time!,
+                sourceTime!,
                 [],
                 this.UUID
               );
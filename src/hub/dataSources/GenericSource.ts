@@ -0,0 +1,131 @@
+import Log from "../../shared/log/Log";
+import LoggableType from "../../shared/log/LoggableType";
+import { checkArrayType } from "../../shared/util";
+import { LiveDataSource, LiveDataSourceStatus } from "./LiveDataSource";
+
+/**
+ * Receives generic records from other programs over TCP or UDP. The
+ * server is hosted by the main process, and each record is an object
+ * with the format "{key, timestamp, value}".
+ */
+export default class GenericSource extends LiveDataSource {
+  private TIME_SYNC_INTERVAL = 0.5;
+
+  private liveShiftInterval: NodeJS.Timeout | null = null;
+  private firstReceiveTime: number | null = null;
+  private lastTimeSync = 0;
+  private liveZeroTime = 0;
+  private targetLiveZeroTime = 0;
+
+  connect(
+    address: string,
+    statusCallback: (status: LiveDataSourceStatus) => void,
+    outputCallback: (log: Log, timeSupplier: () => number) => void
+  ) {
+    super.connect(address, statusCallback, outputCallback);
+
+    if (window.preferences === null) {
+      this.setStatus(LiveDataSourceStatus.Error);
+    } else {
+      this.log = new Log();
+      window.sendMainMessage("live-generic-start", {
+        uuid: this.UUID,
+        port: window.preferences.genericPort
+      });
+    }
+
+    // Shift live zero time towards target
+    this.liveShiftInterval = setInterval(() => {
+      this.liveZeroTime = this.liveZeroTime * 0.98 + this.targetLiveZeroTime * 0.02;
+    }, 1000 / 60);
+  }
+
+  stop() {
+    super.stop();
+    if (this.liveShiftInterval !== null) clearInterval(this.liveShiftInterval);
+    window.sendMainMessage("live-generic-stop");
+  }
+
+  handleMainMessage(data: any) {
+    if (this.log === null) return;
+    if (data.uuid !== this.UUID) return;
+    if (this.status === LiveDataSourceStatus.Stopped) return;
+
+    if (!data.success) {
+      // Failed to start server, can't recover
+      this.setStatus(LiveDataSourceStatus.Error);
+      return;
+    }
+
+    // Add records
+    let now = new Date().getTime() / 1000;
+    if (this.firstReceiveTime === null) this.firstReceiveTime = now;
+    (data.records as unknown[]).forEach((record) => this.putRecord(record, now - this.firstReceiveTime!));
+
+    // Reset time sync at start
+    if (this.status !== LiveDataSourceStatus.Active) {
+      this.targetLiveZeroTime = now - this.log.getTimestampRange()[1];
+      this.liveZeroTime = this.targetLiveZeroTime;
+      this.lastTimeSync = now;
+    }
+    this.setStatus(LiveDataSourceStatus.Active);
+
+    // Update time sync
+    if (now - this.lastTimeSync > this.TIME_SYNC_INTERVAL) {
+      this.targetLiveZeroTime = now - this.log.getTimestampRange()[1];
+      this.lastTimeSync = now;
+    }
+
+    // Run output callback
+    if (this.outputCallback !== null) {
+      this.outputCallback(this.log, () => new Date().getTime() / 1000 - this.liveZeroTime);
+    }
+  }
+
+  /** Writes a single record to the log, ignoring any records with an invalid format. */
+  private putRecord(record: unknown, defaultTimestamp: number) {
+    if (this.log === null || typeof record !== "object" || record === null) return;
+    if (!("key" in record) || typeof record.key !== "string" || record.key.length === 0) return;
+    if (!("value" in record) || record.value === null || record.value === undefined) return;
+    let key = record.key.startsWith("/") ? record.key : "/" + record.key;
+    let timestamp =
+      "timestamp" in record && typeof record.timestamp === "number" && isFinite(record.timestamp)
+        ? record.timestamp
+        : defaultTimestamp;
+
+    let value = record.value;
+    if (typeof value === "boolean") {
+      this.log.putBoolean(key, timestamp, value);
+    } else if (typeof value === "number") {
+      this.log.putNumber(key, timestamp, value);
+    } else if (typeof value === "string") {
+      this.log.putString(key, timestamp, value);
+    } else if (value instanceof Uint8Array) {
+      this.log.putRaw(key, timestamp, value);
+    } else if (Array.isArray(value) && value.length === 0) {
+      // Type of empty arrays is unknown, so match the existing field
+      switch (this.log.getType(key)) {
+        case LoggableType.BooleanArray:
+          this.log.putBooleanArray(key, timestamp, []);
+          break;
+        case LoggableType.StringArray:
+          this.log.putStringArray(key, timestamp, []);
+          break;
+        case LoggableType.String:
+          this.log.putJSON(key, timestamp, "[]");
+          break;
+        default:
+          this.log.putNumberArray(key, timestamp, []);
+          break;
+      }
+    } else if (Array.isArray(value) && checkArrayType(value, "boolean")) {
+      this.log.putBooleanArray(key, timestamp, value);
+    } else if (Array.isArray(value) && checkArrayType(value, "number")) {
+      this.log.putNumberArray(key, timestamp, value);
+    } else if (Array.isArray(value) && checkArrayType(value, "string")) {
+      this.log.putStringArray(key, timestamp, value);
+    } else {
+      this.log.putJSON(key, timestamp, JSON.stringify(value));
+    }
+  }
+}
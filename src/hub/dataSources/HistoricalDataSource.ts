@@ -20,7 +20,9 @@ export class HistoricalDataSource {
     ".wpilog": "hub$wpilogWorker.js",
     ".hoot": "hub$wpilogWorker.js", // Converted to WPILOG by main process
     ".dslog": "hub$dsLogWorker.js",
-    ".dsevents": "hub$dsLogWorker.js"
+    ".dsevents": "hub$dsLogWorker.js",
+    ".mcap": "hub$mcapWorker.js",
+    ".csv": "hub$csvWorker.js"
   };
 
   private path = "";
@@ -30,7 +32,7 @@ export class HistoricalDataSource {
   private status: HistoricalDataSourceStatus = HistoricalDataSourceStatus.Waiting;
   private statusCallback: ((status: HistoricalDataSourceStatus) => void) | null = null;
   private progressCallback: ((progress: number) => void) | null = null;
-  private refreshCallback: ((hasNewFields: boolean) => void) | null = null;
+  private refreshCallback: ((hasNewFields: boolean, loadedFields: Set<string> | null) => void) | null = null;
   private loadAllCallbacks: (() => void)[] = [];
   private customError: string | null = null;
 
@@ -39,8 +41,19 @@ export class HistoricalDataSource {
   private logIsPartial = false;
   private finishedFields: Set<string> = new Set();
   private requestedFields: Set<string> = new Set();
+  private loadedFields: Set<string> | null = new Set(); // Decoded since the last refresh, null if the whole log changed
   private fieldRequestInterval: number | null = null;
   private lastRawRequestFields: Set<string> = new Set();
+  private fixedRequestFields: string[] | null = null;
+  private background: boolean;
+
+  /**
+   * Creates a new historical data source.
+   * @param background Whether to read files without recording them as recently opened (e.g. for batch reports)
+   */
+  constructor(background = false) {
+    this.background = background;
+  }
 
   /**
    * Generates log data from a file.
@@ -48,7 +61,7 @@ export class HistoricalDataSource {
    * @param path The path to the log file
    * @param statusCallback A callback to be triggered when the status changes
    * @param progressCallback A callback to be triggered when the progress changes
-   * @param loadingCallback A callback to be triggered when a new set of data is available
+   * @param refreshCallback A callback to be triggered when a new set of data is available, with the keys that were decoded (or null if the whole log changed)
    * @param keyPrefix A prefix to append to all keys
    */
   openFile(
@@ -57,7 +70,7 @@ export class HistoricalDataSource {
     keyPrefix: string,
     statusCallback: (status: HistoricalDataSourceStatus) => void,
     progressCallback: (progress: number) => void,
-    refreshCallback: (hasNewFields: boolean) => void
+    refreshCallback: (hasNewFields: boolean, loadedFields: Set<string> | null) => void
   ) {
     this.log = log;
     this.path = path;
@@ -76,7 +89,7 @@ export class HistoricalDataSource {
       this.path = this.path.slice(0, -8) + "dslog";
     }
     this.setStatus(HistoricalDataSourceStatus.Reading);
-    window.sendMainMessage("historical-start", { uuid: this.UUID, path: this.path });
+    window.sendMainMessage("historical-start", { uuid: this.UUID, path: this.path, background: this.background });
 
     // Update field request periodically
     this.fieldRequestInterval = window.setInterval(() => this.updateFieldRequest(), 50);
@@ -159,9 +172,11 @@ export class HistoricalDataSource {
         case "initial":
           this.log?.mergeWith(Log.fromSerialized(message.log), this.keyPrefix);
           this.logIsPartial = message.isPartial;
+          this.loadedFields = null;
           break;
 
         case "failed":
+          if (message.error !== undefined) this.customError = message.error;
           this.setStatus(HistoricalDataSourceStatus.Error);
           return; // Exit immediately
 
@@ -173,6 +188,7 @@ export class HistoricalDataSource {
               if (field.generatedParent) this.log?.setGeneratedParent(key);
               this.requestedFields.delete(key);
               this.finishedFields.add(key);
+              this.loadedFields?.add(key);
             });
           }
           break;
@@ -187,7 +203,8 @@ export class HistoricalDataSource {
         this.log !== null &&
         (this.requestedFields.size === 0 || !this.logIsPartial)
       ) {
-        this.refreshCallback(true);
+        this.refreshCallback(true, this.loadedFields);
+        this.loadedFields = new Set();
         this.loadAllCallbacks.forEach((callback) => callback());
         this.loadAllCallbacks = [];
       }
@@ -197,6 +214,21 @@ export class HistoricalDataSource {
   /** Loads all fields that are not currently decoded. */
   loadAllFields(): Promise<void> {
     this.updateFieldRequest(true);
+    return this.waitForRequestedFields();
+  }
+
+  /**
+   * Loads the provided fields (and their children), ignoring the fields that are active in the hub.
+   * Used for logs that are decoded without being displayed.
+   */
+  loadFields(keys: string[]): Promise<void> {
+    this.fixedRequestFields = keys;
+    this.updateFieldRequest();
+    return this.waitForRequestedFields();
+  }
+
+  /** Returns a promise that resolves once all requested fields are decoded. */
+  private waitForRequestedFields(): Promise<void> {
     if (this.requestedFields.size === 0) {
       return new Promise((resolve) => resolve());
     } else {
@@ -213,10 +245,15 @@ export class HistoricalDataSource {
       this.logIsPartial
     ) {
       let requestFields: Set<string> = new Set();
-      if (!loadEverything) {
+      if (!loadEverything && this.fixedRequestFields !== null) {
+        // Decoding without display, use fixed fields
+        this.fixedRequestFields.forEach((field) => requestFields.add(field));
+      } else if (!loadEverything) {
         // Normal behavior, use active fields
         window.tabs.getActiveFields().forEach((field) => requestFields.add(field));
         window.sidebar.getActiveFields().forEach((field) => requestFields.add(field));
+        window.computedFields.getInputKeys().forEach((field) => requestFields.add(field));
+        window.eventDetector.getInputKeys().forEach((field) => requestFields.add(field));
         getURCLKeys(window.log).forEach((field) => requestFields.add(field));
       } else {
         // Need to access all fields, load everything
@@ -285,7 +322,7 @@ export class HistoricalDataSource {
           this.worker?.postMessage(request);
         });
         if (requestFieldsArray.length > 0 && this.refreshCallback !== null) {
-          this.refreshCallback(false);
+          this.refreshCallback(false, new Set());
         }
       }
 
@@ -332,6 +369,7 @@ export type HistoricalDataSource_WorkerResponse =
     }
   | {
       type: "failed";
+      error?: string;
     }
   | {
       type: "fields";
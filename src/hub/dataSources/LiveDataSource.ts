@@ -1,6 +1,7 @@
 import Log from "../../shared/log/Log";
 import { createUUID } from "../../shared/util";
 import LiveDataTuner from "./LiveDataTuner";
+import LiveDeviceControl from "./LiveDeviceControl";
 
 /** A provider of live log data (i.e. the data is updated as it is received). */
 export abstract class LiveDataSource {
@@ -14,6 +15,7 @@ export abstract class LiveDataSource {
 
   private clearDataCallback: NodeJS.Timeout | null = null;
   private timeSupplier: (() => number) | null = null;
+  private keyPrefix = "";
 
   /**
    * Generates log data from a live source.
@@ -60,6 +62,38 @@ export abstract class LiveDataSource {
     return null;
   }
 
+  /** Returns an object to be used for device actions, or null if device actions are not supported. */
+  getDeviceControl(): LiveDeviceControl | null {
+    return null;
+  }
+
+  /** Returns a summary of the connection health, or null if not supported. */
+  getHealth(): LiveConnectionHealth | null {
+    return null;
+  }
+
+  /** Sets a prefix applied to every key when this source is combined with others in a single log. */
+  setKeyPrefix(prefix: string) {
+    this.keyPrefix = prefix;
+  }
+
+  /** Returns whether the data from this source is currently visible. */
+  protected isLogVisible(): boolean {
+    return this.keyPrefix.length > 0 || window.log === this.log;
+  }
+
+  /** Converts keys from the visible log to keys for this source, skipping keys from other sources. */
+  protected getSourceKeys(keys: string[]): string[] {
+    if (this.keyPrefix.length === 0) return keys;
+    return keys
+      .filter((key) => key.startsWith(this.keyPrefix + "/"))
+      .flatMap((key) => {
+        // The prefix hides whether the original key started with a slash, so include both
+        let sourceKey = key.slice(this.keyPrefix.length + 1);
+        return [sourceKey, "/" + sourceKey];
+      });
+  }
+
   /** Updates the current status and triggers the callback if necessary. */
   protected setStatus(status: LiveDataSourceStatus) {
     if (status !== this.status && this.status !== LiveDataSourceStatus.Stopped) {
@@ -79,3 +113,19 @@ export enum LiveDataSourceStatus {
   Error,
   Stopped
 }
+
+export type LiveConnectionHealth = {
+  roundTripTimeMs: number | null;
+  /** Server time minus client time */
+  clockOffsetMs: number | null;
+  messageRate: number;
+  bytesPerSecond: number;
+  /** Estimated from gaps in regularly updating topics since the source was started */
+  droppedUpdates: number;
+  subscribeMode: string;
+  reconnectCount: number;
+  /** Sorted by bandwidth, highest first */
+  topics: { topic: string; messageRate: number; bytesPerSecond: number; droppedUpdates: number }[];
+  /** Wall clock times in milliseconds */
+  history: { connected: boolean; date: number }[];
+};
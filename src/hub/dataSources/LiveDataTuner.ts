@@ -1,3 +1,5 @@
+import { STRUCT_PREFIX, logValuesEqual } from "../../shared/log/LogUtil";
+
 /** A target for live tuning values, connected to a live data source. */
 export default interface LiveDataTuner {
   /** Returns whether any key supports tuning. */
@@ -6,9 +8,51 @@ export default interface LiveDataTuner {
   /** Returns whether a particular key support tuning. */
   isTunable(key: string): boolean;
 
-  /** Sets the tuned value of a key. */
-  publish(key: string, value: number | boolean): void;
+  /**
+   * Sets the tuned value of a key.
+   * @returns An error message if the value does not match the type of the key, otherwise null
+   */
+  publish(key: string, value: LiveDataTunerValue): string | null;
 
   /** Unpublished a tuned key. */
   unpublish(key: string): void;
+
+  /** Returns the most recent value published for each tuned key. */
+  getPublishedValues(): { [key: string]: LiveDataTunerValue };
+
+  /** Returns whether the last change to a key can be undone. */
+  canUndo(key: string): boolean;
+
+  /** Restores the value of a key from before the last change, returning the restored value or null if not available. */
+  undo(key: string): LiveDataTunerValue | null;
+}
+
+/** A value that can be tuned. Structs are represented as decoded objects. */
+export type LiveDataTunerValue = number | boolean | string | number[] | boolean[] | string[] | Uint8Array | object;
+
+/** Returns the most recent value of a key in the format used for tuning, or null if not available. */
+export function getCurrentTunerValue(key: string): LiveDataTunerValue | null {
+  let type = window.log.getWpilibType(key);
+  let data = window.log.getRange(key, Infinity, Infinity);
+  if (type === null || data === undefined || data.values.length === 0) return null;
+  let value = data.values[data.values.length - 1];
+  if (type.startsWith(STRUCT_PREFIX)) {
+    let schemaType = type.slice(STRUCT_PREFIX.length);
+    let isArray = schemaType.endsWith("[]");
+    try {
+      return window.log.decodeStruct(isArray ? schemaType.slice(0, -2) : schemaType, value, isArray) as object;
+    } catch {
+      return null;
+    }
+  }
+  return value;
+}
+
+/** Returns whether two tuned values of a key are equal. */
+export function tunerValuesEqual(key: string, a: LiveDataTunerValue, b: LiveDataTunerValue): boolean {
+  if (window.log.getWpilibType(key)?.startsWith(STRUCT_PREFIX)) {
+    return JSON.stringify(a) === JSON.stringify(b); // Decoded structs
+  }
+  let type = window.log.getType(key);
+  return type !== null && logValuesEqual(type, a, b);
 }
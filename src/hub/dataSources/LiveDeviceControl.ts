@@ -0,0 +1,14 @@
+/** A target for device actions (e.g. blinking or self-testing), connected to a live data source. */
+export default interface LiveDeviceControl {
+  /** Returns whether a key represents a device which supports actions. */
+  isDevice(key: string): boolean;
+
+  /** Blinks the LEDs of a device so it can be identified. */
+  blink(key: string): Promise<void>;
+
+  /** Runs a self-test on a device, returning a text summary of the results. */
+  selfTest(key: string): Promise<string>;
+
+  /** Reads the config parameters of a device, returning a text summary. */
+  getConfigs(key: string): Promise<string>;
+}
@@ -0,0 +1,165 @@
+import Log from "../../shared/log/Log";
+import { applyKeyPrefix } from "../../shared/log/LogUtil";
+import { LiveRobotConfig } from "../../shared/Preferences";
+import { LiveDataSource, LiveDataSourceStatus } from "./LiveDataSource";
+import NT4Source from "./nt4/NT4Source";
+import PhoenixDiagnosticsSource from "./PhoenixDiagnosticsSource";
+
+/**
+ * Combines several live sources (usually one per robot) into a single
+ * log. The fields of each source are linked under the robot's key
+ * prefix, and each robot's clock is aligned to a shared timeline that
+ * starts when the connection begins.
+ */
+export default class MultiLiveSource extends LiveDataSource {
+  private OFFSET_RESYNC_THRESHOLD = 0.1; // Tolerate small changes in the robot clock estimate
+
+  private robots: RobotState[] = [];
+  private sharedLog = new Log(false); // Fields are modified by other logs, so timestamp caches are invalid
+  private startTime = 0;
+
+  constructor(robots: LiveRobotConfig[]) {
+    super();
+    this.robots = robots.map((config) => {
+      let source: LiveDataSource;
+      switch (config.mode) {
+        case "nt4":
+          source = new NT4Source(false);
+          break;
+        case "nt4-akit":
+          source = new NT4Source(true);
+          break;
+        case "phoenix":
+          source = new PhoenixDiagnosticsSource();
+          break;
+      }
+      source.setKeyPrefix(config.prefix);
+      return {
+        config: config,
+        source: source,
+        status: LiveDataSourceStatus.Waiting,
+        log: null,
+        timeSupplier: null,
+        linkedKeys: new Set()
+      };
+    });
+  }
+
+  connect(
+    address: string,
+    statusCallback: (status: LiveDataSourceStatus) => void,
+    outputCallback: (log: Log, timeSupplier: () => number) => void
+  ) {
+    super.connect(address, statusCallback, outputCallback);
+    this.startTime = new Date().getTime() / 1000;
+    this.robots.forEach((robot) => {
+      robot.source.connect(
+        robot.config.address,
+        (status) => {
+          robot.status = status;
+          if (status !== LiveDataSourceStatus.Active) robot.timeSupplier = null;
+          this.updateStatus();
+        },
+        (log, timeSupplier) => {
+          robot.timeSupplier = timeSupplier;
+          this.linkFields(robot, log);
+          this.updateTiming();
+          if (this.outputCallback !== null && this.status === LiveDataSourceStatus.Active) {
+            this.outputCallback(this.sharedLog, () => this.getSharedTime());
+          }
+        }
+      );
+    });
+  }
+
+  stop() {
+    super.stop();
+    this.robots.forEach((robot) => robot.source.stop());
+  }
+
+  handleMainMessage(data: any) {
+    this.robots.forEach((robot) => robot.source.handleMainMessage(data));
+  }
+
+  /** Updates the combined status, which is active if any robot is connected. */
+  private updateStatus() {
+    if (this.robots.some((robot) => robot.status === LiveDataSourceStatus.Active)) {
+      this.setStatus(LiveDataSourceStatus.Active);
+    } else if (this.robots.every((robot) => robot.status === LiveDataSourceStatus.Error)) {
+      this.setStatus(LiveDataSourceStatus.Error);
+    } else {
+      this.setStatus(LiveDataSourceStatus.Connecting);
+    }
+  }
+
+  /** Returns the current time on the shared timeline. */
+  private getSharedTime(): number {
+    return new Date().getTime() / 1000 - this.startTime;
+  }
+
+  /** Links new or replaced fields from a robot's log into the shared log. */
+  private linkFields(robot: RobotState, log: Log) {
+    let prefix = robot.config.prefix;
+    let keys: Iterable<string>;
+    if (log !== robot.log) {
+      // New log (usually after reconnecting), replace all fields
+      robot.linkedKeys.forEach((key) => this.sharedLog.deleteField(applyKeyPrefix(prefix, key)));
+      robot.linkedKeys.clear();
+      robot.log = log;
+      log.getChangedFields();
+      keys = log.getFieldKeys();
+    } else {
+      keys = log.getChangedFields();
+    }
+    for (let key of keys) {
+      let field = log.getField(key);
+      if (field === null) continue;
+      let sharedKey = applyKeyPrefix(prefix, key);
+      this.sharedLog.setField(sharedKey, field);
+      if (log.isGeneratedParent(key)) this.sharedLog.setGeneratedParent(sharedKey);
+      robot.linkedKeys.add(key);
+    }
+
+    // Remove deleted fields
+    if (robot.linkedKeys.size > log.getFieldKeys().length) {
+      robot.linkedKeys.forEach((key) => {
+        if (log.getField(key) === null) {
+          this.sharedLog.deleteField(applyKeyPrefix(prefix, key));
+          robot.linkedKeys.delete(key);
+        }
+      });
+    }
+  }
+
+  /** Aligns each robot's clock to the shared timeline and updates the combined timestamp range. */
+  private updateTiming() {
+    let sharedTime = this.getSharedTime();
+    let range: [number, number] | null = null;
+    for (let robot of this.robots) {
+      if (robot.log === null) continue;
+      let prefix = robot.config.prefix;
+      if (robot.timeSupplier !== null) {
+        let newOffset = sharedTime - robot.timeSupplier();
+        if (Math.abs(newOffset - this.sharedLog.getTimeOffset(prefix)) > this.OFFSET_RESYNC_THRESHOLD) {
+          this.sharedLog.setTimeOffset(prefix, newOffset);
+        }
+      }
+      let offset = this.sharedLog.getTimeOffset(prefix);
+      let robotRange = robot.log.getTimestampRange();
+      range =
+        range === null
+          ? [robotRange[0] + offset, robotRange[1] + offset]
+          : [Math.min(range[0], robotRange[0] + offset), Math.max(range[1], robotRange[1] + offset)];
+    }
+    if (range !== null) this.sharedLog.setTimestampRange(range);
+  }
+}
+
+type RobotState = {
+  config: LiveRobotConfig;
+  source: LiveDataSource;
+  status: LiveDataSourceStatus;
+  log: Log | null;
+  timeSupplier: (() => number) | null;
+  linkedKeys: Set<string>; // Keys from the robot's log
+};
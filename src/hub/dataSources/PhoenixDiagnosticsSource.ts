@@ -1,9 +1,10 @@
 import Log from "../../shared/log/Log";
-import { PHOENIX_PREFIX } from "../../shared/log/LogUtil";
+import { PHOENIX5_PREFIX, PHOENIX_PREFIX } from "../../shared/log/LogUtil";
 import LoggableType from "../../shared/log/LoggableType";
 import { LiveDataSource, LiveDataSourceStatus } from "./LiveDataSource";
+import LiveDeviceControl from "./LiveDeviceControl";
 
-export default class PhoenixDiagnosticsSource extends LiveDataSource {
+export default class PhoenixDiagnosticsSource extends LiveDataSource implements LiveDeviceControl {
   private PORT = 1250;
   private GET_DEVICES_PERIOD = 500;
   private GET_DEVICES_TIMEOUT = 400;
@@ -11,12 +12,20 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
   private PLOT_PERIOD = 50;
   private PLOT_TIMEOUT = this.PLOT_PERIOD - 10;
   private PLOT_RESOLUTION = this.PLOT_PERIOD; // Support up to 1Khz signals
+  // Each Phoenix 5 snapshot is a full self-test on the RIO, which is much more expensive than a
+  // Phoenix 6 plot. Limit to one request per device per period, and never more than one in flight.
+  private SNAPSHOT_PERIOD = 1000;
+  private SNAPSHOT_TIMEOUT = this.SNAPSHOT_PERIOD - 10;
+  private ACTION_TIMEOUT = 5000;
 
   private getDevicesInterval: NodeJS.Timeout | null = null;
   private plotInterval: NodeJS.Timeout | null = null;
+  private snapshotInterval: NodeJS.Timeout | null = null;
 
   private deviceDescriptions: { [key: string]: Response_Device } = {};
   private deviceSignals: { [key: string]: Response_Signal[] } = {};
+  private phoenix5Devices: Set<string> = new Set();
+  private pendingSnapshots: Set<string> = new Set();
   private liveStartRealTime: number | null = null;
   private liveStartLogTime: number | null = null;
 
@@ -36,17 +45,25 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
             this.log = new Log();
             this.deviceDescriptions = {};
             this.deviceSignals = {};
+            this.phoenix5Devices = new Set();
             this.liveStartRealTime = new Date().getTime() / 1000;
             this.liveStartLogTime = null;
           }
           this.setStatus(LiveDataSourceStatus.Active);
           devices.forEach((device) => {
             // Phoenix 6 devices use a "pro" application regardless of
-            // license state. Phoenix 5 devices evices use a different
-            // protocol that does not advertise a list of signals, so
-            // don't include them in the list
-            if (!device.IsPROApplication) return;
+            // license state. Phoenix 5 devices use a different protocol
+            // that does not advertise a list of signals, so their values
+            // are read from self-test snapshots instead
             let deviceName = this.getDeviceName(device);
+            if (!device.IsPROApplication) {
+              if (!this.phoenix5Devices.has(deviceName)) {
+                this.deviceDescriptions[deviceName] = device;
+                this.phoenix5Devices.add(deviceName);
+                this.updateSnapshot(deviceName); // Create fields immediately
+              }
+              return;
+            }
             if (!(deviceName in this.deviceDescriptions)) {
               this.deviceDescriptions[deviceName] = device;
             }
@@ -86,7 +103,7 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
     this.plotInterval = setInterval(() => {
       // Get set of signals to request
       let activeSignals: { [key: string]: Response_Signal[] } = {};
-      if (window.preferences?.liveSubscribeMode === "logging") {
+      if (window.preferences?.liveSubscribeMode === "logging" || window.liveRecorder.isActive()) {
         // Logging mode, all signals are active
         Object.entries(this.deviceSignals).forEach(([deviceName, signals]) => {
           signals.forEach((signal) => {
@@ -99,7 +116,11 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
         });
       } else {
         // Low bandwidth mode, only use active fields
-        [...window.tabs.getActiveFields(), ...window.sidebar.getActiveFields()].forEach((activeField) => {
+        this.getSourceKeys([
+          ...window.tabs.getActiveFields(),
+          ...window.sidebar.getActiveFields(),
+          ...window.liveAlerts.getInputKeys()
+        ]).forEach((activeField) => {
           if (!activeField.startsWith(PHOENIX_PREFIX)) return;
           let splitKey = activeField.split("/");
           let deviceName: string, signalName: string;
@@ -170,14 +191,118 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
         );
       });
     }, this.PLOT_PERIOD);
+
+    // Get new Phoenix 5 snapshots periodically
+    this.snapshotInterval = setInterval(() => {
+      let isLogging = window.preferences?.liveSubscribeMode === "logging" || window.liveRecorder.isActive();
+      let activeFields = isLogging
+        ? []
+        : this.getSourceKeys([
+            ...window.tabs.getActiveFields(),
+            ...window.sidebar.getActiveFields(),
+            ...window.liveAlerts.getInputKeys()
+          ]);
+      let activeDevices = Array.from(this.phoenix5Devices).filter(
+        (deviceName) =>
+          isLogging ||
+          activeFields.some((activeField) => activeField.startsWith(PHOENIX5_PREFIX + "/" + deviceName + "/"))
+      );
+      activeDevices.forEach((deviceName, deviceIndex) => {
+        // Offset requests for each device to spread out the load on the RIO
+        window.setTimeout(
+          () => this.updateSnapshot(deviceName),
+          (this.SNAPSHOT_PERIOD / activeDevices.length) * deviceIndex
+        );
+      });
+    }, this.SNAPSHOT_PERIOD);
   }
 
   stop() {
     if (this.getDevicesInterval) clearInterval(this.getDevicesInterval);
     if (this.plotInterval) clearInterval(this.plotInterval);
+    if (this.snapshotInterval) clearInterval(this.snapshotInterval);
     super.stop();
   }
 
+  getDeviceControl(): LiveDeviceControl {
+    return this;
+  }
+
+  isDevice(key: string): boolean {
+    return this.getDeviceFromKey(key) !== null;
+  }
+
+  async blink(key: string): Promise<void> {
+    let device = this.getDeviceFromKey(key);
+    if (device === null) throw "Unknown device";
+    await this.request<Response>(this.getDeviceURL("blink", device), this.ACTION_TIMEOUT);
+  }
+
+  async selfTest(key: string): Promise<string> {
+    let device = this.getDeviceFromKey(key);
+    if (device === null) throw "Unknown device";
+    let json = await this.request<Response_SelfTest>(this.getDeviceURL("selftest", device), this.ACTION_TIMEOUT);
+    return json.SelfTest;
+  }
+
+  async getConfigs(key: string): Promise<string> {
+    let device = this.getDeviceFromKey(key);
+    if (device === null) throw "Unknown device";
+    let json = await this.request<Response>(this.getDeviceURL("getconfig", device), this.ACTION_TIMEOUT);
+    let lines: string[] = [];
+    let addLines = (value: unknown, path: string) => {
+      if (typeof value === "object" && value !== null) {
+        Object.entries(value).forEach(([childKey, childValue]) => {
+          addLines(childValue, path.length > 0 ? path + "." + childKey : childKey);
+        });
+      } else {
+        lines.push(path + ": " + String(value));
+      }
+    };
+    Object.entries(json).forEach(([childKey, childValue]) => {
+      if (childKey !== "GeneralReturn") addLines(childValue, childKey);
+    });
+    return lines.join("\n");
+  }
+
+  /** Returns the device for a key in the sidebar (e.g. "/Phoenix6/TalonFX-1"), or null if not a device. */
+  private getDeviceFromKey(key: string): Response_Device | null {
+    if (key.startsWith("/")) key = key.slice(1);
+    let prefix = [PHOENIX_PREFIX, PHOENIX5_PREFIX].find((prefix) => key.startsWith(prefix + "/"));
+    if (prefix === undefined) return null;
+    let deviceName = key.slice(prefix.length + 1);
+    if (!(deviceName in this.deviceDescriptions)) return null;
+    if ((prefix === PHOENIX5_PREFIX) !== this.phoenix5Devices.has(deviceName)) return null;
+    return this.deviceDescriptions[deviceName];
+  }
+
+  /** Reads a self-test snapshot for a Phoenix 5 device and adds the numeric values to the log. */
+  private updateSnapshot(deviceName: string) {
+    if (!(deviceName in this.deviceDescriptions)) return;
+    if (this.pendingSnapshots.has(deviceName)) return; // Previous request still running
+    this.pendingSnapshots.add(deviceName);
+    let device = this.deviceDescriptions[deviceName];
+    this.request<Response_SelfTest>(this.getDeviceURL("selftest", device), this.SNAPSHOT_TIMEOUT)
+      .then((json) => {
+        if (this.log === null || this.liveStartRealTime === null) return;
+        let timestamp = new Date().getTime() / 1000 - this.liveStartRealTime;
+        json.SelfTest.split("\n").forEach((line) => {
+          // Lines are formatted as "Name: Value Units"
+          let match = line.match(/^\s*([^:]+?)\s*:\s*(-?\d+(?:\.\d+)?)\s*([^\s\d(]\S*)?\s*$/);
+          if (match === null) return;
+          let key = PHOENIX5_PREFIX + "/" + deviceName + "/" + match[1].replaceAll(/[\s/]/g, "");
+          let isNew = this.log!.getField(key) === null;
+          this.log!.putNumber(key, timestamp, Number(match[2]));
+          if (isNew && match[3] !== undefined) {
+            this.log!.setMetadataString(key, JSON.stringify({ units: match[3] }));
+          }
+        });
+        this.newOutput();
+      })
+      .catch(() => {})
+      .finally(() => this.pendingSnapshots.delete(deviceName));
+  }
+
   /** Runs the output callback with the current log and an appropriate timestamp supplier. */
   private newOutput() {
     if (this.outputCallback !== null && this.log !== null && this.status !== LiveDataSourceStatus.Stopped) {
@@ -221,51 +346,53 @@ export default class PhoenixDiagnosticsSource extends LiveDataSource {
 
   /** Returns the set of available signals for a device. */
   private async getSignals(device: Response_Device): Promise<Response_Signal[]> {
-    let response = await fetch(
-      "http://" +
-        this.address +
-        ":" +
-        this.PORT.toString() +
-        "/?action=getsignals&model=" +
-        encodeURIComponent(device.Model) +
-        "&id=" +
-        device.ID.toString() +
-        "&canbus=" +
-        encodeURIComponent(device.CANbus),
-      {
-        signal: AbortSignal.timeout(this.GET_SIGNALS_TIMEOUT)
-      }
+    let json = await this.request<Response_GetSignals>(
+      this.getDeviceURL("getsignals", device),
+      this.GET_SIGNALS_TIMEOUT
     );
-    let json = (await response.json()) as Response_GetSignals;
-    if (json.GeneralReturn.Error !== 0) throw "Non-zero error code";
     return json.Signals;
   }
 
   /** Returns a section of plot data for a set of signals. */
   private async getPlotData(device: Response_Device, signals: number[]): Promise<Response_Point[]> {
-    let response = await fetch(
-      "http://" +
-        this.address +
-        ":" +
-        this.PORT.toString() +
-        "/?action=plotpro&model=" +
-        encodeURIComponent(device.Model) +
-        "&id=" +
-        device.ID.toString() +
-        "&canbus=" +
-        encodeURIComponent(device.CANbus) +
+    let json = await this.request<Response_PlotPro>(
+      this.getDeviceURL("plotpro", device) +
         "&signals=" +
         signals.map((value) => value.toString()).join(",") +
         "&resolution=" +
         this.PLOT_RESOLUTION.toString(),
-      {
-        signal: AbortSignal.timeout(this.PLOT_TIMEOUT)
-      }
+      this.PLOT_TIMEOUT
     );
-    let json = (await response.json()) as Response_PlotPro;
-    if (json.GeneralReturn.Error !== 0) throw "Non-zero error code";
     return json.Points;
   }
+
+  /** Returns the URL for an action that targets a single device. */
+  private getDeviceURL(action: string, device: Response_Device): string {
+    return (
+      "http://" +
+      this.address +
+      ":" +
+      this.PORT.toString() +
+      "/?action=" +
+      action +
+      "&model=" +
+      encodeURIComponent(device.Model) +
+      "&id=" +
+      device.ID.toString() +
+      "&canbus=" +
+      encodeURIComponent(device.CANbus)
+    );
+  }
+
+  /** Sends a request to the diagnostic server, throwing if the server reports an error. */
+  private async request<T extends Response>(url: string, timeout: number): Promise<T> {
+    let response = await fetch(url, {
+      signal: AbortSignal.timeout(timeout)
+    });
+    let json = (await response.json()) as T;
+    if (json.GeneralReturn.Error !== 0) throw "Non-zero error code";
+    return json;
+  }
 }
 
 interface Response {
@@ -304,6 +431,10 @@ interface Response_Signal {
   Units: string;
 }
 
+interface Response_SelfTest extends Response {
+  SelfTest: string;
+}
+
 interface Response_PlotPro extends Response {
   Count: number;
   Points: Response_Point[];
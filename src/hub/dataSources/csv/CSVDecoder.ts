@@ -0,0 +1,230 @@
+import Log from "../../../shared/log/Log";
+import LoggableType from "../../../shared/log/LoggableType";
+
+/** Decodes CSV files, including both formats produced by the export feature ("csv-table" and "csv-list"). */
+export default class CSVDecoder {
+  private LIST_HEADER = ["timestamp", "key", "value"];
+  private TIMESTAMP_HEADER_REGEX = new RegExp(
+    /^(timestamp|time|t)([\s_-]*[([]?\s*(s|secs?|seconds|ms|millis|milliseconds|us|µs|micros|microseconds|ns|nanos|nanoseconds)\s*[)\]]?)?$/i
+  );
+  private RAW_REGEX = new RegExp(/^[0-9a-f]{2}(-[0-9a-f]{2})+$/i);
+
+  decode(log: Log, dataArray: Uint8Array, progressCallback?: (progress: number) => void): boolean {
+    let text = new TextDecoder("UTF-8").decode(dataArray);
+    let rows = CSVDecoder.parseRows(text);
+    if (rows.length < 2) return false;
+    let header = rows[0].map((cell) => CSVDecoder.unquote(cell.trim()));
+    let dataRows = rows.slice(1);
+
+    if (header.length === 3 && header.every((cell, index) => cell.toLowerCase() === this.LIST_HEADER[index])) {
+      return this.decodeList(log, dataRows, progressCallback);
+    } else {
+      return this.decodeTable(log, header, dataRows, progressCallback);
+    }
+  }
+
+  /** Decodes a CSV with one column per field. */
+  private decodeTable(
+    log: Log,
+    header: string[],
+    rows: string[][],
+    progressCallback?: (progress: number) => void
+  ): boolean {
+    // Find timestamp column
+    let timestampColumn = header.findIndex((cell) => this.TIMESTAMP_HEADER_REGEX.test(cell));
+    if (timestampColumn === -1) {
+      timestampColumn = header.findIndex((_, column) =>
+        rows.every((row) => row[column] !== undefined && isFinite(Number(row[column])) && row[column].trim() !== "")
+      );
+    }
+    if (timestampColumn === -1) return false;
+    let timestampScalar = CSVDecoder.getTimestampScalar(header[timestampColumn]);
+    let timestamps = rows.map((row) => Number(row[timestampColumn]) * timestampScalar);
+
+    // Add data for each column
+    for (let column = 0; column < header.length; column++) {
+      if (column === timestampColumn || header[column].length === 0) continue;
+      let key = CSVDecoder.getKey(header[column]);
+      let cells = rows.map((row) => (column < row.length ? row[column].trim() : ""));
+      let type = this.inferType(cells);
+      cells.forEach((cell, index) => {
+        if (isNaN(timestamps[index])) return;
+        this.putValue(log, key, type, timestamps[index], cell);
+      });
+      if (progressCallback !== undefined) {
+        progressCallback(column / header.length);
+      }
+    }
+    return true;
+  }
+
+  /** Decodes a CSV with one row per value in the format "Timestamp,Key,Value". */
+  private decodeList(log: Log, rows: string[][], progressCallback?: (progress: number) => void): boolean {
+    // Group rows by key
+    let fieldRows: Map<string, { timestamps: number[]; cells: string[] }> = new Map();
+    rows.forEach((row) => {
+      if (row.length < 3) return;
+      let timestamp = Number(row[0]);
+      if (isNaN(timestamp)) return;
+      let key = CSVDecoder.getKey(CSVDecoder.unquote(row[1].trim()));
+      if (!fieldRows.has(key)) {
+        fieldRows.set(key, { timestamps: [], cells: [] });
+      }
+      fieldRows.get(key)!.timestamps.push(timestamp);
+      fieldRows.get(key)!.cells.push(row.slice(2).join(",").trim());
+    });
+
+    // Add data for each key
+    let index = 0;
+    fieldRows.forEach((data, key) => {
+      let type = this.inferType(data.cells);
+      data.cells.forEach((cell, cellIndex) => {
+        this.putValue(log, key, type, data.timestamps[cellIndex], cell);
+      });
+      if (progressCallback !== undefined) {
+        progressCallback(index++ / fieldRows.size);
+      }
+    });
+    return true;
+  }
+
+  /** Determines the most specific type that can represent every cell. */
+  private inferType(cells: string[]): LoggableType {
+    let values = cells.filter((cell) => cell.length > 0 && cell !== "null");
+    if (values.length === 0) {
+      return LoggableType.Empty;
+    } else if (values.every((cell) => cell === "true" || cell === "false")) {
+      return LoggableType.Boolean;
+    } else if (values.every((cell) => isFinite(Number(cell)))) {
+      return LoggableType.Number;
+    } else if (values.every((cell) => cell === "(empty)" || this.RAW_REGEX.test(cell))) {
+      return LoggableType.Raw;
+    } else if (values.every((cell) => cell.startsWith("[") && cell.endsWith("]"))) {
+      let items = values.map((cell) => CSVDecoder.splitArray(cell)).flat();
+      if (items.every((item) => item === "true" || item === "false")) {
+        return LoggableType.BooleanArray;
+      } else if (items.every((item) => isFinite(Number(item)))) {
+        return LoggableType.NumberArray;
+      } else {
+        return LoggableType.StringArray;
+      }
+    } else {
+      return LoggableType.String;
+    }
+  }
+
+  /** Writes a single cell to the log using the inferred type. */
+  private putValue(log: Log, key: string, type: LoggableType, timestamp: number, cell: string) {
+    if (cell.length === 0 || cell === "null") return;
+    switch (type) {
+      case LoggableType.Boolean:
+        log.putBoolean(key, timestamp, cell === "true");
+        break;
+      case LoggableType.Number:
+        log.putNumber(key, timestamp, Number(cell));
+        break;
+      case LoggableType.String:
+        log.putString(key, timestamp, CSVDecoder.unquote(cell));
+        break;
+      case LoggableType.Raw:
+        log.putRaw(
+          key,
+          timestamp,
+          cell === "(empty)" ? new Uint8Array() : new Uint8Array(cell.split("-").map((byte) => parseInt(byte, 16)))
+        );
+        break;
+      case LoggableType.BooleanArray:
+        log.putBooleanArray(
+          key,
+          timestamp,
+          CSVDecoder.splitArray(cell).map((item) => item === "true")
+        );
+        break;
+      case LoggableType.NumberArray:
+        log.putNumberArray(
+          key,
+          timestamp,
+          CSVDecoder.splitArray(cell).map((item) => Number(item))
+        );
+        break;
+      case LoggableType.StringArray:
+        log.putStringArray(
+          key,
+          timestamp,
+          CSVDecoder.splitArray(cell).map((item) => CSVDecoder.unquote(item))
+        );
+        break;
+    }
+  }
+
+  /** Splits text into rows of raw cells, respecting quoted cells. Quotes are preserved in the output. */
+  private static parseRows(text: string): string[][] {
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+      let char = text[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+        cell += char;
+      } else if (char === "," && !inQuotes) {
+        row.push(cell);
+        cell = "";
+      } else if ((char === "\n" || char === "\r") && !inQuotes) {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        row.push(cell);
+        cell = "";
+        if (row.length > 1 || row[0].trim().length > 0) rows.push(row);
+        row = [];
+      } else {
+        cell += char;
+      }
+    }
+    row.push(cell);
+    if (row.length > 1 || row[0].trim().length > 0) rows.push(row);
+    return rows;
+  }
+
+  /** Removes quotes from a cell, supporting both JSON strings (from exports) and standard CSV escaping. */
+  private static unquote(cell: string): string {
+    if (cell.length >= 2 && cell.startsWith('"') && cell.endsWith('"')) {
+      try {
+        let value = JSON.parse(cell);
+        if (typeof value === "string") return value;
+      } catch {}
+      return cell.slice(1, -1).replaceAll('""', '"');
+    }
+    return cell;
+  }
+
+  /** Splits an array cell (e.g. "[1; 2; 3]") into raw items. */
+  private static splitArray(cell: string): string[] {
+    let inner = cell.slice(1, -1).trim();
+    if (inner.length === 0) return [];
+    return inner.split(";").map((item) => item.trim());
+  }
+
+  /** Converts a header to a log key. */
+  private static getKey(header: string): string {
+    if (header.startsWith("/") || header.includes(":")) {
+      return header;
+    } else {
+      return "/" + header;
+    }
+  }
+
+  /** Returns the scalar to convert timestamps to seconds based on the units in the header. */
+  private static getTimestampScalar(header: string): number {
+    // Units may be separated by spaces, underscores, or brackets (e.g. "time_ms" or "Time (µs)")
+    if (/(?<![a-z])(ms|millis|milliseconds)(?![a-z])/i.test(header)) {
+      return 1e-3;
+    } else if (/(?<![a-z])(us|µs|micros|microseconds)(?![a-z])/i.test(header)) {
+      return 1e-6;
+    } else if (/(?<![a-z])(ns|nanos|nanoseconds)(?![a-z])/i.test(header)) {
+      return 1e-9;
+    } else {
+      return 1;
+    }
+  }
+}
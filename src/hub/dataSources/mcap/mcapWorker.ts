@@ -0,0 +1,153 @@
+import { McapStreamReader, McapTypes } from "@mcap/core";
+import * as fzstd from "fzstd";
+import * as lz4 from "lz4js";
+import descriptor from "protobufjs/ext/descriptor";
+import Log from "../../../shared/log/Log";
+import { PROTO_PREFIX } from "../../../shared/log/LogUtil";
+import { HistoricalDataSource_WorkerRequest, HistoricalDataSource_WorkerResponse } from "../HistoricalDataSource";
+
+/** Schema names used by the AdvantageScope MCAP exporter for JSON channels. */
+const EXPORT_SCHEMA_NAMES = ["boolean", "number", "string", "boolean[]", "number[]", "string[]"];
+
+/** Decompressors for chunk compression formats, as written by the MCAP CLI and ROS tools. */
+const DECOMPRESS_HANDLERS: McapTypes.DecompressHandlers = {
+  zstd: (buffer, decompressedSize) => fzstd.decompress(buffer, new Uint8Array(Number(decompressedSize))),
+  lz4: (buffer) => lz4.decompress(buffer)
+};
+
+function sendResponse(response: HistoricalDataSource_WorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = async (event) => {
+  let request: HistoricalDataSource_WorkerRequest = event.data;
+  if (request.type !== "start") return;
+
+  let data = request.data[0];
+  let log = new Log(false); // No timestamp set cache for efficiency
+  let textDecoder = new TextDecoder();
+  let schemas: Map<number, McapTypes.Schema> = new Map();
+  let channels: Map<number, McapTypes.Channel> = new Map();
+  let lastProgressValue = 0;
+
+  try {
+    let reader = new McapStreamReader({ decompressHandlers: DECOMPRESS_HANDLERS });
+    reader.append(data);
+    for (let record; (record = reader.nextRecord()); ) {
+      switch (record.type) {
+        case "Schema":
+          schemas.set(record.id, record);
+          if (record.encoding === "protobuf") {
+            // Schema data is a FileDescriptorSet, register each file separately
+            let descriptorSet: any = descriptor.FileDescriptorSet.decode(record.data);
+            descriptorSet.file.forEach((file: any) => {
+              log.putProto(
+                "/.schema/" + PROTO_PREFIX + file.name,
+                0,
+                descriptor.FileDescriptorProto.encode(file).finish(),
+                "FileDescriptorProto"
+              );
+            });
+          }
+          break;
+
+        case "Channel":
+          channels.set(record.id, record);
+          break;
+
+        case "Message":
+          let channel = channels.get(record.channelId);
+          if (channel === undefined) break;
+          let schema = schemas.get(channel.schemaId);
+          let key = channel.topic;
+          let timestamp = Number(record.logTime) / 1e9;
+          try {
+            switch (channel.messageEncoding) {
+              case "json":
+                let text = textDecoder.decode(record.data);
+                if (
+                  schema !== undefined &&
+                  schema.encoding === "jsonschema" &&
+                  EXPORT_SCHEMA_NAMES.includes(schema.name)
+                ) {
+                  // Exported by AdvantageScope, restore original type
+                  let value = JSON.parse(text).value;
+                  switch (schema.name) {
+                    case "boolean":
+                      log.putBoolean(key, timestamp, value);
+                      break;
+                    case "number":
+                      log.putNumber(key, timestamp, value);
+                      break;
+                    case "string":
+                      log.putString(key, timestamp, value);
+                      break;
+                    case "boolean[]":
+                      log.putBooleanArray(key, timestamp, value);
+                      break;
+                    case "number[]":
+                      log.putNumberArray(key, timestamp, value);
+                      break;
+                    case "string[]":
+                      log.putStringArray(key, timestamp, value);
+                      break;
+                  }
+                } else {
+                  log.putJSON(key, timestamp, text);
+                }
+                break;
+              case "protobuf":
+                if (schema !== undefined) {
+                  log.putProto(key, timestamp, record.data, schema.name);
+                } else {
+                  log.putRaw(key, timestamp, record.data);
+                }
+                break;
+              case "msgpack":
+                log.putMsgpack(key, timestamp, record.data);
+                break;
+              default: // Default to raw
+                log.putRaw(key, timestamp, record.data);
+                break;
+            }
+          } catch (error) {
+            console.error("Failed to decode MCAP message:", error);
+          }
+          break;
+      }
+
+      // Send progress update
+      let progress = (data.byteLength - reader.bytesRemaining()) / data.byteLength;
+      if (progress - lastProgressValue > 0.01) {
+        lastProgressValue = progress;
+        sendResponse({
+          type: "progress",
+          value: progress
+        });
+      }
+    }
+  } catch (exception) {
+    console.error(exception);
+    let compression = String(exception).match(/Unsupported compression (\S+)/);
+    sendResponse({
+      type: "failed",
+      error:
+        compression === null
+          ? undefined
+          : 'This MCAP file uses "' +
+            compression[1] +
+            '" compression, which is not supported. Please convert it to use "zstd", "lz4", or no compression.'
+    });
+    return;
+  }
+
+  sendResponse({
+    type: "progress",
+    value: 1
+  });
+  sendResponse({
+    type: "initial",
+    log: log.toSerialized(),
+    isPartial: false
+  });
+};
@@ -109,6 +109,7 @@ export class NT4_Client {
   private serverConnectionRequested = false;
   private serverTimeOffset_us: number | null = null;
   private networkLatency_us: number = 0;
+  private bytesReceived = 0;
 
   private subscriptions: Map<number, NT4_Subscription> = new Map();
   private publishedTopics: Map<string, NT4_Topic> = new Map();
@@ -116,6 +117,7 @@ export class NT4_Client {
 
   private msgpackDecoder = new Decoder();
   private msgpackEncoder = new Encoder();
+  private textEncoder = new TextEncoder();
 
   /**
    * Creates a new NT4 client without connecting.
@@ -383,6 +385,21 @@ export class NT4_Client {
     return this.networkLatency_us;
   }
 
+  /** Returns the most recent round trip time in microseconds (or null if unknown). */
+  getRoundTripTime_us(): number | null {
+    return this.serverTimeOffset_us === null ? null : this.networkLatency_us * 2;
+  }
+
+  /** Returns the offset between the server and client clocks in microseconds (or null if unknown). */
+  getServerTimeOffset_us(): number | null {
+    return this.serverTimeOffset_us;
+  }
+
+  /** Returns the total number of bytes received from the server, excluding time synchronization. */
+  getBytesReceived(): number {
+    return this.bytesReceived;
+  }
+
   private ws_sendTimestamp() {
     let timeToSend = this.getClientTime_us();
     let txData = this.msgpackEncoder.encode([-1, 0, typestrIdxLookup["int"], timeToSend]);
@@ -517,6 +534,10 @@ export class NT4_Client {
 
   private ws_onMessage(event: MessageEvent, rttOnly: boolean) {
     this.ws_resetTimeout();
+    if (!rttOnly) {
+      this.bytesReceived +=
+        typeof event.data === "string" ? this.textEncoder.encode(event.data).length : event.data.byteLength;
+    }
 
     if (typeof event.data === "string") {
       // Exit if RTT only
@@ -0,0 +1,191 @@
+import Log from "../../../shared/log/Log";
+import { CONNECTION_HEALTH_PREFIX } from "../../../shared/log/LogUtil";
+import LoggableType from "../../../shared/log/LoggableType";
+import { LiveConnectionHealth } from "../LiveDataSource";
+import { NT4_Client } from "./NT4";
+
+/**
+ * Tracks the latency, bandwidth, and reconnect history of an NT4
+ * connection. The results are written to generated fields so they can
+ * be viewed like any other data.
+ *
+ * NT4 has no sequence numbers and servers skip values that do not
+ * change, so dropped updates cannot be counted exactly. Instead, they
+ * are estimated from gaps in the timestamps of topics that otherwise
+ * update at a regular rate.
+ */
+export default class NT4ConnectionHealth {
+  private UPDATE_PERIOD_MS = 1000;
+  private MAX_HISTORY = 50;
+  private MESSAGE_OVERHEAD_BYTES = 13; // Array header, topic ID, timestamp, and type
+  private INTERVAL_SMOOTHING = 0.1;
+  private MIN_REGULAR_SAMPLES = 20; // Samples before a topic's interval is trusted
+  private MAX_REGULAR_DEVIATION = 0.25; // Maximum average deviation from the interval, as a fraction
+  private GAP_FACTOR = 3; // Intervals longer than this multiple of the typical interval are gaps
+
+  private pendingTopicStats: { [topic: string]: { messages: number; bytes: number } } = {};
+  private topicRates: { [topic: string]: { messageRate: number; bytesPerSecond: number } } = {};
+  private topicTiming: {
+    [topic: string]: { lastTimestamp: number; interval: number | null; deviation: number; samples: number };
+  } = {};
+  private topicDroppedUpdates: { [topic: string]: number } = {};
+  private droppedUpdates = 0;
+  private messageRate = 0;
+  private bytesPerSecond = 0;
+  private lastBytesReceived = 0;
+  private lastUpdateTime: number | null = null;
+  private reconnectCount = -1;
+  private history: LiveConnectionHealth["history"] = [];
+  private subscribeMode = "";
+  private roundTripTimeMs: number | null = null;
+  private clockOffsetMs: number | null = null;
+
+  /** Records a message received from the server. */
+  recordMessage(topic: string, timestamp_us: number, value: unknown) {
+    if (!(topic in this.pendingTopicStats)) {
+      this.pendingTopicStats[topic] = { messages: 0, bytes: 0 };
+    }
+    this.pendingTopicStats[topic].messages++;
+    this.pendingTopicStats[topic].bytes += this.MESSAGE_OVERHEAD_BYTES + getValueSize(value);
+    this.recordTiming(topic, timestamp_us);
+  }
+
+  /** Records that the connection was established. */
+  recordConnected() {
+    this.reconnectCount++;
+    this.addHistory(true);
+  }
+
+  /** Records that the connection was lost. */
+  recordDisconnected() {
+    this.addHistory(false);
+    this.pendingTopicStats = {};
+    this.topicRates = {};
+    this.topicTiming = {}; // Don't count the disconnected period as a gap
+    this.messageRate = 0;
+    this.bytesPerSecond = 0;
+    this.lastUpdateTime = null;
+  }
+
+  /** Recalculates rates and writes the results to the log if the update period has elapsed. */
+  update(log: Log, client: NT4_Client, subscribeMode: string) {
+    let now = new Date().getTime();
+    this.subscribeMode = subscribeMode;
+    let bytesReceived = client.getBytesReceived();
+    if (this.lastUpdateTime === null) {
+      this.lastUpdateTime = now;
+      this.lastBytesReceived = bytesReceived;
+      return;
+    }
+    if (now - this.lastUpdateTime < this.UPDATE_PERIOD_MS) return;
+
+    // Calculate rates
+    let period = (now - this.lastUpdateTime) / 1000;
+    this.lastUpdateTime = now;
+    this.topicRates = {};
+    this.messageRate = 0;
+    Object.entries(this.pendingTopicStats).forEach(([topic, stats]) => {
+      this.topicRates[topic] = { messageRate: stats.messages / period, bytesPerSecond: stats.bytes / period };
+      this.messageRate += stats.messages / period;
+    });
+    this.pendingTopicStats = {};
+    this.bytesPerSecond = (bytesReceived - this.lastBytesReceived) / period;
+    this.lastBytesReceived = bytesReceived;
+    let roundTripTime = client.getRoundTripTime_us();
+    let clockOffset = client.getServerTimeOffset_us();
+    this.roundTripTimeMs = roundTripTime === null ? null : roundTripTime / 1000;
+    this.clockOffsetMs = clockOffset === null ? null : clockOffset / 1000;
+
+    // Write to log
+    let serverTime = client.getServerTime_us();
+    if (serverTime === null) return;
+    let timestamp = Math.max(serverTime / 1e6, log.getTimestampRange()[0]);
+    let parentKey = "/" + CONNECTION_HEALTH_PREFIX;
+    log.createBlankField(parentKey, LoggableType.Empty);
+    log.setGeneratedParent(parentKey);
+    if (this.roundTripTimeMs !== null) log.putNumber(parentKey + "/RoundTripTimeMs", timestamp, this.roundTripTimeMs);
+    if (this.clockOffsetMs !== null) log.putNumber(parentKey + "/ClockOffsetMs", timestamp, this.clockOffsetMs);
+    log.putNumber(parentKey + "/MessageRate", timestamp, this.messageRate);
+    log.putNumber(parentKey + "/BytesPerSecond", timestamp, this.bytesPerSecond);
+    log.putNumber(parentKey + "/DroppedUpdates", timestamp, this.droppedUpdates);
+    log.putNumber(parentKey + "/ReconnectCount", timestamp, Math.max(this.reconnectCount, 0));
+    log.putString(parentKey + "/SubscribeMode", timestamp, this.subscribeMode);
+    Object.entries(this.topicRates).forEach(([topic, rates]) => {
+      let topicKey = parentKey + "/Topics" + (topic.startsWith("/") ? "" : "/") + topic;
+      log.putNumber(topicKey + "/MessageRate", timestamp, rates.messageRate);
+      log.putNumber(topicKey + "/BytesPerSecond", timestamp, rates.bytesPerSecond);
+      log.putNumber(topicKey + "/DroppedUpdates", timestamp, this.topicDroppedUpdates[topic] ?? 0);
+    });
+  }
+
+  /** Returns a summary of the current connection health. */
+  getSummary(): LiveConnectionHealth {
+    return {
+      roundTripTimeMs: this.roundTripTimeMs,
+      clockOffsetMs: this.clockOffsetMs,
+      messageRate: this.messageRate,
+      bytesPerSecond: this.bytesPerSecond,
+      droppedUpdates: this.droppedUpdates,
+      subscribeMode: this.subscribeMode,
+      reconnectCount: Math.max(this.reconnectCount, 0),
+      topics: Object.entries(this.topicRates)
+        .map(([topic, rates]) => ({ topic: topic, ...rates, droppedUpdates: this.topicDroppedUpdates[topic] ?? 0 }))
+        .sort((a, b) => b.bytesPerSecond - a.bytesPerSecond),
+      history: [...this.history]
+    };
+  }
+
+  /** Updates the typical interval of a topic, and counts the updates missing from any gap. */
+  private recordTiming(topic: string, timestamp_us: number) {
+    let timing = this.topicTiming[topic];
+    if (timing === undefined) {
+      this.topicTiming[topic] = { lastTimestamp: timestamp_us, interval: null, deviation: 0, samples: 0 };
+      return;
+    }
+    let interval = timestamp_us - timing.lastTimestamp;
+    if (interval <= 0) return;
+    timing.lastTimestamp = timestamp_us;
+    let isRegular =
+      timing.interval !== null &&
+      timing.samples >= this.MIN_REGULAR_SAMPLES &&
+      timing.deviation < timing.interval * this.MAX_REGULAR_DEVIATION;
+    if (isRegular && interval > timing.interval! * this.GAP_FACTOR) {
+      // Gap found, don't include in the typical interval
+      let missing = Math.round(interval / timing.interval!) - 1;
+      this.droppedUpdates += missing;
+      this.topicDroppedUpdates[topic] = (this.topicDroppedUpdates[topic] ?? 0) + missing;
+      return;
+    }
+    if (timing.interval === null) {
+      timing.interval = interval;
+    } else {
+      timing.deviation += (Math.abs(interval - timing.interval) - timing.deviation) * this.INTERVAL_SMOOTHING;
+      timing.interval += (interval - timing.interval) * this.INTERVAL_SMOOTHING;
+    }
+    timing.samples++;
+  }
+
+  private addHistory(connected: boolean) {
+    this.history.push({ connected: connected, date: new Date().getTime() });
+    while (this.history.length > this.MAX_HISTORY) {
+      this.history.shift();
+    }
+  }
+}
+
+/** Returns the approximate number of bytes used to encode a value with MessagePack. */
+function getValueSize(value: unknown): number {
+  if (value instanceof Uint8Array) {
+    return value.length + 5;
+  } else if (typeof value === "string") {
+    return value.length + 5;
+  } else if (typeof value === "boolean") {
+    return 1;
+  } else if (typeof value === "number") {
+    return 9;
+  } else if (Array.isArray(value)) {
+    return value.reduce((total, item) => total + getValueSize(item), 5);
+  } else {
+    return 1;
+  }
+}
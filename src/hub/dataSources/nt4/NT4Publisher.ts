@@ -1,4 +1,5 @@
 import { SIM_ADDRESS, USB_ADDRESS } from "../../../shared/IPAddresses";
+import Log from "../../../shared/log/Log";
 import { filterFieldByPrefixes, getOrDefault, logValuesEqual } from "../../../shared/log/LogUtil";
 import LoggableType from "../../../shared/log/LoggableType";
 import { NT4_Client } from "./NT4";
@@ -66,55 +67,11 @@ export class NT4Publisher {
 
     // Update published topics
     if (!window.preferences) return;
-    let topicsToPublish = filterFieldByPrefixes(
-      window.log.getFieldKeys(),
-      window.preferences.publishFilter,
-      true,
-      true
-    ).filter(
-      (topic) =>
-        !topic.startsWith("$") && !window.log.isGenerated(topic) && window.log.getType(topic) != LoggableType.Empty
-    );
+    let topicsToPublish = getPublishKeys(window.log, window.preferences.publishFilter);
     topicsToPublish.forEach((topic) => {
       if (!(topic in this.publishedTopics)) {
         // Publish new topic
-        let type = "";
-        switch (window.log.getType(topic)) {
-          case LoggableType.Raw:
-            type = "raw";
-            break;
-          case LoggableType.Boolean:
-            type = "boolean";
-            break;
-          case LoggableType.Number:
-            type = "double";
-            break;
-          case LoggableType.String:
-            type = "string";
-            break;
-          case LoggableType.BooleanArray:
-            type = "boolean[]";
-            break;
-          case LoggableType.NumberArray:
-            type = "double[]";
-            break;
-          case LoggableType.StringArray:
-            type = "string[]";
-            break;
-        }
-        let wpilibType = window.log.getWpilibType(topic);
-        if (wpilibType !== null) {
-          type = wpilibType;
-
-          // NT4 uses "int" but wpilog uses "int64"
-          if (type === "int64") {
-            type = "int";
-          }
-          if (type === "int64[]") {
-            type = "int[]";
-          }
-        }
-        this.client.publishTopic(topic.slice(3), type);
+        this.client.publishTopic(topic.slice(3), getPublishType(window.log, topic));
         this.publishedTopics[topic] = null;
       }
     });
@@ -127,46 +84,13 @@ export class NT4Publisher {
     });
 
     // Get publishing timestamp
-    let time: number;
-    let hoveredTime = window.selection.getHoveredTime();
-    let selectedTime = window.selection.getSelectedTime();
-    if (selectedTime !== null) {
-      time = selectedTime;
-    } else if (hoveredTime !== null) {
-      time = hoveredTime;
-    } else {
-      time = window.log.getTimestampRange()[0];
-    }
+    let time = getPublishTime();
 
     // Add samples
     Object.keys(this.publishedTopics).forEach((topic) => {
       let lastValue = this.publishedTopics[topic];
-      let value = null;
-      let type = window.log.getType(topic)!;
-      switch (type) {
-        case LoggableType.Raw:
-          value = getOrDefault(window.log, topic, LoggableType.Raw, time, new Uint8Array());
-          break;
-        case LoggableType.Boolean:
-          value = getOrDefault(window.log, topic, LoggableType.Boolean, time, false);
-          break;
-        case LoggableType.Number:
-          value = getOrDefault(window.log, topic, LoggableType.Number, time, 0);
-          break;
-        case LoggableType.String:
-          value = getOrDefault(window.log, topic, LoggableType.String, time, "");
-          break;
-        case LoggableType.BooleanArray:
-          value = getOrDefault(window.log, topic, LoggableType.BooleanArray, time, []);
-          break;
-        case LoggableType.NumberArray:
-          value = getOrDefault(window.log, topic, LoggableType.NumberArray, time, []);
-          break;
-        case LoggableType.StringArray:
-          value = getOrDefault(window.log, topic, LoggableType.StringArray, time, []);
-          break;
-      }
-      let hasChanged = lastValue === null || !logValuesEqual(type, value, lastValue);
+      let value = getPublishValue(window.log, topic, time);
+      let hasChanged = lastValue === null || !logValuesEqual(window.log.getType(topic)!, value, lastValue);
       if (hasChanged) {
         this.publishedTopics[topic] = value;
         if (value !== null) {
@@ -182,3 +106,86 @@ export enum NT4PublisherStatus {
   Active,
   Stopped
 }
+
+/** Returns the NT fields from a log that should be published, based on a comma-separated list of prefixes. */
+export function getPublishKeys(log: Log, filter: string): string[] {
+  return filterFieldByPrefixes(log.getFieldKeys(), filter, true, true).filter(
+    (key) => !key.startsWith("$") && !log.isGenerated(key) && log.getType(key) != LoggableType.Empty
+  );
+}
+
+/** Returns the NT type string used to publish a field. */
+export function getPublishType(log: Log, key: string): string {
+  let type = "";
+  switch (log.getType(key)) {
+    case LoggableType.Raw:
+      type = "raw";
+      break;
+    case LoggableType.Boolean:
+      type = "boolean";
+      break;
+    case LoggableType.Number:
+      type = "double";
+      break;
+    case LoggableType.String:
+      type = "string";
+      break;
+    case LoggableType.BooleanArray:
+      type = "boolean[]";
+      break;
+    case LoggableType.NumberArray:
+      type = "double[]";
+      break;
+    case LoggableType.StringArray:
+      type = "string[]";
+      break;
+  }
+  let wpilibType = log.getWpilibType(key);
+  if (wpilibType !== null) {
+    type = wpilibType;
+
+    // NT4 uses "int" but wpilog uses "int64"
+    if (type === "int64") {
+      type = "int";
+    }
+    if (type === "int64[]") {
+      type = "int[]";
+    }
+  }
+  return type;
+}
+
+/** Returns the timestamp to publish based on the current selection. */
+export function getPublishTime(): number {
+  let hoveredTime = window.selection.getHoveredTime();
+  let selectedTime = window.selection.getSelectedTime();
+  if (selectedTime !== null) {
+    return selectedTime;
+  } else if (hoveredTime !== null) {
+    return hoveredTime;
+  } else {
+    return window.log.getTimestampRange()[0];
+  }
+}
+
+/** Returns the value of a field to publish at the provided timestamp. */
+export function getPublishValue(log: Log, key: string, time: number): any {
+  switch (log.getType(key)) {
+    case LoggableType.Raw:
+      return getOrDefault(log, key, LoggableType.Raw, time, new Uint8Array());
+    case LoggableType.Boolean:
+      return getOrDefault(log, key, LoggableType.Boolean, time, false);
+    case LoggableType.Number:
+      return getOrDefault(log, key, LoggableType.Number, time, 0);
+    case LoggableType.String:
+      return getOrDefault(log, key, LoggableType.String, time, "");
+    case LoggableType.BooleanArray:
+      return getOrDefault(log, key, LoggableType.BooleanArray, time, []);
+    case LoggableType.NumberArray:
+      return getOrDefault(log, key, LoggableType.NumberArray, time, []);
+    case LoggableType.StringArray:
+      return getOrDefault(log, key, LoggableType.StringArray, time, []);
+    default:
+      return null;
+  }
+}
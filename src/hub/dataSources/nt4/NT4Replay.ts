@@ -0,0 +1,86 @@
+import { logValuesEqual } from "../../../shared/log/LogUtil";
+import { getPublishKeys, getPublishTime, getPublishType, getPublishValue } from "./NT4Publisher";
+
+/**
+ * Replays the current log to other NT clients by hosting a local NT4
+ * server. The server runs in the main process, and values are sent
+ * based on the selected time so they follow playback.
+ */
+export class NT4Replay {
+  private PERIOD = 0.02;
+
+  private statusCallback: (status: NT4ReplayStatus, clientCount: number) => void;
+  private interval: number | null = null;
+  private stopped = false;
+  private publishedTopics: { [key: string]: any } = {};
+
+  constructor(statusCallback: (status: NT4ReplayStatus, clientCount: number) => void) {
+    this.statusCallback = statusCallback;
+    statusCallback(NT4ReplayStatus.Waiting, 0);
+    window.sendMainMessage("start-replay-server");
+    this.interval = window.setInterval(() => this.periodic(), this.PERIOD * 1000);
+  }
+
+  /** Updates the status based on the number of connected clients, or null if the server stopped. */
+  setClientCount(clientCount: number | null) {
+    if (this.stopped) return;
+    if (clientCount === null) {
+      this.stop();
+    } else {
+      this.statusCallback(clientCount > 0 ? NT4ReplayStatus.Active : NT4ReplayStatus.Waiting, clientCount);
+    }
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.statusCallback(NT4ReplayStatus.Stopped, 0);
+    window.sendMainMessage("stop-replay-server");
+    if (this.interval !== null) window.clearInterval(this.interval);
+  }
+
+  private periodic() {
+    if (!window.preferences) return;
+    let announce: { name: string; type: string }[] = [];
+    let unannounce: string[] = [];
+    let values: { name: string; value: any }[] = [];
+
+    // Update published topics
+    let topicsToPublish = getPublishKeys(window.log, window.preferences.publishFilter);
+    topicsToPublish.forEach((topic) => {
+      if (!(topic in this.publishedTopics)) {
+        announce.push({ name: topic.slice(3), type: getPublishType(window.log, topic) });
+        this.publishedTopics[topic] = null;
+      }
+    });
+    Object.keys(this.publishedTopics).forEach((topic) => {
+      if (!topicsToPublish.includes(topic)) {
+        unannounce.push(topic.slice(3));
+        delete this.publishedTopics[topic];
+      }
+    });
+
+    // Find changed values
+    let time = getPublishTime();
+    Object.keys(this.publishedTopics).forEach((topic) => {
+      let lastValue = this.publishedTopics[topic];
+      let value = getPublishValue(window.log, topic, time);
+      let hasChanged = lastValue === null || !logValuesEqual(window.log.getType(topic)!, value, lastValue);
+      if (hasChanged && value !== null) {
+        this.publishedTopics[topic] = value;
+        values.push({ name: topic.slice(3), value: value });
+      }
+    });
+
+    // Send to server
+    if (announce.length > 0 || unannounce.length > 0 || values.length > 0) {
+      window.sendMainMessage("replay-server-data", { announce: announce, unannounce: unannounce, values: values });
+    }
+  }
+}
+
+export enum NT4ReplayStatus {
+  Waiting,
+  Active,
+  Stopped
+}
@@ -0,0 +1,180 @@
+import { SIM_ADDRESS, USB_ADDRESS } from "../../../shared/IPAddresses";
+import { NT4_Client } from "./NT4";
+
+/** Publishes a generated waveform to a single NT topic. */
+export class NT4SignalGenerator {
+  private PERIOD = 0.02;
+
+  private client: NT4_Client;
+  private topic: string;
+  private waveform: SignalWaveform;
+  private statusCallback: (status: NT4SignalGeneratorStatus) => void;
+  private interval: number | null = null;
+  private stopped = false;
+  private startTime: number | null = null;
+  private elapsedTime: number | null = null;
+
+  constructor(
+    isSim: boolean,
+    topic: string,
+    waveform: SignalWaveform,
+    statusCallback: (status: NT4SignalGeneratorStatus) => void
+  ) {
+    this.topic = topic;
+    this.waveform = waveform;
+    this.statusCallback = statusCallback;
+
+    // Get address
+    let address = "";
+    if (isSim) {
+      address = SIM_ADDRESS;
+    } else if (window.preferences?.usb) {
+      address = USB_ADDRESS;
+    } else {
+      if (window.preferences) {
+        address = window.preferences.rioAddress;
+      }
+    }
+
+    // Create client
+    statusCallback(NT4SignalGeneratorStatus.Connecting);
+    this.client = new NT4_Client(
+      address,
+      "AdvantageScope",
+      () => {},
+      () => {},
+      () => {},
+      () => {
+        if (!this.stopped) {
+          statusCallback(NT4SignalGeneratorStatus.Active);
+        }
+      },
+      () => {
+        if (!this.stopped) {
+          this.startTime = null;
+          this.elapsedTime = null;
+          statusCallback(NT4SignalGeneratorStatus.Connecting);
+        }
+      }
+    );
+
+    // Start
+    this.client.publishTopic(this.topic, "double");
+    this.client.connect();
+    this.interval = window.setInterval(() => this.periodic(), this.PERIOD * 1000);
+  }
+
+  /** Returns the time in seconds since the waveform started, or null if not connected. */
+  getElapsedTime(): number | null {
+    return this.elapsedTime;
+  }
+
+  stop() {
+    this.stopped = true;
+    this.statusCallback(NT4SignalGeneratorStatus.Stopped);
+    this.client.unpublishTopic(this.topic);
+    this.client.disconnect();
+    if (this.interval !== null) window.clearInterval(this.interval);
+  }
+
+  private periodic() {
+    let serverTime = this.client.getServerTime_us();
+    if (serverTime === null) return;
+
+    // The waveform starts once the connection is available
+    if (this.startTime === null) this.startTime = serverTime;
+    this.elapsedTime = (serverTime - this.startTime) / 1e6;
+    this.client.addTimestampedSample(this.topic, serverTime, evaluateWaveform(this.waveform, this.elapsedTime));
+  }
+}
+
+export enum NT4SignalGeneratorStatus {
+  Connecting,
+  Active,
+  Stopped
+}
+
+export type SignalWaveform =
+  | { type: "step"; initial: number; final: number; delay: number }
+  | { type: "ramp"; initial: number; rate: number; duration: number }
+  | { type: "sine"; offset: number; amplitude: number; period: number }
+  | { type: "csv"; points: [number, number][] };
+
+/** Returns the value of a waveform at the provided time in seconds. */
+export function evaluateWaveform(waveform: SignalWaveform, time: number): number {
+  switch (waveform.type) {
+    case "step":
+      return time < waveform.delay ? waveform.initial : waveform.final;
+    case "ramp":
+      return waveform.initial + waveform.rate * Math.min(Math.max(time, 0), waveform.duration);
+    case "sine":
+      return waveform.offset + waveform.amplitude * Math.sin((2 * Math.PI * time) / waveform.period);
+    case "csv":
+      // Hold each value until the next point
+      let value = waveform.points.length > 0 ? waveform.points[0][1] : 0;
+      for (let i = 0; i < waveform.points.length; i++) {
+        if (waveform.points[i][0] > time) break;
+        value = waveform.points[i][1];
+      }
+      return value;
+  }
+}
+
+/** Returns the length of time in seconds required to show the full shape of a waveform. */
+export function getWaveformDuration(waveform: SignalWaveform): number {
+  switch (waveform.type) {
+    case "step":
+      return Math.max(waveform.delay * 2, 1);
+    case "ramp":
+      return Math.max(waveform.duration * 1.25, 1);
+    case "sine":
+      return waveform.period * 2;
+    case "csv":
+      return waveform.points.length > 0 ? Math.max(waveform.points[waveform.points.length - 1][0] * 1.1, 1) : 1;
+  }
+}
+
+/**
+ * Parses a waveform from CSV text, with one "time,value" point per line.
+ * @returns The sorted points, or an error message if the text is invalid
+ */
+export function parseWaveformCSV(text: string): [number, number][] | string {
+  let points: [number, number][] = [];
+  let lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i].trim();
+    if (line.length === 0) continue;
+    let cells = line.split(",").map((cell) => Number(cell.trim()));
+    if (cells.length !== 2 || !cells.every((cell) => isFinite(cell))) {
+      if (points.length === 0 && i === 0) continue; // Header row
+      return "Line " + (i + 1).toString() + ' must contain a time and value, such as "1.5,0.25".';
+    }
+    points.push([cells[0], cells[1]]);
+  }
+  if (points.length === 0) {
+    return "At least one point is required.";
+  }
+  return points.sort((a, b) => a[0] - b[0]);
+}
+
+/** Returns an error message if a waveform cannot be generated, otherwise null. */
+export function validateWaveform(waveform: SignalWaveform): string | null {
+  switch (waveform.type) {
+    case "step":
+      if (![waveform.initial, waveform.final, waveform.delay].every(isFinite)) return "All values must be numbers.";
+      if (waveform.delay < 0) return "The delay cannot be negative.";
+      break;
+    case "ramp":
+      if (![waveform.initial, waveform.rate, waveform.duration].every(isFinite)) return "All values must be numbers.";
+      if (waveform.duration <= 0) return "The duration must be greater than zero.";
+      break;
+    case "sine":
+      if (![waveform.offset, waveform.amplitude, waveform.period].every(isFinite)) return "All values must be numbers.";
+      if (waveform.period <= 0) return "The period must be greater than zero.";
+      break;
+    case "csv":
+      if (waveform.points.length === 0) return "At least one point is required.";
+      break;
+  }
+  return null;
+}
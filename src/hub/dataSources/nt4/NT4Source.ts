@@ -3,9 +3,10 @@ import { PHOTON_PREFIX, PROTO_PREFIX, STRUCT_PREFIX, getEnabledKey, getURCLKeys
 import LoggableType from "../../../shared/log/LoggableType";
 import ProtoDecoder from "../../../shared/log/ProtoDecoder";
 import { checkArrayType } from "../../../shared/util";
-import { LiveDataSource, LiveDataSourceStatus } from "../LiveDataSource";
+import { LiveConnectionHealth, LiveDataSource, LiveDataSourceStatus } from "../LiveDataSource";
 import CustomSchemas from "../schema/CustomSchemas";
 import { NT4_Client, NT4_Topic } from "./NT4";
+import NT4ConnectionHealth from "./NT4ConnectionHealth";
 import NT4Tuner from "./NT4Tuner";
 
 export const WPILOG_PREFIX = "NT:";
@@ -23,6 +24,7 @@ export default class NT4Source extends LiveDataSource {
   private loggingSubscription: number | null = null;
   private lowBandwidthTopicSubscription: number | null = null;
   private lowBandwidthDataSubscriptions: { [id: string]: number } = {};
+  private health = new NT4ConnectionHealth();
 
   constructor(akitMode: boolean) {
     super();
@@ -39,12 +41,12 @@ export default class NT4Source extends LiveDataSource {
     // Update timestamp range based on connection time
     if (this.client !== null && this.connectTime !== null) {
       let connectServerTime = this.client.getServerTime_us(this.connectTime);
-      if (connectServerTime !== null) window.log.clearBeforeTime(connectServerTime / 1e6);
+      if (connectServerTime !== null && this.log !== null) this.log.clearBeforeTime(connectServerTime / 1e6);
     }
 
     // Update subscriptions
     if (this.client !== null) {
-      if (window.preferences?.liveSubscribeMode === "logging") {
+      if (window.preferences?.liveSubscribeMode === "logging" || window.liveRecorder.isActive()) {
         // Switch to logging subscribe mode
         Object.values(this.lowBandwidthDataSubscriptions).forEach((subscriptionId) => {
           this.client?.unsubscribe(subscriptionId);
@@ -77,7 +79,7 @@ export default class NT4Source extends LiveDataSource {
 
         // Add active fields
         let activeFields: Set<string> = new Set();
-        if (window.log === this.log) {
+        if (this.log !== null && this.isLogVisible()) {
           let announcedKeys = this.log.getFieldKeys().filter((key) => this.log?.getType(key) !== LoggableType.Empty);
           let enabledKey = getEnabledKey(this.log);
           [
@@ -89,9 +91,14 @@ export default class NT4Source extends LiveDataSource {
                   WPILOG_PREFIX + AKIT_PREFIX + "/Timestamp"
                 ]),
             ...(enabledKey === undefined ? [] : [enabledKey]),
-            ...window.tabs.getActiveFields(),
-            ...window.sidebar.getActiveFields(),
-            ...getURCLKeys(window.log)
+            ...this.getSourceKeys([
+              ...window.tabs.getActiveFields(),
+              ...window.sidebar.getActiveFields(),
+              ...window.computedFields.getInputKeys(),
+              ...window.eventDetector.getInputKeys(),
+              ...window.liveAlerts.getInputKeys()
+            ]),
+            ...getURCLKeys(this.log)
           ].forEach((key) => {
             // Compare to announced keys
             announcedKeys.forEach((announcedKey) => {
@@ -143,6 +150,11 @@ export default class NT4Source extends LiveDataSource {
       }
     }
 
+    // Update connection health
+    if (this.client !== null && this.log !== null && this.status === LiveDataSourceStatus.Active) {
+      this.health.update(this.log, this.client, this.loggingSubscription === null ? "Low Bandwidth" : "Logging");
+    }
+
     // Check if output callback should be triggered (prevents
     // running the callback many times for each frame)
     if (
@@ -217,6 +229,7 @@ export default class NT4Source extends LiveDataSource {
 
           let key = this.getKeyFromTopic(topic);
           let timestamp = Math.max(timestamp_us, this.log.getTimestampRange()[0]) / 1000000;
+          this.health.recordMessage(topic.name, timestamp_us, value);
 
           let updated = false;
           switch (topic.type) {
@@ -326,6 +339,7 @@ export default class NT4Source extends LiveDataSource {
         },
         () => {
           // Connected
+          this.health.recordConnected();
           this.setStatus(LiveDataSourceStatus.Active);
           this.log = new Log();
           this.shouldRunOutputCallback = true;
@@ -344,6 +358,7 @@ export default class NT4Source extends LiveDataSource {
         },
         () => {
           // Disconnected
+          this.health.recordDisconnected();
           this.setStatus(LiveDataSourceStatus.Connecting);
           this.shouldRunOutputCallback = false;
           this.connectTime = null;
@@ -370,6 +385,10 @@ export default class NT4Source extends LiveDataSource {
     }
   }
 
+  getHealth(): LiveConnectionHealth {
+    return this.health.getSummary();
+  }
+
   /** Gets the name of the topic, depending on whether we're running in AdvantageKit mode. */
   private getKeyFromTopic(topic: NT4_Topic): string {
     if (this.akitMode) {
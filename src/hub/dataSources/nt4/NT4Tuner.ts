@@ -1,11 +1,27 @@
-import LoggableType from "../../../shared/log/LoggableType";
-import LiveDataTuner from "../LiveDataTuner";
+import { STRUCT_PREFIX } from "../../../shared/log/LogUtil";
+import LiveDataTuner, { LiveDataTunerValue, getCurrentTunerValue } from "../LiveDataTuner";
 import { NT4_Client } from "./NT4";
 import { AKIT_PREFIX, AKIT_TUNING_PREFIX, WPILOG_PREFIX } from "./NT4Source";
 
+const TUNABLE_TYPES = [
+  "boolean",
+  "int",
+  "float",
+  "double",
+  "string",
+  "json",
+  "boolean[]",
+  "int[]",
+  "float[]",
+  "double[]",
+  "string[]"
+];
+
 export default class NT4Tuner implements LiveDataTuner {
   private client: NT4_Client;
   private akitMode: boolean;
+  private lastPublished: { [key: string]: LiveDataTunerValue } = {};
+  private undoValues: { [key: string]: LiveDataTunerValue } = {};
 
   constructor(client: NT4_Client, akitMode: boolean) {
     this.client = client;
@@ -22,36 +38,163 @@ export default class NT4Tuner implements LiveDataTuner {
 
   isTunable(key: string): boolean {
     const remoteKey = this.getRemoteKey(key);
-    const type = window.log.getType(key);
+    const type = window.log.getWpilibType(key);
     return (
-      (type === LoggableType.Number || type === LoggableType.Boolean) &&
+      type !== null &&
+      (TUNABLE_TYPES.includes(type) || type.startsWith(STRUCT_PREFIX)) &&
       !remoteKey.startsWith(AKIT_PREFIX) &&
       !window.log.isGenerated(key)
     );
   }
 
-  publish(key: string, value: number | boolean): void {
-    if (!this.isTunable(key)) return;
+  publish(key: string, value: LiveDataTunerValue): string | null {
+    let previousValue = key in this.lastPublished ? this.lastPublished[key] : getCurrentTunerValue(key);
+    let error = this.publishValue(key, value);
+    if (error !== null) return error;
+    if (JSON.stringify(value) !== JSON.stringify(this.lastPublished[key])) {
+      if (previousValue !== null) this.undoValues[key] = previousValue;
+      this.lastPublished[key] = value;
+    }
+    return null;
+  }
+
+  unpublish(key: string): void {
     const remoteKey = this.getRemoteKey(key);
-    const type = window.log.getWpilibType(key);
-    if (type === null) return;
+    this.client.unpublishTopic(remoteKey);
+    delete this.lastPublished[key];
+  }
+
+  getPublishedValues(): { [key: string]: LiveDataTunerValue } {
+    return { ...this.lastPublished };
+  }
+
+  canUndo(key: string): boolean {
+    return key in this.undoValues;
+  }
+
+  undo(key: string): LiveDataTunerValue | null {
+    if (!(key in this.undoValues)) return null;
+    let value = this.undoValues[key];
+    delete this.undoValues[key];
+    if (this.publishValue(key, value) !== null) return null;
+    this.lastPublished[key] = value;
+    return value;
+  }
+
+  /** Validates a value against the WPILib type of the key, then publishes it. */
+  private publishValue(key: string, value: LiveDataTunerValue): string | null {
+    if (!this.isTunable(key)) return "This field cannot be tuned.";
+    const remoteKey = this.getRemoteKey(key);
+    const type = window.log.getWpilibType(key)!;
+    let isNumber = (item: unknown) => typeof item === "number" && isFinite(item);
+
+    // Validate and convert value
+    let payload: unknown = value;
+    switch (type) {
+      case "boolean":
+        if (typeof value !== "boolean") return "Expected a boolean value.";
+        break;
+      case "int":
+      case "float":
+      case "double":
+        if (!isNumber(value)) return "Expected a numeric value.";
+        if (type === "int") payload = Math.floor(value as number);
+        break;
+      case "string":
+        if (typeof value !== "string") return "Expected a string value.";
+        break;
+      case "json":
+        if (typeof value !== "string") return "Expected a string value.";
+        try {
+          JSON.parse(value);
+        } catch {
+          return "Expected a valid JSON string.";
+        }
+        break;
+      case "boolean[]":
+        if (!Array.isArray(value) || !value.every((item) => typeof item === "boolean")) {
+          return "Expected an array of boolean values.";
+        }
+        break;
+      case "int[]":
+        if (!Array.isArray(value) || !value.every((item) => Number.isInteger(item))) {
+          return "Expected an array of integer values.";
+        }
+        break;
+      case "float[]":
+      case "double[]":
+        if (!Array.isArray(value) || !value.every(isNumber)) {
+          return "Expected an array of numeric values.";
+        }
+        break;
+      case "string[]":
+        if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+          return "Expected an array of string values.";
+        }
+        break;
+      default:
+        // Struct
+        let schemaType = type.slice(STRUCT_PREFIX.length);
+        let isArray = schemaType.endsWith("[]");
+        if (isArray) schemaType = schemaType.slice(0, -2);
+        try {
+          payload = window.log.encodeStruct(schemaType, value, isArray);
+        } catch (error) {
+          return (error as Error).message + ".";
+        }
+        break;
+    }
+
+    // Publish value
     this.client.publishTopic(remoteKey, type);
     let timestamp = this.client.getServerTime_us();
     if (timestamp !== null) {
-      if (typeof value === "number") {
-        let cleanValue = type.startsWith("int") ? Math.floor(value) : value;
-        this.client.addTimestampedSample(remoteKey, timestamp, cleanValue);
-        window.log.putNumber(key, timestamp, cleanValue);
-      } else {
-        this.client.addTimestampedSample(remoteKey, timestamp, value);
-        window.log.putBoolean(key, timestamp, value);
-      }
+      this.client.addTimestampedSample(remoteKey, timestamp, payload);
+      this.putValue(key, type, timestamp / 1e6, payload);
     }
+    return null;
   }
 
-  unpublish(key: string): void {
-    const remoteKey = this.getRemoteKey(key);
-    this.client.unpublishTopic(remoteKey);
+  /** Writes a published value to the log, so that it is visible before being received from the server. */
+  private putValue(key: string, type: string, timestamp: number, payload: unknown) {
+    switch (type) {
+      case "boolean":
+        window.log.putBoolean(key, timestamp, payload as boolean);
+        break;
+      case "int":
+      case "float":
+      case "double":
+        window.log.putNumber(key, timestamp, payload as number);
+        break;
+      case "string":
+        window.log.putString(key, timestamp, payload as string);
+        break;
+      case "json":
+        window.log.putJSON(key, timestamp, payload as string);
+        break;
+      case "boolean[]":
+        window.log.putBooleanArray(key, timestamp, payload as boolean[]);
+        break;
+      case "int[]":
+      case "float[]":
+      case "double[]":
+        window.log.putNumberArray(key, timestamp, payload as number[]);
+        break;
+      case "string[]":
+        window.log.putStringArray(key, timestamp, payload as string[]);
+        break;
+      default:
+        let schemaType = type.slice(STRUCT_PREFIX.length);
+        let isArray = schemaType.endsWith("[]");
+        window.log.putStruct(
+          key,
+          timestamp,
+          payload as Uint8Array,
+          isArray ? schemaType.slice(0, -2) : schemaType,
+          isArray
+        );
+        break;
+    }
   }
 
   private getRemoteKey(key: string): string {
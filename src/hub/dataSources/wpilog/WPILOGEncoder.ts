@@ -1,3 +1,4 @@
+import LoggableType from "../../../shared/log/LoggableType";
 import {
   CONTROL_ENTRY,
   CONTROL_FINISH,
@@ -157,6 +158,35 @@ export class WPILOGEncoderRecord {
     return new WPILOGEncoderRecord(entry, timestamp, data);
   }
 
+  /** Encodes a record of any type, based on the WPILOG type string. */
+  static makeTyped(type: string, entry: number, timestamp: number, value: any): WPILOGEncoderRecord {
+    switch (type) {
+      case "boolean":
+        return WPILOGEncoderRecord.makeBoolean(entry, timestamp, value);
+      case "int64":
+        return WPILOGEncoderRecord.makeInteger(entry, timestamp, value);
+      case "float":
+        return WPILOGEncoderRecord.makeFloat(entry, timestamp, value);
+      case "double":
+        return WPILOGEncoderRecord.makeDouble(entry, timestamp, value);
+      case "string":
+      case "json":
+        return WPILOGEncoderRecord.makeString(entry, timestamp, value);
+      case "boolean[]":
+        return WPILOGEncoderRecord.makeBooleanArray(entry, timestamp, value);
+      case "int64[]":
+        return WPILOGEncoderRecord.makeIntegerArray(entry, timestamp, value);
+      case "float[]":
+        return WPILOGEncoderRecord.makeFloatArray(entry, timestamp, value);
+      case "double[]":
+        return WPILOGEncoderRecord.makeDoubleArray(entry, timestamp, value);
+      case "string[]":
+        return WPILOGEncoderRecord.makeStringArray(entry, timestamp, value);
+      default:
+        return WPILOGEncoderRecord.makeRaw(entry, timestamp, value);
+    }
+  }
+
   /** Encodes an integer using the fewest necessary bytes. */
   private encodeInteger(int: number): Uint8Array {
     let array = new Uint8Array(8);
@@ -201,6 +231,7 @@ export class WPILOGEncoderRecord {
 export class WPILOGEncoder {
   private extraHeader: string;
   private records: WPILOGEncoderRecord[] = [];
+  private flushedHeader = false;
 
   /** Creates a new data log with the provided header. */
   constructor(extraHeader: string) {
@@ -214,23 +245,43 @@ export class WPILOGEncoder {
 
   /** Encodes the full data log. */
   getEncoded(sortByTimestamp = false): Uint8Array {
-    // Encode all records and header data
     let records = sortByTimestamp ? this.records.sort((a, b) => a.getTimestamp() - b.getTimestamp()) : this.records;
+    return this.encode(true, records);
+  }
+
+  /**
+   * Encodes the records added since the last flush and removes them from the
+   * data log, so that a log can be written incrementally. The header is
+   * included only in the result of the first flush.
+   */
+  flush(): Uint8Array {
+    let data = this.encode(!this.flushedHeader, this.records);
+    this.flushedHeader = true;
+    this.records = [];
+    return data;
+  }
+
+  /** Encodes the provided records, optionally including the header. */
+  private encode(includeHeader: boolean, records: WPILOGEncoderRecord[]): Uint8Array {
+    // Encode all records and header data
     let encodedRecords = records.map((record) => record.getEncoded());
     let totalRecordLength = encodedRecords.reduce((previous, current) => previous + current.length, 0);
     let encodedHeader = TEXT_ENCODER.encode(HEADER_STRING);
     let encodedExtraHeader = TEXT_ENCODER.encode(this.extraHeader);
+    let headerLength = includeHeader ? encodedHeader.length + 2 + 4 + encodedExtraHeader.length : 0;
 
     // Write header
-    let data = new Uint8Array(encodedHeader.length + 2 + 4 + encodedExtraHeader.length + totalRecordLength);
-    let dataView = new DataView(data.buffer, 0);
-    data.set(encodedHeader, 0);
-    dataView.setUint16(encodedHeader.length, HEADER_VERSION, true);
-    dataView.setUint32(encodedHeader.length + 2, encodedExtraHeader.length, true);
-    data.set(encodedExtraHeader, encodedHeader.length + 2 + 4);
+    let data = new Uint8Array(headerLength + totalRecordLength);
+    if (includeHeader) {
+      let dataView = new DataView(data.buffer, 0);
+      data.set(encodedHeader, 0);
+      dataView.setUint16(encodedHeader.length, HEADER_VERSION, true);
+      dataView.setUint32(encodedHeader.length + 2, encodedExtraHeader.length, true);
+      data.set(encodedExtraHeader, encodedHeader.length + 2 + 4);
+    }
 
     // Write records
-    let position = encodedHeader.length + 2 + 4 + encodedExtraHeader.length;
+    let position = headerLength;
     encodedRecords.forEach((encodedRecord) => {
       data.set(encodedRecord, position);
       position += encodedRecord.length;
@@ -238,3 +289,31 @@ export class WPILOGEncoder {
     return data;
   }
 }
+
+/** Returns the WPILOG type string for a field, or an empty string if the type is not supported. */
+export function getWPILOGType(type: LoggableType, wpilibType: string | null): string {
+  if (wpilibType !== null) {
+    // NT4 uses "int" but wpilog uses "int64"
+    if (wpilibType === "int") return "int64";
+    if (wpilibType === "int[]") return "int64[]";
+    return wpilibType;
+  }
+  switch (type) {
+    case LoggableType.Raw:
+      return "raw";
+    case LoggableType.Boolean:
+      return "boolean";
+    case LoggableType.Number:
+      return "double";
+    case LoggableType.String:
+      return "string";
+    case LoggableType.BooleanArray:
+      return "boolean[]";
+    case LoggableType.NumberArray:
+      return "double[]";
+    case LoggableType.StringArray:
+      return "string[]";
+    default:
+      return "";
+  }
+}
@@ -1,12 +1,13 @@
 import { IWritable, McapWriter } from "@mcap/core";
 import { IReadable } from "@mcap/core/dist/esm/src/types";
+import Annotation, { ANNOTATIONS_KEY } from "../shared/Annotation";
 import ExportOptions from "../shared/ExportOptions";
 import Log from "../shared/log/Log";
 import LogFieldTree from "../shared/log/LogFieldTree";
 import { AKIT_TIMESTAMP_KEYS, filterFieldByPrefixes, getLogValueText } from "../shared/log/LogUtil";
 import LoggableType from "../shared/log/LoggableType";
 import { cleanFloat } from "../shared/util";
-import { WPILOGEncoder, WPILOGEncoderRecord } from "./dataSources/wpilog/WPILOGEncoder";
+import { WPILOGEncoder, WPILOGEncoderRecord, getWPILOGType } from "./dataSources/wpilog/WPILOGEncoder";
 
 self.onmessage = async (event) => {
   // WORKER SETUP
@@ -27,6 +28,7 @@ self.onmessage = async (event) => {
   try {
     let options: ExportOptions = payload.options;
     let log = Log.fromSerialized(payload.log);
+    addAnnotations(log, payload.annotations);
 
     // Get list of fields
     let fields: string[] = [];
@@ -96,6 +98,15 @@ self.onmessage = async (event) => {
   }
 };
 
+/** Writes annotations to a string field, where each value is a JSON array of the annotations starting at that time. */
+function addAnnotations(log: Log, annotations: Annotation[]) {
+  let startTimes = [...new Set(annotations.map((annotation) => annotation.start))].sort((a, b) => a - b);
+  startTimes.forEach((startTime) => {
+    let value = annotations.filter((annotation) => annotation.start === startTime);
+    log.putJSON(ANNOTATIONS_KEY, startTime, JSON.stringify(value));
+  });
+}
+
 function generateCsvTable(
   log: Log,
   fields: string[],
@@ -199,45 +210,11 @@ function generateWPILOG(
     let fieldType = log.getType(field);
     let wpilibType = log.getWpilibType(field);
     let metadata = log.getMetadataString(field);
-    if (fieldData === undefined || fieldType === undefined) return;
+    if (fieldData === undefined || fieldType === null) return;
 
     // Start record
     let entryId = fieldIndex + 1;
-    let typeStr: string = "";
-    switch (fieldType) {
-      case LoggableType.Raw:
-        typeStr = "raw";
-        break;
-      case LoggableType.Boolean:
-        typeStr = "boolean";
-        break;
-      case LoggableType.Number:
-        typeStr = "double";
-        break;
-      case LoggableType.String:
-        typeStr = "string";
-        break;
-      case LoggableType.BooleanArray:
-        typeStr = "boolean[]";
-        break;
-      case LoggableType.NumberArray:
-        typeStr = "double[]";
-        break;
-      case LoggableType.StringArray:
-        typeStr = "string[]";
-        break;
-    }
-    if (wpilibType !== null) {
-      typeStr = wpilibType;
-
-      // NT4 uses "int" but wpilog uses "int64"
-      if (typeStr === "int") {
-        typeStr = "int64";
-      }
-      if (typeStr === "int[]") {
-        typeStr = "int64[]";
-      }
-    }
+    let typeStr = getWPILOGType(fieldType, wpilibType);
     if (metadata === "") {
       metadata = JSON.stringify({ exporter: "AdvantageScope" });
     } else {
@@ -259,43 +236,7 @@ function generateWPILOG(
 
     // Add data
     let addValue = (timestamp: number, value: any) => {
-      let timestampMicros = timestamp * 1000000;
-      switch (typeStr) {
-        case "boolean":
-          encoder.add(WPILOGEncoderRecord.makeBoolean(entryId, timestampMicros, value));
-          break;
-        case "int64":
-          encoder.add(WPILOGEncoderRecord.makeInteger(entryId, timestampMicros, value));
-          break;
-        case "float":
-          encoder.add(WPILOGEncoderRecord.makeFloat(entryId, timestampMicros, value));
-          break;
-        case "double":
-          encoder.add(WPILOGEncoderRecord.makeDouble(entryId, timestampMicros, value));
-          break;
-        case "string":
-        case "json":
-          encoder.add(WPILOGEncoderRecord.makeString(entryId, timestampMicros, value));
-          break;
-        case "boolean[]":
-          encoder.add(WPILOGEncoderRecord.makeBooleanArray(entryId, timestampMicros, value));
-          break;
-        case "int64[]":
-          encoder.add(WPILOGEncoderRecord.makeIntegerArray(entryId, timestampMicros, value));
-          break;
-        case "float[]":
-          encoder.add(WPILOGEncoderRecord.makeFloatArray(entryId, timestampMicros, value));
-          break;
-        case "double[]":
-          encoder.add(WPILOGEncoderRecord.makeDoubleArray(entryId, timestampMicros, value));
-          break;
-        case "string[]":
-          encoder.add(WPILOGEncoderRecord.makeStringArray(entryId, timestampMicros, value));
-          break;
-        default:
-          encoder.add(WPILOGEncoderRecord.makeRaw(entryId, timestampMicros, value));
-          break;
-      }
+      encoder.add(WPILOGEncoderRecord.makeTyped(typeStr, entryId, timestamp * 1000000, value));
     };
     if (timestamps === undefined) {
       // Add all values
@@ -361,7 +302,7 @@ async function generateMCAP(
   schemaIds.set(LoggableType.String, await getSingleSchema("string"));
   schemaIds.set(LoggableType.BooleanArray, await getArraySchema("boolean"));
   schemaIds.set(LoggableType.NumberArray, await getArraySchema("number"));
-  schemaIds.set(LoggableType.BooleanArray, await getArraySchema("string"));
+  schemaIds.set(LoggableType.StringArray, await getArraySchema("string"));
 
   // Add fields
   let filteredFields = fields.filter((field) => {
@@ -407,7 +348,7 @@ async function generateMCAP(
         let nextIndex = fieldData.timestamps.findIndex((value) => value > timestamp);
         if (nextIndex === -1) nextIndex = fieldData.timestamps.length;
         if (nextIndex !== 0) {
-          addValue(timestamp, fieldData.values[nextIndex - 1], i);
+          await addValue(timestamp, fieldData.values[nextIndex - 1], i);
         }
         progress((fieldIndex + i / timestamps.length) / fields.length);
       }
@@ -1,25 +1,45 @@
 import { AdvantageScopeAssets } from "../shared/AdvantageScopeAssets";
-import { HubState } from "../shared/HubState";
+import { HubState, TimeOffsetEditResult } from "../shared/HubState";
 import { SIM_ADDRESS, USB_ADDRESS } from "../shared/IPAddresses";
 import NamedMessage from "../shared/NamedMessage";
-import Preferences from "../shared/Preferences";
+import Preferences, { LiveRobotConfig } from "../shared/Preferences";
 import Selection from "../shared/Selection";
 import { SourceListItemState, SourceListTypeMemory } from "../shared/SourceListConfig";
 import Log from "../shared/log/Log";
-import { AKIT_TIMESTAMP_KEYS, MERGE_PREFIX, getEnabledData } from "../shared/log/LogUtil";
+import {
+  AKIT_TIMESTAMP_KEYS,
+  MERGE_PREFIX,
+  getCorrelationSeries,
+  getEnabledData,
+  getMergePrefix
+} from "../shared/log/LogUtil";
+import LoggableType from "../shared/log/LoggableType";
 import { calcMockProgress, clampValue, htmlEncode, scaleValue } from "../shared/util";
+import Annotations from "./Annotations";
+import BatchReporter from "./BatchReporter";
+import ComputedFields from "./ComputedFields";
+import ConnectionHealthPanel from "./ConnectionHealthPanel";
+import EventDetector from "./EventDetector";
+import LiveAlerts from "./LiveAlerts";
+import LiveRecorder from "./LiveRecorder";
+import LogComparison from "./LogComparison";
 import SelectionImpl from "./SelectionImpl";
 import Sidebar from "./Sidebar";
 import SourceList from "./SourceList";
 import Tabs from "./Tabs";
+import TuningPresets, { formatTuningValue } from "./TuningPresets";
 import WorkerManager from "./WorkerManager";
+import GenericSource from "./dataSources/GenericSource";
 import { HistoricalDataSource, HistoricalDataSourceStatus } from "./dataSources/HistoricalDataSource";
 import { LiveDataSource, LiveDataSourceStatus } from "./dataSources/LiveDataSource";
 import LiveDataTuner from "./dataSources/LiveDataTuner";
+import LiveDeviceControl from "./dataSources/LiveDeviceControl";
 import loadZebra from "./dataSources/LoadZebra";
+import MultiLiveSource from "./dataSources/MultiLiveSource";
 import PathPlannerSource from "./dataSources/PathPlannerSource";
 import PhoenixDiagnosticsSource from "./dataSources/PhoenixDiagnosticsSource";
 import { NT4Publisher, NT4PublisherStatus } from "./dataSources/nt4/NT4Publisher";
+import { NT4Replay, NT4ReplayStatus } from "./dataSources/nt4/NT4Replay";
 import NT4Source from "./dataSources/nt4/NT4Source";
 import RLOGServerSource from "./dataSources/rlog/RLOGServerSource";
 
@@ -49,6 +69,15 @@ declare global {
     sidebar: Sidebar;
     tabs: Tabs;
     tuner: LiveDataTuner | null;
+    deviceControl: LiveDeviceControl | null;
+    computedFields: ComputedFields;
+    annotations: Annotations;
+    eventDetector: EventDetector;
+    liveAlerts: LiveAlerts;
+    tuningPresets: TuningPresets;
+    comparison: LogComparison;
+    liveRecorder: LiveRecorder;
+    batchReporter: BatchReporter;
     getLoadingFields(): Set<string>;
 
     messagePort: MessagePort | null;
@@ -82,16 +111,29 @@ window.sidebar = new Sidebar(() =>
 );
 window.tabs = new Tabs();
 window.tuner = null;
+window.deviceControl = null;
+window.computedFields = new ComputedFields();
+window.annotations = new Annotations();
+window.eventDetector = new EventDetector();
+window.liveAlerts = new LiveAlerts();
+window.tuningPresets = new TuningPresets();
+window.comparison = new LogComparison();
+window.liveRecorder = new LiveRecorder();
+window.batchReporter = new BatchReporter();
 window.messagePort = null;
 
 let historicalSources: {
   source: HistoricalDataSource;
   path: string;
+  keyPrefix: string;
   progress: number | null;
   progressIncluded: boolean;
 }[] = [];
+let savedTimeOffsets: { [path: string]: number } = {}; // Reapplied when the same file is merged again
 let liveSource: LiveDataSource | null = null;
+new ConnectionHealthPanel(() => (liveSource === null ? null : liveSource.getHealth()));
 let publisher: NT4Publisher | null = null;
+let replay: NT4Replay | null = null;
 let isExporting = false;
 let logFriendlyName: string | null = null;
 let liveActive = false;
@@ -176,7 +218,14 @@ function setExporting(exporting: boolean) {
 function saveState(): HubState {
   return {
     sidebar: window.sidebar.saveState(),
-    tabs: window.tabs.saveState()
+    tabs: window.tabs.saveState(),
+    computedFields: window.computedFields.saveState(),
+    eventRules: window.eventDetector.saveState(),
+    alertRules: window.liveAlerts.saveState(),
+    alertHistory: window.liveAlerts.getHistory(),
+    tuningPresets: window.tuningPresets.saveState(),
+    comparison: window.comparison.saveState(),
+    timeOffsets: getSavedTimeOffsets()
   };
 }
 
@@ -184,6 +233,27 @@ function saveState(): HubState {
 function restoreState(state: HubState) {
   window.sidebar.restoreState(state.sidebar);
   window.tabs.restoreState(state.tabs);
+  window.computedFields.restoreState(state.computedFields);
+  window.eventDetector.restoreState(state.eventRules);
+  window.liveAlerts.restoreState(state.alertRules);
+  window.liveAlerts.restoreHistory(state.alertHistory);
+  window.tuningPresets.restoreState(state.tuningPresets);
+  window.comparison.restoreState(state.comparison);
+  if (state.timeOffsets !== undefined) savedTimeOffsets = { ...state.timeOffsets };
+}
+
+/** Records the time offsets of the open merged logs, then returns the offsets for all known files. */
+function getSavedTimeOffsets(): { [path: string]: number } {
+  historicalSources.forEach((entry) => {
+    if (entry.keyPrefix.length === 0) return; // Offsets only apply to merged logs
+    let offset = window.log.getTimeOffset(entry.keyPrefix);
+    if (offset === 0) {
+      delete savedTimeOffsets[entry.path];
+    } else {
+      savedTimeOffsets[entry.path] = offset;
+    }
+  });
+  return { ...savedTimeOffsets };
 }
 
 setInterval(() => {
@@ -288,6 +358,7 @@ function startHistorical(path: string, clear = true, merge = false) {
   let originalTimelineRange: null | [number, number] = null;
   let originalTimelineIsMaxZoom: null | boolean = null;
   if (clear) {
+    getSavedTimeOffsets(); // Record offsets before closing the current logs
     historicalSources.forEach((entry) => entry.source.stop());
     historicalSources = [];
     originalTimelineRange = window.selection.getTimelineRange();
@@ -298,7 +369,9 @@ function startHistorical(path: string, clear = true, merge = false) {
   }
 
   liveSource?.stop();
+  window.liveRecorder.stop();
   window.tuner = null;
+  window.deviceControl = null;
   liveActive = false;
   liveConnected = false;
   setLoading(null);
@@ -324,17 +397,21 @@ function startHistorical(path: string, clear = true, merge = false) {
   };
 
   let source = new HistoricalDataSource();
-  let sourceEntry = { source: source, path: path, progress: 0, progressIncluded: true } as {
+  let keyPrefix = merge ? "/" + MERGE_PREFIX + historicalSources.length.toString() : "";
+  let sourceEntry = { source: source, path: path, keyPrefix: keyPrefix, progress: 0, progressIncluded: true } as {
     source: HistoricalDataSource;
     path: string;
+    keyPrefix: string;
     progress: number | null;
     progressIncluded: boolean;
   };
   historicalSources.push(sourceEntry);
+  window.annotations.setLogFiles(historicalSources.map((entry) => ({ path: entry.path, keyPrefix: entry.keyPrefix })));
+  if (merge && path in savedTimeOffsets) window.log.setTimeOffset(keyPrefix, savedTimeOffsets[path]);
   source.openFile(
     window.log,
     path,
-    merge ? "/" + MERGE_PREFIX + (historicalSources.length - 1).toString() : "",
+    keyPrefix,
     (status: HistoricalDataSourceStatus) => {
       if (historicalSources.length === 1) {
         let components = historicalSources[0].path.split(window.platform === "win32" ? "\\" : "/");
@@ -379,43 +456,62 @@ function startHistorical(path: string, clear = true, merge = false) {
       sourceEntry.progress = progress;
       updateLoading();
     },
-    (hasNewFields: boolean) => {
+    (hasNewFields: boolean, loadedFields: Set<string> | null) => {
+      if (loadedFields === null) {
+        window.computedFields.update(true);
+        window.eventDetector.update(true);
+      } else if (loadedFields.size > 0) {
+        // Only recalculate the values that depend on the new fields
+        let recalculated = window.computedFields.update(false, loadedFields);
+        window.eventDetector.update(true, new Set([...loadedFields, ...recalculated]));
+      }
       window.sidebar.refresh();
       if (hasNewFields) window.tabs.refresh();
     }
   );
 }
 
-/** Connects to a live data source. */
-function startLive(isSim: boolean) {
+/** Connects to a live data source, or to multiple robots if a list is provided. */
+function startLive(isSim: boolean, robots?: LiveRobotConfig[]) {
   historicalSources.forEach((entry) => entry.source.stop());
   historicalSources = [];
   liveSource?.stop();
   publisher?.stop();
+  replay?.stop();
+  window.annotations.setLogFiles(null);
   liveActive = true;
   setLoading(null);
 
   if (!window.preferences) return;
-  switch (window.preferences.liveMode) {
-    case "nt4":
-      liveSource = new NT4Source(false);
-      break;
-    case "nt4-akit":
-      liveSource = new NT4Source(true);
-      break;
-    case "phoenix":
-      liveSource = new PhoenixDiagnosticsSource();
-      break;
-    case "pathplanner":
-      liveSource = new PathPlannerSource();
-      break;
-    case "rlog":
-      liveSource = new RLOGServerSource();
-      break;
+  if (robots !== undefined) {
+    liveSource = new MultiLiveSource(robots);
+  } else {
+    switch (window.preferences.liveMode) {
+      case "nt4":
+        liveSource = new NT4Source(false);
+        break;
+      case "nt4-akit":
+        liveSource = new NT4Source(true);
+        break;
+      case "phoenix":
+        liveSource = new PhoenixDiagnosticsSource();
+        break;
+      case "pathplanner":
+        liveSource = new PathPlannerSource();
+        break;
+      case "rlog":
+        liveSource = new RLOGServerSource();
+        break;
+      case "generic":
+        liveSource = new GenericSource();
+        break;
+    }
   }
 
   let address = "";
-  if (isSim) {
+  if (robots !== undefined) {
+    address = robots.map((robot) => robot.address).join(", ");
+  } else if (isSim) {
     address = SIM_ADDRESS;
   } else if (window.preferences?.usb) {
     address = USB_ADDRESS;
@@ -452,12 +548,16 @@ function startLive(isSim: boolean) {
     (log: Log, timeSupplier: () => number) => {
       liveConnected = true;
       window.log = log;
+      window.computedFields.update();
+      window.eventDetector.update();
       window.selection.setLiveConnected(timeSupplier);
+      window.liveAlerts.update(log);
       window.sidebar.refresh();
       window.tabs.refresh();
     }
   );
   window.tuner = liveSource.getTuner();
+  window.deviceControl = liveSource.getDeviceControl();
 }
 
 // File dropped on window
@@ -542,6 +642,10 @@ async function handleMainMessage(message: NamedMessage) {
       window.typeMemory = message.data;
       break;
 
+    case "restore-annotations":
+      window.annotations.restoreAnnotations(message.data.key, message.data.annotations);
+      break;
+
     case "set-fullscreen":
       window.isFullscreen = message.data;
       updateFancyWindow();
@@ -640,6 +744,9 @@ async function handleMainMessage(message: NamedMessage) {
           case "stepCycle":
             window.selection.stepCycle(args[0]);
             break;
+          case "jumpToAnnotation":
+            window.selection.jumpToAnnotation(args[0]);
+            break;
           case "setGrabZoomRange":
             window.selection.setGrabZoomRange(args[0]);
             break;
@@ -669,6 +776,30 @@ async function handleMainMessage(message: NamedMessage) {
       }
       break;
 
+    case "add-annotation":
+      {
+        let time = window.selection.getSelectedTime();
+        if (time === null) time = window.selection.getHoveredTime();
+        if (time === null) time = window.selection.getTimelineRange()[0];
+        window.sendMainMessage("edit-annotation", {
+          index: null,
+          annotation: { label: "", start: time, end: null }
+        });
+      }
+      break;
+
+    case "set-annotation":
+      window.annotations.set(message.data.index, message.data.annotation);
+      break;
+
+    case "remove-annotation":
+      window.annotations.remove(message.data);
+      break;
+
+    case "jump-annotation":
+      window.selection.jumpToAnnotation(message.data);
+      break;
+
     case "show-update-button":
       document.documentElement.style.setProperty("--show-update-button", message.data ? "1" : "0");
       UPDATE_BUTTON.hidden = !message.data;
@@ -683,6 +814,7 @@ async function handleMainMessage(message: NamedMessage) {
       historicalSources.forEach((entry) => {
         entry.source.handleMainMessage(message.data);
       });
+      window.batchReporter.handleMainMessage(message.data);
       break;
 
     case "live-data":
@@ -727,6 +859,17 @@ async function handleMainMessage(message: NamedMessage) {
       }
       break;
 
+    case "start-live-multi":
+      if (isExporting) {
+        window.sendMainMessage("error", {
+          title: "Cannot connect",
+          content: "Please wait for the export to finish, then try again."
+        });
+      } else {
+        startLive(false, message.data);
+      }
+      break;
+
     case "start-publish":
       if (liveActive) {
         window.sendMainMessage("error", {
@@ -776,6 +919,86 @@ async function handleMainMessage(message: NamedMessage) {
       publisher?.stop();
       break;
 
+    case "start-replay-server":
+      if (liveActive) {
+        window.sendMainMessage("error", {
+          title: "Cannot start replay server",
+          content: "Replaying is not allowed from a live source."
+        });
+      } else if (!("NT" in window.log.getFieldTree())) {
+        window.sendMainMessage("error", {
+          title: "Cannot start replay server",
+          content: "Please open a log file with NetworkTables data, then try again."
+        });
+      } else {
+        // Start mock progress
+        let mockProgress = 0;
+        let mockProgressStart = new Date().getTime();
+        let mockProgressInterval = setInterval(() => {
+          mockProgress = calcMockProgress((new Date().getTime() - mockProgressStart) / 1000, 1);
+          setLoading(mockProgress);
+        }, 1000 / 60);
+
+        // Load missing fields
+        if (historicalSources.length > 0) {
+          await historicalSources[0].source.loadAllFields(); // Root NT table is always from the first source
+        }
+        clearInterval(mockProgressInterval);
+
+        // Start server and playback
+        replay?.stop();
+        replay = new NT4Replay((status, clientCount) => {
+          if (logFriendlyName === null) return;
+          switch (status) {
+            case NT4ReplayStatus.Waiting:
+              setWindowTitle(logFriendlyName, "Replaying, No Clients");
+              break;
+            case NT4ReplayStatus.Active:
+              setWindowTitle(
+                logFriendlyName,
+                "Replaying, " + clientCount.toString() + " Client" + (clientCount === 1 ? "" : "s")
+              );
+              break;
+            case NT4ReplayStatus.Stopped:
+              setWindowTitle(logFriendlyName);
+              break;
+          }
+        });
+        window.selection.play();
+      }
+      break;
+
+    case "stop-replay-server":
+      replay?.stop();
+      break;
+
+    case "replay-server-status":
+      replay?.setClientCount(message.data);
+      break;
+
+    case "start-live-recording":
+      if (!liveActive) {
+        window.sendMainMessage("error", {
+          title: "Cannot record",
+          content: "Please connect to a live source, then try again."
+        });
+      } else {
+        window.liveRecorder.start(message.data);
+      }
+      break;
+
+    case "stop-live-recording":
+      window.liveRecorder.stop();
+      break;
+
+    case "start-batch-report":
+      window.batchReporter.start(message.data.paths, message.data.fields);
+      break;
+
+    case "stop-batch-report":
+      window.batchReporter.stop();
+      break;
+
     case "load-zebra":
       if (liveActive) {
         window.sendMainMessage("error", {
@@ -794,6 +1017,234 @@ async function handleMainMessage(message: NamedMessage) {
       }
       break;
 
+    case "add-computed-field":
+    case "edit-computed-field":
+      let computedError = window.computedFields.set(message.data.name, message.data.expression, message.data.oldName);
+      if (computedError !== null) {
+        window.sendMainMessage("error", {
+          title: "Invalid computed field",
+          content: computedError
+        });
+      } else {
+        window.sidebar.refresh();
+        window.tabs.refresh();
+      }
+      break;
+
+    case "remove-computed-field":
+      window.computedFields.remove(message.data);
+      window.sidebar.refresh();
+      window.tabs.refresh();
+      break;
+
+    case "add-event-rule":
+    case "edit-event-rule":
+      let ruleError = window.eventDetector.set(message.data.rule, message.data.oldName);
+      if (ruleError !== null) {
+        window.sendMainMessage("error", {
+          title: "Invalid event rule",
+          content: ruleError
+        });
+      }
+      break;
+
+    case "remove-event-rule":
+      window.eventDetector.remove(message.data);
+      break;
+
+    case "add-alert-rule":
+    case "edit-alert-rule":
+      let alertError = window.liveAlerts.set(message.data.rule, message.data.oldName);
+      if (alertError !== null) {
+        window.sendMainMessage("error", {
+          title: "Invalid alert rule",
+          content: alertError
+        });
+      }
+      break;
+
+    case "remove-alert-rule":
+      window.liveAlerts.remove(message.data);
+      break;
+
+    case "clear-alert-history":
+      window.liveAlerts.clearHistory();
+      break;
+
+    case "publish-tuning-value":
+      let tuningError = window.sidebar.publishTuningValue(message.data);
+      if (tuningError !== null) {
+        window.sendMainMessage("error", {
+          title: "Cannot publish value",
+          content: tuningError
+        });
+      }
+      break;
+
+    case "undo-tuning-value":
+      window.sidebar.undoTuningValue(message.data);
+      break;
+
+    case "run-device-action":
+      {
+        if (window.deviceControl === null) break;
+        let key: string = message.data.key;
+        let deviceName = key.split("/").pop();
+        let action: Promise<string | null>;
+        switch (message.data.action) {
+          case "blink":
+            action = window.deviceControl.blink(key).then(() => null);
+            break;
+          case "self-test":
+            action = window.deviceControl.selfTest(key);
+            break;
+          case "configs":
+            action = window.deviceControl.getConfigs(key);
+            break;
+          default:
+            return;
+        }
+        action
+          .then((result) => {
+            if (result === null) return;
+            window.sendMainMessage("alert", {
+              title: (message.data.action === "self-test" ? "Self-Test: " : "Configs: ") + deviceName,
+              content: result
+            });
+          })
+          .catch(() => {
+            window.sendMainMessage("error", {
+              title: "Device action failed",
+              content: 'The diagnostic server did not respond to the request for "' + deviceName + '".'
+            });
+          });
+      }
+      break;
+
+    case "save-tuning-preset":
+      let presetError = window.tuningPresets.save(message.data, window.sidebar.getTuningValues());
+      if (presetError !== null) {
+        window.sendMainMessage("error", {
+          title: "Cannot save preset",
+          content: presetError
+        });
+      }
+      break;
+
+    case "remove-tuning-preset":
+      window.tuningPresets.remove(message.data);
+      break;
+
+    case "compare-tuning-preset":
+      {
+        let diff = window.tuningPresets.getDiff(message.data);
+        let detail =
+          diff.length === 0
+            ? "All values match the preset."
+            : diff
+                .map(
+                  (item) =>
+                    item.key +
+                    ": " +
+                    (item.current === null ? "unavailable" : formatTuningValue(item.current)) +
+                    " → " +
+                    formatTuningValue(item.preset)
+                )
+                .join("\n");
+        window.sendMainMessage("show-tuning-preset-diff", { name: message.data, detail: detail });
+      }
+      break;
+
+    case "apply-tuning-preset":
+      let applyError = window.tuningPresets.apply(message.data);
+      if (applyError !== null) {
+        window.sendMainMessage("error", {
+          title: "Cannot apply preset",
+          content: applyError
+        });
+      }
+      break;
+
+    case "ask-edit-time-offset":
+      {
+        let prefixes = [...new Set(window.log.getFieldKeys().map(getMergePrefix))]
+          .filter((prefix) => prefix.length > 0)
+          .sort((a, b) => Number(a.slice(MERGE_PREFIX.length + 1)) - Number(b.slice(MERGE_PREFIX.length + 1)));
+        if (prefixes.length === 0) {
+          window.sendMainMessage("error", {
+            title: "No merged logs",
+            content: "Add another log with File > Add New Log(s)... to adjust its time offset."
+          });
+          break;
+        }
+        let fields: { [prefix: string]: string[] } = {};
+        window.log.getFieldKeys().forEach((key) => {
+          let type = window.log.getType(key);
+          if (type !== LoggableType.Number && type !== LoggableType.Boolean) return;
+          let prefix = getMergePrefix(key);
+          if (!(prefix in fields)) fields[prefix] = [];
+          fields[prefix].push(key);
+        });
+        window.sendMainMessage("edit-time-offset", {
+          logs: prefixes.map((prefix) => {
+            let index = Number(prefix.slice(MERGE_PREFIX.length + 1));
+            let name = prefix.slice(1);
+            if (index < historicalSources.length) {
+              let components = historicalSources[index].path.split(window.platform === "win32" ? "\\" : "/");
+              name += " (" + components[components.length - 1] + ")";
+            }
+            return { prefix: prefix, name: name, offset: window.log.getTimeOffset(prefix) };
+          }),
+          fields: fields
+        });
+      }
+      break;
+
+    case "set-time-offset":
+      {
+        let result: TimeOffsetEditResult = message.data;
+        if ("offset" in result) {
+          window.log.setTimeOffset(result.prefix, result.offset);
+        } else {
+          if (getMergePrefix(result.targetKey) !== result.prefix) {
+            window.sendMainMessage("error", {
+              title: "Failed to align fields",
+              content: "The target field must be part of the selected log."
+            });
+            break;
+          }
+          await Promise.all(historicalSources.map((entry) => entry.source.loadAllFields()));
+          let reference = getCorrelationSeries(window.log, result.referenceKey);
+          let target = getCorrelationSeries(window.log, result.targetKey);
+          let originalOffset = window.log.getTimeOffset(result.prefix);
+          let shift: number | null = null;
+          if (reference !== null && target !== null) {
+            shift = await WorkerManager.request("../bundles/hub$alignWorker.js", {
+              reference: reference,
+              target: target
+            }).catch(() => null);
+          }
+          if (shift === null) {
+            window.sendMainMessage("error", {
+              title: "Failed to align fields",
+              content: "The fields could not be aligned. Check that both fields are numeric and overlap in time."
+            });
+            break;
+          }
+          window.log.setTimeOffset(result.prefix, originalOffset + shift);
+        }
+        window.computedFields.update(true);
+        window.eventDetector.update(true);
+        window.sidebar.refresh();
+        window.tabs.refresh();
+      }
+      break;
+
+    case "set-comparison":
+      window.comparison.setAlignment(message.data);
+      window.tabs.refresh();
+      break;
+
     case "set-playback-options":
       window.selection.setPlaybackSpeed(message.data.speed);
       window.selection.setPlaybackLooping(message.data.looping);
@@ -863,6 +1314,15 @@ async function handleMainMessage(message: NamedMessage) {
       );
       break;
 
+    case "edit-table":
+      window.tabs.editTable(
+        message.data.index,
+        message.data.format,
+        message.data.changesOnly,
+        message.data.highlightChanges
+      );
+      break;
+
     case "clear-axis":
       window.tabs.clearAxis(message.data);
       break;
@@ -930,7 +1390,8 @@ async function handleMainMessage(message: NamedMessage) {
         "../bundles/hub$exportWorker.js",
         {
           options: message.data.options,
-          log: window.log.toSerialized()
+          log: window.log.toSerialized(),
+          annotations: window.annotations.getAll()
         },
         (progress: number) => {
           clearInterval(mockProgressInterval);
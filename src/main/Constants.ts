@@ -14,6 +14,7 @@ export const STATE_FILENAME = path.join(
   "state-" + (app.isPackaged ? app.getVersion().replaceAll(".", "_") : "dev") + ".json"
 );
 export const TYPE_MEMORY_FILENAME = path.join(app.getPath("userData"), "type-memory.json");
+export const ANNOTATIONS_FILENAME = path.join(app.getPath("userData"), "annotations.json");
 export const RECENT_UNITS_FILENAME = path.join(app.getPath("userData"), "recent-units.json");
 export const BUNDLED_ASSETS = path.join(__dirname, "..", "bundledAssets");
 export const AUTO_ASSETS = path.join(app.getPath("userData"), "autoAssets");
@@ -35,6 +36,8 @@ export const DEFAULT_PREFS: Preferences = {
   liveDiscard: 1200,
   publishFilter: "",
   rlogPort: 5800,
+  genericPort: 5809,
+  liveRobots: [],
   threeDimensionModeAc: "standard",
   threeDimensionModeBattery: "",
   tbaApiKey: "",
@@ -67,3 +70,6 @@ export const DOWNLOAD_PASSWORD = "";
 export const DOWNLOAD_CONNECT_TIMEOUT_MS = 3000; // How long to wait when connecting
 export const DOWNLOAD_RETRY_DELAY_MS = 1000; // How long to wait between connection attempts
 export const DOWNLOAD_REFRESH_INTERVAL_MS = 5000; // How often to refresh file list when connected
+
+// Command line export
+export const EXPORT_CLI_TIMEOUT_MS = 10 * 60 * 1000; // Maximum time to read and convert a log
@@ -0,0 +1,150 @@
+import { Decoder, decodeMultiStream } from "@msgpack/msgpack";
+import dgram from "dgram";
+import net from "net";
+import { StringDecoder } from "string_decoder";
+
+const FLUSH_PERIOD_MS = 20;
+const MAX_LINE_LENGTH = 16 * 1024 * 1024;
+
+/**
+ * Listens for generic live data records on a TCP and UDP port. Each
+ * record is an object with the format "{key, timestamp, value}",
+ * encoded as newline-delimited JSON or a sequence of MessagePack
+ * objects. The format is detected automatically for each connection
+ * or datagram.
+ */
+export default class GenericLiveServer {
+  private tcpServer: net.Server;
+  private udpSocket: dgram.Socket;
+  private tcpSockets: Set<net.Socket> = new Set();
+  private msgpackDecoder = new Decoder();
+  private stopped = false;
+
+  private recordsCallback: (records: unknown[]) => void;
+  private pendingRecords: unknown[] = [];
+  private flushTimeout: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new server and begins listening.
+   * @param port The port to use for both TCP and UDP
+   * @param recordsCallback Called with batches of decoded records
+   * @param errorCallback Called if the server cannot be started (usually because the port is in use)
+   */
+  constructor(port: number, recordsCallback: (records: unknown[]) => void, errorCallback: (message: string) => void) {
+    this.recordsCallback = recordsCallback;
+    let handleError = (error: NodeJS.ErrnoException) => {
+      if (this.stopped) return;
+      this.stop();
+      errorCallback(error.code === "EADDRINUSE" ? "Port " + port.toString() + " is already in use." : error.message);
+    };
+
+    // TCP
+    this.tcpServer = net.createServer((socket) => {
+      this.tcpSockets.add(socket);
+      socket.on("close", () => this.tcpSockets.delete(socket));
+      socket.on("error", () => socket.destroy());
+      this.readSocket(socket).catch(() => socket.destroy());
+    });
+    this.tcpServer.on("error", handleError);
+    this.tcpServer.listen(port);
+
+    // UDP
+    this.udpSocket = dgram.createSocket("udp4");
+    this.udpSocket.on("message", (data) => {
+      try {
+        if (isJSON(data)) {
+          data
+            .toString("utf-8")
+            .split("\n")
+            .forEach((line) => this.handleJSONLine(line));
+        } else {
+          for (let record of this.msgpackDecoder.decodeMulti(data)) {
+            this.queue(record);
+          }
+        }
+      } catch {}
+    });
+    this.udpSocket.on("error", handleError);
+    this.udpSocket.bind(port);
+  }
+
+  /** Stops listening and closes all connections. */
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.tcpSockets.forEach((socket) => socket.destroy());
+    this.tcpServer.close();
+    try {
+      this.udpSocket.close();
+    } catch {}
+    if (this.flushTimeout !== null) clearTimeout(this.flushTimeout);
+  }
+
+  /** Reads records from a TCP connection until it is closed. */
+  private async readSocket(socket: net.Socket) {
+    let iterator = socket[Symbol.asyncIterator]();
+    let first = await iterator.next();
+    if (first.done) return;
+    let firstChunk: Buffer = first.value;
+    async function* chunks(): AsyncGenerator<Buffer> {
+      yield firstChunk;
+      while (true) {
+        let next = await iterator.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    }
+
+    if (isJSON(firstChunk)) {
+      let buffer = "";
+      let decoder = new StringDecoder("utf8"); // Keeps characters split across chunks intact
+      for await (let chunk of chunks()) {
+        buffer += decoder.write(chunk);
+        let lines = buffer.split("\n");
+        buffer = lines.pop()!;
+        lines.forEach((line) => this.handleJSONLine(line));
+        if (buffer.length > MAX_LINE_LENGTH) {
+          socket.destroy();
+          return;
+        }
+      }
+    } else {
+      for await (let record of decodeMultiStream(chunks())) {
+        this.queue(record);
+      }
+    }
+  }
+
+  /** Decodes a single line of JSON. */
+  private handleJSONLine(line: string) {
+    line = line.trim();
+    if (line.length === 0) return;
+    try {
+      this.queue(JSON.parse(line));
+    } catch {}
+  }
+
+  /** Adds a record to be sent with the next batch. */
+  private queue(record: unknown) {
+    if (this.stopped) return;
+    this.pendingRecords.push(record);
+    if (this.flushTimeout === null) {
+      this.flushTimeout = setTimeout(() => {
+        this.flushTimeout = null;
+        let records = this.pendingRecords;
+        this.pendingRecords = [];
+        this.recordsCallback(records);
+      }, FLUSH_PERIOD_MS);
+    }
+  }
+}
+
+/** Returns whether the data starts with a JSON object (rather than MessagePack). */
+function isJSON(data: Buffer): boolean {
+  for (let i = 0; i < data.length; i++) {
+    let char = String.fromCharCode(data[i]);
+    if (char.trim().length === 0) continue;
+    return char === "{";
+  }
+  return false;
+}
@@ -0,0 +1,517 @@
+import { Decoder, Encoder } from "@msgpack/msgpack";
+import crypto from "crypto";
+import http from "http";
+import net from "net";
+
+const PORT = 5810;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD_BYTES = 64 * 1024 * 1024;
+const PROTOCOLS = [
+  "v4.1.networktables.first.wpi.edu",
+  "networktables.first.wpi.edu",
+  "rtt.networktables.first.wpi.edu"
+];
+const TYPE_INDICES: { [type: string]: number } = {
+  boolean: 0,
+  double: 1,
+  int: 2,
+  float: 3,
+  string: 4,
+  json: 4,
+  raw: 5,
+  rpc: 5,
+  msgpack: 5,
+  protobuf: 5,
+  "boolean[]": 16,
+  "double[]": 17,
+  "int[]": 18,
+  "float[]": 19,
+  "string[]": 20
+};
+
+/**
+ * A minimal NT4 server, used to replay historical data to other clients
+ * as if they were connected to a robot. Topics published by the server
+ * are provided by the hub, and topics published by clients are relayed
+ * to other clients.
+ */
+export default class NT4Server {
+  private server: http.Server;
+  private startTime = performance.now();
+  private statusCallback: (clientCount: number) => void;
+
+  private clients: Set<NT4ServerClient> = new Set();
+  private topics: Map<string, NT4ServerTopic> = new Map();
+  private nextTopicId = 0;
+
+  /**
+   * Creates a new NT4 server and begins listening.
+   * @param statusCallback Called when a client connects or disconnects
+   * @param errorCallback Called if the server cannot be started (usually because the port is in use)
+   */
+  constructor(statusCallback: (clientCount: number) => void, errorCallback: (message: string) => void) {
+    this.statusCallback = statusCallback;
+    this.server = http.createServer((_, response) => {
+      // Clients check whether the server is alive before connecting
+      response.writeHead(200, { "Content-Type": "text/plain" });
+      response.end("AdvantageScope NT4 replay server");
+    });
+    this.server.on("upgrade", (request, socket, head) => this.handleUpgrade(request, socket as net.Socket, head));
+    this.server.on("error", (error: NodeJS.ErrnoException) => {
+      errorCallback(
+        error.code === "EADDRINUSE"
+          ? "Port " +
+              PORT.toString() +
+              " is already in use. Please stop any simulators or other NT servers, then try again."
+          : error.message
+      );
+    });
+    this.server.listen(PORT);
+  }
+
+  /** Stops the server and disconnects all clients. */
+  stop() {
+    this.clients.forEach((client) => client.close());
+    this.clients.clear();
+    this.server.close();
+  }
+
+  /** Returns the current server time in microseconds. */
+  getTime_us(): number {
+    return Math.floor((performance.now() - this.startTime) * 1000);
+  }
+
+  /** Creates or updates a topic published by the server. */
+  announce(name: string, type: string, properties: { [key: string]: any } = {}) {
+    let topic = this.topics.get(name);
+    if (topic !== undefined) {
+      topic.serverPublished = true;
+      return;
+    }
+    topic = {
+      id: this.nextTopicId++,
+      name: name,
+      type: type,
+      properties: properties,
+      serverPublished: true,
+      publishers: new Set(),
+      lastValue: null
+    };
+    this.topics.set(name, topic);
+    this.clients.forEach((client) => client.announce(topic!));
+  }
+
+  /** Removes a topic published by the server. */
+  unannounce(name: string) {
+    let topic = this.topics.get(name);
+    if (topic === undefined) return;
+    topic.serverPublished = false;
+    this.removeIfUnused(topic);
+  }
+
+  /** Sends a new value for a topic to all subscribed clients. */
+  setValue(name: string, value: unknown, timestamp_us?: number, source?: NT4ServerClient) {
+    let topic = this.topics.get(name);
+    if (topic === undefined) return;
+    let timestamp = timestamp_us === undefined ? this.getTime_us() : timestamp_us;
+    topic.lastValue = { timestamp: timestamp, value: value };
+    this.clients.forEach((client) => {
+      if (client !== source) client.sendValue(topic!, timestamp, value);
+    });
+  }
+
+  /** Sends any queued messages to each client. Should be called after each batch of changes. */
+  flush() {
+    this.clients.forEach((client) => client.flush());
+  }
+
+  /** Called by clients when publishing a topic. */
+  handleClientPublish(client: NT4ServerClient, name: string, type: string, properties: { [key: string]: any }) {
+    let topic = this.topics.get(name);
+    if (topic === undefined) {
+      topic = {
+        id: this.nextTopicId++,
+        name: name,
+        type: type,
+        properties: properties,
+        serverPublished: false,
+        publishers: new Set(),
+        lastValue: null
+      };
+      this.topics.set(name, topic);
+      topic.publishers.add(client);
+      this.clients.forEach((other) => {
+        if (other !== client) other.announce(topic!);
+      });
+    } else {
+      topic.publishers.add(client);
+    }
+    return topic;
+  }
+
+  /** Called by clients when unpublishing a topic. */
+  handleClientUnpublish(client: NT4ServerClient, topic: NT4ServerTopic) {
+    topic.publishers.delete(client);
+    this.removeIfUnused(topic);
+  }
+
+  /** Called by clients when updating the properties of a topic. */
+  handleClientSetProperties(name: string, update: { [key: string]: any }) {
+    let topic = this.topics.get(name);
+    if (topic === undefined) return;
+    Object.entries(update).forEach(([key, value]) => {
+      if (value === null) {
+        delete topic!.properties[key];
+      } else {
+        topic!.properties[key] = value;
+      }
+    });
+    this.clients.forEach((client) => client.sendProperties(topic!, update));
+    this.removeIfUnused(topic);
+  }
+
+  /** Returns all current topics. */
+  getTopics(): NT4ServerTopic[] {
+    return [...this.topics.values()];
+  }
+
+  private handleUpgrade(request: http.IncomingMessage, socket: net.Socket, head: Buffer) {
+    let key = request.headers["sec-websocket-key"];
+    let requestedProtocols = (request.headers["sec-websocket-protocol"] ?? "").split(",").map((item) => item.trim());
+    let protocol = PROTOCOLS.find((item) => requestedProtocols.includes(item));
+    if (
+      key === undefined ||
+      protocol === undefined ||
+      request.url === undefined ||
+      !request.url.startsWith("/nt/") ||
+      request.headers["upgrade"]?.toLowerCase() !== "websocket"
+    ) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+
+    // Complete handshake
+    let accept = crypto
+      .createHash("sha1")
+      .update(key + WEBSOCKET_GUID)
+      .digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        "Sec-WebSocket-Accept: " +
+        accept +
+        "\r\n" +
+        "Sec-WebSocket-Protocol: " +
+        protocol +
+        "\r\n\r\n"
+    );
+    socket.setNoDelay(true);
+    if (head.length > 0) socket.unshift(head);
+
+    // Create client
+    let client = new NT4ServerClient(this, socket, protocol === "rtt.networktables.first.wpi.edu", () => {
+      this.clients.delete(client);
+      this.topics.forEach((topic) => {
+        if (topic.publishers.delete(client)) this.removeIfUnused(topic);
+      });
+      if (!client.isRttOnly()) this.statusCallback(this.getClientCount());
+    });
+    this.clients.add(client);
+    if (!client.isRttOnly()) this.statusCallback(this.getClientCount());
+  }
+
+  /** Returns the number of connected clients, excluding RTT-only connections. */
+  private getClientCount(): number {
+    return [...this.clients].filter((client) => !client.isRttOnly()).length;
+  }
+
+  /** Unannounces a topic if it is no longer published by any client or the server. */
+  private removeIfUnused(topic: NT4ServerTopic) {
+    if (topic.serverPublished || topic.publishers.size > 0) return;
+    if (topic.properties.retained === true || topic.properties.persistent === true) return;
+    this.topics.delete(topic.name);
+    this.clients.forEach((client) => client.unannounce(topic));
+  }
+}
+
+type NT4ServerTopic = {
+  id: number;
+  name: string;
+  type: string;
+  properties: { [key: string]: any };
+  serverPublished: boolean;
+  publishers: Set<NT4ServerClient>;
+  lastValue: { timestamp: number; value: unknown } | null;
+};
+
+type NT4ServerSubscription = {
+  topics: string[];
+  prefix: boolean;
+  topicsOnly: boolean;
+};
+
+/** A single WebSocket connection to the NT4 server. */
+class NT4ServerClient {
+  private server: NT4Server;
+  private socket: net.Socket;
+  private rttOnly: boolean;
+  private closeCallback: () => void;
+  private closed = false;
+
+  private msgpackDecoder = new Decoder();
+  private msgpackEncoder = new Encoder();
+  private receiveBuffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode = 0;
+  private pendingText: any[] = [];
+  private pendingBinary: Uint8Array[] = [];
+
+  private subscriptions: Map<number, NT4ServerSubscription> = new Map();
+  private announcedTopics: Set<NT4ServerTopic> = new Set();
+  private publishedTopics: Map<number, NT4ServerTopic> = new Map(); // Key is pubuid
+
+  constructor(server: NT4Server, socket: net.Socket, rttOnly: boolean, closeCallback: () => void) {
+    this.server = server;
+    this.socket = socket;
+    this.rttOnly = rttOnly;
+    this.closeCallback = closeCallback;
+    socket.on("data", (data: Buffer) => this.handleData(data));
+    socket.on("error", () => this.close());
+    socket.on("close", () => this.close());
+  }
+
+  /** Returns whether this connection is only used for time synchronization. */
+  isRttOnly(): boolean {
+    return this.rttOnly;
+  }
+
+  /** Closes the connection. */
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    if (!this.socket.destroyed) {
+      this.socket.end(this.encodeFrame(0x8, Buffer.alloc(0)));
+    }
+    this.closeCallback();
+  }
+
+  /** Announces a topic if it matches any subscription. */
+  announce(topic: NT4ServerTopic, pubuid?: number) {
+    if (this.rttOnly || this.announcedTopics.has(topic)) return;
+    if (pubuid === undefined && this.getMatchingSubscriptions(topic).length === 0) return;
+    this.announcedTopics.add(topic);
+    let params: any = { name: topic.name, id: topic.id, type: topic.type, properties: topic.properties };
+    if (pubuid !== undefined) params.pubuid = pubuid;
+    this.pendingText.push({ method: "announce", params: params });
+  }
+
+  /** Unannounces a topic if it was previously announced. */
+  unannounce(topic: NT4ServerTopic) {
+    if (!this.announcedTopics.delete(topic)) return;
+    this.pendingText.push({ method: "unannounce", params: { name: topic.name, id: topic.id } });
+  }
+
+  /** Sends updated properties for a topic if it was previously announced. */
+  sendProperties(topic: NT4ServerTopic, update: { [key: string]: any }) {
+    if (!this.announcedTopics.has(topic)) return;
+    this.pendingText.push({ method: "properties", params: { name: topic.name, update: update } });
+  }
+
+  /** Sends a value if the topic matches any subscription that includes values. */
+  sendValue(topic: NT4ServerTopic, timestamp: number, value: unknown) {
+    if (this.rttOnly) return;
+    if (!this.getMatchingSubscriptions(topic).some((subscription) => !subscription.topicsOnly)) return;
+    this.announce(topic);
+    this.pendingBinary.push(
+      this.msgpackEncoder.encode([topic.id, timestamp, TYPE_INDICES[topic.type] ?? TYPE_INDICES["raw"], value])
+    );
+  }
+
+  /** Sends all queued messages. */
+  flush() {
+    if (this.closed) return;
+    if (this.pendingText.length > 0) {
+      this.socket.write(this.encodeFrame(0x1, Buffer.from(JSON.stringify(this.pendingText))));
+      this.pendingText = [];
+    }
+    if (this.pendingBinary.length > 0) {
+      this.socket.write(this.encodeFrame(0x2, Buffer.concat(this.pendingBinary)));
+      this.pendingBinary = [];
+    }
+  }
+
+  /** Returns the subscriptions that match a topic. */
+  private getMatchingSubscriptions(topic: NT4ServerTopic): NT4ServerSubscription[] {
+    if (topic.name.startsWith("$")) return [];
+    return [...this.subscriptions.values()].filter((subscription) =>
+      subscription.topics.some((pattern) =>
+        subscription.prefix ? topic.name.startsWith(pattern) : topic.name === pattern
+      )
+    );
+  }
+
+  /** Parses WebSocket frames from received data. */
+  private handleData(data: Buffer) {
+    this.receiveBuffer = Buffer.concat([this.receiveBuffer, data]);
+    while (this.receiveBuffer.length >= 2) {
+      let buffer = this.receiveBuffer;
+      let isFinal = (buffer[0] & 0x80) !== 0;
+      let opcode = buffer[0] & 0x0f;
+      let isMasked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_PAYLOAD_BYTES) {
+        this.close();
+        return;
+      }
+      let maskOffset = offset;
+      if (isMasked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      let payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (isMasked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.receiveBuffer = buffer.subarray(offset + length);
+
+      switch (opcode) {
+        case 0x0: // Continuation
+        case 0x1: // Text
+        case 0x2: // Binary
+          if (opcode !== 0x0) {
+            this.fragments = [];
+            this.fragmentOpcode = opcode;
+          }
+          this.fragments.push(payload);
+          if (isFinal) {
+            let message = Buffer.concat(this.fragments);
+            this.fragments = [];
+            try {
+              if (this.fragmentOpcode === 0x1) {
+                this.handleText(message.toString("utf-8"));
+              } else {
+                this.handleBinary(message);
+              }
+            } catch (error) {
+              console.warn("[NT4 Server] Ignoring invalid message:", error);
+            }
+            this.server.flush();
+          }
+          break;
+        case 0x8: // Close
+          this.close();
+          return;
+        case 0x9: // Ping
+          this.socket.write(this.encodeFrame(0xa, payload));
+          break;
+      }
+    }
+  }
+
+  /** Processes a JSON message from the client. */
+  private handleText(text: string) {
+    if (this.rttOnly) return;
+    let messages = JSON.parse(text);
+    if (!Array.isArray(messages)) return;
+    messages.forEach((message) => {
+      if (typeof message !== "object" || message === null) return;
+      let params = message.params;
+      if (typeof params !== "object" || params === null) return;
+      switch (message.method) {
+        case "publish": {
+          if (typeof params.name !== "string" || typeof params.type !== "string") return;
+          let topic = this.server.handleClientPublish(this, params.name, params.type, params.properties ?? {});
+          this.publishedTopics.set(params.pubuid, topic);
+          this.announcedTopics.delete(topic); // Always announce to publisher with pubuid
+          this.announce(topic, params.pubuid);
+          break;
+        }
+        case "unpublish": {
+          let topic = this.publishedTopics.get(params.pubuid);
+          if (topic === undefined) return;
+          this.publishedTopics.delete(params.pubuid);
+          this.server.handleClientUnpublish(this, topic);
+          break;
+        }
+        case "setproperties":
+          if (typeof params.name !== "string" || typeof params.update !== "object") return;
+          this.server.handleClientSetProperties(params.name, params.update);
+          break;
+        case "subscribe": {
+          if (!Array.isArray(params.topics)) return;
+          let options = params.options ?? {};
+          let subscription: NT4ServerSubscription = {
+            topics: params.topics.filter((topic: unknown) => typeof topic === "string"),
+            prefix: options.prefix === true,
+            topicsOnly: options.topicsonly === true
+          };
+          this.subscriptions.set(params.subuid, subscription);
+
+          // Send existing topics and values
+          this.server.getTopics().forEach((topic) => {
+            this.announce(topic);
+            if (
+              !subscription.topicsOnly &&
+              topic.lastValue !== null &&
+              this.getMatchingSubscriptions(topic).length > 0
+            ) {
+              this.sendValue(topic, topic.lastValue.timestamp, topic.lastValue.value);
+            }
+          });
+          break;
+        }
+        case "unsubscribe":
+          this.subscriptions.delete(params.subuid);
+          break;
+      }
+    });
+  }
+
+  /** Processes MessagePack data from the client. */
+  private handleBinary(data: Buffer) {
+    for (let message of this.msgpackDecoder.decodeMulti(data)) {
+      if (!Array.isArray(message) || message.length !== 4) continue;
+      let [id, timestamp, typeIndex, value] = message;
+      if (typeof id !== "number" || typeof timestamp !== "number") continue;
+      if (id === -1) {
+        // Time synchronization, respond with the current server time
+        this.pendingBinary.push(this.msgpackEncoder.encode([-1, this.server.getTime_us(), typeIndex, value]));
+      } else if (!this.rttOnly) {
+        let topic = this.publishedTopics.get(id);
+        if (topic === undefined) continue;
+        this.server.setValue(topic.name, value, timestamp === 0 ? undefined : timestamp, this);
+      }
+    }
+  }
+
+  /** Encodes an unmasked WebSocket frame. */
+  private encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+  }
+}
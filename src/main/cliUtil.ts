@@ -0,0 +1,100 @@
+import path from "path";
+import ExportOptions from "../shared/ExportOptions";
+
+export const EXPORT_CLI_USAGE = `Usage: advantagescope --export <log file> [options]
+
+Options:
+  --output <path>        Output file (default: log file with the extension of the format)
+  --format <format>      csv-table, csv-list, wpilog, or mcap (default: csv-table)
+  --sampling <mode>      changes, fixed, or akit (default: changes, only for csv-table)
+  --period <ms>          Sampling period in milliseconds for "fixed" (default: 20)
+  --prefix <prefixes>    Only include fields matching the prefixes (comma-separated, repeatable)
+  --include-generated    Include fields generated by AdvantageScope (e.g. struct components)`;
+
+export interface ExportCliRequest {
+  input: string;
+  output: string;
+  options: ExportOptions;
+}
+
+/**
+ * Reads the command line arguments for a headless export.
+ * @param args The command line arguments (e.g. from `process.argv`)
+ * @returns The export request, or null if no export was requested
+ * @throws A description of the problem if the arguments are invalid
+ */
+export function parseExportArgs(args: string[]): ExportCliRequest | null {
+  let exportIndex = args.indexOf("--export");
+  if (exportIndex === -1) return null;
+
+  let input: string | null = null;
+  let output: string | null = null;
+  let options: ExportOptions = {
+    format: "csv-table",
+    samplingMode: "changes",
+    samplingPeriod: 20,
+    prefixes: "",
+    includeGenerated: false
+  };
+  let prefixes: string[] = [];
+  for (let i = exportIndex; i < args.length; i++) {
+    let getValue = (): string => {
+      if (i + 1 >= args.length || args[i + 1].startsWith("--")) {
+        throw 'Missing value for "' + args[i] + '"';
+      }
+      i++;
+      return args[i];
+    };
+    switch (args[i]) {
+      case "--export":
+        input = getValue();
+        break;
+      case "--output":
+        output = getValue();
+        break;
+      case "--format":
+        let format = getValue();
+        if (format !== "csv-table" && format !== "csv-list" && format !== "wpilog" && format !== "mcap") {
+          throw 'Unknown format "' + format + '"';
+        }
+        options.format = format;
+        break;
+      case "--sampling":
+        let samplingMode = getValue();
+        if (samplingMode !== "changes" && samplingMode !== "fixed" && samplingMode !== "akit") {
+          throw 'Unknown sampling mode "' + samplingMode + '"';
+        }
+        options.samplingMode = samplingMode;
+        break;
+      case "--period":
+        let period = Number(getValue());
+        if (!isFinite(period) || period <= 0) {
+          throw "Sampling period must be a positive number";
+        }
+        options.samplingPeriod = period;
+        break;
+      case "--prefix":
+        prefixes.push(getValue());
+        break;
+      case "--include-generated":
+        options.includeGenerated = true;
+        break;
+      default:
+        throw 'Unknown argument "' + args[i] + '"';
+    }
+  }
+  options.prefixes = prefixes.join(",");
+
+  // Get paths
+  input = path.resolve(input!);
+  if (output === null) {
+    let extension = options.format.startsWith("csv") ? ".csv" : "." + options.format;
+    output = path.join(path.dirname(input), path.basename(input, path.extname(input)) + extension);
+  } else {
+    output = path.resolve(output);
+  }
+  if (output === input) {
+    throw "The output file must be different from the log file, use --output to choose a different path";
+  }
+  return { input: input, output: output, options: options };
+}
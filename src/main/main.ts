@@ -7,6 +7,7 @@ import {
   MenuItem,
   MessageChannelMain,
   MessagePortMain,
+  Notification,
   TitleBarOverlay,
   TouchBar,
   TouchBarSlider,
@@ -26,14 +27,24 @@ import path from "path";
 import { PNG } from "pngjs";
 import { Client } from "ssh2";
 import { AdvantageScopeAssets } from "../shared/AdvantageScopeAssets";
+import Annotation, { AnnotationMemory } from "../shared/Annotation";
 import { ensureThemeContrast } from "../shared/Colors";
 import ExportOptions from "../shared/ExportOptions";
+import {
+  AlertRuleState,
+  ComputedFieldState,
+  EventRuleState,
+  TimeOffsetEditResult,
+  TimeOffsetEditState,
+  TuningValueEditState
+} from "../shared/HubState";
 import LineGraphFilter from "../shared/LineGraphFilter";
 import NamedMessage from "../shared/NamedMessage";
-import Preferences from "../shared/Preferences";
+import Preferences, { LiveRobotConfig } from "../shared/Preferences";
 import { SourceListConfig, SourceListItemState, SourceListTypeMemory } from "../shared/SourceListConfig";
 import TabType, { getAllTabTypes, getDefaultTabTitle, getTabAccelerator, getTabIcon } from "../shared/TabType";
 import { BUILD_DATE, COPYRIGHT, DISTRIBUTOR, Distributor } from "../shared/buildConstants";
+import { TableColumnFormat } from "../shared/renderers/TableRenderer";
 import { MAX_RECENT_UNITS, NoopUnitConversion, UnitConversionPreset } from "../shared/units";
 import {
   delayBetaSurvey,
@@ -48,6 +59,7 @@ import {
   AKIT_PATH_INPUT,
   AKIT_PATH_INPUT_PERIOD,
   AKIT_PATH_OUTPUT,
+  ANNOTATIONS_FILENAME,
   APP_VERSION,
   DEFAULT_PREFS,
   DOWNLOAD_CONNECT_TIMEOUT_MS,
@@ -55,6 +67,7 @@ import {
   DOWNLOAD_REFRESH_INTERVAL_MS,
   DOWNLOAD_RETRY_DELAY_MS,
   DOWNLOAD_USERNAME,
+  EXPORT_CLI_TIMEOUT_MS,
   FRC_LOG_FOLDER,
   HUB_DEFAULT_HEIGHT,
   HUB_DEFAULT_WIDTH,
@@ -75,16 +88,21 @@ import {
   TYPE_MEMORY_FILENAME,
   WINDOW_ICON
 } from "./Constants";
+import GenericLiveServer from "./GenericLiveServer";
+import NT4Server from "./NT4Server";
 import StateTracker, { ApplicationState, SatelliteWindowState, WindowState } from "./StateTracker";
 import UpdateChecker from "./UpdateChecker";
 import { VideoProcessor } from "./VideoProcessor";
 import { getAssetDownloadStatus, startAssetDownload } from "./assetsDownload";
 import { convertLegacyAssets, createAssetFolders, getUserAssetsPath, loadAssets } from "./assetsUtil";
+import { EXPORT_CLI_USAGE, ExportCliRequest, parseExportArgs } from "./cliUtil";
 import { checkHootIsPro, convertHoot, copyOwlet } from "./hootUtil";
 
 // Global variables
 let hubWindows: BrowserWindow[] = []; // Ordered by last focus time (recent first)
 let downloadWindow: BrowserWindow | null = null;
+let batchReportWindow: BrowserWindow | null = null;
+let batchReportHubWindow: BrowserWindow | null = null; // Decodes the logs for the batch report window
 let prefsWindow: BrowserWindow | null = null;
 let licensesWindow: BrowserWindow | null = null;
 let xrWindow: BrowserWindow | null = null;
@@ -92,11 +110,20 @@ let satelliteWindows: { [id: string]: BrowserWindow[] } = {};
 let windowPorts: { [id: number]: MessagePortMain } = {};
 let hubTouchBarSliders: { [id: number]: TouchBarSlider } = {};
 let hubExportingIds: Set<number> = new Set();
+let liveRecordingWrites: Promise<void> = Promise.resolve(); // Chained so that recorded data is written in order
+let liveRecordingFailed: Set<string> = new Set(); // Recordings to skip after a write error
 
 let stateTracker = new StateTracker();
 let updateChecker = new UpdateChecker();
 let usingUsb = false; // Menu bar setting, bundled with other prefs for renderers
 let firstOpenPath: string | null = null; // Cache path to open immediately
+let exportCliRequest: ExportCliRequest | null = null; // Set when exporting from the command line (no windows)
+let exportCliError: string | null = null;
+try {
+  exportCliRequest = parseExportArgs(process.argv);
+} catch (error) {
+  exportCliError = String(error);
+}
 let advantageScopeAssets: AdvantageScopeAssets = {
   field2ds: [],
   field3ds: [],
@@ -115,6 +142,13 @@ let pathPlannerSockets: { [id: number]: net.Socket } = {};
 let pathPlannerSocketTimeouts: { [id: number]: NodeJS.Timeout } = {};
 let pathPlannerDataStrings: { [id: number]: string } = {};
 
+// Generic live source variables
+let genericServers: { [id: number]: GenericLiveServer } = {};
+
+// NT4 replay server variables
+let replayServer: NT4Server | null = null;
+let replayServerWindow: BrowserWindow | null = null;
+
 // Download variables
 let downloadClient: Client | null = null;
 let downloadRetryTimeout: NodeJS.Timeout | null = null;
@@ -245,6 +279,28 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
       }
       break;
 
+    case "load-annotations":
+      let loadedAnnotations: AnnotationMemory = fs.existsSync(ANNOTATIONS_FILENAME)
+        ? jsonfile.readFileSync(ANNOTATIONS_FILENAME)
+        : {};
+      sendMessage(window, "restore-annotations", {
+        key: message.data,
+        annotations: message.data in loadedAnnotations ? loadedAnnotations[message.data] : []
+      });
+      break;
+
+    case "save-annotations":
+      let savedAnnotations: AnnotationMemory = fs.existsSync(ANNOTATIONS_FILENAME)
+        ? jsonfile.readFileSync(ANNOTATIONS_FILENAME)
+        : {};
+      if (message.data.annotations.length > 0) {
+        savedAnnotations[message.data.key] = message.data.annotations;
+      } else {
+        delete savedAnnotations[message.data.key];
+      }
+      jsonfile.writeFileSync(ANNOTATIONS_FILENAME, savedAnnotations);
+      break;
+
     case "prompt-update":
       updateChecker.showPrompt();
       break;
@@ -255,99 +311,45 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
 
     case "historical-start":
       {
-        // Record opened files
+        // Record opened files (skipped for background reads like batch reports)
         const uuid: string = message.data.uuid;
         const path: string = message.data.path;
-        app.addRecentDocument(path);
-        fs.writeFile(AKIT_PATH_OUTPUT, path, () => {});
-
-        // Send data if all file reads finished
-        let completedCount = 0;
-        let targetCount = 0;
-        let errorMessage: null | string = null;
-        let hasHootNonPro = false;
-        let sendIfReady = () => {
-          if (completedCount === targetCount) {
-            sendMessage(window, "historical-data", {
-              files: results,
-              error: errorMessage,
-              uuid: uuid
-            });
-            if (hasHootNonPro) {
-              let prefs: Preferences = jsonfile.readFileSync(PREFS_FILENAME);
-              if (!prefs.skipHootNonProWarning) {
-                dialog
-                  .showMessageBox(window, {
-                    type: "info",
-                    title: "Alert",
-                    message: "Limited Signals Available",
-                    detail:
-                      "This log file includes a limited number of signals from Phoenix devices. Check the Phoenix documentation for details.",
-                    checkboxLabel: "Don't Show Again",
-                    icon: WINDOW_ICON
-                  })
-                  .then((response) => {
-                    if (response.checkboxChecked) {
-                      prefs.skipHootNonProWarning = true;
-                      jsonfile.writeFileSync(PREFS_FILENAME, prefs);
-                      sendAllPreferences();
-                    }
-                  });
-              }
-            }
-          }
-        };
+        const background: boolean = message.data.background === true;
+        if (!background) {
+          app.addRecentDocument(path);
+          fs.writeFile(AKIT_PATH_OUTPUT, path, () => {});
+        }
 
-        // Read data from file
-        let results: (Buffer | null)[] = [null];
-        let openPath = (path: string, callback: (buffer: Buffer) => void) => {
-          fs.open(path, "r", (error, file) => {
-            if (error) {
-              completedCount++;
-              sendIfReady();
-              return;
-            }
-            fs.readFile(file, (error, buffer) => {
-              completedCount++;
-              if (!error) {
-                callback(buffer);
-              }
-              sendIfReady();
-            });
+        // Read data and send to window
+        readHistoricalFiles(path).then((result) => {
+          sendMessage(window, "historical-data", {
+            files: result.files,
+            error: result.error,
+            uuid: uuid
           });
-        };
-        if (path.endsWith(".dslog")) {
-          // DSLog, open DSEvents too
-          results = [null, null];
-          targetCount += 2;
-          openPath(path, (buffer) => (results[0] = buffer));
-          openPath(path.slice(0, path.length - 5) + "dsevents", (buffer) => (results[1] = buffer));
-        } else if (path.endsWith(".hoot")) {
-          // Hoot, convert to WPILOG
-          targetCount += 1;
-          checkHootIsPro(path)
-            .then((isPro) => {
-              hasHootNonPro = hasHootNonPro || !isPro;
-            })
-            .finally(() => {
-              convertHoot(path)
-                .then((wpilogPath) => {
-                  openPath(wpilogPath, (buffer) => {
-                    results[0] = buffer;
-                    fs.rmSync(wpilogPath);
-                  });
+          if (result.hasHootNonPro && !background) {
+            let prefs: Preferences = jsonfile.readFileSync(PREFS_FILENAME);
+            if (!prefs.skipHootNonProWarning) {
+              dialog
+                .showMessageBox(window, {
+                  type: "info",
+                  title: "Alert",
+                  message: "Limited Signals Available",
+                  detail:
+                    "This log file includes a limited number of signals from Phoenix devices. Check the Phoenix documentation for details.",
+                  checkboxLabel: "Don't Show Again",
+                  icon: WINDOW_ICON
                 })
-                .catch((reason) => {
-                  errorMessage = reason;
-                  completedCount++;
-                  sendIfReady();
+                .then((response) => {
+                  if (response.checkboxChecked) {
+                    prefs.skipHootNonProWarning = true;
+                    jsonfile.writeFileSync(PREFS_FILENAME, prefs);
+                    sendAllPreferences();
+                  }
                 });
-            });
-        } else {
-          // Normal log, open normally
-          targetCount += 1;
-          openPath(path, (buffer) => (results[0] = buffer));
-        }
+            }
+          }
+        });
       }
       break;
 
@@ -436,6 +438,82 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
       rlogSockets[windowId]?.destroy();
       break;
 
+    case "live-generic-start":
+      genericServers[windowId]?.stop();
+      genericServers[windowId] = new GenericLiveServer(
+        message.data.port,
+        (records) => {
+          let success = sendMessage(window, "live-data", {
+            uuid: message.data.uuid,
+            success: true,
+            records: records
+          });
+          if (!success) {
+            genericServers[windowId]?.stop();
+          }
+        },
+        () => {
+          sendMessage(window, "live-data", { uuid: message.data.uuid, success: false });
+        }
+      );
+      break;
+
+    case "live-generic-stop":
+      genericServers[windowId]?.stop();
+      delete genericServers[windowId];
+      break;
+
+    case "start-replay-server":
+      if (replayServer !== null && replayServerWindow !== window) {
+        sendMessage(window, "replay-server-status", null);
+        dialog.showMessageBox(window, {
+          type: "error",
+          title: "Error",
+          message: "Cannot start replay server",
+          detail: "A replay server is already running in another window. Please stop it, then try again.",
+          icon: WINDOW_ICON
+        });
+        break;
+      }
+      stopReplayServer();
+      replayServerWindow = window;
+      replayServer = new NT4Server(
+        (clientCount) => {
+          if (!window.isDestroyed()) sendMessage(window, "replay-server-status", clientCount);
+        },
+        (errorMessage) => {
+          stopReplayServer();
+          if (window.isDestroyed()) return;
+          sendMessage(window, "replay-server-status", null);
+          dialog.showMessageBox(window, {
+            type: "error",
+            title: "Error",
+            message: "Cannot start replay server",
+            detail: errorMessage,
+            icon: WINDOW_ICON
+          });
+        }
+      );
+      break;
+
+    case "stop-replay-server":
+      if (replayServerWindow === window) stopReplayServer();
+      break;
+
+    case "replay-server-data":
+      if (replayServer === null || replayServerWindow !== window) break;
+      message.data.announce.forEach((topic: { name: string; type: string }) => {
+        replayServer!.announce(topic.name, topic.type);
+      });
+      message.data.unannounce.forEach((name: string) => {
+        replayServer!.unannounce(name);
+      });
+      message.data.values.forEach((entry: { name: string; value: unknown }) => {
+        replayServer!.setValue(entry.name, entry.value);
+      });
+      replayServer.flush();
+      break;
+
     case "live-pathplanner-start":
       pathPlannerSockets[windowId]?.destroy();
       pathPlannerSockets[windowId] = net.createConnection({
@@ -811,20 +889,6 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
             type: "separator"
           })
         );
-        let updateRecents = (newUnitConversion: UnitConversionPreset) => {
-          let newUnitConversionStr = JSON.stringify(newUnitConversion);
-          if (newUnitConversionStr !== JSON.stringify(NoopUnitConversion)) {
-            let recentUnits: UnitConversionPreset[] = fs.existsSync(RECENT_UNITS_FILENAME)
-              ? jsonfile.readFileSync(RECENT_UNITS_FILENAME)
-              : [];
-            recentUnits = recentUnits.filter((x) => JSON.stringify(x) !== newUnitConversionStr);
-            recentUnits.splice(0, 0, newUnitConversion);
-            while (recentUnits.length > MAX_RECENT_UNITS) {
-              recentUnits.pop();
-            }
-            jsonfile.writeFileSync(RECENT_UNITS_FILENAME, recentUnits);
-          }
-        };
         editAxisMenu.append(
           new MenuItem({
             label: "Edit Units...",
@@ -836,30 +900,20 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
                   unitConversion: newUnitConversion,
                   filter: filter
                 });
-                updateRecents(newUnitConversion);
+                updateRecentUnits(newUnitConversion);
               });
             }
           })
         );
-        let recentUnits: UnitConversionPreset[] = fs.existsSync(RECENT_UNITS_FILENAME)
-          ? jsonfile.readFileSync(RECENT_UNITS_FILENAME)
-          : [];
+        let recentUnits = getRecentUnits();
         editAxisMenu.append(
           new MenuItem({
             label: "Recent Presets",
             type: "submenu",
             enabled: recentUnits.length > 0,
             submenu: recentUnits.map((preset) => {
-              let fromToText =
-                preset.from === undefined || preset.to === undefined
-                  ? ""
-                  : preset.from?.replace(/(^\w|\s\w|\/\w)/g, (m) => m.toUpperCase()) +
-                    " \u2192 " +
-                    preset.to?.replace(/(^\w|\s\w|\/\w)/g, (m) => m.toUpperCase());
-              let factorText = preset.factor === 1 ? "" : "x" + preset.factor.toString();
-              let bothPresent = fromToText.length > 0 && factorText.length > 0;
               return {
-                label: fromToText + (bothPresent ? ", " : "") + factorText,
+                label: getUnitConversionLabel(preset),
                 click() {
                   sendMessage(window, "edit-axis", {
                     legend: legend,
@@ -867,7 +921,7 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
                     unitConversion: preset,
                     filter: filter
                   });
-                  updateRecents(preset);
+                  updateRecentUnits(preset);
                 }
               };
             })
@@ -973,77 +1027,606 @@ async function handleHubMessage(window: BrowserWindow, message: NamedMessage) {
       });
       break;
 
-    case "create-satellite":
-      createSatellite({ parentWindow: window, uuid: message.data.uuid, type: message.data.type });
+    case "ask-edit-table":
+      const editTableMenu = new Menu();
+      {
+        let index: number | null = message.data.index;
+        let format: TableColumnFormat | null = message.data.format;
+        let isNumeric: boolean = message.data.isNumeric;
+        let changesOnly: boolean = message.data.changesOnly;
+        let highlightChanges: boolean = message.data.highlightChanges;
+        let sendTableOptions = (
+          newFormat: TableColumnFormat | null,
+          newChangesOnly = changesOnly,
+          newHighlightChanges = highlightChanges
+        ) => {
+          sendMessage(window, "edit-table", {
+            index: index,
+            format: newFormat,
+            changesOnly: newChangesOnly,
+            highlightChanges: newHighlightChanges
+          });
+        };
+
+        if (index !== null && format !== null) {
+          // Column controls
+          const columnFormat = format;
+          editTableMenu.append(
+            new MenuItem({
+              label: "Edit Units...",
+              enabled: isNumeric,
+              click() {
+                createUnitConversionWindow(window, columnFormat.unitConversion, (newUnitConversion) => {
+                  sendTableOptions({ ...columnFormat, unitConversion: newUnitConversion });
+                  updateRecentUnits(newUnitConversion);
+                });
+              }
+            })
+          );
+          let recentUnits = getRecentUnits();
+          editTableMenu.append(
+            new MenuItem({
+              label: "Recent Presets",
+              type: "submenu",
+              enabled: isNumeric && recentUnits.length > 0,
+              submenu: recentUnits.map((preset) => {
+                return {
+                  label: getUnitConversionLabel(preset),
+                  click() {
+                    sendTableOptions({ ...columnFormat, unitConversion: preset });
+                    updateRecentUnits(preset);
+                  }
+                };
+              })
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Reset Units",
+              enabled: isNumeric && JSON.stringify(columnFormat.unitConversion) !== JSON.stringify(NoopUnitConversion),
+              click() {
+                sendTableOptions({ ...columnFormat, unitConversion: NoopUnitConversion });
+              }
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Precision",
+              type: "submenu",
+              enabled: isNumeric,
+              submenu: [null, 0, 1, 2, 3, 4, 5, 6].map((precision) => {
+                return {
+                  label:
+                    precision === null
+                      ? "Full"
+                      : precision.toString() + (precision === 1 ? " Decimal Place" : " Decimal Places"),
+                  type: "checkbox",
+                  checked: columnFormat.precision === precision,
+                  click() {
+                    sendTableOptions({ ...columnFormat, precision: precision });
+                  }
+                };
+              })
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              type: "separator"
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Sort Ascending",
+              type: "checkbox",
+              checked: columnFormat.sort === "ascending",
+              click() {
+                sendTableOptions({ ...columnFormat, sort: columnFormat.sort === "ascending" ? null : "ascending" });
+              }
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Sort Descending",
+              type: "checkbox",
+              checked: columnFormat.sort === "descending",
+              click() {
+                sendTableOptions({ ...columnFormat, sort: columnFormat.sort === "descending" ? null : "descending" });
+              }
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Search...",
+              click() {
+                createEditTableSearchWindow(window, columnFormat.search, (newSearch) => {
+                  sendTableOptions({ ...columnFormat, search: newSearch });
+                });
+              }
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              label: "Clear Search",
+              enabled: columnFormat.search.length > 0,
+              click() {
+                sendTableOptions({ ...columnFormat, search: "" });
+              }
+            })
+          );
+          editTableMenu.append(
+            new MenuItem({
+              type: "separator"
+            })
+          );
+        }
+
+        // Table controls
+        editTableMenu.append(
+          new MenuItem({
+            label: "Show Only Changed Rows",
+            type: "checkbox",
+            checked: changesOnly,
+            click() {
+              sendTableOptions(format, !changesOnly, highlightChanges);
+            }
+          })
+        );
+        editTableMenu.append(
+          new MenuItem({
+            label: "Highlight Changes",
+            type: "checkbox",
+            checked: highlightChanges,
+            click() {
+              sendTableOptions(format, changesOnly, !highlightChanges);
+            }
+          })
+        );
+      }
+      editTableMenu.popup({
+        window: window,
+        x: message.data.x,
+        y: message.data.y
+      });
       break;
 
-    case "update-satellite":
-      let satelliteUUID = message.data.uuid;
-      let command = message.data.command;
-      let title = message.data.title;
-      if (satelliteUUID in satelliteWindows) {
-        satelliteWindows[satelliteUUID].forEach((satellite) => {
-          if (satellite.isVisible()) {
-            sendMessage(satellite, "render", { command: command, title: title });
-          }
+    case "edit-annotation":
+      createEditAnnotationWindow(window, message.data.annotation, (annotation) => {
+        sendMessage(window, "set-annotation", {
+          index: message.data.index,
+          annotation: annotation
         });
-      }
+      });
       break;
 
-    case "ask-3d-camera":
-      select3DCameraPopup(window, message.data.options, message.data.selectedIndex, message.data.fov);
+    case "edit-time-offset":
+      createEditTimeOffsetWindow(window, message.data, (result) => {
+        sendMessage(window, "set-time-offset", result);
+      });
       break;
 
-    case "export-console":
-      dialog
-        .showSaveDialog(window, {
-          title: "Select export location for console log",
-          defaultPath: "Console " + new Date().toLocaleDateString().replaceAll("/", "-") + ".txt",
-          properties: ["createDirectory", "showOverwriteConfirmation", "dontAddToRecent"],
-          filters: [{ name: "Text files", extensions: ["txt"] }]
-        })
-        .then((response) => {
-          if (!response.canceled) {
-            fs.writeFile(response.filePath!, message.data, (err) => {
-              if (err) throw err;
+    case "ask-annotation-menu":
+      const annotationMenu = new Menu();
+      annotationMenu.append(
+        new MenuItem({
+          label: "Edit Annotation...",
+          click() {
+            createEditAnnotationWindow(window, message.data.annotation, (annotation) => {
+              sendMessage(window, "set-annotation", {
+                index: message.data.index,
+                annotation: annotation
+              });
             });
           }
-        });
+        })
+      );
+      annotationMenu.append(
+        new MenuItem({
+          label: "Remove Annotation",
+          click() {
+            sendMessage(window, "remove-annotation", message.data.index);
+          }
+        })
+      );
+      annotationMenu.popup({
+        window: window
+      });
       break;
 
-    case "prompt-export":
-      if (message.data.incompleteWarning) {
-        dialog
-          .showMessageBox(window, {
-            type: "info",
-            title: "Warning",
-            message: "Incomplete data for export",
-            detail:
-              'Some fields will not be available in the exported data. To save all fields from the server, the "Logging" live mode must be selected with NetworkTables, PathPlanner, or RLOG as the live source. Check the AdvantageScope documentation for details.',
-            buttons: ["Continue", "Cancel"],
-            icon: WINDOW_ICON
-          })
-          .then((value) => {
-            if (value.response === 0) {
-              createExportWindow(window, message.data.supportsAkit, message.data.path);
-            } else {
-              sendMessage(window, "cancel-export");
+    case "ask-edit-event-rule":
+    case "ask-event-rules-menu":
+      {
+        let rules: EventRuleState[] =
+          message.name === "ask-event-rules-menu" ? message.data : message.data === null ? [] : [message.data];
+        let getRuleItems = (rule: EventRuleState) => [
+          new MenuItem({
+            label: "Edit Rule...",
+            click() {
+              createEditEventRuleWindow(window, rule, (newRule) => {
+                sendMessage(window, "edit-event-rule", { rule: newRule, oldName: rule.name });
+              });
+            }
+          }),
+          new MenuItem({
+            label: "Remove Rule",
+            click() {
+              sendMessage(window, "remove-event-rule", rule.name);
             }
+          })
+        ];
+        const eventRuleMenu = new Menu();
+        if (message.name === "ask-edit-event-rule") {
+          rules.forEach((rule) => getRuleItems(rule).forEach((item) => eventRuleMenu.append(item)));
+        } else {
+          rules.forEach((rule) => {
+            let submenu = new Menu();
+            getRuleItems(rule).forEach((item) => submenu.append(item));
+            eventRuleMenu.append(new MenuItem({ label: rule.name, submenu: submenu }));
           });
-      } else {
-        createExportWindow(window, message.data.supportsAkit, message.data.path);
+          eventRuleMenu.append(new MenuItem({ type: "separator" }));
+          eventRuleMenu.append(
+            new MenuItem({
+              label: "New Event Rule...",
+              click() {
+                createEditEventRuleWindow(window, { name: "", condition: "", minDuration: 0 }, (rule) => {
+                  sendMessage(window, "add-event-rule", { rule: rule });
+                });
+              }
+            })
+          );
+        }
+        if (eventRuleMenu.items.length > 0) {
+          eventRuleMenu.popup({
+            window: window
+          });
+        }
       }
       break;
 
-    case "write-export":
-      fs.writeFile(message.data.path, message.data.content, (err) => {
-        if (err) throw err;
-        else {
-          sendMessage(window, "finish-export");
+    case "ask-tuning-menu":
+      {
+        let state: TuningValueEditState | null = message.data.state;
+        const tuningMenu = new Menu();
+        if (state !== null) {
+          tuningMenu.append(
+            new MenuItem({
+              label: "Edit Value...",
+              click() {
+                createEditTuningValueWindow(window, state!, (newState) => {
+                  sendMessage(window, "publish-tuning-value", newState);
+                });
+              }
+            })
+          );
         }
-      });
+        tuningMenu.append(
+          new MenuItem({
+            label: "Undo Last Change",
+            enabled: message.data.canUndo,
+            click() {
+              sendMessage(window, "undo-tuning-value", message.data.key);
+            }
+          })
+        );
+        tuningMenu.popup({
+          window: window
+        });
+      }
       break;
 
+    case "ask-device-menu":
+      {
+        const deviceMenu = new Menu();
+        [
+          ["Blink", "blink"],
+          ["Run Self-Test", "self-test"],
+          ["Read Configs", "configs"]
+        ].forEach(([label, action]) => {
+          deviceMenu.append(
+            new MenuItem({
+              label: label,
+              click() {
+                sendMessage(window, "run-device-action", { key: message.data, action: action });
+              }
+            })
+          );
+        });
+        deviceMenu.popup({
+          window: window
+        });
+      }
+      break;
+
+    case "ask-tuning-presets-menu":
+      {
+        const presetsMenu = new Menu();
+        let names: string[] = message.data.names;
+        names.forEach((name) => {
+          let submenu = new Menu();
+          submenu.append(
+            new MenuItem({
+              label: "Apply Preset",
+              click() {
+                sendMessage(window, "apply-tuning-preset", name);
+              }
+            })
+          );
+          submenu.append(
+            new MenuItem({
+              label: "Compare With Current...",
+              click() {
+                sendMessage(window, "compare-tuning-preset", name);
+              }
+            })
+          );
+          submenu.append(
+            new MenuItem({
+              label: "Remove Preset",
+              click() {
+                sendMessage(window, "remove-tuning-preset", name);
+              }
+            })
+          );
+          presetsMenu.append(new MenuItem({ label: name, submenu: submenu }));
+        });
+        if (names.length > 0) presetsMenu.append(new MenuItem({ type: "separator" }));
+        presetsMenu.append(
+          new MenuItem({
+            label: "Save Tuned Values as Preset...",
+            enabled: message.data.canSave,
+            click() {
+              createSaveTuningPresetWindow(window, names, (name) => {
+                sendMessage(window, "save-tuning-preset", name);
+              });
+            }
+          })
+        );
+        presetsMenu.popup({
+          window: window
+        });
+      }
+      break;
+
+    case "show-tuning-preset-diff":
+      dialog
+        .showMessageBox(window, {
+          type: "info",
+          title: "Tuning Preset",
+          message: 'Changes from preset "' + message.data.name + '"',
+          detail: message.data.detail,
+          buttons: ["Apply Preset", "Close"],
+          defaultId: 1,
+          icon: WINDOW_ICON
+        })
+        .then((value) => {
+          if (value.response === 0) {
+            sendMessage(window, "apply-tuning-preset", message.data.name);
+          }
+        });
+      break;
+
+    case "ask-edit-tuning-value":
+      createEditTuningValueWindow(window, message.data, (newState) => {
+        sendMessage(window, "publish-tuning-value", newState);
+      });
+      break;
+
+    case "ask-edit-alert-rule":
+    case "ask-alert-rules-menu":
+      {
+        let rules: AlertRuleState[] =
+          message.name === "ask-alert-rules-menu" ? message.data.rules : message.data === null ? [] : [message.data];
+        let getRuleItems = (rule: AlertRuleState) => [
+          new MenuItem({
+            label: "Edit Alert Rule...",
+            click() {
+              createEditAlertRuleWindow(window, rule, (newRule) => {
+                sendMessage(window, "edit-alert-rule", { rule: newRule, oldName: rule.name });
+              });
+            }
+          }),
+          new MenuItem({
+            label: "Remove Alert Rule",
+            click() {
+              sendMessage(window, "remove-alert-rule", rule.name);
+            }
+          })
+        ];
+        const alertRuleMenu = new Menu();
+        if (message.name === "ask-edit-alert-rule") {
+          rules.forEach((rule) => getRuleItems(rule).forEach((item) => alertRuleMenu.append(item)));
+        } else {
+          rules.forEach((rule) => {
+            let submenu = new Menu();
+            getRuleItems(rule).forEach((item) => submenu.append(item));
+            alertRuleMenu.append(new MenuItem({ label: rule.name, submenu: submenu }));
+          });
+          alertRuleMenu.append(new MenuItem({ type: "separator" }));
+          alertRuleMenu.append(
+            new MenuItem({
+              label: "New Alert Rule...",
+              click() {
+                createEditAlertRuleWindow(window, { name: "", key: "", condition: "above", value: 0 }, (rule) => {
+                  sendMessage(window, "add-alert-rule", { rule: rule });
+                });
+              }
+            })
+          );
+          alertRuleMenu.append(
+            new MenuItem({
+              label: "Clear Alert History",
+              enabled: message.data.hasHistory,
+              click() {
+                sendMessage(window, "clear-alert-history");
+              }
+            })
+          );
+        }
+        if (alertRuleMenu.items.length > 0) {
+          alertRuleMenu.popup({
+            window: window
+          });
+        }
+      }
+      break;
+
+    case "show-alert-notification":
+      if (Notification.isSupported()) {
+        new Notification({
+          title: message.data.title,
+          body: message.data.content,
+          silent: true // Sound is played by the hub
+        }).show();
+      }
+      break;
+
+    case "ask-edit-computed-field":
+      const computedFieldMenu = new Menu();
+      computedFieldMenu.append(
+        new MenuItem({
+          label: "Edit Computed Field...",
+          click() {
+            createEditComputedFieldWindow(window, message.data, (field) => {
+              sendMessage(window, "edit-computed-field", {
+                oldName: message.data.name,
+                name: field.name,
+                expression: field.expression
+              });
+            });
+          }
+        })
+      );
+      computedFieldMenu.append(
+        new MenuItem({
+          label: "Remove Computed Field",
+          click() {
+            sendMessage(window, "remove-computed-field", message.data.name);
+          }
+        })
+      );
+      computedFieldMenu.popup({
+        window: window
+      });
+      break;
+
+    case "create-satellite":
+      createSatellite({ parentWindow: window, uuid: message.data.uuid, type: message.data.type });
+      break;
+
+    case "update-satellite":
+      let satelliteUUID = message.data.uuid;
+      let command = message.data.command;
+      let title = message.data.title;
+      if (satelliteUUID in satelliteWindows) {
+        satelliteWindows[satelliteUUID].forEach((satellite) => {
+          if (satellite.isVisible()) {
+            sendMessage(satellite, "render", { command: command, title: title });
+          }
+        });
+      }
+      break;
+
+    case "ask-3d-camera":
+      select3DCameraPopup(window, message.data.options, message.data.selectedIndex, message.data.fov);
+      break;
+
+    case "export-console":
+      dialog
+        .showSaveDialog(window, {
+          title: "Select export location for console log",
+          defaultPath: "Console " + new Date().toLocaleDateString().replaceAll("/", "-") + ".txt",
+          properties: ["createDirectory", "showOverwriteConfirmation", "dontAddToRecent"],
+          filters: [{ name: "Text files", extensions: ["txt"] }]
+        })
+        .then((response) => {
+          if (!response.canceled) {
+            fs.writeFile(response.filePath!, message.data, (err) => {
+              if (err) throw err;
+            });
+          }
+        });
+      break;
+
+    case "batch-report-progress":
+    case "batch-report-row":
+      if (batchReportWindow !== null && !batchReportWindow.isDestroyed() && batchReportHubWindow === window) {
+        sendMessage(batchReportWindow, message.name, message.data);
+      }
+      break;
+
+    case "export-statistics-report":
+      dialog
+        .showSaveDialog(window, {
+          title: "Select export location for statistics report",
+          defaultPath: "Statistics " + new Date().toLocaleDateString().replaceAll("/", "-") + ".csv",
+          properties: ["createDirectory", "showOverwriteConfirmation", "dontAddToRecent"],
+          filters: [{ name: "CSV files", extensions: ["csv"] }]
+        })
+        .then((response) => {
+          if (!response.canceled) {
+            fs.writeFile(response.filePath!, message.data, (err) => {
+              if (err) throw err;
+            });
+          }
+        });
+      break;
+
+    case "prompt-export":
+      if (message.data.incompleteWarning) {
+        dialog
+          .showMessageBox(window, {
+            type: "info",
+            title: "Warning",
+            message: "Incomplete data for export",
+            detail:
+              'Some fields will not be available in the exported data. To save all fields from the server, the "Logging" live mode must be selected with NetworkTables, PathPlanner, or RLOG as the live source. Check the AdvantageScope documentation for details.',
+            buttons: ["Continue", "Cancel"],
+            icon: WINDOW_ICON
+          })
+          .then((value) => {
+            if (value.response === 0) {
+              createExportWindow(window, message.data.supportsAkit, message.data.path);
+            } else {
+              sendMessage(window, "cancel-export");
+            }
+          });
+      } else {
+        createExportWindow(window, message.data.supportsAkit, message.data.path);
+      }
+      break;
+
+    case "write-export":
+      fs.writeFile(message.data.path, message.data.content, (err) => {
+        if (err) throw err;
+        else {
+          sendMessage(window, "finish-export");
+        }
+      });
+      break;
+
+    case "write-live-recording": {
+      let recordingId = window.id.toString() + "_" + message.data.recordingId.toString();
+      liveRecordingWrites = liveRecordingWrites
+        .then(() => {
+          if (liveRecordingFailed.has(recordingId)) return;
+          return message.data.append
+            ? fs.promises.appendFile(message.data.path, message.data.content)
+            : fs.promises.writeFile(message.data.path, message.data.content, { flag: "wx" }); // Never overwrite
+        })
+        .catch(() => {
+          if (liveRecordingFailed.has(recordingId)) return;
+          liveRecordingFailed.add(recordingId);
+          sendMessage(window, "stop-live-recording");
+          dialog.showMessageBox(window, {
+            type: "error",
+            title: "Error",
+            message: "Failed to record live session",
+            detail: "There was a problem while writing to " + message.data.path + ". Recording has been stopped.",
+            icon: WINDOW_ICON
+          });
+        });
+      break;
+    }
+
     case "set-exporting":
       if (message.data) {
         hubExportingIds.add(window.id);
@@ -1092,6 +1675,117 @@ setInterval(() => {
   });
 }, PATHPLANNER_PING_DELAY_MS);
 
+/**
+ * Reads the contents of a historical log file, including any associated files.
+ * This has no side effects (e.g. recent documents or dialogs) so it can be
+ * used for background reads.
+ */
+function readHistoricalFiles(
+  path: string
+): Promise<{ files: (Buffer | null)[]; error: string | null; hasHootNonPro: boolean }> {
+  return new Promise((resolve) => {
+    // Resolve if all file reads finished
+    let completedCount = 0;
+    let targetCount = 0;
+    let errorMessage: null | string = null;
+    let hasHootNonPro = false;
+    let sendIfReady = () => {
+      if (completedCount === targetCount) {
+        resolve({ files: results, error: errorMessage, hasHootNonPro: hasHootNonPro });
+      }
+    };
+
+    // Read data from file
+    let results: (Buffer | null)[] = [null];
+    let openPath = (path: string, callback: (buffer: Buffer) => void) => {
+      fs.open(path, "r", (error, file) => {
+        if (error) {
+          completedCount++;
+          sendIfReady();
+          return;
+        }
+        fs.readFile(file, (error, buffer) => {
+          completedCount++;
+          if (!error) {
+            callback(buffer);
+          }
+          sendIfReady();
+        });
+      });
+    };
+    if (path.endsWith(".dslog")) {
+      // DSLog, open DSEvents too
+      results = [null, null];
+      targetCount += 2;
+      openPath(path, (buffer) => (results[0] = buffer));
+      openPath(path.slice(0, path.length - 5) + "dsevents", (buffer) => (results[1] = buffer));
+    } else if (path.endsWith(".hoot")) {
+      // Hoot, convert to WPILOG
+      targetCount += 1;
+      checkHootIsPro(path)
+        .then((isPro) => {
+          hasHootNonPro = hasHootNonPro || !isPro;
+        })
+        .finally(() => {
+          convertHoot(path)
+            .then((wpilogPath) => {
+              openPath(wpilogPath, (buffer) => {
+                results[0] = buffer;
+                fs.rmSync(wpilogPath);
+              });
+            })
+            .catch((reason) => {
+              errorMessage = reason;
+              completedCount++;
+              sendIfReady();
+            });
+        });
+    } else {
+      // Normal log, open normally
+      targetCount += 1;
+      openPath(path, (buffer) => (results[0] = buffer));
+    }
+  });
+}
+
+/** Stops the NT4 replay server if running. */
+function stopReplayServer() {
+  replayServer?.stop();
+  replayServer = null;
+  replayServerWindow = null;
+}
+
+/** Returns the most recently used unit conversion presets. */
+function getRecentUnits(): UnitConversionPreset[] {
+  return fs.existsSync(RECENT_UNITS_FILENAME) ? jsonfile.readFileSync(RECENT_UNITS_FILENAME) : [];
+}
+
+/** Adds a unit conversion preset to the start of the recent presets. */
+function updateRecentUnits(newUnitConversion: UnitConversionPreset) {
+  let newUnitConversionStr = JSON.stringify(newUnitConversion);
+  if (newUnitConversionStr !== JSON.stringify(NoopUnitConversion)) {
+    let recentUnits = getRecentUnits().filter((x) => JSON.stringify(x) !== newUnitConversionStr);
+    recentUnits.splice(0, 0, newUnitConversion);
+    while (recentUnits.length > MAX_RECENT_UNITS) {
+      recentUnits.pop();
+    }
+    jsonfile.writeFileSync(RECENT_UNITS_FILENAME, recentUnits);
+  }
+}
+
+/** Returns the menu label for a unit conversion preset. */
+function getUnitConversionLabel(preset: UnitConversionPreset): string {
+  let fromToText =
+    preset.from === undefined || preset.to === undefined
+      ? ""
+      : preset.from?.replace(/(^\w|\s\w|\/\w)/g, (m) => m.toUpperCase()) +
+        " \u2192 " +
+        preset.to?.replace(/(^\w|\s\w|\/\w)/g, (m) => m.toUpperCase());
+  let factorText = preset.factor === 1 ? "" : "x" + preset.factor.toString();
+  let bothPresent = fromToText.length > 0 && factorText.length > 0;
+  return fromToText + (bothPresent ? ", " : "") + factorText;
+}
+
 /** Shows a popup to create a new tab on a hub window. */
 function newTabPopup(window: BrowserWindow) {
   if (!hubWindows.includes(window)) return;
@@ -1532,6 +2226,79 @@ function downloadSave(files: string[]) {
   });
 }
 
+/**
+ * Process a message from a batch report window.
+ * @param message The received message
+ */
+function handleBatchReportMessage(message: NamedMessage) {
+  if (!batchReportWindow) return;
+  if (batchReportWindow.isDestroyed()) return;
+
+  switch (message.name) {
+    case "select-folder":
+      dialog
+        .showOpenDialog(batchReportWindow, {
+          title: "Select a folder of robot logs",
+          properties: ["openDirectory"],
+          defaultPath: getDefaultLogPath()
+        })
+        .then((response) => {
+          if (response.canceled || response.filePaths.length === 0 || !batchReportWindow) return;
+          let folder = response.filePaths[0];
+          fs.readdir(folder, (err, files) => {
+            if (err || !batchReportWindow) return;
+            sendMessage(batchReportWindow, "set-folder", {
+              path: folder,
+              files: files
+                .filter(
+                  (file) =>
+                    !file.startsWith(".") &&
+                    [".rlog", ".wpilog", ".dslog", ".hoot", ".mcap"].includes(path.extname(file).toLowerCase())
+                )
+                .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+                .map((file) => path.join(folder, file))
+            });
+          });
+        });
+      break;
+
+    case "start":
+      if (batchReportHubWindow === null || batchReportHubWindow.isDestroyed()) {
+        dialog.showMessageBox(batchReportWindow, {
+          type: "error",
+          title: "Error",
+          message: "Cannot generate report",
+          detail: "The AdvantageScope window used to decode logs was closed. Please reopen the batch report window.",
+          icon: WINDOW_ICON
+        });
+      } else {
+        sendMessage(batchReportHubWindow, "start-batch-report", message.data);
+      }
+      break;
+
+    case "export":
+      dialog
+        .showSaveDialog(batchReportWindow, {
+          title: "Select export location for batch report",
+          defaultPath: "Batch Report " + new Date().toLocaleDateString().replaceAll("/", "-") + ".csv",
+          properties: ["createDirectory", "showOverwriteConfirmation", "dontAddToRecent"],
+          filters: [
+            { name: "CSV files", extensions: ["csv"] },
+            { name: "HTML files", extensions: ["html"] }
+          ]
+        })
+        .then((response) => {
+          if (!response.canceled) {
+            let isHtml = response.filePath!.toLowerCase().endsWith(".html");
+            fs.writeFile(response.filePath!, isHtml ? message.data.html : message.data.csv, (err) => {
+              if (err) throw err;
+            });
+          }
+        });
+      break;
+  }
+}
+
 // CREATE WINDOWS
 
 /** Create the app menu. */
@@ -1554,7 +2321,9 @@ function setupMenu() {
                 title: "Select the robot log file(s) to open",
                 message: "If multiple files are selected, timestamps will be aligned automatically",
                 properties: ["openFile", "multiSelections"],
-                filters: [{ name: "Robot logs", extensions: ["rlog", "wpilog", "dslog", "dsevents", "hoot"] }],
+                filters: [
+                  { name: "Robot logs", extensions: ["rlog", "wpilog", "dslog", "dsevents", "hoot", "mcap", "csv"] }
+                ],
                 defaultPath: getDefaultLogPath()
               })
               .then((files) => {
@@ -1574,7 +2343,9 @@ function setupMenu() {
               .showOpenDialog(window, {
                 title: "Select the robot log file(s) to add to the current log",
                 properties: ["openFile", "multiSelections"],
-                filters: [{ name: "Robot logs", extensions: ["rlog", "wpilog", "dslog", "dsevents", "hoot"] }],
+                filters: [
+                  { name: "Robot logs", extensions: ["rlog", "wpilog", "dslog", "dsevents", "hoot", "mcap", "csv"] }
+                ],
                 defaultPath: getDefaultLogPath()
               })
               .then((files) => {
@@ -1603,14 +2374,36 @@ function setupMenu() {
           }
         },
         {
-          label: "Download Logs...",
-          accelerator: "CmdOrCtrl+D",
+          label: "Connect to Multiple Robots...",
           click(_, baseWindow) {
             const window = baseWindow as BrowserWindow | undefined;
-            if (window === undefined) return;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            let prefs: Preferences = jsonfile.readFileSync(PREFS_FILENAME);
+            createEditLiveRobotsWindow(window, prefs.liveRobots, (robots) => {
+              prefs.liveRobots = robots;
+              jsonfile.writeFileSync(PREFS_FILENAME, prefs);
+              sendAllPreferences();
+              sendMessage(window, "start-live-multi", robots);
+            });
+          }
+        },
+        {
+          label: "Download Logs...",
+          accelerator: "CmdOrCtrl+D",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined) return;
             openDownload(window);
           }
         },
+        {
+          label: "Batch Event Report...",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            openBatchReport(window);
+          }
+        },
         {
           label: "Load Zebra MotionWorks™",
           accelerator: "Alt+Z",
@@ -1620,6 +2413,36 @@ function setupMenu() {
             sendMessage(window, "load-zebra");
           }
         },
+        {
+          label: "New Computed Field...",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            createEditComputedFieldWindow(window, { name: "", expression: "" }, (field) => {
+              sendMessage(window, "add-computed-field", field);
+            });
+          }
+        },
+        {
+          label: "New Event Rule...",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            createEditEventRuleWindow(window, { name: "", condition: "", minDuration: 0 }, (rule) => {
+              sendMessage(window, "add-event-rule", { rule: rule });
+            });
+          }
+        },
+        {
+          label: "New Alert Rule...",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            createEditAlertRuleWindow(window, { name: "", key: "", condition: "above", value: 0 }, (rule) => {
+              sendMessage(window, "add-alert-rule", { rule: rule });
+            });
+          }
+        },
         { type: "separator" },
         {
           label: "Use USB roboRIO Address",
@@ -1640,6 +2463,37 @@ function setupMenu() {
             sendMessage(window, "start-export");
           }
         },
+        {
+          label: "Record Live Session",
+          submenu: [
+            {
+              label: "Start Recording...",
+              click(_, baseWindow) {
+                const window = baseWindow as BrowserWindow | undefined;
+                if (window === undefined || !hubWindows.includes(window)) return;
+                dialog
+                  .showOpenDialog(window, {
+                    title: "Select the folder to save recorded log files",
+                    properties: ["openDirectory", "createDirectory", "dontAddToRecent"],
+                    defaultPath: getDefaultLogPath()
+                  })
+                  .then((result) => {
+                    if (result.filePaths.length > 0) {
+                      sendMessage(window!, "start-live-recording", result.filePaths[0]);
+                    }
+                  });
+              }
+            },
+            {
+              label: "Stop Recording",
+              click(_, baseWindow) {
+                const window = baseWindow as BrowserWindow | undefined;
+                if (window === undefined || !hubWindows.includes(window)) return;
+                sendMessage(window, "stop-live-recording");
+              }
+            }
+          ]
+        },
         {
           label: "Publish NT Data",
           submenu: [
@@ -1669,6 +2523,23 @@ function setupMenu() {
                 if (window === undefined || !hubWindows.includes(window)) return;
                 sendMessage(window, "stop-publish");
               }
+            },
+            { type: "separator" },
+            {
+              label: "Host Replay Server",
+              click(_, baseWindow) {
+                const window = baseWindow as BrowserWindow | undefined;
+                if (window === undefined || !hubWindows.includes(window)) return;
+                sendMessage(window, "start-replay-server");
+              }
+            },
+            {
+              label: "Stop Replay Server",
+              click(_, baseWindow) {
+                const window = baseWindow as BrowserWindow | undefined;
+                if (window === undefined || !hubWindows.includes(window)) return;
+                sendMessage(window, "stop-replay-server");
+              }
             }
           ]
         },
@@ -1817,6 +2688,60 @@ function setupMenu() {
             sendMessage(window, "zoom-enabled");
           }
         },
+        {
+          label: "Log Time Offset...",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            sendMessage(window, "ask-edit-time-offset");
+          }
+        },
+        {
+          label: "Compare Merged Logs",
+          submenu: [
+            { label: "Off", alignment: null },
+            { label: "Align to First Enable", alignment: "enabled" },
+            { label: "Align to Auto Start", alignment: "auto" },
+            { label: "Align to Teleop Start", alignment: "teleop" }
+          ].map((item) => {
+            return {
+              label: item.label,
+              click(_, baseWindow) {
+                const window = baseWindow as BrowserWindow | undefined;
+                if (window === undefined || !hubWindows.includes(window)) return;
+                sendMessage(window, "set-comparison", item.alignment);
+              }
+            };
+          })
+        },
+        { type: "separator" },
+        {
+          label: "Add Annotation...",
+          accelerator: "Alt+A",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            sendMessage(window, "add-annotation");
+          }
+        },
+        {
+          label: "Previous Annotation",
+          accelerator: "Alt+[",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            sendMessage(window, "jump-annotation", false);
+          }
+        },
+        {
+          label: "Next Annotation",
+          accelerator: "Alt+]",
+          click(_, baseWindow) {
+            const window = baseWindow as BrowserWindow | undefined;
+            if (window === undefined || !hubWindows.includes(window)) return;
+            sendMessage(window, "jump-annotation", true);
+          }
+        },
         { type: "separator" },
         {
           label: "Toggle Sidebar",
@@ -2305,6 +3230,8 @@ function createHubWindow(state?: WindowState) {
     if (!firstLoad) {
       createPorts(); // Create ports on reload
       rlogSockets[window.id]?.destroy(); // Destroy any existing RLOG sockets
+      genericServers[window.id]?.stop(); // Stop any existing generic servers
+      if (replayServerWindow === window) stopReplayServer();
     }
 
     // Launch dev tools
@@ -2380,48 +3307,456 @@ function createHubWindow(state?: WindowState) {
       }
     }
   });
-  window.on("close", (event) => {
-    if (hubExportingIds.has(window.id)) {
-      const choice = dialog.showMessageBoxSync(window, {
-        type: "info",
-        title: "Warning",
-        message: "Export in progress",
-        detail: "Are you sure you want to close the window while an export is in progress? Data will NOT be saved.",
-        buttons: ["Don't Close", "Close"],
-        defaultId: 0
-      });
-      if (choice === 0) event.preventDefault();
+  window.on("close", (event) => {
+    if (hubExportingIds.has(window.id)) {
+      const choice = dialog.showMessageBoxSync(window, {
+        type: "info",
+        title: "Warning",
+        message: "Export in progress",
+        detail: "Are you sure you want to close the window while an export is in progress? Data will NOT be saved.",
+        buttons: ["Don't Close", "Close"],
+        defaultId: 0
+      });
+      if (choice === 0) event.preventDefault();
+    }
+  });
+  const windowId = window.id; // Not available after the window is closed
+  window.once("closed", () => {
+    genericServers[windowId]?.stop();
+    delete genericServers[windowId];
+    if (replayServerWindow === window) stopReplayServer();
+  });
+  window.on("enter-full-screen", () => sendMessage(window, "set-fullscreen", true));
+  window.on("leave-full-screen", () => sendMessage(window, "set-fullscreen", false));
+  window.on("blur", () => sendMessage(window, "set-focused", false));
+  window.on("focus", () => {
+    sendMessage(window, "set-focused", true);
+    hubWindows.splice(hubWindows.indexOf(window), 1);
+    hubWindows.splice(0, 0, window);
+  });
+  powerMonitor.on("on-ac", () => sendMessage(window, "set-battery", false));
+  powerMonitor.on("on-battery", () => sendMessage(window, "set-battery", true));
+  window.loadFile(path.join(__dirname, "../www/hub.html"));
+
+  return window;
+}
+
+/**
+ * Creates a new window to edit axis range.
+ * @param parentWindow The parent window to use for alignment
+ * @param range The window range
+ * @param callback Window callback
+ */
+function createEditRangeWindow(
+  parentWindow: Electron.BrowserWindow,
+  range: [number, number],
+  callback: (range: [number, number]) => void
+) {
+  const editWindow = new BrowserWindow({
+    width: 300,
+    height: 108,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(range);
+    port2.on("message", (event) => {
+      editWindow.destroy();
+      callback(event.data);
+    });
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  editWindow.loadFile(path.join(__dirname, "../www/editRange.html"));
+}
+
+/**
+ * Creates a new window to edit unit conversion for axis.
+ * @param parentWindow The parent window to use for alignment
+ * @param unitConversion Unit conversion preset to use.
+ * @param callback Window callback
+ */
+function createUnitConversionWindow(
+  parentWindow: Electron.BrowserWindow,
+  unitConversion: UnitConversionPreset,
+  callback: (unitConversion: UnitConversionPreset) => void
+) {
+  const unitConversionWindow = new BrowserWindow({
+    width: 300,
+    height: 162,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  unitConversionWindow.setMenu(null);
+  unitConversionWindow.once("ready-to-show", parentWindow.show);
+  unitConversionWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    unitConversionWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(unitConversion);
+    port2.on("message", (event) => {
+      unitConversionWindow.destroy();
+      callback(event.data);
+    });
+    unitConversionWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    unitConversionWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  unitConversionWindow.loadFile(path.join(__dirname, "../www/unitConversion.html"));
+}
+
+/**
+ * Creates a new window to edit a tab name.
+ * @param parentWindow The parent window to use for alignment
+ * @param name Name to use.
+ * @param callback Window callback.
+ */
+function createRenameTabWindow(
+  parentWindow: Electron.BrowserWindow,
+  name: string,
+  callback: (newName: string) => void
+) {
+  const renameTabWindow = new BrowserWindow({
+    width: 300,
+    height: 81,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  renameTabWindow.setMenu(null);
+  renameTabWindow.once("ready-to-show", parentWindow.show);
+  renameTabWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    renameTabWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(name);
+    port2.on("message", (event) => {
+      renameTabWindow.destroy();
+      callback(event.data);
+    });
+    renameTabWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    renameTabWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  renameTabWindow.loadFile(path.join(__dirname, "../www/renameTab.html"));
+}
+
+/**
+ * Creates a new window to edit the search text for a table column.
+ * @param parentWindow The parent window to use for alignment
+ * @param search Current search text.
+ * @param callback Window callback.
+ */
+function createEditTableSearchWindow(
+  parentWindow: Electron.BrowserWindow,
+  search: string,
+  callback: (newSearch: string) => void
+) {
+  const editTableSearchWindow = new BrowserWindow({
+    width: 300,
+    height: 81,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  editTableSearchWindow.setMenu(null);
+  editTableSearchWindow.once("ready-to-show", parentWindow.show);
+  editTableSearchWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editTableSearchWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(search);
+    port2.on("message", (event) => {
+      editTableSearchWindow.destroy();
+      callback(event.data);
+    });
+    editTableSearchWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editTableSearchWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  editTableSearchWindow.loadFile(path.join(__dirname, "../www/editTableSearch.html"));
+}
+
+/**
+ * Creates a new window to edit an annotation.
+ * @param parentWindow The parent window to use for alignment
+ * @param annotation Current annotation.
+ * @param callback Window callback, only called if the edit is confirmed.
+ */
+function createEditAnnotationWindow(
+  parentWindow: Electron.BrowserWindow,
+  annotation: Annotation,
+  callback: (annotation: Annotation) => void
+) {
+  const editWindow = new BrowserWindow({
+    width: 300,
+    height: 135,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(annotation);
+    port2.on("message", (event) => {
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
+    });
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  editWindow.loadFile(path.join(__dirname, "../www/editAnnotation.html"));
+}
+
+/**
+ * Creates a new window to edit an event detection rule.
+ * @param parentWindow The parent window to use for alignment
+ * @param rule Current rule.
+ * @param callback Window callback, only called if the edit is confirmed.
+ */
+function createEditEventRuleWindow(
+  parentWindow: Electron.BrowserWindow,
+  rule: EventRuleState,
+  callback: (rule: EventRuleState) => void
+) {
+  const editWindow = new BrowserWindow({
+    width: 450,
+    height: 135,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(rule);
+    port2.on("message", (event) => {
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
+    });
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  editWindow.loadFile(path.join(__dirname, "../www/editEventRule.html"));
+}
+
+/**
+ * Creates a new window to edit a live alert rule.
+ * @param parentWindow The parent window to use for alignment
+ * @param rule Current rule.
+ * @param callback Window callback, only called if the edit is confirmed.
+ */
+function createEditAlertRuleWindow(
+  parentWindow: Electron.BrowserWindow,
+  rule: AlertRuleState,
+  callback: (rule: AlertRuleState) => void
+) {
+  const editWindow = new BrowserWindow({
+    width: 450,
+    height: 162,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(rule);
+    port2.on("message", (event) => {
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
+    });
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  editWindow.loadFile(path.join(__dirname, "../www/editAlertRule.html"));
+}
+
+/**
+ * Creates a new window to edit the value of a tunable field.
+ * @param parentWindow The parent window to use for alignment
+ * @param state The field and its current value.
+ * @param callback Window callback, only called if the edit is confirmed.
+ */
+function createEditTuningValueWindow(
+  parentWindow: Electron.BrowserWindow,
+  state: TuningValueEditState,
+  callback: (state: TuningValueEditState) => void
+) {
+  let valueRows = 1;
+  if (state.type.startsWith("struct:")) {
+    valueRows = Math.min(state.value.length, 14);
+  } else if (state.type.endsWith("[]")) {
+    valueRows = 4;
+  }
+  const editWindow = new BrowserWindow({
+    width: 450,
+    height: 54 + 27 * (2 + valueRows),
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
     }
   });
-  window.on("enter-full-screen", () => sendMessage(window, "set-fullscreen", true));
-  window.on("leave-full-screen", () => sendMessage(window, "set-fullscreen", false));
-  window.on("blur", () => sendMessage(window, "set-focused", false));
-  window.on("focus", () => {
-    sendMessage(window, "set-focused", true);
-    hubWindows.splice(hubWindows.indexOf(window), 1);
-    hubWindows.splice(0, 0, window);
+
+  // Finish setup
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(state);
+    port2.on("message", (event) => {
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
+    });
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
   });
-  powerMonitor.on("on-ac", () => sendMessage(window, "set-battery", false));
-  powerMonitor.on("on-battery", () => sendMessage(window, "set-battery", true));
-  window.loadFile(path.join(__dirname, "../www/hub.html"));
+  editWindow.loadFile(path.join(__dirname, "../www/editTuningValue.html"));
+}
 
-  return window;
+/**
+ * Creates a new window to name a tuning preset.
+ * @param parentWindow The parent window to use for alignment
+ * @param names Names of the existing presets.
+ * @param callback Window callback, only called if the name is confirmed.
+ */
+function createSaveTuningPresetWindow(
+  parentWindow: Electron.BrowserWindow,
+  names: string[],
+  callback: (name: string) => void
+) {
+  const presetWindow = new BrowserWindow({
+    width: 300,
+    height: 81,
+    useContentSize: true,
+    resizable: false,
+    icon: WINDOW_ICON,
+    show: false,
+    parent: parentWindow,
+    modal: true,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  presetWindow.setMenu(null);
+  presetWindow.once("ready-to-show", parentWindow.show);
+  presetWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    const { port1, port2 } = new MessageChannelMain();
+    presetWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(names);
+    port2.on("message", (event) => {
+      presetWindow.destroy();
+      if (event.data !== null) callback(event.data);
+    });
+    presetWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    presetWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    port2.start();
+  });
+  presetWindow.loadFile(path.join(__dirname, "../www/saveTuningPreset.html"));
 }
 
 /**
- * Creates a new window to edit axis range.
+ * Creates a new window to edit the time offset of a merged log.
  * @param parentWindow The parent window to use for alignment
- * @param range The window range
- * @param callback Window callback
+ * @param state The merged logs and available fields.
+ * @param callback Window callback, only called if the edit is confirmed.
  */
-function createEditRangeWindow(
+function createEditTimeOffsetWindow(
   parentWindow: Electron.BrowserWindow,
-  range: [number, number],
-  callback: (range: [number, number]) => void
+  state: TimeOffsetEditState,
+  callback: (result: TimeOffsetEditResult) => void
 ) {
   const editWindow = new BrowserWindow({
-    width: 300,
-    height: 108,
+    width: 450,
+    height: 162,
     useContentSize: true,
     resizable: false,
     icon: WINDOW_ICON,
@@ -2440,32 +3775,32 @@ function createEditRangeWindow(
     // Create ports on reload
     const { port1, port2 } = new MessageChannelMain();
     editWindow.webContents.postMessage("port", null, [port1]);
-    port2.postMessage(range);
+    port2.postMessage(state);
     port2.on("message", (event) => {
       editWindow.destroy();
-      callback(event.data);
+      if (event.data !== null) callback(event.data);
     });
     editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
     editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
     port2.start();
   });
-  editWindow.loadFile(path.join(__dirname, "../www/editRange.html"));
+  editWindow.loadFile(path.join(__dirname, "../www/editTimeOffset.html"));
 }
 
 /**
- * Creates a new window to edit unit conversion for axis.
+ * Creates a new window to edit the robots used when connecting to multiple robots.
  * @param parentWindow The parent window to use for alignment
- * @param unitConversion Unit conversion preset to use.
- * @param callback Window callback
+ * @param robots The current list of robots.
+ * @param callback Window callback, only called if the edit is confirmed.
  */
-function createUnitConversionWindow(
+function createEditLiveRobotsWindow(
   parentWindow: Electron.BrowserWindow,
-  unitConversion: UnitConversionPreset,
-  callback: (unitConversion: UnitConversionPreset) => void
+  robots: LiveRobotConfig[],
+  callback: (robots: LiveRobotConfig[]) => void
 ) {
-  const unitConversionWindow = new BrowserWindow({
-    width: 300,
-    height: 162,
+  const editWindow = new BrowserWindow({
+    width: 500,
+    height: 189,
     useContentSize: true,
     resizable: false,
     icon: WINDOW_ICON,
@@ -2478,38 +3813,38 @@ function createUnitConversionWindow(
   });
 
   // Finish setup
-  unitConversionWindow.setMenu(null);
-  unitConversionWindow.once("ready-to-show", parentWindow.show);
-  unitConversionWindow.webContents.on("dom-ready", () => {
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
     // Create ports on reload
     const { port1, port2 } = new MessageChannelMain();
-    unitConversionWindow.webContents.postMessage("port", null, [port1]);
-    port2.postMessage(unitConversion);
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(robots);
     port2.on("message", (event) => {
-      unitConversionWindow.destroy();
-      callback(event.data);
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
     });
-    unitConversionWindow.on("blur", () => port2.postMessage({ isFocused: false }));
-    unitConversionWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
     port2.start();
   });
-  unitConversionWindow.loadFile(path.join(__dirname, "../www/unitConversion.html"));
+  editWindow.loadFile(path.join(__dirname, "../www/editLiveRobots.html"));
 }
 
 /**
- * Creates a new window to edit a tab name.
+ * Creates a new window to edit a computed field.
  * @param parentWindow The parent window to use for alignment
- * @param name Name to use.
- * @param callback Window callback.
+ * @param field Current name and expression.
+ * @param callback Window callback, only called if the edit is confirmed.
  */
-function createRenameTabWindow(
+function createEditComputedFieldWindow(
   parentWindow: Electron.BrowserWindow,
-  name: string,
-  callback: (newName: string) => void
+  field: ComputedFieldState,
+  callback: (field: ComputedFieldState) => void
 ) {
-  const renameTabWindow = new BrowserWindow({
-    width: 300,
-    height: 81,
+  const editWindow = new BrowserWindow({
+    width: 450,
+    height: 108,
     useContentSize: true,
     resizable: false,
     icon: WINDOW_ICON,
@@ -2522,22 +3857,22 @@ function createRenameTabWindow(
   });
 
   // Finish setup
-  renameTabWindow.setMenu(null);
-  renameTabWindow.once("ready-to-show", parentWindow.show);
-  renameTabWindow.webContents.on("dom-ready", () => {
+  editWindow.setMenu(null);
+  editWindow.once("ready-to-show", parentWindow.show);
+  editWindow.webContents.on("dom-ready", () => {
     // Create ports on reload
     const { port1, port2 } = new MessageChannelMain();
-    renameTabWindow.webContents.postMessage("port", null, [port1]);
-    port2.postMessage(name);
+    editWindow.webContents.postMessage("port", null, [port1]);
+    port2.postMessage(field);
     port2.on("message", (event) => {
-      renameTabWindow.destroy();
-      callback(event.data);
+      editWindow.destroy();
+      if (event.data !== null) callback(event.data);
     });
-    renameTabWindow.on("blur", () => port2.postMessage({ isFocused: false }));
-    renameTabWindow.on("focus", () => port2.postMessage({ isFocused: true }));
+    editWindow.on("blur", () => port2.postMessage({ isFocused: false }));
+    editWindow.on("focus", () => port2.postMessage({ isFocused: true }));
     port2.start();
   });
-  renameTabWindow.loadFile(path.join(__dirname, "../www/renameTab.html"));
+  editWindow.loadFile(path.join(__dirname, "../www/editComputedField.html"));
 }
 
 /**
@@ -2826,7 +4161,7 @@ function openPreferences(parentWindow: Electron.BrowserWindow) {
   }
 
   const width = 400;
-  const rows = 10;
+  const rows = 11;
   const height = rows * 27 + 54;
   prefsWindow = new BrowserWindow({
     width: width,
@@ -2919,6 +4254,61 @@ function openDownload(parentWindow: Electron.BrowserWindow) {
   downloadWindow.loadFile(path.join(__dirname, "../www/download.html"));
 }
 
+/**
+ * Creates a new batch report window if it doesn't already exist.
+ * @param parentWindow The hub window used to decode logs and for alignment
+ */
+function openBatchReport(parentWindow: Electron.BrowserWindow) {
+  if (batchReportWindow !== null && !batchReportWindow.isDestroyed()) {
+    batchReportWindow.focus();
+    return;
+  }
+
+  const width = 900;
+  const height = 500;
+  batchReportHubWindow = parentWindow;
+  batchReportWindow = new BrowserWindow({
+    width: width,
+    height: height,
+    minWidth: 500,
+    minHeight: 300,
+    x: Math.floor(parentWindow.getBounds().x + parentWindow.getBounds().width / 2 - width / 2),
+    y: Math.floor(parentWindow.getBounds().y + parentWindow.getBounds().height / 2 - height / 2),
+    resizable: true,
+    icon: WINDOW_ICON,
+    show: false,
+    fullscreenable: false,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js")
+    }
+  });
+
+  // Finish setup
+  batchReportWindow.setMenu(null);
+  batchReportWindow.setFullScreenable(false); // Call separately b/c the normal behavior is broken: https://github.com/electron/electron/pull/39086
+  batchReportWindow.once("ready-to-show", batchReportWindow.show);
+  batchReportWindow.once("close", () => {
+    if (batchReportHubWindow !== null && !batchReportHubWindow.isDestroyed()) {
+      sendMessage(batchReportHubWindow, "stop-batch-report");
+    }
+    batchReportHubWindow = null;
+  });
+  batchReportWindow.webContents.on("dom-ready", () => {
+    // Create ports on reload
+    if (batchReportWindow === null) return;
+    const { port1, port2 } = new MessageChannelMain();
+    batchReportWindow.webContents.postMessage("port", null, [port1]);
+    windowPorts[batchReportWindow.id] = port2;
+    port2.on("message", (event) => {
+      if (batchReportWindow) handleBatchReportMessage(event.data);
+    });
+    port2.start();
+  });
+  batchReportWindow.on("blur", () => sendMessage(batchReportWindow!, "set-focused", false));
+  batchReportWindow.on("focus", () => sendMessage(batchReportWindow!, "set-focused", true));
+  batchReportWindow.loadFile(path.join(__dirname, "../www/batchReport.html"));
+}
+
 /**
  * Creates a new licenses window if it doesn't already exist.
  * @param parentWindow The parent window to use for alignment
@@ -3107,6 +4497,17 @@ process.env["ELECTRON_DISABLE_SECURITY_WARNINGS"] = "true";
 process.on("unhandledRejection", () => {});
 
 app.whenReady().then(() => {
+  // Export from the command line instead of opening windows
+  if (exportCliError !== null) {
+    console.error("Error: " + exportCliError + "\n\n" + EXPORT_CLI_USAGE);
+    app.exit(2);
+    return;
+  }
+  if (exportCliRequest !== null) {
+    runExportCli(exportCliRequest);
+    return;
+  }
+
   // Check preferences and set theme
   if (!fs.existsSync(PREFS_FILENAME)) {
     jsonfile.writeFileSync(PREFS_FILENAME, DEFAULT_PREFS);
@@ -3136,7 +4537,8 @@ app.whenReady().then(() => {
         oldPrefs.liveMode === "nt4-akit" ||
         oldPrefs.liveMode === "phoenix" ||
         oldPrefs.liveMode === "pathplanner" ||
-        oldPrefs.liveMode === "rlog")
+        oldPrefs.liveMode === "rlog" ||
+        oldPrefs.liveMode === "generic")
     ) {
       prefs.liveMode = oldPrefs.liveMode;
     }
@@ -3155,6 +4557,19 @@ app.whenReady().then(() => {
     if ("rlogPort" in oldPrefs && typeof oldPrefs.rlogPort === "number") {
       prefs.rlogPort = oldPrefs.rlogPort;
     }
+    if ("genericPort" in oldPrefs && typeof oldPrefs.genericPort === "number") {
+      prefs.genericPort = oldPrefs.genericPort;
+    }
+    if ("liveRobots" in oldPrefs && Array.isArray(oldPrefs.liveRobots)) {
+      prefs.liveRobots = oldPrefs.liveRobots.filter(
+        (robot: any) =>
+          typeof robot === "object" &&
+          robot !== null &&
+          typeof robot.prefix === "string" &&
+          typeof robot.address === "string" &&
+          (robot.mode === "nt4" || robot.mode === "nt4-akit" || robot.mode === "phoenix")
+      );
+    }
     if ("threeDimensionMode" in oldPrefs) {
       // Migrate from v2
       switch (oldPrefs.threeDimensionMode) {
@@ -3254,7 +4669,9 @@ app.whenReady().then(() => {
       x.endsWith(".rlog") ||
       x.endsWith(".dslog") ||
       x.endsWith(".dsevents") ||
-      x.endsWith(".hoot")
+      x.endsWith(".hoot") ||
+      x.endsWith(".mcap") ||
+      x.endsWith(".csv")
   );
   if (fileArgs.length > 0) {
     firstOpenPath = fileArgs[0];
@@ -3285,6 +4702,82 @@ app.on("window-all-closed", () => {
   if (process.platform !== "darwin") app.quit();
 });
 
+/**
+ * Converts a log file in a hidden window, then exits with a status code.
+ * @param request The export request from the command line
+ */
+function runExportCli(request: ExportCliRequest) {
+  let finish = (success: boolean, message: string) => {
+    if (success) {
+      console.log(message);
+    } else {
+      console.error("Error: " + message);
+    }
+    app.exit(success ? 0 : 1);
+  };
+  if (!fs.existsSync(request.input)) {
+    finish(false, "Log file not found: " + request.input);
+    return;
+  }
+
+  const exportWindow = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      preload: path.join(__dirname, "preload.js"),
+      backgroundThrottling: false
+    }
+  });
+  exportWindow.webContents.on("render-process-gone", (_, details) => {
+    finish(false, "The export process stopped unexpectedly (" + details.reason + ")");
+  });
+  exportWindow.on("unresponsive", () => {
+    finish(false, "The export process is not responding");
+  });
+  setTimeout(() => {
+    finish(false, "Timed out after " + (EXPORT_CLI_TIMEOUT_MS / 60000).toString() + " minutes");
+  }, EXPORT_CLI_TIMEOUT_MS);
+  exportWindow.webContents.on("dom-ready", () => {
+    const { port1, port2 } = new MessageChannelMain();
+    exportWindow.webContents.postMessage("port", null, [port1]);
+    windowPorts[exportWindow.id] = port2;
+    port2.on("message", (event) => {
+      let message: NamedMessage = event.data;
+      switch (message.name) {
+        case "historical-start":
+          readHistoricalFiles(message.data.path).then((result) => {
+            sendMessage(exportWindow, "historical-data", {
+              files: result.files,
+              error: result.error,
+              uuid: message.data.uuid
+            });
+          });
+          break;
+
+        case "finished":
+          fs.writeFile(request.output, message.data, (err) => {
+            if (err) {
+              finish(false, "Failed to write " + request.output + " (" + err.message + ")");
+            } else {
+              finish(true, "Exported to " + request.output);
+            }
+          });
+          break;
+
+        case "failed":
+          finish(false, message.data);
+          break;
+      }
+    });
+    port2.start();
+    sendMessage(exportWindow, "start", {
+      platform: process.platform,
+      path: request.input,
+      options: request.options
+    });
+  });
+  exportWindow.loadFile(path.join(__dirname, "../www/headlessExport.html"));
+}
+
 // macOS only, Linux & Windows start a new process and pass the file as an argument
 app.on("open-file", (_, path) => {
   if (app.isReady()) {
@@ -6,6 +6,7 @@ const RIO_PATH = document.getElementById("rioPath") as HTMLInputElement;
 const LIVE_MODE = document.getElementById("liveMode") as HTMLInputElement;
 const LIVE_SUBSCRIBE_MODE = document.getElementById("liveSubscribeMode") as HTMLInputElement;
 const LIVE_DISCARD = document.getElementById("liveDiscard") as HTMLInputElement;
+const GENERIC_PORT = document.getElementById("genericPort") as HTMLInputElement;
 const PUBLISH_FILTER = document.getElementById("publishFilter") as HTMLInputElement;
 const THREE_DIMENSION_MODE_AC = document.getElementById("threeDimensionModeAc") as HTMLInputElement;
 const THREE_DIMENSION_MODE_BATTERY = document.getElementById("threeDimensionModeBattery") as HTMLInputElement;
@@ -45,6 +46,7 @@ window.addEventListener("message", (event) => {
       LIVE_MODE.value = oldPrefs.liveMode;
       LIVE_SUBSCRIBE_MODE.value = oldPrefs.liveSubscribeMode;
       LIVE_DISCARD.value = oldPrefs.liveDiscard.toString();
+      GENERIC_PORT.value = oldPrefs.genericPort.toString();
       PUBLISH_FILTER.value = oldPrefs.publishFilter;
       THREE_DIMENSION_MODE_AC.value = oldPrefs.threeDimensionModeAc;
       THREE_DIMENSION_MODE_BATTERY.value = oldPrefs.threeDimensionModeBattery;
@@ -58,17 +60,23 @@ window.addEventListener("message", (event) => {
           if (THEME.value === "dark") theme = "dark";
           if (THEME.value === "system") theme = "system";
 
-          let liveMode: "nt4" | "nt4-akit" | "phoenix" | "pathplanner" | "rlog" = "nt4";
+          let liveMode: "nt4" | "nt4-akit" | "phoenix" | "pathplanner" | "rlog" | "generic" = "nt4";
           if (LIVE_MODE.value === "nt4") liveMode = "nt4";
           if (LIVE_MODE.value === "nt4-akit") liveMode = "nt4-akit";
           if (LIVE_MODE.value === "phoenix") liveMode = "phoenix";
           if (LIVE_MODE.value === "pathplanner") liveMode = "pathplanner";
           if (LIVE_MODE.value === "rlog") liveMode = "rlog";
+          if (LIVE_MODE.value === "generic") liveMode = "generic";
 
           let liveSubscribeMode: "low-bandwidth" | "logging" = "low-bandwidth";
           if (LIVE_SUBSCRIBE_MODE.value === "low-bandwidth") liveSubscribeMode = "low-bandwidth";
           if (LIVE_SUBSCRIBE_MODE.value === "logging") liveSubscribeMode = "logging";
 
+          let genericPort = Number(GENERIC_PORT.value);
+          if (!Number.isInteger(genericPort) || genericPort < 1 || genericPort > 65535) {
+            genericPort = oldPrefs.genericPort;
+          }
+
           let threeDimensionModeAc: "cinematic" | "standard" | "low-power" = "standard";
           if (THREE_DIMENSION_MODE_AC.value === "cinematic") threeDimensionModeAc = "cinematic";
           if (THREE_DIMENSION_MODE_AC.value === "standard") threeDimensionModeAc = "standard";
@@ -89,6 +97,8 @@ window.addEventListener("message", (event) => {
             liveDiscard: Number(LIVE_DISCARD.value),
             publishFilter: PUBLISH_FILTER.value,
             rlogPort: oldPrefs.rlogPort,
+            genericPort: genericPort,
+            liveRobots: oldPrefs.liveRobots,
             threeDimensionModeAc: threeDimensionModeAc,
             threeDimensionModeBattery: threeDimensionModeBattery,
             tbaApiKey: TBA_API_KEY.value,
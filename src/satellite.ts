@@ -11,8 +11,10 @@ import MechanismRenderer from "./shared/renderers/MechanismRenderer";
 import MetadataRenderer from "./shared/renderers/MetadataRenderer";
 import OdometryRenderer from "./shared/renderers/OdometryRenderer";
 import PointsRenderer from "./shared/renderers/PointsRenderer";
+import SignalGeneratorRenderer from "./shared/renderers/SignalGeneratorRenderer";
 import StatisticsRenderer from "./shared/renderers/StatisticsRenderer";
 import SwerveRenderer from "./shared/renderers/SwerveRenderer";
+import SysIdRenderer from "./shared/renderers/SysIdRenderer";
 import TabRenderer from "./shared/renderers/TabRenderer";
 import TableRenderer from "./shared/renderers/TableRenderer";
 import ThreeDimensionRenderer from "./shared/renderers/ThreeDimensionRenderer";
@@ -95,6 +97,12 @@ function updateVisualizer() {
     case TabType.Metadata:
       renderer = new MetadataRenderer(root);
       break;
+    case TabType.SysId:
+      renderer = new SysIdRenderer(root);
+      break;
+    case TabType.SignalGenerator:
+      renderer = new SignalGeneratorRenderer(root);
+      break;
   }
 }
 
@@ -230,6 +238,13 @@ window.addEventListener("keydown", (event) => {
       event.preventDefault();
       window.selection.stepCycle(event.code === "ArrowRight");
       break;
+
+    case "BracketLeft":
+    case "BracketRight":
+      if (event.metaKey || event.ctrlKey) return;
+      event.preventDefault();
+      window.selection.jumpToAnnotation(event.code === "BracketRight");
+      break;
   }
 });
 
@@ -292,6 +307,10 @@ class MockSelection implements Selection {
     window.sendMainMessage("call-selection-setter", { name: "stepCycle", args: [isForward] });
   }
 
+  jumpToAnnotation(isForward: boolean): void {
+    window.sendMainMessage("call-selection-setter", { name: "jumpToAnnotation", args: [isForward] });
+  }
+
   setLiveConnected(timeSupplier: () => number): void {
     throw new Error("Method not implemented.");
   }
@@ -0,0 +1,12 @@
+/** A user-created marker on the timeline, covering either a single time or a range. */
+export default interface Annotation {
+  label: string;
+  start: number;
+  end: number | null; // Null for point annotations (bookmarks)
+}
+
+/** Saved annotations for each log file, indexed by the file path. */
+export type AnnotationMemory = { [path: string]: Annotation[] };
+
+/** The key used to store annotations when exporting. */
+export const ANNOTATIONS_KEY = "/Annotations";
@@ -0,0 +1,145 @@
+import MatchInfo, { MatchType } from "./MatchInfo";
+import { htmlEncode } from "./util";
+
+/** The summary of a single log file in a batch report. */
+export interface BatchReportRow {
+  name: string;
+  failed: boolean;
+  match: MatchInfo | null;
+  enabledTime: number | null;
+  brownouts: number | null;
+  minBatteryVoltage: number | null;
+  errors: string[];
+  warnings: string[];
+  fields: (BatchReportFieldStats | null)[];
+}
+
+export interface BatchReportFieldStats {
+  min: number;
+  mean: number;
+  max: number;
+}
+
+export interface BatchReportColumn {
+  title: string;
+  digits?: number;
+  getValue: (row: BatchReportRow) => string | number | null;
+}
+
+/** Returns the columns of a batch report, including the statistics of each user-selected field. */
+export function getBatchReportColumns(fields: string[]): BatchReportColumn[] {
+  let columns: BatchReportColumn[] = [
+    { title: "File", getValue: (row) => row.name },
+    { title: "Match", getValue: (row) => (row.match === null ? null : getMatchLabel(row.match)) },
+    { title: "Enabled Time (s)", digits: 1, getValue: (row) => row.enabledTime },
+    { title: "Brownouts", digits: 0, getValue: (row) => row.brownouts },
+    { title: "Min Battery (V)", digits: 2, getValue: (row) => row.minBatteryVoltage },
+    { title: "Errors", digits: 0, getValue: (row) => (row.failed ? null : row.errors.length) },
+    { title: "Warnings", digits: 0, getValue: (row) => (row.failed ? null : row.warnings.length) }
+  ];
+  fields.forEach((field, index) => {
+    (["min", "mean", "max"] as const).forEach((stat) => {
+      columns.push({
+        title: field + " (" + stat.slice(0, 1).toUpperCase() + stat.slice(1) + ")",
+        digits: 3,
+        getValue: (row) => row.fields[index]?.[stat] ?? null
+      });
+    });
+  });
+  columns.push({
+    title: "Alerts",
+    getValue: (row) => [...row.errors, ...row.warnings].join("; ")
+  });
+  return columns;
+}
+
+/** Returns a short label for a match, like "CMPTX Q12". */
+export function getMatchLabel(match: MatchInfo): string {
+  let typeLetter = "";
+  switch (match.matchType) {
+    case MatchType.Practice:
+      typeLetter = "P";
+      break;
+    case MatchType.Qualification:
+      typeLetter = "Q";
+      break;
+    case MatchType.Elimination:
+      typeLetter = "E";
+      break;
+  }
+  return (match.event.length > 0 ? match.event + " " : "") + typeLetter + match.matchNumber.toString();
+}
+
+/** Formats a value for display, or returns "-" if it is not available. */
+export function formatBatchReportValue(value: string | number | null, digits?: number): string {
+  if (value === null) return "-";
+  if (typeof value === "string") return value;
+  if (isNaN(value)) return "-";
+  return digits === undefined ? value.toString() : value.toFixed(digits);
+}
+
+/** Compares two values for sorting. Missing values are always placed last. */
+export function compareBatchReportValues(a: string | number | null, b: string | number | null): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return a.toString().localeCompare(b.toString(), undefined, { numeric: true });
+}
+
+/** Converts a batch report to CSV, using full precision. */
+export function getBatchReportCSV(rows: BatchReportRow[], fields: string[]): string {
+  let columns = getBatchReportColumns(fields);
+  let formatCell = (value: string | number | null): string => {
+    if (value === null) return "";
+    let text = value.toString();
+    if (text.includes(",") || text.includes('"') || text.includes("\n")) {
+      text = '"' + text.replaceAll('"', '""') + '"';
+    }
+    return text;
+  };
+  return [
+    columns.map((column) => formatCell(column.title)).join(","),
+    ...rows.map((row) => columns.map((column) => formatCell(column.getValue(row))).join(","))
+  ].join("\n");
+}
+
+/** Converts a batch report to a standalone HTML document. */
+export function getBatchReportHTML(rows: BatchReportRow[], fields: string[], title: string): string {
+  let columns = getBatchReportColumns(fields);
+  let header = columns.map((column) => "<th>" + htmlEncode(column.title) + "</th>").join("");
+  let body = rows
+    .map(
+      (row) =>
+        "<tr" +
+        (row.failed ? ' class="failed"' : "") +
+        ">" +
+        columns
+          .map((column) => "<td>" + htmlEncode(formatBatchReportValue(column.getValue(row), column.digits)) + "</td>")
+          .join("") +
+        "</tr>"
+    )
+    .join("\n");
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <title>${htmlEncode(title)}</title>
+    <style>
+      body { font-family: sans-serif; font-size: 12px; }
+      table { border-collapse: collapse; }
+      th, td { border: 1px solid #ccc; padding: 2px 6px; white-space: nowrap; }
+      th { background-color: #eee; }
+      tr.failed td { color: #c00; }
+    </style>
+  </head>
+  <body>
+    <h1>${htmlEncode(title)}</h1>
+    <table>
+      <thead><tr>${header}</tr></thead>
+      <tbody>
+${body}
+      </tbody>
+    </table>
+  </body>
+</html>
+`;
+}
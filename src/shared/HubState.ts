@@ -3,6 +3,13 @@ import TabType from "./TabType";
 export interface HubState {
   sidebar: SidebarState;
   tabs: TabsState;
+  computedFields: ComputedFieldState[];
+  eventRules: EventRuleState[];
+  alertRules: AlertRuleState[];
+  alertHistory: TriggeredAlertState[];
+  tuningPresets: TuningPresetState[];
+  comparison: ComparisonAlignment | null;
+  timeOffsets: { [path: string]: number };
 }
 
 export interface SidebarState {
@@ -10,6 +17,70 @@ export interface SidebarState {
   expanded: string[];
 }
 
+export interface ComputedFieldState {
+  name: string;
+  expression: string;
+}
+
+export interface EventRuleState {
+  name: string;
+  condition: string;
+  minDuration: number;
+}
+
+export interface AlertRuleState {
+  name: string;
+  key: string;
+  condition: AlertCondition;
+  /** Threshold for "above" and "below", or timeout in seconds for "stale" */
+  value: number;
+}
+
+export type AlertCondition = "above" | "below" | "stale" | "rising" | "falling";
+
+export interface TriggeredAlertState {
+  rule: string;
+  message: string;
+  /** Log timestamp in seconds */
+  timestamp: number;
+  /** Wall clock time in milliseconds */
+  date: number;
+}
+
+export interface TimeOffsetEditState {
+  logs: { prefix: string; name: string; offset: number }[];
+  /** Numeric and boolean fields, grouped by merge prefix */
+  fields: { [prefix: string]: string[] };
+}
+
+export type TimeOffsetEditResult =
+  | { prefix: string; offset: number }
+  | { prefix: string; referenceKey: string; targetKey: string };
+
+export interface TuningValueEditState {
+  key: string;
+  /** WPILib type string */
+  type: string;
+  /** Current value, with the members of structs flattened to a list */
+  value: string | number[] | boolean[] | string[] | TuningStructMember[];
+  /** Available options if the field is a string chooser */
+  options: string[] | null;
+}
+
+export interface TuningStructMember {
+  /** Path to the member, separated by "/" */
+  name: string;
+  value: number | boolean | string;
+}
+
+export interface TuningPresetState {
+  name: string;
+  /** Tuned values by field key, using the same format as the live tuner (e.g. decoded structs) */
+  values: { [key: string]: any };
+}
+
+export type ComparisonAlignment = "enabled" | "auto" | "teleop";
+
 export interface TabsState {
   selected: number;
   tabs: TabState[];
@@ -3,11 +3,13 @@ export default interface Preferences {
   theme: "light" | "dark" | "system";
   rioAddress: string;
   rioPath: string;
-  liveMode: "nt4" | "nt4-akit" | "phoenix" | "pathplanner" | "rlog";
+  liveMode: "nt4" | "nt4-akit" | "phoenix" | "pathplanner" | "rlog" | "generic";
   liveSubscribeMode: "low-bandwidth" | "logging";
   liveDiscard: number;
   publishFilter: string;
   rlogPort: number;
+  genericPort: number;
+  liveRobots: LiveRobotConfig[];
   threeDimensionModeAc: "cinematic" | "standard" | "low-power";
   threeDimensionModeBattery: "" | "cinematic" | "standard" | "low-power";
   tbaApiKey: string;
@@ -17,3 +19,10 @@ export default interface Preferences {
   skipFrcLogFolderDefault: boolean;
   usb?: boolean;
 }
+
+/** A live source to combine with others when connecting to multiple robots. */
+export interface LiveRobotConfig {
+  prefix: string;
+  address: string;
+  mode: "nt4" | "nt4-akit" | "phoenix";
+}
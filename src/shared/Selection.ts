@@ -38,6 +38,9 @@ export default interface Selection {
   /** Steps forward or backward by one cycle. */
   stepCycle(isForward: boolean): void;
 
+  /** Moves the selected time to the next or previous annotation. */
+  jumpToAnnotation(isForward: boolean): void;
+
   /** Records that the live connection has started. */
   setLiveConnected(timeSupplier: () => number): void;
 
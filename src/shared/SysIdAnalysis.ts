@@ -0,0 +1,280 @@
+/** The model used to fit feedforward gains. */
+export type SysIdMechanism = "simple" | "elevator" | "arm";
+
+/** A single sample from a SysId test routine. */
+export type SysIdSample = {
+  isDynamic: boolean;
+  voltage: number;
+  position: number;
+  velocity: number;
+  acceleration: number;
+};
+
+/** A segment of a SysId test routine, where each sample was recorded under the same test state. */
+export type SysIdSegment = {
+  isDynamic: boolean;
+  timestamps: number[];
+  voltages: number[];
+  positions: number[];
+  velocities: number[];
+};
+
+export type SysIdFeedforward = {
+  kS: number;
+  kV: number;
+  kA: number;
+  kG: number;
+  rSquared: number;
+  rmse: number;
+};
+
+export type SysIdFeedback = {
+  kP: number;
+  kD: number;
+};
+
+const MOTION_THRESHOLD = 0.05; // Fraction of max velocity in each quasistatic test
+const OUTLIER_THRESHOLD = 3; // Residual standard deviations
+
+/** Returns whether a value of the "SysIdTestState" field represents an active test. */
+export function parseTestState(state: string): "quasistatic" | "dynamic" | null {
+  let lowerState = state.toLowerCase();
+  if (lowerState.startsWith("quasistatic")) return "quasistatic";
+  if (lowerState.startsWith("dynamic")) return "dynamic";
+  return null;
+}
+
+/**
+ * Converts raw test segments to samples for fitting, calculating the acceleration
+ * and removing data that does not represent steady motion.
+ */
+export function getSysIdSamples(segments: SysIdSegment[]): SysIdSample[] {
+  let samples: SysIdSample[] = [];
+  segments.forEach((segment) => {
+    let count = segment.timestamps.length;
+    if (count < 3) return;
+
+    // Calculate acceleration using central differences
+    let accelerations: number[] = [];
+    for (let i = 0; i < count; i++) {
+      let previous = Math.max(i - 1, 0);
+      let next = Math.min(i + 1, count - 1);
+      let dt = segment.timestamps[next] - segment.timestamps[previous];
+      accelerations.push(dt > 0 ? (segment.velocities[next] - segment.velocities[previous]) / dt : NaN);
+    }
+
+    // Find the first valid sample. Quasistatic tests skip the data before the mechanism
+    // starts moving, and dynamic tests skip the data before the peak acceleration.
+    let startIndex = 0;
+    if (segment.isDynamic) {
+      let maxAcceleration = 0;
+      accelerations.forEach((acceleration, index) => {
+        if (Math.abs(acceleration) > maxAcceleration) {
+          maxAcceleration = Math.abs(acceleration);
+          startIndex = index;
+        }
+      });
+    }
+    let maxVelocity = segment.velocities.reduce((max, velocity) => Math.max(max, Math.abs(velocity)), 0);
+
+    // Add samples (skipping the endpoints, which do not have a central difference)
+    for (let i = Math.max(startIndex, 1); i < count - 1; i++) {
+      let sample: SysIdSample = {
+        isDynamic: segment.isDynamic,
+        voltage: segment.voltages[i],
+        position: segment.positions[i],
+        velocity: segment.velocities[i],
+        acceleration: accelerations[i]
+      };
+      if (
+        !segment.isDynamic &&
+        (Math.abs(sample.velocity) < maxVelocity * MOTION_THRESHOLD || Math.sign(sample.voltage) === 0)
+      ) {
+        continue;
+      }
+      if ([sample.voltage, sample.position, sample.velocity, sample.acceleration].every((x) => isFinite(x))) {
+        samples.push(sample);
+      }
+    }
+  });
+  return samples;
+}
+
+/**
+ * Fits feedforward gains using ordinary least squares, then removes outliers and fits again.
+ * @returns The feedforward gains along with the samples used in the final fit, or null if there is not enough data
+ */
+export function fitSysIdFeedforward(
+  samples: SysIdSample[],
+  mechanism: SysIdMechanism
+): { feedforward: SysIdFeedforward; samples: SysIdSample[] } | null {
+  let getRow = (sample: SysIdSample): number[] => {
+    let row = [Math.sign(sample.velocity), sample.velocity, sample.acceleration];
+    if (mechanism === "elevator") row.push(1);
+    if (mechanism === "arm") row.push(Math.cos(sample.position));
+    return row;
+  };
+
+  // Initial fit
+  let coefficients = leastSquares(
+    samples.map(getRow),
+    samples.map((sample) => sample.voltage)
+  );
+  if (coefficients === null) return null;
+
+  // Remove outliers and refit
+  let getResidual = (sample: SysIdSample) =>
+    sample.voltage - getRow(sample).reduce((sum, x, index) => sum + x * coefficients![index], 0);
+  let residuals = samples.map(getResidual);
+  let residualDeviation = Math.sqrt(residuals.reduce((sum, x) => sum + x * x, 0) / residuals.length);
+  let filteredSamples = samples.filter(
+    (_, index) => Math.abs(residuals[index]) <= residualDeviation * OUTLIER_THRESHOLD
+  );
+  let filteredCoefficients = leastSquares(
+    filteredSamples.map(getRow),
+    filteredSamples.map((sample) => sample.voltage)
+  );
+  if (filteredCoefficients !== null) {
+    coefficients = filteredCoefficients;
+    samples = filteredSamples;
+  }
+
+  // Calculate fit quality
+  let meanVoltage = samples.reduce((sum, sample) => sum + sample.voltage, 0) / samples.length;
+  let totalSumSquares = samples.reduce((sum, sample) => sum + Math.pow(sample.voltage - meanVoltage, 2), 0);
+  let residualSumSquares = samples.reduce((sum, sample) => sum + Math.pow(getResidual(sample), 2), 0);
+
+  return {
+    feedforward: {
+      kS: coefficients[0],
+      kV: coefficients[1],
+      kA: coefficients[2],
+      kG: mechanism === "simple" ? 0 : coefficients[3],
+      rSquared: totalSumSquares === 0 ? NaN : 1 - residualSumSquares / totalSumSquares,
+      rmse: Math.sqrt(residualSumSquares / samples.length)
+    },
+    samples: samples
+  };
+}
+
+/**
+ * Calculates feedback gains using a linear-quadratic regulator, based on the
+ * velocity system model defined by the feedforward gains.
+ * @param feedforward The feedforward gains
+ * @param loopType The type of controller
+ * @param maxPositionError The maximum acceptable position error
+ * @param maxVelocityError The maximum acceptable velocity error
+ * @param maxEffort The maximum acceptable control effort in volts
+ * @param period The loop period in seconds
+ * @returns The feedback gains, or null if the model is not valid
+ */
+export function calcSysIdFeedback(
+  feedforward: SysIdFeedforward,
+  loopType: "position" | "velocity",
+  maxPositionError: number,
+  maxVelocityError: number,
+  maxEffort: number,
+  period: number
+): SysIdFeedback | null {
+  if (!(feedforward.kV > 0) || !(feedforward.kA > 0) || maxEffort <= 0) return null;
+  let a = -feedforward.kV / feedforward.kA;
+  let b = 1 / feedforward.kA;
+  let expAT = Math.exp(a * period);
+  let r = 1 / (maxEffort * maxEffort);
+
+  if (loopType === "velocity") {
+    if (maxVelocityError <= 0) return null;
+    let k = dlqr([[expAT]], [[(b * (expAT - 1)) / a]], [1 / (maxVelocityError * maxVelocityError)], r);
+    return k === null ? null : { kP: k[0], kD: 0 };
+  } else {
+    if (maxPositionError <= 0 || maxVelocityError <= 0) return null;
+    let k = dlqr(
+      [
+        [1, (expAT - 1) / a],
+        [0, expAT]
+      ],
+      [[(b * (expAT - 1 - a * period)) / (a * a)], [(b * (expAT - 1)) / a]],
+      [1 / (maxPositionError * maxPositionError), 1 / (maxVelocityError * maxVelocityError)],
+      r
+    );
+    return k === null ? null : { kP: k[0], kD: k[1] };
+  }
+}
+
+/**
+ * Solves a least squares problem using the normal equations.
+ * @returns The coefficients, or null if the system is singular
+ */
+function leastSquares(rows: number[][], targets: number[]): number[] | null {
+  if (rows.length === 0 || rows.length < rows[0].length) return null;
+  let n = rows[0].length;
+
+  // Build normal equations as an augmented matrix
+  let matrix: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    let matrixRow: number[] = [];
+    for (let j = 0; j < n; j++) {
+      matrixRow.push(rows.reduce((sum, row) => sum + row[i] * row[j], 0));
+    }
+    matrixRow.push(rows.reduce((sum, row, index) => sum + row[i] * targets[index], 0));
+    matrix.push(matrixRow);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][column]) < 1e-12) return null;
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    for (let row = 0; row < n; row++) {
+      if (row === column) continue;
+      let factor = matrix[row][column] / matrix[column][column];
+      for (let k = column; k <= n; k++) {
+        matrix[row][k] -= factor * matrix[column][k];
+      }
+    }
+  }
+  return matrix.map((row, index) => row[n] / row[index]);
+}
+
+/**
+ * Calculates the gains of a discrete single-input linear-quadratic regulator
+ * by iterating the Riccati equation until convergence.
+ * @param A The discrete system matrix
+ * @param B The discrete input matrix (single column)
+ * @param Q The diagonal of the state cost matrix
+ * @param R The input cost
+ * @returns The controller gains, or null if the solution did not converge
+ */
+function dlqr(A: number[][], B: number[][], Q: number[], R: number): number[] | null {
+  let n = A.length;
+  let P: number[][] = Q.map((q, i) => Q.map((_, j) => (i === j ? q : 0)));
+  let K: number[] = new Array(n).fill(0);
+  for (let iteration = 0; iteration < 10000; iteration++) {
+    // K = (R + B'PB)^-1 B'PA
+    let PB = P.map((row) => row.reduce((sum, x, k) => sum + x * B[k][0], 0));
+    let denominator = R + PB.reduce((sum, x, k) => sum + x * B[k][0], 0);
+    let BTPA = A[0].map((_, j) => PB.reduce((sum, x, k) => sum + x * A[k][j], 0));
+    K = BTPA.map((x) => x / denominator);
+
+    // P = Q + A'P(A - BK)
+    let closedLoop = A.map((row, i) => row.map((x, j) => x - B[i][0] * K[j]));
+    let nextP = A.map((_, i) =>
+      A.map((_, j) => {
+        let sum = i === j ? Q[i] : 0;
+        for (let k = 0; k < n; k++) {
+          for (let l = 0; l < n; l++) {
+            sum += A[k][i] * P[k][l] * closedLoop[l][j];
+          }
+        }
+        return sum;
+      })
+    );
+    let change = nextP.reduce((max, row, i) => row.reduce((max, x, j) => Math.max(max, Math.abs(x - P[i][j])), max), 0);
+    P = nextP;
+    if (change < 1e-9 * Math.max(1, Math.abs(P[0][0]))) return K;
+  }
+  return K.every((x) => isFinite(x)) ? K : null;
+}
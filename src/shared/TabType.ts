@@ -11,7 +11,9 @@ enum TabType {
   Swerve,
   Mechanism,
   Points,
-  Metadata
+  Metadata,
+  SysId,
+  SignalGenerator
 }
 
 export default TabType;
@@ -48,6 +50,10 @@ export function getDefaultTabTitle(type: TabType): string {
       return "Points";
     case TabType.Metadata:
       return "Metadata";
+    case TabType.SysId:
+      return "SysId";
+    case TabType.SignalGenerator:
+      return "Signal Generator";
     default:
       return "";
   }
@@ -81,6 +87,10 @@ export function getTabIcon(type: TabType): string {
       return "📍";
     case TabType.Metadata:
       return "🔍";
+    case TabType.SysId:
+      return "📐";
+    case TabType.SignalGenerator:
+      return "🎛";
     default:
       return "";
   }
@@ -116,6 +126,10 @@ export function getTabAccelerator(type: TabType): string {
           return "P";
         case TabType.Metadata:
           return "I";
+        case TabType.SysId:
+          return "Y";
+        case TabType.SignalGenerator:
+          return "W";
         default:
           return "";
       }
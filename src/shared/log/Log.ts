@@ -3,7 +3,15 @@ import { Pose2d, Translation2d } from "../geometry";
 import { arraysEqual, checkArrayType } from "../util";
 import LogField from "./LogField";
 import LogFieldTree from "./LogFieldTree";
-import { PHOTON_PREFIX, STRUCT_PREFIX, TYPE_KEY, applyKeyPrefix, getEnabledData, splitLogKey } from "./LogUtil";
+import {
+  PHOTON_PREFIX,
+  STRUCT_PREFIX,
+  TYPE_KEY,
+  applyKeyPrefix,
+  getEnabledData,
+  getMergePrefix,
+  splitLogKey
+} from "./LogUtil";
 import {
   LogValueSetAny,
   LogValueSetBoolean,
@@ -33,6 +41,8 @@ export default class Log {
   private enableTimestampSetCache: boolean;
   private timestampSetCache: { [id: string]: { keys: string[]; timestamps: number[] } } = {};
   private changedFields: Set<string> = new Set();
+  private timeOffsets: { [prefix: string]: number } = {}; // Offsets applied to merged logs when reading
+  private fixedTimestampRange: [number, number] | null = null; // Overrides the calculated range if set
 
   private queuedStructs: QueuedStructure[] = [];
   private queuedStructArrays: QueuedStructure[] = [];
@@ -90,6 +100,7 @@ export default class Log {
 
     // Update timestamp set caches
     if (this.enableTimestampSetCache) {
+      timestamp += this.getKeyTimeOffset(key);
       Object.values(this.timestampSetCache).forEach((cache) => {
         if (cache.keys.includes(key) && !cache.timestamps.includes(timestamp)) {
           let insertIndex = cache.timestamps.findIndex((x) => x > timestamp);
@@ -102,6 +113,51 @@ export default class Log {
     }
   }
 
+  /** Returns the time offset applied to the fields of a merged log (e.g. "/Log1") or other key prefix, in seconds. */
+  getTimeOffset(prefix: string): number {
+    return prefix in this.timeOffsets ? this.timeOffsets[prefix] : 0;
+  }
+
+  /**
+   * Sets the time offset applied to the fields of a merged log. The offset is added
+   * to the timestamps of every value read from the log, but data is stored unchanged.
+   */
+  setTimeOffset(prefix: string, offset: number) {
+    if (offset === 0 || !isFinite(offset)) {
+      delete this.timeOffsets[prefix];
+    } else {
+      this.timeOffsets[prefix] = offset;
+    }
+    this.timestampSetCache = {};
+  }
+
+  /** Returns the time offset that applies to a field. */
+  private getKeyTimeOffset(key: string): number {
+    if (Object.keys(this.timeOffsets).length === 0) return 0;
+    let mergePrefix = getMergePrefix(key);
+    if (mergePrefix in this.timeOffsets) return this.timeOffsets[mergePrefix];
+    for (let prefix in this.timeOffsets) {
+      if (key.startsWith(prefix + "/")) return this.timeOffsets[prefix];
+    }
+    return 0;
+  }
+
+  /** Reads a range of values from a field, adjusted by the field's time offset. */
+  private getOffsetRange<T extends { timestamps: number[] }>(
+    key: string,
+    start: number,
+    end: number,
+    getter: (field: LogField, start: number, end: number) => T | undefined
+  ): T | undefined {
+    if (!(key in this.fields)) return undefined;
+    let offset = this.getKeyTimeOffset(key);
+    let data = getter(this.fields[key], start - offset, end - offset);
+    if (data !== undefined && offset !== 0) {
+      data.timestamps = data.timestamps.map((timestamp) => timestamp + offset);
+    }
+    return data;
+  }
+
   /** Returns the set of fields that have changed since the last call. */
   getChangedFields(): Set<string> {
     let output = this.changedFields;
@@ -134,6 +190,15 @@ export default class Log {
     this.changedFields.add(key);
   }
 
+  /** Removes a field from this log. */
+  deleteField(key: string) {
+    if (key in this.fields) {
+      delete this.fields[key];
+      this.generatedParents.delete(key);
+      this.changedFields.delete(key);
+    }
+  }
+
   /** Returns the constant field type. */
   getType(key: string): LoggableType | null {
     if (key in this.fields) {
@@ -259,22 +324,44 @@ export default class Log {
       }
 
       // Get new data
-      output = [...new Set(keys.map((key) => this.fields[key].getTimestamps()).flat())];
+      output = [
+        ...new Set(
+          keys
+            .map((key) => {
+              let offset = this.getKeyTimeOffset(key);
+              let timestamps = this.fields[key].getTimestamps();
+              return offset === 0 ? timestamps : timestamps.map((timestamp) => timestamp + offset);
+            })
+            .flat()
+        )
+      ];
       output.sort((a, b) => a - b);
       if (saveCache && uuid) this.timestampSetCache[uuid].timestamps = output;
     } else if (keys.length === 1) {
       // Single field
-      output = [...this.fields[keys[0]].getTimestamps()];
+      let offset = this.getKeyTimeOffset(keys[0]);
+      output = this.fields[keys[0]].getTimestamps().map((timestamp) => timestamp + offset);
     }
     return output;
   }
 
+  /**
+   * Replaces the calculated range of timestamps, or restores it if null. Used when
+   * the fields are linked from other logs, so time offsets are not applied.
+   */
+  setTimestampRange(range: [number, number] | null) {
+    this.fixedTimestampRange = range === null ? null : [...range];
+  }
+
   /** Returns the range of timestamps across all fields. */
   getTimestampRange(): [number, number] {
-    if (this.timestampRange === null) {
+    if (this.fixedTimestampRange !== null) {
+      return [...this.fixedTimestampRange];
+    } else if (this.timestampRange === null) {
       return [...this.DEFAULT_TIMESTAMP_RANGE];
     } else {
-      return [...this.timestampRange];
+      let offsets = Object.values(this.timeOffsets);
+      return [this.timestampRange[0] + Math.min(0, ...offsets), this.timestampRange[1] + Math.max(0, ...offsets)];
     }
   }
 
@@ -325,42 +412,42 @@ export default class Log {
 
   /** Reads a set of generic values from the field. */
   getRange(key: string, start: number, end: number, uuid?: string): LogValueSetAny | undefined {
-    if (key in this.fields) return this.fields[key].getRange(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getRange(start, end, uuid));
   }
 
   /** Reads a set of Raw values from the field. */
   getRaw(key: string, start: number, end: number, uuid?: string): LogValueSetRaw | undefined {
-    if (key in this.fields) return this.fields[key].getRaw(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getRaw(start, end, uuid));
   }
 
   /** Reads a set of Boolean values from the field. */
   getBoolean(key: string, start: number, end: number, uuid?: string): LogValueSetBoolean | undefined {
-    if (key in this.fields) return this.fields[key].getBoolean(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getBoolean(start, end, uuid));
   }
 
   /** Reads a set of Number values from the field. */
   getNumber(key: string, start: number, end: number, uuid?: string): LogValueSetNumber | undefined {
-    if (key in this.fields) return this.fields[key].getNumber(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getNumber(start, end, uuid));
   }
 
   /** Reads a set of String values from the field. */
   getString(key: string, start: number, end: number, uuid?: string): LogValueSetString | undefined {
-    if (key in this.fields) return this.fields[key].getString(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getString(start, end, uuid));
   }
 
   /** Reads a set of BooleanArray values from the field. */
   getBooleanArray(key: string, start: number, end: number, uuid?: string): LogValueSetBooleanArray | undefined {
-    if (key in this.fields) return this.fields[key].getBooleanArray(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getBooleanArray(start, end, uuid));
   }
 
   /** Reads a set of NumberArray values from the field. */
   getNumberArray(key: string, start: number, end: number, uuid?: string): LogValueSetNumberArray | undefined {
-    if (key in this.fields) return this.fields[key].getNumberArray(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getNumberArray(start, end, uuid));
   }
 
   /** Reads a set of StringArray values from the field. */
   getStringArray(key: string, start: number, end: number, uuid?: string): LogValueSetStringArray | undefined {
-    if (key in this.fields) return this.fields[key].getStringArray(start, end, uuid);
+    return this.getOffsetRange(key, start, end, (field, start, end) => field.getStringArray(start, end, uuid));
   }
 
   /** Writes a new Raw value to the field. */
@@ -661,6 +748,23 @@ export default class Log {
     }
   }
 
+  /** Converts struct-encoded data to an object using a known schema.
+   *
+   * The schema type should not include "struct:" or "[]"
+   */
+  decodeStruct(schemaType: string, value: Uint8Array, isArray: boolean): unknown {
+    return (isArray ? this.structDecoder.decodeArray(schemaType, value) : this.structDecoder.decode(schemaType, value))
+      .data;
+  }
+
+  /** Converts an object to struct-encoded data using a known schema.
+   *
+   * The schema type should not include "struct:" or "[]"
+   */
+  encodeStruct(schemaType: string, value: unknown, isArray: boolean): Uint8Array {
+    return isArray ? this.structDecoder.encodeArray(schemaType, value) : this.structDecoder.encode(schemaType, value);
+  }
+
   /** Writes a protobuf-encoded raw value to the field.
    *
    * The schema type should not include "proto:" but should include
@@ -836,6 +940,7 @@ export default class Log {
       fields: {},
       generatedParents: Array.from(this.generatedParents),
       timestampRange: this.timestampRange,
+      timeOffsets: this.timeOffsets,
       structDecoder: this.structDecoder.toSerialized(),
       protoDecoder: this.protoDecoder.toSerialized(),
       queuedStructs: this.queuedStructs,
@@ -856,6 +961,7 @@ export default class Log {
     });
     log.generatedParents = new Set(serializedData.generatedParents);
     log.timestampRange = serializedData.timestampRange;
+    if ("timeOffsets" in serializedData) log.timeOffsets = serializedData.timeOffsets;
     log.structDecoder = StructDecoder.fromSerialized(serializedData.structDecoder);
     log.protoDecoder = ProtoDecoder.fromSerialized(serializedData.protoDecoder);
     log.queuedStructs = serializedData.queuedStructs;
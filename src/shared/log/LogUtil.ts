@@ -14,10 +14,13 @@ export const PROTO_PREFIX = "proto:";
 export const PHOTON_PREFIX = "photonstruct:";
 export const MAX_SEARCH_RESULTS = 128;
 export const MERGE_PREFIX = "Log";
+export const COMPUTED_PREFIX = "Computed";
+export const CONNECTION_HEALTH_PREFIX = "ConnectionHealth";
 export const MERGE_PREFIX_REGEX = new RegExp(/^\/?Log\d+/);
 export const SEPARATOR_REGEX = new RegExp(/\/|:/);
 export const SEPARATOR_REGEX_PHOENIX = new RegExp(/\/|:|_/);
 export const PHOENIX_PREFIX = "Phoenix6";
+export const PHOENIX5_PREFIX = "Phoenix5";
 export const ENABLED_KEYS = [
   "/DriverStation/Enabled",
   "NT:/AdvantageKit/DriverStation/Enabled",
@@ -51,6 +54,16 @@ export const SYSTEM_TIME_KEYS = [
   "systemTime"
 ];
 export const AKIT_TIMESTAMP_KEYS = ["/Timestamp", "NT:/AdvantageKit/Timestamp"];
+export const BATTERY_VOLTAGE_KEYS = [
+  "/SystemStats/BatteryVoltage",
+  "NT:/AdvantageKit/SystemStats/BatteryVoltage",
+  "/DSLog/BatteryVoltage"
+];
+export const BROWNOUT_KEYS = [
+  "/SystemStats/BrownedOut",
+  "NT:/AdvantageKit/SystemStats/BrownedOut",
+  "/DSLog/Status/Brownout"
+];
 export const METADATA_KEYS = [
   "/Metadata",
   "/RealMetadata",
@@ -85,9 +98,20 @@ export function removeMergePrefix(key: string): string {
   }
 }
 
-export function findKey(log: Log, search: string[]): string | undefined {
+/** Returns the merge prefix of the key (e.g. "/Log1"), or an empty string if the key is not merged. */
+export function getMergePrefix(key: string): string {
+  let match = key.match(MERGE_PREFIX_REGEX);
+  return match === null ? "" : match[0];
+}
+
+/**
+ * Finds the first key matching one of the search keys, ignoring merge prefixes.
+ * @param mergePrefix If provided, only keys from the merged log with this prefix are included
+ */
+export function findKey(log: Log, search: string[], mergePrefix?: string): string | undefined {
   let fieldKeys = log.getFieldKeys();
   for (let i = 0; i < fieldKeys.length; i++) {
+    if (mergePrefix !== undefined && getMergePrefix(fieldKeys[i]) !== mergePrefix) continue;
     let unmerged = removeMergePrefix(fieldKeys[i]);
     if (search.includes(unmerged)) {
       return fieldKeys[i];
@@ -199,12 +223,12 @@ export function getURCLKeys(log: Log): string[] {
   });
 }
 
-export function getEnabledKey(log: Log): string | undefined {
-  return findKey(log, ENABLED_KEYS);
+export function getEnabledKey(log: Log, mergePrefix?: string): string | undefined {
+  return findKey(log, ENABLED_KEYS, mergePrefix);
 }
 
-export function getEnabledData(log: Log): LogValueSetBoolean | null {
-  let enabledKey = getEnabledKey(log);
+export function getEnabledData(log: Log, mergePrefix?: string): LogValueSetBoolean | null {
+  let enabledKey = getEnabledKey(log, mergePrefix);
   if (!enabledKey) return null;
   let enabledData: LogValueSetBoolean | null = null;
   if (enabledKey.endsWith("FMSControlData")) {
@@ -229,12 +253,12 @@ export function getEnabledData(log: Log): LogValueSetBoolean | null {
   return enabledData;
 }
 
-export function getAutonomousKey(log: Log): string | undefined {
-  return findKey(log, AUTONOMOUS_KEYS);
+export function getAutonomousKey(log: Log, mergePrefix?: string): string | undefined {
+  return findKey(log, AUTONOMOUS_KEYS, mergePrefix);
 }
 
-export function getAutonomousData(log: Log): LogValueSetBoolean | null {
-  let autonomousKey = getAutonomousKey(log);
+export function getAutonomousData(log: Log, mergePrefix?: string): LogValueSetBoolean | null {
+  let autonomousKey = getAutonomousKey(log, mergePrefix);
   if (!autonomousKey) return null;
   let autonomousData: LogValueSetBoolean | null = null;
   if (autonomousKey.endsWith("FMSControlData")) {
@@ -267,9 +291,12 @@ export function getAutonomousData(log: Log): LogValueSetBoolean | null {
   return autonomousData;
 }
 
-export function getRobotStateRanges(log: Log): { start: number; end?: number; mode: "disabled" | "auto" | "teleop" }[] {
-  let enabledData = getEnabledData(log);
-  let autoData = getAutonomousData(log);
+export function getRobotStateRanges(
+  log: Log,
+  mergePrefix?: string
+): { start: number; end?: number; mode: "disabled" | "auto" | "teleop" }[] {
+  let enabledData = getEnabledData(log, mergePrefix);
+  let autoData = getAutonomousData(log, mergePrefix);
   if (enabledData === null) return [];
   if (autoData === null) {
     autoData = {
@@ -321,6 +348,136 @@ export function getRobotStateRanges(log: Log): { start: number; end?: number; mo
   return ranges;
 }
 
+export interface CorrelationSeries {
+  timestamps: number[];
+  values: number[];
+}
+
+/** Returns the values of a number or boolean field as numbers, or null if the field cannot be aligned. */
+export function getCorrelationSeries(log: Log, key: string): CorrelationSeries | null {
+  let data = log.getRange(key, -Infinity, Infinity);
+  let type = log.getType(key);
+  if (data === undefined || data.timestamps.length < 2) return null;
+  if (type !== LoggableType.Number && type !== LoggableType.Boolean) return null;
+  return {
+    timestamps: data.timestamps,
+    values: data.values.map((value) => (type === LoggableType.Boolean ? (value ? 1 : 0) : (value as number)))
+  };
+}
+
+/**
+ * Finds the time shift that best aligns two fields using cross-correlation.
+ * This is expensive for long logs, so it should be run in a worker.
+ * @param reference The field to align to
+ * @param target The field to shift
+ * @returns The shift to add to the timestamps of the target field, or null if the fields cannot be aligned
+ */
+export function getCrossCorrelationShift(reference: CorrelationSeries, target: CorrelationSeries): number | null {
+  const MIN_OVERLAP = 0.25;
+  const MAX_COARSE_SAMPLES = 1000;
+  const FINE_PERIOD = 0.02;
+  const REFINE_FACTOR = 4;
+
+  let referenceRange = [reference.timestamps[0], reference.timestamps[reference.timestamps.length - 1]];
+  let targetRange = [target.timestamps[0], target.timestamps[target.timestamps.length - 1]];
+  let minOverlap = Math.min(referenceRange[1] - referenceRange[0], targetRange[1] - targetRange[0]) * MIN_OVERLAP;
+
+  // Average over each period, then scale to zero mean and unit variance
+  let sampleNormalized = (data: CorrelationSeries, times: number[], period: number) => {
+    let index = 0;
+    let samples = times.map((time) => {
+      while (index < data.timestamps.length - 1 && data.timestamps[index + 1] <= time) index++;
+      let sum = data.values[index];
+      let count = 1;
+      while (index < data.timestamps.length - 1 && data.timestamps[index + 1] < time + period) {
+        index++;
+        sum += data.values[index];
+        count++;
+      }
+      return sum / count;
+    });
+    let mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    let std = Math.sqrt(samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length);
+    return std === 0 ? null : samples.map((value) => (value - mean) / std);
+  };
+  let getTimes = (range: number[], period: number) => {
+    let times: number[] = [];
+    for (let time = range[0]; time <= range[1]; time += period) times.push(time);
+    return times;
+  };
+
+  // Calculates the correlation for a single shift
+  let correlate = (
+    referenceTimes: number[],
+    referenceSamples: number[],
+    targetTimes: number[],
+    targetSamples: number[],
+    shift: number
+  ): number | null => {
+    let overlapStart = Math.max(referenceRange[0], targetRange[0] + shift);
+    let overlapEnd = Math.min(referenceRange[1], targetRange[1] + shift);
+    if (overlapEnd - overlapStart < minOverlap) return null;
+    let sum = 0;
+    let targetIndex = 0;
+    referenceTimes.forEach((time, index) => {
+      if (time < overlapStart || time > overlapEnd) return;
+      while (targetIndex < targetTimes.length - 1 && targetTimes[targetIndex + 1] + shift <= time) targetIndex++;
+      sum += referenceSamples[index] * targetSamples[targetIndex];
+    });
+    return sum / Math.min(referenceTimes.length, targetTimes.length); // Biased to prefer larger overlaps
+  };
+
+  // Searches a set of shifts for the best correlation
+  let search = (period: number, shifts: number[]): number | null => {
+    if (shifts.length === 0) return null;
+
+    // Only sample the data that overlaps for at least one of the shifts
+    let minShift = shifts[0];
+    let maxShift = shifts[shifts.length - 1];
+    let referenceWindow = [
+      Math.max(referenceRange[0], targetRange[0] + minShift),
+      Math.min(referenceRange[1], targetRange[1] + maxShift)
+    ];
+    if (referenceWindow[1] - referenceWindow[0] < minOverlap) return null;
+    let targetWindow = [
+      Math.max(targetRange[0], referenceWindow[0] - maxShift),
+      Math.min(targetRange[1], referenceWindow[1] - minShift)
+    ];
+    let referenceTimes = getTimes(referenceWindow, period);
+    let targetTimes = getTimes(targetWindow, period);
+    let referenceSamples = sampleNormalized(reference, referenceTimes, period);
+    let targetSamples = sampleNormalized(target, targetTimes, period);
+    if (referenceSamples === null || targetSamples === null) return null;
+    let bestShift: number | null = null;
+    let bestCorrelation = -Infinity;
+    shifts.forEach((shift) => {
+      let correlation = correlate(referenceTimes, referenceSamples!, targetTimes, targetSamples!, shift);
+      if (correlation !== null && correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestShift = shift;
+      }
+    });
+    return bestShift;
+  };
+
+  // Coarse search over all shifts, then refine around the best result in steps
+  // so that each pass only checks a few shifts on either side
+  let span = Math.max(referenceRange[1] - referenceRange[0], targetRange[1] - targetRange[0]);
+  let period = Math.max(FINE_PERIOD, span / MAX_COARSE_SAMPLES);
+  let shift = search(
+    period,
+    getTimes([referenceRange[0] - targetRange[1], referenceRange[1] - targetRange[0]], period)
+  );
+  while (shift !== null && period > FINE_PERIOD) {
+    let finePeriod = Math.max(FINE_PERIOD, period / REFINE_FACTOR);
+    let fineShift = search(finePeriod, getTimes([shift - period * 2, shift + period * 2], finePeriod));
+    if (fineShift === null) break;
+    shift = fineShift;
+    period = finePeriod;
+  }
+  return shift;
+}
+
 export function getIsRedAlliance(log: Log, time: number): boolean {
   let allianceKey = findKey(log, ALLIANCE_KEYS);
   if (!allianceKey) return false;
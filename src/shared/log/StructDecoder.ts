@@ -256,6 +256,75 @@ export default class StructDecoder {
     };
   }
 
+  /** Converts an object to struct-encoded data with a known schema, the inverse of `decode()`. */
+  encode(name: string, data: unknown): Uint8Array {
+    if (!(name in this.schemas)) {
+      throw new Error("Schema not defined");
+    }
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      throw new Error('Expected an object for "' + name + '"');
+    }
+    let schema = this.schemas[name];
+    let output = new Uint8Array(Math.ceil(schema.length / 8));
+    for (let i = 0; i < schema.valueSchemas.length; i++) {
+      let valueSchema = schema.valueSchemas[i];
+      let value = (data as { [key: string]: unknown })[valueSchema.name];
+      let encodedValue: Uint8Array;
+      if (VALID_TYPE_STRINGS.includes(valueSchema.type)) {
+        let type = valueSchema.type as ValueType;
+        if (valueSchema.arrayLength === null) {
+          // Normal type
+          encodedValue = StructDecoder.encodeValue(value, type, valueSchema.enum, valueSchema.name);
+        } else if (type === ValueType.Char) {
+          // String type
+          if (typeof value !== "string") throw new Error('Expected a string for "' + valueSchema.name + '"');
+          encodedValue = new Uint8Array(valueSchema.arrayLength);
+          encodedValue.set(new TextEncoder().encode(value).slice(0, valueSchema.arrayLength));
+        } else {
+          // Array type
+          if (!Array.isArray(value) || value.length !== valueSchema.arrayLength) {
+            throw new Error(
+              "Expected an array of length " + valueSchema.arrayLength.toString() + ' for "' + valueSchema.name + '"'
+            );
+          }
+          let itemLength = (valueSchema.bitRange[1] - valueSchema.bitRange[0]) / valueSchema.arrayLength;
+          encodedValue = new Uint8Array(Math.ceil((itemLength * value.length) / 8));
+          value.forEach((item, index) => {
+            StructDecoder.writeBits(
+              encodedValue,
+              StructDecoder.encodeValue(item, type, valueSchema.enum, valueSchema.name),
+              [index * itemLength, (index + 1) * itemLength]
+            );
+          });
+        }
+      } else {
+        // Child struct
+        encodedValue =
+          valueSchema.arrayLength === null
+            ? this.encode(valueSchema.type, value)
+            : this.encodeArray(valueSchema.type, value, valueSchema.arrayLength);
+      }
+      StructDecoder.writeBits(output, encodedValue, valueSchema.bitRange);
+    }
+    return output;
+  }
+
+  /** Converts an array of objects to struct-encoded data with a known schema, the inverse of `decodeArray()`. */
+  encodeArray(name: string, data: unknown, arrayLength?: number): Uint8Array {
+    if (!(name in this.schemas)) {
+      throw new Error("Schema not defined");
+    }
+    if (!Array.isArray(data) || (arrayLength !== undefined && data.length !== arrayLength)) {
+      throw new Error('Expected an array for "' + name + '"');
+    }
+    let schemaLength = this.schemas[name].length / 8;
+    let output = new Uint8Array(schemaLength * data.length);
+    data.forEach((item, index) => {
+      output.set(this.encode(name, item), index * schemaLength);
+    });
+    return output;
+  }
+
   /** Decode a uint8 array as a single value based on the known type. */
   private static decodeValue(value: Uint8Array, type: ValueType, enumData: { [key: number]: string } | null): any {
     let paddedValue = new Uint8Array(VALUE_TYPE_MAX_BITS.get(type)! / 8);
@@ -310,6 +379,81 @@ export default class StructDecoder {
     return output;
   }
 
+  /** Encode a single value as a uint8 array based on the known type. */
+  private static encodeValue(
+    value: unknown,
+    type: ValueType,
+    enumData: { [key: number]: string } | null,
+    name: string
+  ): Uint8Array {
+    if (enumData !== null && typeof value === "string") {
+      let enumValue = Object.keys(enumData).find((key) => enumData[Number(key)] === value);
+      if (enumValue === undefined) throw new Error('Unknown value "' + value + '" for "' + name + '"');
+      value = Number(enumValue);
+    }
+    if (type === ValueType.Char && typeof value === "string") {
+      value = value.length > 0 ? value.charCodeAt(0) : 0;
+    }
+    if (type === ValueType.Bool ? typeof value !== "boolean" : typeof value !== "number" || !isFinite(value)) {
+      throw new Error('Invalid value for "' + name + '"');
+    }
+    let output = new Uint8Array(VALUE_TYPE_MAX_BITS.get(type)! / 8);
+    let dataView = new DataView(output.buffer);
+    let numberValue = value as number;
+    switch (type) {
+      case ValueType.Bool:
+        dataView.setUint8(0, value ? 1 : 0);
+        break;
+      case ValueType.Char:
+      case ValueType.Uint8:
+        dataView.setUint8(0, numberValue);
+        break;
+      case ValueType.Int8:
+        dataView.setInt8(0, numberValue);
+        break;
+      case ValueType.Int16:
+        dataView.setInt16(0, numberValue, true);
+        break;
+      case ValueType.Int32:
+        dataView.setInt32(0, numberValue, true);
+        break;
+      case ValueType.Int64:
+        dataView.setBigInt64(0, BigInt(Math.round(numberValue)), true);
+        break;
+      case ValueType.Uint16:
+        dataView.setUint16(0, numberValue, true);
+        break;
+      case ValueType.Uint32:
+        dataView.setUint32(0, numberValue, true);
+        break;
+      case ValueType.Uint64:
+        dataView.setBigUint64(0, BigInt(Math.round(numberValue)), true);
+        break;
+      case ValueType.Float:
+      case ValueType.Float32:
+        dataView.setFloat32(0, numberValue, true);
+        break;
+      case ValueType.Double:
+      case ValueType.Float64:
+        dataView.setFloat64(0, numberValue, true);
+        break;
+    }
+    return output;
+  }
+
+  /** Writes the bits of a value into the output at the provided bit range. */
+  private static writeBits(output: Uint8Array, value: Uint8Array, range: [number, number]) {
+    if (range[0] % 8 === 0 && range[1] % 8 === 0) {
+      output.set(value.slice(0, (range[1] - range[0]) / 8), range[0] / 8);
+    } else {
+      for (let i = 0; i < range[1] - range[0]; i++) {
+        let bit = (value[Math.floor(i / 8)] & (1 << i % 8)) > 0;
+        let position = range[0] + i;
+        if (bit) output[Math.floor(position / 8)] |= 1 << position % 8;
+      }
+    }
+  }
+
   private static sliceBits(input: Uint8Array, range: [number, number]): [Uint8Array, number] {
     if (range[0] % 8 == 0 && range[1] % 8 === 0) {
       return [input.slice(range[0] / 8, range[1] / 8), range[1] - range[0]];
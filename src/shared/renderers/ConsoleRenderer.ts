@@ -1,12 +1,9 @@
+import { ensureThemeContrast, GraphColors } from "../Colors";
 import { SelectionMode } from "../Selection";
-import LogField from "../log/LogField";
 import { arraysEqual, formatTimeWithMS, htmlEncode } from "../util";
 import TabRenderer from "./TabRenderer";
 
 export default class ConsoleRenderer implements TabRenderer {
-  private ERROR_TEXT = "error";
-  private WARNING_TEXT = "warning";
-
   private TABLE_CONTAINER: HTMLElement;
   private TABLE_BODY: HTMLElement;
   private JUMP_INPUT: HTMLInputElement;
@@ -14,16 +11,17 @@ export default class ConsoleRenderer implements TabRenderer {
   private EXPORT_BUTTON: HTMLButtonElement | null;
   private HIGHLIGHT_BUTTON: HTMLButtonElement;
   private FILTER_INPUT: HTMLInputElement;
+  private EXCLUDE_INPUT: HTMLInputElement;
   private FIELD_CELL: HTMLElement;
   private FIELD_TEXT: HTMLElement;
   private FIELD_DELETE: HTMLButtonElement;
   private HAND_ICON: HTMLElement;
 
   private hasController: boolean;
-  private key: string | null = null;
-  private keyAvailable = false;
+  private sources: ConsoleRendererCommand["sources"] = [];
   private timestamps: number[] = [];
   private values: string[] = [];
+  private sourceIndexes: number[] = [];
   private renderedTimestamps: number[] = [];
   private renderedValues: string[] = [];
   private lastScrollPosition: number | null = null;
@@ -43,7 +41,12 @@ export default class ConsoleRenderer implements TabRenderer {
     this.HIGHLIGHT_BUTTON = this.TABLE_BODY.firstElementChild?.lastElementChild?.getElementsByClassName(
       "highlight-button"
     )[0] as HTMLButtonElement;
-    this.FILTER_INPUT = this.TABLE_BODY.firstElementChild?.lastElementChild?.lastElementChild as HTMLInputElement;
+    this.FILTER_INPUT = this.TABLE_BODY.firstElementChild?.lastElementChild?.getElementsByClassName(
+      "filter"
+    )[0] as HTMLInputElement;
+    this.EXCLUDE_INPUT = this.TABLE_BODY.firstElementChild?.lastElementChild?.getElementsByClassName(
+      "exclude"
+    )[0] as HTMLInputElement;
     this.FIELD_CELL = this.TABLE_BODY.firstElementChild?.lastElementChild as HTMLElement;
     this.FIELD_TEXT = this.FIELD_CELL.firstElementChild?.firstElementChild as HTMLElement;
     this.FIELD_DELETE = this.FIELD_CELL.firstElementChild?.lastElementChild as HTMLButtonElement;
@@ -62,8 +65,8 @@ export default class ConsoleRenderer implements TabRenderer {
       }
 
       // Find target row
-      let targetRow = this.timestamps.findIndex((value) => value > targetTime);
-      if (targetRow === -1) targetRow = this.timestamps.length;
+      let targetRow = this.renderedTimestamps.findIndex((value) => value > targetTime);
+      if (targetRow === -1) targetRow = this.renderedTimestamps.length;
       if (targetRow < 1) targetRow = 1;
       targetRow -= 1;
       this.TABLE_CONTAINER.scrollTop = Array.from(this.TABLE_BODY.children).reduce((totalHeight, row, rowIndex) => {
@@ -79,6 +82,7 @@ export default class ConsoleRenderer implements TabRenderer {
     });
     this.JUMP_BUTTON.addEventListener("click", jump);
     this.FILTER_INPUT.addEventListener("input", () => this.updateData());
+    this.EXCLUDE_INPUT.addEventListener("input", () => this.updateData());
 
     // Export button
     if (this.EXPORT_BUTTON !== null) {
@@ -104,6 +108,12 @@ export default class ConsoleRenderer implements TabRenderer {
     this.FIELD_DELETE.addEventListener("click", () => {
       root.dispatchEvent(new CustomEvent("close-field"));
     });
+    this.FIELD_TEXT.addEventListener("click", (event) => {
+      let index = (event.target as HTMLElement).dataset.removeIndex;
+      if (index !== undefined) {
+        root.dispatchEvent(new CustomEvent("close-field", { detail: Number(index) }));
+      }
+    });
 
     // Select filter
     window.addEventListener("keydown", (event) => {
@@ -119,7 +129,9 @@ export default class ConsoleRenderer implements TabRenderer {
 
   saveState(): unknown {
     return {
-      highlight: this.HIGHLIGHT_BUTTON.classList.contains("active")
+      highlight: this.HIGHLIGHT_BUTTON.classList.contains("active"),
+      filter: this.FILTER_INPUT.value,
+      exclude: this.EXCLUDE_INPUT.value
     };
   }
 
@@ -131,8 +143,14 @@ export default class ConsoleRenderer implements TabRenderer {
       } else {
         this.HIGHLIGHT_BUTTON.classList.remove("active");
       }
-      this.updateData();
     }
+    if ("filter" in state && typeof state.filter === "string") {
+      this.FILTER_INPUT.value = state.filter;
+    }
+    if ("exclude" in state && typeof state.exclude === "string") {
+      this.EXCLUDE_INPUT.value = state.exclude;
+    }
+    this.updateData();
   }
 
   getAspectRatio(): number | null {
@@ -145,23 +163,32 @@ export default class ConsoleRenderer implements TabRenderer {
     this.selectedTime = command.selectedTime;
     this.hoveredTime = command.hoveredTime;
 
-    // Get data from field
-    let field = command.keyAvailable ? LogField.fromSerialized(command.serialized) : null;
-    let fieldData = field === null ? undefined : field.getString(-Infinity, Infinity);
-    let newTimestamps = fieldData === undefined ? [] : fieldData.timestamps;
-    let newValues = fieldData === undefined ? [] : fieldData.values;
-
     // Update values
-    if (
-      command.key !== this.key ||
-      command.keyAvailable !== this.keyAvailable ||
-      !arraysEqual(newTimestamps, this.timestamps) ||
-      !arraysEqual(newValues, this.values)
-    ) {
-      this.key = command.key;
-      this.keyAvailable = command.keyAvailable;
-      this.timestamps = newTimestamps;
-      this.values = newValues;
+    let hasChanged =
+      command.sources.length !== this.sources.length ||
+      command.sources.some((source, index) => {
+        let oldSource = this.sources[index];
+        return (
+          source.key !== oldSource.key ||
+          source.available !== oldSource.available ||
+          !arraysEqual(source.timestamps, oldSource.timestamps) ||
+          !arraysEqual(source.values, oldSource.values)
+        );
+      });
+    if (hasChanged) {
+      this.sources = command.sources;
+
+      // Interleave sources by timestamp
+      let rows: { timestamp: number; value: string; sourceIndex: number }[] = [];
+      this.sources.forEach((source, sourceIndex) => {
+        source.timestamps.forEach((timestamp, index) => {
+          rows.push({ timestamp: timestamp, value: source.values[index], sourceIndex: sourceIndex });
+        });
+      });
+      rows.sort((a, b) => a.timestamp - b.timestamp);
+      this.timestamps = rows.map((row) => row.timestamp);
+      this.values = rows.map((row) => row.value);
+      this.sourceIndexes = rows.map((row) => row.sourceIndex);
       this.updateData();
     }
 
@@ -187,45 +214,64 @@ export default class ConsoleRenderer implements TabRenderer {
   /** Updates the field text and data. */
   updateData() {
     // Update field text
-    if (this.key === null) {
-      this.FIELD_TEXT.innerText = "";
-      this.FIELD_TEXT.style.textDecoration = "";
-      this.FIELD_DELETE.hidden = true;
-    } else if (!this.keyAvailable) {
-      this.FIELD_TEXT.innerText = this.key;
-      this.FIELD_TEXT.style.textDecoration = "line-through";
-      this.FIELD_DELETE.hidden = !this.hasController;
-    } else {
-      this.FIELD_TEXT.innerText = this.key;
-      this.FIELD_TEXT.style.textDecoration = "";
-      this.FIELD_DELETE.hidden = !this.hasController;
+    let isMultiSource = this.sources.length > 1;
+    while (this.FIELD_TEXT.firstChild) {
+      this.FIELD_TEXT.removeChild(this.FIELD_TEXT.firstChild);
     }
+    this.sources.forEach((source, index) => {
+      let item = document.createElement("span");
+      this.FIELD_TEXT.appendChild(item);
+      item.classList.add("console-table-key");
+      if (isMultiSource) {
+        let dot = document.createElement("span");
+        item.appendChild(dot);
+        dot.innerText = "● ";
+        dot.style.color = this.getSourceColor(index);
+      }
+      let text = document.createElement("span");
+      item.appendChild(text);
+      text.innerText = source.key;
+      text.style.textDecoration = source.available ? "" : "line-through";
+      if (isMultiSource && this.hasController) {
+        let remove = document.createElement("span");
+        item.appendChild(remove);
+        remove.classList.add("console-table-key-remove");
+        remove.innerText = "×";
+        remove.title = "Remove";
+        remove.dataset.removeIndex = index.toString();
+      }
+    });
+    this.FIELD_DELETE.hidden = this.sources.length === 0 || !this.hasController;
 
     // Update hand icon
-    let showHand = this.hasController && !this.keyAvailable;
+    let showHand = this.hasController && !this.sources.some((source) => source.available);
     this.HAND_ICON.style.transition = showHand ? "opacity 1s ease-in 1s" : "";
     this.HAND_ICON.style.opacity = showHand ? "0.15" : "0";
 
+    // Get filters, where "!" at the start of the include filter is
+    // supported for compatibility with older layouts
+    let includeText = this.FILTER_INPUT.value;
+    let excludeText = this.EXCLUDE_INPUT.value;
+    if (includeText.startsWith("!")) {
+      excludeText = includeText.slice(1);
+      includeText = "";
+    }
+    let include = parseFilter(includeText);
+    let exclude = parseFilter(excludeText);
+    this.FILTER_INPUT.classList.toggle("invalid", include === undefined);
+    this.EXCLUDE_INPUT.classList.toggle("invalid", exclude === undefined);
+
     // Get data
-    let timestamps = this.timestamps;
-    let values = this.values;
-    const filter = this.FILTER_INPUT.value.toLowerCase();
-    if (filter.startsWith("!") ? filter.length > 1 : filter.length > 0) {
-      let filteredTimestamps: number[] = [];
-      let filteredValues: string[] = [];
-      for (let i = 0; i < timestamps.length; i++) {
-        let value = values[i];
-        if (
-          filter.startsWith("!")
-            ? !value.toLowerCase().includes(filter.slice(1).toLowerCase())
-            : value.toLowerCase().includes(filter.toLowerCase())
-        ) {
-          filteredTimestamps.push(timestamps[i]);
-          filteredValues.push(value);
-        }
-      }
-      timestamps = filteredTimestamps;
-      values = filteredValues;
+    let timestamps: number[] = [];
+    let values: string[] = [];
+    let sourceIndexes: number[] = [];
+    for (let i = 0; i < this.timestamps.length; i++) {
+      let value = this.values[i];
+      if (include && !matchesFilter(value, include)) continue;
+      if (exclude && matchesFilter(value, exclude)) continue;
+      timestamps.push(this.timestamps[i]);
+      values.push(value);
+      sourceIndexes.push(this.sourceIndexes[i]);
     }
 
     // Clear extra rows
@@ -260,77 +306,42 @@ export default class ConsoleRenderer implements TabRenderer {
     }
 
     // Update values
+    let newRenderedValues: string[] = [];
     for (let i = 0; i < values.length; i++) {
       // Format value
-      let valueFormatted = "";
-      if (filter.length > 0 && !filter.startsWith("!")) {
-        let lastPosition = -1;
-        let position = -1;
-        while (
-          position + filter.length < values[i].length &&
-          (position = values[i]
-            .toLowerCase()
-            .indexOf(filter.toLowerCase(), position === -1 ? 0 : position + filter.length)) > -1
-        ) {
-          if (lastPosition === -1) {
-            valueFormatted += htmlEncode(values[i].substring(0, position));
-          } else {
-            valueFormatted += htmlEncode(values[i].substring(lastPosition + filter.length, position));
-          }
-          valueFormatted +=
-            '<span class="highlight">' +
-            htmlEncode(values[i].substring(position, position + filter.length)) +
-            "</span>";
-          lastPosition = position;
-        }
-        if (lastPosition !== -1) {
-          valueFormatted += values[i].substring(lastPosition + filter.length);
-        }
-      } else {
-        valueFormatted = htmlEncode(values[i]);
-      }
-      valueFormatted = valueFormatted.replaceAll("\n", "<br />");
-
-      // Update highlight
-      let row = this.TABLE_BODY.children[i + 1];
-      if (this.HIGHLIGHT_BUTTON.classList.contains("active")) {
-        if (values[i].toLowerCase().includes(this.ERROR_TEXT)) {
-          row.classList.add("error");
-        } else {
-          row.classList.remove("error");
-        }
-        if (values[i].toLowerCase().includes(this.WARNING_TEXT)) {
-          row.classList.add("warning");
-        } else {
-          row.classList.remove("warning");
-        }
-      } else {
-        row.classList.remove("error");
-        row.classList.remove("warning");
-      }
-
-      // Check if value has changed
-      let hasChanged = false;
-      if (i > this.renderedTimestamps.length) {
-        hasChanged = true; // New row
-        this.renderedValues.push(valueFormatted);
-      } else if (this.renderedTimestamps[i] !== timestamps[i] || this.renderedValues[i] !== valueFormatted) {
-        hasChanged = true; // Data has changed
-        this.renderedValues[i] = valueFormatted;
-      }
-
-      // Update cell contents
-      if (hasChanged) {
+      let valueFormatted = formatValue(values[i], include);
+
+      // Update severity and source color
+      let row = this.TABLE_BODY.children[i + 1] as HTMLElement;
+      let severity = this.HIGHLIGHT_BUTTON.classList.contains("active") ? getSeverity(values[i]) : null;
+      row.classList.toggle("error", severity === "error");
+      row.classList.toggle("warning", severity === "warning");
+      row.classList.toggle("debug", severity === "debug");
+      row.style.setProperty("--source-color", isMultiSource ? this.getSourceColor(sourceIndexes[i]) : "transparent");
+
+      // Update cell contents if value has changed
+      if (
+        i >= this.renderedTimestamps.length ||
+        this.renderedTimestamps[i] !== timestamps[i] ||
+        this.renderedValues[i] !== valueFormatted
+      ) {
         (row.children[0] as HTMLElement).innerText = formatTimeWithMS(timestamps[i]);
         (row.children[1] as HTMLElement).innerHTML = valueFormatted;
       }
+      newRenderedValues.push(valueFormatted);
     }
     this.renderedTimestamps = timestamps;
+    this.renderedValues = newRenderedValues;
+  }
+
+  /** Returns the display color for a source. */
+  private getSourceColor(index: number): string {
+    return ensureThemeContrast(GraphColors[index % GraphColors.length].key);
   }
 
   /** Updates highlighted times (selected & hovered). */
   private updateHighlights() {
-    if (this.timestamps.length === 0) return;
+    if (this.renderedTimestamps.length === 0) return;
     let highlight = (time: number | null, className: string) => {
       Array.from(this.TABLE_BODY.children).forEach((row) => row.classList.remove(className));
       if (time) {
@@ -360,11 +371,123 @@ export default class ConsoleRenderer implements TabRenderer {
 }
 
 export type ConsoleRendererCommand = {
-  key: string | null;
-  keyAvailable: boolean;
-  serialized: any;
+  sources: {
+    key: string;
+    available: boolean;
+    timestamps: number[];
+    values: string[];
+  }[];
 
   selectionMode: SelectionMode;
   selectedTime: number | null;
   hoveredTime: number | null;
 };
+
+const SEVERITY_PREFIX_REGEX =
+  /^\s*(?:\[[^\]]*\]\s*)*\[?(fatal|severe|critical|error|err|warning|warn|info|debug|trace|fine)\]?\b/i;
+const STACK_TRACE_REGEX = /^(\s+at\s|\s*Caused by:|\s*\.\.\. \d+ more|\s+File "|Traceback \(most recent call last\))/;
+
+/**
+ * Returns the severity of a console message, based on a level at the start
+ * (e.g. "[WARN]" or "ERROR:") or the words "error" and "warning".
+ */
+function getSeverity(value: string): "error" | "warning" | "debug" | null {
+  let match = value.match(SEVERITY_PREFIX_REGEX);
+  if (match !== null) {
+    switch (match[1].toLowerCase()) {
+      case "fatal":
+      case "severe":
+      case "critical":
+      case "error":
+      case "err":
+        return "error";
+      case "warning":
+      case "warn":
+        return "warning";
+      case "debug":
+      case "trace":
+      case "fine":
+        return "debug";
+      default:
+        return null;
+    }
+  }
+  let lowerValue = value.toLowerCase();
+  if (lowerValue.includes("error") || lowerValue.includes("exception")) return "error";
+  if (lowerValue.includes("warning")) return "warning";
+  return null;
+}
+
+/**
+ * Converts filter text to a regular expression. Text in the format "/pattern/flags"
+ * is used as a regular expression, and other text is matched literally (ignoring case).
+ * @returns The regular expression, null if the filter is empty, or undefined if the regular expression is invalid
+ */
+function parseFilter(text: string): RegExp | null | undefined {
+  if (text.length === 0) return null;
+  let regexMatch = text.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regexMatch !== null) {
+      let flags = regexMatch[2].includes("g") ? regexMatch[2] : regexMatch[2] + "g";
+      return new RegExp(regexMatch[1], flags);
+    } else {
+      return new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/** Returns whether a value matches a filter. */
+function matchesFilter(value: string, filter: RegExp): boolean {
+  filter.lastIndex = 0;
+  return filter.test(value);
+}
+
+/** Converts a value to HTML, highlighting filter matches and collapsing stack traces. */
+function formatValue(value: string, filter: RegExp | null | undefined): string {
+  let formatLine = (line: string): string => {
+    if (!filter) return htmlEncode(line);
+    let output = "";
+    let lastIndex = 0;
+    for (let match of line.matchAll(filter)) {
+      if (match[0].length === 0 || match.index === undefined) continue;
+      output += htmlEncode(line.substring(lastIndex, match.index));
+      output += '<span class="highlight">' + htmlEncode(match[0]) + "</span>";
+      lastIndex = match.index + match[0].length;
+    }
+    return output + htmlEncode(line.substring(lastIndex));
+  };
+
+  // Group consecutive stack trace lines
+  let output: string[] = [];
+  let traceLines: string[] = [];
+  let flushTrace = () => {
+    if (traceLines.length === 0) return;
+    output.push(
+      '<details class="stack-trace"><summary>Stack trace (' +
+        traceLines.length.toString() +
+        (traceLines.length === 1 ? " line" : " lines") +
+        ")</summary>" +
+        traceLines.join("<br />") +
+        "</details>"
+    );
+    traceLines = [];
+  };
+  value.split("\n").forEach((line) => {
+    if (STACK_TRACE_REGEX.test(line)) {
+      traceLines.push(formatLine(line));
+    } else {
+      flushTrace();
+      output.push(formatLine(line));
+    }
+  });
+  flushTrace();
+
+  // Details elements already start on a new line
+  return output.reduce((html, line, index) => {
+    if (index === 0) return line;
+    if (line.startsWith("<details") || output[index - 1].startsWith("<details")) return html + line;
+    return html + "<br />" + line;
+  }, "");
+}
@@ -1,4 +1,5 @@
 import ScrollSensor from "../../hub/ScrollSensor";
+import Annotation from "../Annotation";
 import { ensureThemeContrast } from "../Colors";
 import { SelectionMode } from "../Selection";
 import { calcAxisStepSize, clampValue, cleanFloat, scaleValue, shiftColor, ValueScaler } from "../util";
@@ -14,25 +15,35 @@ export default class LineGraphRenderer implements TabRenderer {
   private SCROLL_OVERLAY: HTMLElement;
 
   private hasController: boolean;
+  private nudgeCallback: ((delta: number) => void) | null;
   private scrollSensor: ScrollSensor;
   private lastRenderState = "";
   private mouseDownX = 0;
   private grabZoomActive = false;
   private grabZoomStartTime = 0;
+  private nudgeActive = false;
+  private nudgeLastTime = 0;
   private lastCursorX: number | null = null;
   private lastHoveredTime: number | null = null;
   private lastCursorInRect = false;
   private didClearHoveredTime = false;
 
-  constructor(root: HTMLElement, hasController: boolean) {
+  /**
+   * Creates a new line graph renderer.
+   * @param root The root element
+   * @param hasController Whether the tab has a controller
+   * @param nudgeCallback Called with the change in time when dragging a merged log with the option/alt key
+   */
+  constructor(root: HTMLElement, hasController: boolean, nudgeCallback: ((delta: number) => void) | null = null) {
     this.hasController = hasController;
+    this.nudgeCallback = nudgeCallback;
     this.ROOT = root;
     this.CANVAS = root.getElementsByClassName("line-graph-canvas")[0] as HTMLCanvasElement;
     this.SCROLL_OVERLAY = root.getElementsByClassName("line-graph-scroll")[0] as HTMLCanvasElement;
 
     // Hover handling
     window.addEventListener("mousemove", (event) => {
-      if (this.ROOT.hidden || !this.grabZoomActive) return;
+      if (this.ROOT.hidden || !(this.grabZoomActive || this.nudgeActive)) return;
       this.lastCursorX = event.clientX - this.ROOT.getBoundingClientRect().x;
     });
     this.SCROLL_OVERLAY.addEventListener("mousemove", (event) => {
@@ -51,6 +62,9 @@ export default class LineGraphRenderer implements TabRenderer {
       if (event.shiftKey && this.lastHoveredTime !== null) {
         this.grabZoomActive = true;
         this.grabZoomStartTime = this.lastHoveredTime;
+      } else if (event.altKey && this.nudgeCallback !== null && this.lastHoveredTime !== null) {
+        this.nudgeActive = true;
+        this.nudgeLastTime = this.lastHoveredTime;
       }
     });
     window.addEventListener("mousemove", () => {
@@ -58,6 +72,10 @@ export default class LineGraphRenderer implements TabRenderer {
       if (this.grabZoomActive && this.lastHoveredTime !== null) {
         window.selection.setGrabZoomRange([this.grabZoomStartTime, this.lastHoveredTime]);
       }
+      if (this.nudgeActive && this.lastHoveredTime !== null && this.lastHoveredTime !== this.nudgeLastTime) {
+        this.nudgeCallback!(this.lastHoveredTime - this.nudgeLastTime);
+        this.nudgeLastTime = this.lastHoveredTime;
+      }
     });
     window.addEventListener("mouseup", () => {
       if (this.ROOT.hidden) return;
@@ -69,6 +87,7 @@ export default class LineGraphRenderer implements TabRenderer {
           window.selection.setHoveredTime(null);
         }
       }
+      this.nudgeActive = false;
     });
     this.SCROLL_OVERLAY.addEventListener("click", (event) => {
       if (Math.abs(event.clientX - this.SCROLL_OVERLAY.getBoundingClientRect().x - this.mouseDownX) <= 5) {
@@ -346,6 +365,33 @@ export default class LineGraphRenderer implements TabRenderer {
       drawNumericFields(command.rightFields, command.rightRange);
     }
 
+    // Render annotations
+    context.strokeStyle = light ? "#ff8800" : "#ffaa00";
+    context.fillStyle = light ? "#ff8800" : "#ffaa00";
+    context.lineWidth = 1;
+    context.textAlign = "left";
+    context.textBaseline = "top";
+    command.annotations.forEach((annotation) => {
+      let startX = xScaler.calculate(annotation.start);
+      if (annotation.end !== null) {
+        let endX = clampValue(xScaler.calculate(annotation.end), graphLeft, graphLeft + graphWidth);
+        let clampedStartX = clampValue(startX, graphLeft, graphLeft + graphWidth);
+        context.globalAlpha = 0.15;
+        context.fillRect(clampedStartX, graphTop, endX - clampedStartX, graphHeight);
+        context.globalAlpha = 1;
+        discreteBorders.push(annotation.end);
+      }
+      discreteBorders.push(annotation.start);
+      if (startX < graphLeft || startX > graphLeft + graphWidth) return;
+      context.beginPath();
+      context.moveTo(startX, graphTop);
+      context.lineTo(startX, graphTop + graphHeight);
+      context.stroke();
+      if (annotation.label.length > 0) {
+        context.fillText(annotation.label, startX + 4, graphTop + 25, graphLeft + graphWidth - startX - 8);
+      }
+    });
+
     // Update hovered time based on graph layout
     if (this.lastCursorX === null || this.lastCursorX < graphLeft || this.lastCursorX > graphLeft + graphWidth) {
       if (!this.didClearHoveredTime) {
@@ -639,6 +685,7 @@ export type LineGraphRendererCommand = {
   rightFields: LineGraphRendererCommand_NumericField[];
   discreteFields: LineGraphRendererCommand_DiscreteField[];
   alerts: LineGraphRendererCommand_AlertSet;
+  annotations: Annotation[];
 };
 
 export type LineGraphRendererCommand_NumericField = {
@@ -0,0 +1,148 @@
+import { Chart, LinearScaleOptions, registerables } from "chart.js";
+import TabRenderer from "./TabRenderer";
+
+export default class SignalGeneratorRenderer implements TabRenderer {
+  private static registeredChart = false;
+
+  private MESSAGE: HTMLElement;
+  private CHART_CONTAINER: HTMLElement;
+
+  private changeCounter = -1;
+  private lastIsLight: boolean | null = null;
+  private chart: Chart;
+
+  /** Registers all Chart.js elements. */
+  private static registerChart() {
+    if (!this.registeredChart) {
+      this.registeredChart = true;
+      Chart.register(...registerables);
+    }
+  }
+
+  constructor(root: HTMLElement) {
+    this.MESSAGE = root.getElementsByClassName("tab-centered")[0] as HTMLElement;
+    this.CHART_CONTAINER = root.getElementsByClassName("signal-generator-container")[0] as HTMLElement;
+
+    // Create chart
+    SignalGeneratorRenderer.registerChart();
+    this.chart = new Chart(this.CHART_CONTAINER.firstElementChild as HTMLCanvasElement, {
+      type: "scatter",
+      data: {
+        datasets: [
+          {
+            data: [],
+            showLine: true,
+            pointRadius: 0,
+            borderColor: "#2b66a2",
+            backgroundColor: "#2b66a2"
+          },
+          {
+            data: [],
+            pointRadius: 6,
+            borderColor: "#e5b31b",
+            backgroundColor: "#e5b31b"
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: {
+          duration: 0
+        },
+        plugins: {
+          title: {
+            display: true,
+            text: ""
+          },
+          legend: {
+            display: false
+          },
+          tooltip: {
+            enabled: false
+          }
+        },
+        scales: {
+          x: {
+            type: "linear",
+            title: {
+              display: true,
+              text: "Time (s)"
+            }
+          },
+          y: {
+            type: "linear",
+            title: {
+              display: true,
+              text: "Value"
+            }
+          }
+        }
+      }
+    });
+  }
+
+  saveState(): unknown {
+    return null;
+  }
+
+  restoreState(state: unknown): void {}
+
+  getAspectRatio(): number | null {
+    return null;
+  }
+
+  render(command: SignalGeneratorRendererCommand): void {
+    // Update layout
+    let hasPreview = command.message === null;
+    this.MESSAGE.hidden = hasPreview;
+    this.MESSAGE.innerText = command.message === null ? "" : command.message;
+    this.CHART_CONTAINER.hidden = !hasPreview;
+
+    // Update chart colors
+    const isLight = !window.matchMedia("(prefers-color-scheme: dark)").matches;
+    if (isLight !== this.lastIsLight) {
+      this.lastIsLight = isLight;
+      this.chart.options.plugins!.title!.color = isLight ? "#222" : "#eee";
+      let xAxisOptions = this.chart.options.scales!.x as LinearScaleOptions;
+      let yAxisOptions = this.chart.options.scales!.y as LinearScaleOptions;
+      xAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+      yAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+      xAxisOptions.border.color = isLight ? "#222" : "#eee";
+      yAxisOptions.border.color = isLight ? "#222" : "#eee";
+      xAxisOptions.grid.color = isLight ? "#eee" : "#333";
+      yAxisOptions.grid.color = isLight ? "#eee" : "#333";
+      xAxisOptions.title.color = isLight ? "#222" : "#eee";
+      yAxisOptions.title.color = isLight ? "#222" : "#eee";
+      this.chart.update();
+    }
+
+    // Update waveform
+    let shouldUpdate = false;
+    if (command.changeCounter !== this.changeCounter) {
+      this.changeCounter = command.changeCounter;
+      this.chart.data.datasets[0].data = command.points;
+      shouldUpdate = true;
+    }
+
+    // Update current value
+    let currentData = command.current === null ? [] : [command.current];
+    if (JSON.stringify(currentData) !== JSON.stringify(this.chart.data.datasets[1].data)) {
+      this.chart.data.datasets[1].data = currentData;
+      shouldUpdate = true;
+    }
+    if (command.title !== this.chart.options.plugins!.title!.text) {
+      this.chart.options.plugins!.title!.text = command.title;
+      shouldUpdate = true;
+    }
+    if (shouldUpdate) this.chart.update();
+  }
+}
+
+export type SignalGeneratorRendererCommand = {
+  changeCounter: number;
+  message: string | null;
+  title: string;
+  points: { x: number; y: number }[];
+  current: { x: number; y: number } | null;
+};
@@ -1,6 +1,14 @@
-import { Chart, ChartDataset, LegendOptions, LinearScaleOptions, TooltipCallbacks, registerables } from "chart.js";
+import {
+  Chart,
+  ChartDataset,
+  LegendOptions,
+  LinearScaleOptions,
+  LogarithmicScaleOptions,
+  TooltipCallbacks,
+  registerables
+} from "chart.js";
 import { ensureThemeContrast } from "../Colors";
-import { cleanFloat } from "../util";
+import { cleanFloat, formatTimeWithMS } from "../util";
 import TabRenderer from "./TabRenderer";
 
 export default class StatisticsRenderer implements TabRenderer {
@@ -9,11 +17,20 @@ export default class StatisticsRenderer implements TabRenderer {
   private VALUES_TABLE_CONTAINER: HTMLElement;
   private VALUES_TABLE_BODY: HTMLElement;
   private HISTOGRAM_CONTAINER: HTMLElement;
+  private SPECTRUM_CONTAINER: HTMLElement;
+  private STEPS_CONTAINER: HTMLElement;
+  private STEPS_TABLE_BODY: HTMLElement;
+  private REPORT_CONTAINER: HTMLElement;
+  private REPORT_TABLE_BODY: HTMLElement;
+  private REPORT_COPY_BUTTON: HTMLButtonElement;
+  private REPORT_EXPORT_BUTTON: HTMLButtonElement | null;
 
   private changeCounter = -1;
   private firstRender = true;
   private lastIsLight: boolean | null = null;
   private histogram: Chart;
+  private spectrum: Chart;
+  private report: StatisticsRendererCommand_ReportRow[] = [];
 
   /** Registers all Chart.js elements. */
   private static registerChart() {
@@ -27,6 +44,31 @@ export default class StatisticsRenderer implements TabRenderer {
     this.VALUES_TABLE_CONTAINER = root.getElementsByClassName("stats-values-container")[0] as HTMLElement;
     this.VALUES_TABLE_BODY = this.VALUES_TABLE_CONTAINER.firstElementChild?.firstElementChild as HTMLElement;
     this.HISTOGRAM_CONTAINER = root.getElementsByClassName("stats-histogram-container")[0] as HTMLElement;
+    this.SPECTRUM_CONTAINER = root.getElementsByClassName("stats-spectrum-container")[0] as HTMLElement;
+    this.STEPS_CONTAINER = root.getElementsByClassName("stats-steps-container")[0] as HTMLElement;
+    this.STEPS_TABLE_BODY = this.STEPS_CONTAINER.getElementsByTagName("tbody")[0] as HTMLElement;
+    this.REPORT_CONTAINER = root.getElementsByClassName("stats-report-container")[0] as HTMLElement;
+    this.REPORT_TABLE_BODY = this.REPORT_CONTAINER.getElementsByTagName("tbody")[0] as HTMLElement;
+    this.REPORT_COPY_BUTTON = this.REPORT_CONTAINER.getElementsByClassName("copy-button")[0] as HTMLButtonElement;
+    this.REPORT_EXPORT_BUTTON =
+      (this.REPORT_CONTAINER.getElementsByClassName("export-button")[0] as HTMLButtonElement | undefined) ?? null; // Not available in satellites
+
+    // Report buttons
+    this.REPORT_COPY_BUTTON.addEventListener("click", () => {
+      navigator.clipboard.writeText(getReportText(this.report, "\t"));
+    });
+    if (this.REPORT_EXPORT_BUTTON !== null) {
+      this.REPORT_EXPORT_BUTTON.addEventListener("click", () => {
+        if (this.report.length === 0) {
+          window.sendMainMessage("error", {
+            title: "Cannot export statistics report",
+            content: "Please add a numeric field, then try again."
+          });
+        } else {
+          window.sendMainMessage("export-statistics-report", getReportText(this.report, ","));
+        }
+      });
+    }
 
     // Create chart
     StatisticsRenderer.registerChart();
@@ -66,6 +108,49 @@ export default class StatisticsRenderer implements TabRenderer {
         }
       }
     });
+    this.spectrum = new Chart(this.SPECTRUM_CONTAINER.firstElementChild as HTMLCanvasElement, {
+      type: "line",
+      data: {
+        datasets: []
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: {
+          duration: 0
+        },
+        parsing: false,
+        interaction: {
+          mode: "nearest",
+          axis: "x",
+          intersect: false
+        },
+        plugins: {
+          legend: {
+            onClick: () => {}
+          },
+          decimation: {
+            enabled: true,
+            algorithm: "min-max"
+          }
+        },
+        scales: {
+          x: {
+            type: "linear",
+            title: {
+              display: true,
+              text: "Frequency (Hz)"
+            }
+          },
+          y: {
+            type: "logarithmic",
+            title: {
+              display: true
+            }
+          }
+        }
+      }
+    });
   }
 
   saveState(): unknown {
@@ -79,23 +164,35 @@ export default class StatisticsRenderer implements TabRenderer {
   }
 
   render(command: StatisticsRendererCommand): void {
-    // Update histogram layout
-    this.HISTOGRAM_CONTAINER.style.left = (this.VALUES_TABLE_CONTAINER.offsetWidth + 10).toString() + "px";
+    // Update chart layout
+    let isSpectrum = command.mode === "fft" || command.mode === "psd";
+    this.HISTOGRAM_CONTAINER.hidden = command.mode !== "histogram";
+    this.SPECTRUM_CONTAINER.hidden = !isSpectrum;
+    this.STEPS_CONTAINER.hidden = command.mode !== "step";
+    this.REPORT_CONTAINER.hidden = command.mode !== "report";
+    this.VALUES_TABLE_CONTAINER.hidden = command.mode === "report";
+    [this.HISTOGRAM_CONTAINER, this.SPECTRUM_CONTAINER, this.STEPS_CONTAINER].forEach((container) => {
+      container.style.left = (this.VALUES_TABLE_CONTAINER.offsetWidth + 10).toString() + "px";
+    });
 
-    // Update histogram colors
+    // Update chart colors
     const isLight = !window.matchMedia("(prefers-color-scheme: dark)").matches;
     if (isLight !== this.lastIsLight) {
       this.lastIsLight = isLight;
-      (this.histogram.options.plugins!.legend as LegendOptions<"bar">).labels.color = isLight ? "#222" : "#eee";
-      let xAxisOptions = this.histogram.options.scales!.x as LinearScaleOptions;
-      let yAxisOptions = this.histogram.options.scales!.y as LinearScaleOptions;
-      xAxisOptions.ticks.color = isLight ? "#222" : "#eee";
-      yAxisOptions.ticks.color = isLight ? "#222" : "#eee";
-      xAxisOptions.border.color = isLight ? "#222" : "#eee";
-      yAxisOptions.border.color = isLight ? "#222" : "#eee";
-      xAxisOptions.grid.color = isLight ? "#eee" : "#333";
-      yAxisOptions.grid.color = isLight ? "#eee" : "#333";
-      this.histogram.update();
+      [this.histogram, this.spectrum].forEach((chart) => {
+        (chart.options.plugins!.legend as LegendOptions<"bar">).labels.color = isLight ? "#222" : "#eee";
+        let xAxisOptions = chart.options.scales!.x as LinearScaleOptions;
+        let yAxisOptions = chart.options.scales!.y as LinearScaleOptions;
+        xAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+        yAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+        xAxisOptions.border.color = isLight ? "#222" : "#eee";
+        yAxisOptions.border.color = isLight ? "#222" : "#eee";
+        xAxisOptions.grid.color = isLight ? "#eee" : "#333";
+        yAxisOptions.grid.color = isLight ? "#eee" : "#333";
+        xAxisOptions.title.color = isLight ? "#222" : "#eee";
+        yAxisOptions.title.color = isLight ? "#222" : "#eee";
+        chart.update();
+      });
     }
 
     // Update data
@@ -173,6 +270,19 @@ export default class StatisticsRenderer implements TabRenderer {
       addValues("90th Percentile", 3, (x) => x.percentile90);
       addValues("95th Percentile", 3, (x) => x.percentile95);
       addValues("99th Percentile", 3, (x) => x.percentile99);
+      if (isSpectrum) {
+        addSection("Spectrum");
+        addValues("Peak Frequency (Hz)", 3, (x) => x.peakFrequency);
+      }
+      if (command.mode === "step") {
+        addSection("Step Response (Mean)");
+        addValues("Step Count", 0, (x) => x.stepCount);
+        addValues("Rise Time (s)", 3, (x) => x.riseTime);
+        addValues("Settling Time (s)", 3, (x) => x.settlingTime);
+        addValues("Overshoot (%)", 1, (x) => x.overshoot);
+        addValues("Steady-State Error", 3, (x) => x.steadyStateError);
+        addValues("ITAE", 3, (x) => x.itae);
+      }
 
       // Update histogram data
       this.histogram.data.labels = command.bins.map((value) => value + command.stepSize / 2);
@@ -198,20 +308,163 @@ export default class StatisticsRenderer implements TabRenderer {
         return cleanFloat(min).toString() + " to " + cleanFloat(max).toString();
       };
       this.histogram.update();
+
+      // Update spectrum data
+      this.spectrum.data.datasets = command.fields.map((field) => {
+        const dataset: ChartDataset<"line"> = {
+          label: field.title.length > 20 ? "..." + field.title.slice(-20) : field.title,
+          data: field.spectrum
+            .map((value, index) => ({ x: command.frequencies[index], y: value }))
+            .filter((point) => point.y > 0), // Zero cannot be shown on a log scale
+          borderColor: ensureThemeContrast(field.color),
+          backgroundColor: ensureThemeContrast(field.color),
+          borderWidth: 1,
+          pointRadius: 0
+        };
+        return dataset;
+      });
+      (this.spectrum.options.scales!.y as LogarithmicScaleOptions).title.text =
+        command.mode === "psd" ? "Power Spectral Density (units²/Hz)" : "Amplitude";
+      this.spectrum.update();
+
+      // Update step table
+      while (this.STEPS_TABLE_BODY.firstChild) {
+        this.STEPS_TABLE_BODY.removeChild(this.STEPS_TABLE_BODY.firstChild);
+      }
+      command.fields
+        .map((field) => field.steps.map((step) => ({ field: field, step: step })))
+        .flat()
+        .sort((a, b) => a.step.start - b.step.start)
+        .forEach(({ field, step }) => {
+          let row = document.createElement("tr");
+          this.STEPS_TABLE_BODY.appendChild(row);
+          let formatValue = (value: number, digits: number) => (isNaN(value) ? "-" : value.toFixed(digits));
+          [
+            field.title,
+            formatTimeWithMS(step.start),
+            cleanFloat(step.from).toString() + " to " + cleanFloat(step.to).toString(),
+            formatValue(step.riseTime, 3),
+            formatValue(step.settlingTime, 3),
+            formatValue(step.overshoot, 1) + "%",
+            formatValue(step.steadyStateError, 3),
+            formatValue(step.itae, 3)
+          ].forEach((text, index) => {
+            let cell = document.createElement("td");
+            row.appendChild(cell);
+            cell.innerText = text;
+            if (index === 0) cell.style.color = ensureThemeContrast(field.color);
+          });
+
+          // Bind selection controls
+          row.addEventListener("mouseenter", () => {
+            window.selection.setHoveredTime(step.start);
+          });
+          row.addEventListener("mouseleave", () => {
+            window.selection.setHoveredTime(null);
+          });
+          row.addEventListener("click", () => {
+            window.selection.setSelectedTime(step.start);
+          });
+        });
+
+      // Update report table
+      this.report = command.report;
+      while (this.REPORT_TABLE_BODY.firstChild) {
+        this.REPORT_TABLE_BODY.removeChild(this.REPORT_TABLE_BODY.firstChild);
+      }
+      command.report.forEach((reportRow, rowIndex) => {
+        let row = document.createElement("tr");
+        this.REPORT_TABLE_BODY.appendChild(row);
+        if (rowIndex > 0 && command.report[rowIndex - 1].log !== reportRow.log) {
+          row.classList.add("new-log");
+        }
+        getReportRowValues(reportRow).forEach((value, index) => {
+          let cell = document.createElement("td");
+          row.appendChild(cell);
+          if (typeof value === "string") {
+            cell.innerText = value;
+          } else if (isNaN(value)) {
+            cell.innerText = "-";
+          } else {
+            cell.innerText = value.toFixed(index === 3 ? 0 : 3);
+          }
+          if (index === 2) cell.style.color = ensureThemeContrast(reportRow.color);
+        });
+      });
     }
   }
 }
 
+const REPORT_COLUMNS = [
+  "Log",
+  "Mode",
+  "Field",
+  "Count",
+  "Min",
+  "Max",
+  "Mean",
+  "Median",
+  "Quadratic Mean",
+  "Standard Deviation",
+  "5th Percentile",
+  "95th Percentile"
+];
+
+/** Returns the values for each column of a report row (see `REPORT_COLUMNS`). */
+function getReportRowValues(row: StatisticsRendererCommand_ReportRow): (string | number)[] {
+  return [
+    row.log,
+    row.robotMode,
+    row.title,
+    row.stats.count,
+    row.stats.min,
+    row.stats.max,
+    row.stats.mean,
+    row.stats.median,
+    row.stats.quadraticMean,
+    row.stats.standardDeviation,
+    row.stats.percentile05,
+    row.stats.percentile95
+  ];
+}
+
+/** Converts a report to delimited text, using full precision and leaving undefined values empty. */
+function getReportText(report: StatisticsRendererCommand_ReportRow[], delimiter: string): string {
+  let formatCell = (value: string | number): string => {
+    if (typeof value === "number") return isNaN(value) ? "" : value.toString();
+    if (delimiter === "," && (value.includes(",") || value.includes('"'))) {
+      return '"' + value.replaceAll('"', '""') + '"';
+    }
+    return value;
+  };
+  return [REPORT_COLUMNS, ...report.map(getReportRowValues)]
+    .map((values) => values.map(formatCell).join(delimiter))
+    .join("\n");
+}
+
 export type StatisticsRendererCommand = {
   changeCounter: number;
+  mode: "histogram" | "fft" | "psd" | "step" | "report";
   bins: number[];
   stepSize: number;
+  frequencies: number[];
   fields: {
     title: string;
     color: string;
     histogramCounts: number[];
+    spectrum: number[];
+    steps: StatisticsRendererCommand_Step[];
     stats: StatisticsRendererCommand_Stats;
   }[];
+  report: StatisticsRendererCommand_ReportRow[];
+};
+
+export type StatisticsRendererCommand_ReportRow = {
+  log: string;
+  robotMode: string;
+  title: string;
+  color: string;
+  stats: StatisticsRendererCommand_Stats;
 };
 
 export type StatisticsRendererCommand_Stats = {
@@ -237,4 +490,22 @@ export type StatisticsRendererCommand_Stats = {
   percentile90: number;
   percentile95: number;
   percentile99: number;
+  peakFrequency: number;
+  stepCount: number;
+  riseTime: number;
+  settlingTime: number;
+  overshoot: number;
+  steadyStateError: number;
+  itae: number;
+};
+
+export type StatisticsRendererCommand_Step = {
+  start: number;
+  from: number;
+  to: number;
+  riseTime: number;
+  settlingTime: number;
+  overshoot: number;
+  steadyStateError: number;
+  itae: number;
 };
@@ -0,0 +1,220 @@
+import { Chart, LegendOptions, LinearScaleOptions, registerables } from "chart.js";
+import { SysIdFeedback, SysIdFeedforward, SysIdMechanism } from "../SysIdAnalysis";
+import TabRenderer from "./TabRenderer";
+
+export default class SysIdRenderer implements TabRenderer {
+  private static registeredChart = false;
+
+  private MESSAGE: HTMLElement;
+  private VALUES_TABLE_CONTAINER: HTMLElement;
+  private VALUES_TABLE_BODY: HTMLElement;
+  private QUASISTATIC_CONTAINER: HTMLElement;
+  private DYNAMIC_CONTAINER: HTMLElement;
+
+  private changeCounter = -1;
+  private firstRender = true;
+  private lastIsLight: boolean | null = null;
+  private quasistaticChart: Chart;
+  private dynamicChart: Chart;
+
+  /** Registers all Chart.js elements. */
+  private static registerChart() {
+    if (!this.registeredChart) {
+      this.registeredChart = true;
+      Chart.register(...registerables);
+    }
+  }
+
+  constructor(root: HTMLElement) {
+    this.MESSAGE = root.getElementsByClassName("tab-centered")[0] as HTMLElement;
+    this.VALUES_TABLE_CONTAINER = root.getElementsByClassName("sysid-values-container")[0] as HTMLElement;
+    this.VALUES_TABLE_BODY = this.VALUES_TABLE_CONTAINER.firstElementChild?.firstElementChild as HTMLElement;
+    this.QUASISTATIC_CONTAINER = root.getElementsByClassName("sysid-quasistatic-container")[0] as HTMLElement;
+    this.DYNAMIC_CONTAINER = root.getElementsByClassName("sysid-dynamic-container")[0] as HTMLElement;
+
+    // Create charts
+    SysIdRenderer.registerChart();
+    let createChart = (container: HTMLElement, title: string, xTitle: string) =>
+      new Chart(container.firstElementChild as HTMLCanvasElement, {
+        type: "scatter",
+        data: {
+          datasets: []
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          animation: {
+            duration: 0
+          },
+          plugins: {
+            title: {
+              display: true,
+              text: title
+            },
+            legend: {
+              onClick: () => {}
+            }
+          },
+          scales: {
+            x: {
+              type: "linear",
+              title: {
+                display: true,
+                text: xTitle
+              }
+            },
+            y: {
+              type: "linear",
+              title: {
+                display: true,
+                text: "Voltage (V)"
+              }
+            }
+          }
+        }
+      });
+    this.quasistaticChart = createChart(this.QUASISTATIC_CONTAINER, "Quasistatic", "Velocity");
+    this.dynamicChart = createChart(this.DYNAMIC_CONTAINER, "Dynamic", "Acceleration");
+  }
+
+  saveState(): unknown {
+    return null;
+  }
+
+  restoreState(state: unknown): void {}
+
+  getAspectRatio(): number | null {
+    return null;
+  }
+
+  render(command: SysIdRendererCommand): void {
+    // Update layout
+    let hasResults = command.error === null;
+    this.MESSAGE.hidden = hasResults;
+    this.MESSAGE.innerText = command.error === null ? "" : command.error;
+    this.VALUES_TABLE_CONTAINER.hidden = !hasResults;
+    this.QUASISTATIC_CONTAINER.hidden = !hasResults;
+    this.DYNAMIC_CONTAINER.hidden = !hasResults;
+    [this.QUASISTATIC_CONTAINER, this.DYNAMIC_CONTAINER].forEach((container) => {
+      container.style.left = (this.VALUES_TABLE_CONTAINER.offsetWidth + 10).toString() + "px";
+    });
+
+    // Update chart colors
+    const isLight = !window.matchMedia("(prefers-color-scheme: dark)").matches;
+    if (isLight !== this.lastIsLight) {
+      this.lastIsLight = isLight;
+      [this.quasistaticChart, this.dynamicChart].forEach((chart) => {
+        chart.options.plugins!.title!.color = isLight ? "#222" : "#eee";
+        (chart.options.plugins!.legend as LegendOptions<"scatter">).labels.color = isLight ? "#222" : "#eee";
+        let xAxisOptions = chart.options.scales!.x as LinearScaleOptions;
+        let yAxisOptions = chart.options.scales!.y as LinearScaleOptions;
+        xAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+        yAxisOptions.ticks.color = isLight ? "#222" : "#eee";
+        xAxisOptions.border.color = isLight ? "#222" : "#eee";
+        yAxisOptions.border.color = isLight ? "#222" : "#eee";
+        xAxisOptions.grid.color = isLight ? "#eee" : "#333";
+        yAxisOptions.grid.color = isLight ? "#eee" : "#333";
+        xAxisOptions.title.color = isLight ? "#222" : "#eee";
+        yAxisOptions.title.color = isLight ? "#222" : "#eee";
+        chart.update();
+      });
+    }
+
+    // Update data
+    if (command.changeCounter !== this.changeCounter || this.firstRender) {
+      this.firstRender = false;
+      this.changeCounter = command.changeCounter;
+
+      // Clear values
+      while (this.VALUES_TABLE_BODY.firstChild) {
+        this.VALUES_TABLE_BODY.removeChild(this.VALUES_TABLE_BODY.firstChild);
+      }
+
+      // Add a new section header
+      let addSection = (title: string) => {
+        let row = document.createElement("tr");
+        this.VALUES_TABLE_BODY.appendChild(row);
+        row.classList.add("section");
+        let cell = document.createElement("td");
+        row.appendChild(cell);
+        cell.colSpan = 2;
+        cell.innerText = title;
+      };
+
+      // Add a new row with data
+      let addValue = (title: string, digits: number, value: number | undefined) => {
+        let row = document.createElement("tr");
+        this.VALUES_TABLE_BODY.appendChild(row);
+        row.classList.add("values");
+        let titleCell = document.createElement("td");
+        row.appendChild(titleCell);
+        titleCell.innerText = title;
+        let valueCell = document.createElement("td");
+        row.appendChild(valueCell);
+        valueCell.innerText = value === undefined || !isFinite(value) ? "-" : value.toFixed(digits);
+      };
+
+      // Add all rows
+      let feedforward = command.feedforward;
+      addSection("Feedforward");
+      addValue("kS", 5, feedforward?.kS);
+      addValue("kV", 5, feedforward?.kV);
+      addValue("kA", 5, feedforward?.kA);
+      if (command.mechanism !== "simple") {
+        addValue("kG", 5, feedforward?.kG);
+      }
+      addSection(command.loopType === "position" ? "Position Feedback" : "Velocity Feedback");
+      addValue("kP", 5, command.feedback?.kP);
+      addValue("kD", 5, command.feedback?.kD);
+      addSection("Fit Quality");
+      addValue("r²", 5, feedforward?.rSquared);
+      addValue("RMSE (V)", 5, feedforward?.rmse);
+      addValue("Samples", 0, command.sampleCount);
+      addValue("Outliers Removed", 0, command.rejectedCount);
+
+      // Update chart data
+      let updateChart = (chart: Chart, points: { x: number; y: number }[], slope: number | undefined) => {
+        let minX = points.reduce((min, point) => Math.min(min, point.x), Infinity);
+        let maxX = points.reduce((max, point) => Math.max(max, point.x), -Infinity);
+        chart.data.datasets = [
+          {
+            label: "Data",
+            data: points,
+            backgroundColor: "#2b66a2",
+            pointRadius: 1.5
+          }
+        ];
+        if (slope !== undefined && points.length > 0) {
+          chart.data.datasets.push({
+            type: "line",
+            label: "Fit",
+            data: [
+              { x: minX, y: minX * slope },
+              { x: maxX, y: maxX * slope }
+            ],
+            borderColor: "#af2437",
+            backgroundColor: "#af2437",
+            borderWidth: 2,
+            pointRadius: 0
+          });
+        }
+        chart.update();
+      };
+      updateChart(this.quasistaticChart, command.quasistaticPoints, feedforward?.kV);
+      updateChart(this.dynamicChart, command.dynamicPoints, feedforward?.kA);
+    }
+  }
+}
+
+export type SysIdRendererCommand = {
+  changeCounter: number;
+  error: string | null;
+  mechanism: SysIdMechanism;
+  loopType: "position" | "velocity";
+  feedforward: SysIdFeedforward | null;
+  feedback: SysIdFeedback | null;
+  sampleCount: number;
+  rejectedCount: number;
+  quasistaticPoints: { x: number; y: number }[];
+  dynamicPoints: { x: number; y: number }[];
+};
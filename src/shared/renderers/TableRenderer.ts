@@ -2,6 +2,7 @@ import { SelectionMode } from "../Selection";
 import { getLogValueText } from "../log/LogUtil";
 import { LogValueSetAny } from "../log/LogValueSets";
 import LoggableType from "../log/LoggableType";
+import { convertWithPreset, NoopUnitConversion, UnitConversionPreset } from "../units";
 import { arraysEqual, createUUID, formatTimeWithMS } from "../util";
 import TabRenderer from "./TabRenderer";
 
@@ -27,6 +28,7 @@ export default class TableRenderer implements TabRenderer {
   private timestamps: number[] = [];
   private lastFields: string[] = [];
   private lastFieldsAvailable: boolean[] = [];
+  private lastFormats = "";
   private lastScrollPosition: number | null = null;
   private hoverCursorY: number | null = null;
   private didClearHoveredTime = false;
@@ -98,7 +100,7 @@ export default class TableRenderer implements TabRenderer {
    */
   private scrollToSelected() {
     if (this.selectedTime !== null) {
-      let targetRow = this.timestamps.findLastIndex((timestamp) => timestamp <= this.selectedTime!);
+      let targetRow = findRowIndex(this.timestamps, this.selectedTime);
       if (targetRow === -1) targetRow = 0;
 
       const visibleHeight = this.TABLE_CONTAINER.clientHeight - this.TABLE_BODY.firstElementChild!.clientHeight;
@@ -142,6 +144,13 @@ export default class TableRenderer implements TabRenderer {
       }
       cell.title = field.key;
       textElement.innerText = field.key;
+      if (field.format.sort !== null) {
+        textElement.innerText += field.format.sort === "ascending" ? " ▲" : " ▼";
+      }
+      if (field.format.search.length > 0) {
+        textElement.innerText += " 🔍";
+        cell.title += '\nSearch: "' + field.format.search + '"';
+      }
 
       let closeButton = cell.lastElementChild as HTMLElement;
       closeButton.title = "";
@@ -161,7 +170,7 @@ export default class TableRenderer implements TabRenderer {
     let highlight = (time: number | null, className: string) => {
       this.dataRows.forEach((row) => row.classList.remove(className));
       if (time) {
-        let dataRowIndex = this.dataRowTimestamps.findLastIndex((timestamp) => timestamp <= time);
+        let dataRowIndex = findRowIndex(this.dataRowTimestamps, time);
         if (dataRowIndex !== -1 && dataRowIndex < this.dataRows.length) {
           this.dataRows[dataRowIndex].classList.add(className);
         }
@@ -208,10 +217,16 @@ export default class TableRenderer implements TabRenderer {
     {
       let fields = command.fields.map((field) => field.key);
       let fieldsAvailable = command.fields.map((field) => field.isAvailable);
-      if (!arraysEqual(fields, this.lastFields) || !arraysEqual(fieldsAvailable, this.lastFieldsAvailable)) {
+      let formats = JSON.stringify(command.fields.map((field) => field.format));
+      if (
+        !arraysEqual(fields, this.lastFields) ||
+        !arraysEqual(fieldsAvailable, this.lastFieldsAvailable) ||
+        formats !== this.lastFormats
+      ) {
         this.updateFields(command.fields);
         this.lastFields = fields;
         this.lastFieldsAvailable = fieldsAvailable;
+        this.lastFormats = formats;
       }
     }
 
@@ -288,19 +303,22 @@ export default class TableRenderer implements TabRenderer {
 
     // Get cell text
     let cellText: string[][] = [];
+    let cellChanged: boolean[][] = [];
     this.dataRowTimestamps = [];
     for (let i = dataRowStart; i < dataRowEnd; i++) {
       this.dataRowTimestamps.push(this.timestamps[i]);
       cellText.push([formatTimeWithMS(this.timestamps[i])]);
+      cellChanged.push([false]);
     }
     this.timestampRange =
       this.dataRowTimestamps.length > 0
-        ? [this.dataRowTimestamps[0], this.dataRowTimestamps[this.dataRowTimestamps.length - 1]]
+        ? [Math.min(...this.dataRowTimestamps), Math.max(...this.dataRowTimestamps)] // Rows may be sorted by value
         : null;
     command.fields.forEach((field) => {
       if (!field.isAvailable) {
         for (let i = dataRowStart; i < dataRowEnd; i++) {
           cellText[i - dataRowStart].push("null");
+          cellChanged[i - dataRowStart].push(false);
         }
       } else {
         for (let i = dataRowStart; i < dataRowEnd; i++) {
@@ -308,13 +326,18 @@ export default class TableRenderer implements TabRenderer {
           if (nextIndex === -1) nextIndex = field.data!.timestamps.length;
           if (nextIndex === 0 || field.type === null) {
             cellText[i - dataRowStart].push("null");
+            cellChanged[i - dataRowStart].push(false);
           } else {
-            let value = field.data!.values[nextIndex - 1];
-            let text = getLogValueText(value, field.type);
-            if (field.type === LoggableType.Boolean) {
-              text = (value ? "🟩" : "🟥") + " " + text;
-            }
+            let text = formatTableValue(field.data!.values[nextIndex - 1], field.type, field.format);
             cellText[i - dataRowStart].push(text);
+
+            // Check if the value changed at this row
+            let changed =
+              command.highlightChanges &&
+              nextIndex > 1 &&
+              field.data!.timestamps[nextIndex - 1] === this.timestamps[i] &&
+              formatTableValue(field.data!.values[nextIndex - 2], field.type, field.format) !== text;
+            cellChanged[i - dataRowStart].push(changed);
           }
         }
       }
@@ -335,6 +358,7 @@ export default class TableRenderer implements TabRenderer {
         if (cell.textContent !== text) {
           cell.textContent = text;
         }
+        cell.classList.toggle("changed", cellChanged[rowIndex][cellIndex]);
       });
     });
 
@@ -387,8 +411,57 @@ export type TableRendererCommand = {
     isAvailable: boolean;
     data: LogValueSetAny | null;
     type: LoggableType | null;
+    format: TableColumnFormat;
   }[];
+  highlightChanges: boolean;
   selectionMode: SelectionMode;
   selectedTime: number | null;
   hoveredTime: number | null;
 };
+
+export type TableColumnFormat = {
+  unitConversion: UnitConversionPreset;
+  precision: number | null; // Number of decimal places, or null to show the full value
+  sort: "ascending" | "descending" | null;
+  search: string; // Only show rows where the value contains this text
+};
+
+export const DefaultTableColumnFormat: TableColumnFormat = {
+  unitConversion: NoopUnitConversion,
+  precision: null,
+  sort: null,
+  search: ""
+};
+
+/** Converts a value to the text displayed in a table cell. */
+export function formatTableValue(value: any, type: LoggableType, format: TableColumnFormat): string {
+  let formatNumber = (x: number): string => {
+    let converted = convertWithPreset(x, format.unitConversion);
+    return format.precision === null ? JSON.stringify(converted) : converted.toFixed(format.precision);
+  };
+  switch (type) {
+    case LoggableType.Boolean:
+      return (value ? "🟩" : "🟥") + " " + getLogValueText(value, type);
+    case LoggableType.Number:
+      return formatNumber(value);
+    case LoggableType.NumberArray:
+      return "[" + (value as number[]).map(formatNumber).join(", ") + "]";
+    default:
+      return getLogValueText(value, type);
+  }
+}
+
+/**
+ * Returns the index of the row with the latest timestamp at or before
+ * the target time. Rows are not in chronological order when sorted by
+ * value, so every row is checked.
+ */
+function findRowIndex(timestamps: number[], time: number): number {
+  let index = -1;
+  timestamps.forEach((timestamp, i) => {
+    if (timestamp <= time && (index === -1 || timestamp >= timestamps[index])) {
+      index = i;
+    }
+  });
+  return index;
+}